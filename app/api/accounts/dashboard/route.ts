@@ -0,0 +1,96 @@
+// app/api/accounts/dashboard/route.ts
+// ホストのダッシュボード（進行中のセッションと終了したゲームの記録）
+//
+// 進行中のセッションにはトークンとホストIDを含め、別の端末からも操作を再開できるようにする
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { getRequestAccount, toAccountSummary } from '@/lib/accounts';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { errorLog } from '@/utils/validation';
+import { ErrorCode, GAME_CONSTANTS } from '@/types';
+import type {
+  DashboardArchive,
+  DashboardResponse,
+  DashboardSession,
+  GameArchive,
+  GameSession
+} from '@/types';
+
+const headers = {
+  'Content-Type': 'application/json; charset=utf-8',
+  'Cache-Control': 'no-store, max-age=0',
+};
+
+export async function GET(request: NextRequest) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const account = await getRequestAccount(request);
+
+    if (!account) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.LOGIN_REQUIRED),
+        { status: 401, headers }
+      );
+    }
+
+    const db = await getDatabase();
+
+    // 終了したゲームは記録の方に表示する
+    const sessions = await db.collection<GameSession>('sessions')
+      .find({
+        accountId: account.accountId,
+        status: { $ne: 'finished' },
+        expiresAt: { $gt: new Date() }
+      })
+      .sort({ createdAt: -1 })
+      .toArray();
+
+    const archives = await db.collection<GameArchive>('archives')
+      .find({ accountId: account.accountId })
+      .sort({ archivedAt: -1 })
+      .limit(GAME_CONSTANTS.DASHBOARD_ARCHIVE_LIMIT)
+      .toArray();
+
+    const activeSessions: DashboardSession[] = sessions.map(session => ({
+      sessionId: session.sessionId,
+      accessToken: session.accessToken,
+      hostId: session.hostId,
+      gameName: session.gameName,
+      gameType: session.gameType,
+      status: session.status,
+      playerCount: session.players.length,
+      drawCount: session.numbers.length,
+      createdAt: new Date(session.createdAt).toISOString(),
+      expiresAt: new Date(session.expiresAt).toISOString()
+    }));
+
+    const archiveSummaries: DashboardArchive[] = archives.map(archive => ({
+      sessionId: archive.sessionId,
+      accessToken: archive.accessToken,
+      gameName: archive.gameName,
+      gameType: archive.gameType,
+      playerCount: archive.players.length,
+      roundCount: archive.rounds.length,
+      // 誰も入賞しなかったゲームは全員が同順位になるため、入賞者がいる場合のみ表示する
+      winnerNames: archive.rankings
+        .filter(entry => entry.rank === 1 && (entry.totalPoints > 0 || entry.wins > 0))
+        .map(entry => entry.playerName),
+      finishedAt: new Date(archive.finishedAt).toISOString()
+    }));
+
+    const response: DashboardResponse = {
+      account: toAccountSummary(account),
+      activeSessions,
+      archives: archiveSummaries
+    };
+    return NextResponse.json(response, { headers });
+
+  } catch (error) {
+    errorLog(`ダッシュボードの取得エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500, headers }
+    );
+  }
+}
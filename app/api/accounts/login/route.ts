@@ -0,0 +1,71 @@
+// app/api/accounts/login/route.ts
+// ホストアカウントのログイン（メールアドレスとパスワード）
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  findAccountByEmail,
+  setAccountCookie,
+  startAccountLogin,
+  toAccountSummary,
+  verifyPassword
+} from '@/lib/accounts';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { consumeRateLimit, getClientIp } from '@/lib/rateLimit';
+import { normalizeEmail } from '@/utils/accounts';
+import { errorLog } from '@/utils/validation';
+import { ErrorCode, GAME_CONSTANTS } from '@/types';
+import type { AccountCredentialsRequest, AccountResponse } from '@/types';
+
+export async function POST(request: NextRequest) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const body: AccountCredentialsRequest = await request.json();
+    const { email, password } = body;
+
+    // バリデーション
+    if (typeof email !== 'string' || typeof password !== 'string' || !email.trim() || !password) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.MISSING_PARAMETERS),
+        { status: 400 }
+      );
+    }
+
+    // パスワードの総当たりを防ぐ（アカウント・送信元ごとに回数を制限）
+    const windowMinutes = GAME_CONSTANTS.AUTH_RATE_LIMIT_WINDOW_MINUTES;
+    const withinLimit =
+      await consumeRateLimit(`login:email:${normalizeEmail(email)}`, GAME_CONSTANTS.LOGIN_ATTEMPTS_PER_EMAIL, windowMinutes) &&
+      await consumeRateLimit(`login:ip:${getClientIp(request)}`, GAME_CONSTANTS.LOGIN_ATTEMPTS_PER_IP, windowMinutes);
+    if (!withinLimit) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.TOO_MANY_ATTEMPTS, { minutes: windowMinutes }),
+        { status: 429 }
+      );
+    }
+
+    // アカウントの有無が分からないよう、どの場合も同じエラーを返す
+    const account = await findAccountByEmail(email);
+    const valid = account?.passwordHash
+      ? await verifyPassword(password, account.passwordHash)
+      : false;
+
+    if (!account || !valid) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_CREDENTIALS),
+        { status: 401 }
+      );
+    }
+
+    const login = await startAccountLogin(account.accountId);
+    const accountResponse: AccountResponse = { account: toAccountSummary(account) };
+    const response = NextResponse.json(accountResponse);
+    setAccountCookie(response, login);
+    return response;
+
+  } catch (error) {
+    errorLog(`ログインエラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+// app/api/accounts/logout/route.ts
+// ホストアカウントのログアウト
+import { NextRequest, NextResponse } from 'next/server';
+import { clearAccountCookie, endAccountLogin } from '@/lib/accounts';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { errorLog } from '@/utils/validation';
+import { ErrorCode } from '@/types';
+
+export async function POST(request: NextRequest) {
+  const locale = getRequestLocale(request);
+
+  try {
+    await endAccountLogin(request);
+
+    const response = NextResponse.json({ success: true });
+    clearAccountCookie(response);
+    return response;
+
+  } catch (error) {
+    errorLog(`ログアウトエラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+// app/api/accounts/magic-link/route.ts
+// ログイン用リンクをメールで送信（アカウントがなければリンクを開いた時に作成する）
+import { NextRequest, NextResponse } from 'next/server';
+import { createMagicLinkToken } from '@/lib/accounts';
+import { canSendMail, isDevMailSink, sendMail } from '@/lib/mail';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { consumeRateLimit, getClientIp } from '@/lib/rateLimit';
+import { isValidEmail, normalizeEmail } from '@/utils/accounts';
+import { formatMessage, getMessages } from '@/utils/i18n';
+import { getConfiguredBaseUrl } from '@/utils/url';
+import { errorLog } from '@/utils/validation';
+import { ErrorCode, GAME_CONSTANTS } from '@/types';
+import type { MagicLinkRequest } from '@/types';
+
+export async function POST(request: NextRequest) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const body: MagicLinkRequest = await request.json();
+    const { email } = body;
+
+    // バリデーション
+    if (!isValidEmail(email)) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_EMAIL),
+        { status: 400 }
+      );
+    }
+
+    if (!canSendMail()) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.MAIL_NOT_CONFIGURED),
+        { status: 503 }
+      );
+    }
+
+    // hostヘッダーは偽装できるため、リンクは設定したURLからのみ作る
+    const baseUrl = getConfiguredBaseUrl();
+    if (!baseUrl) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.BASE_URL_NOT_CONFIGURED),
+        { status: 503 }
+      );
+    }
+
+    // 同じ宛先・同じ送信元からの大量送信を防ぐ
+    const windowMinutes = GAME_CONSTANTS.AUTH_RATE_LIMIT_WINDOW_MINUTES;
+    const withinLimit =
+      await consumeRateLimit(`magic-link:email:${normalizeEmail(email)}`, GAME_CONSTANTS.MAGIC_LINKS_PER_EMAIL, windowMinutes) &&
+      await consumeRateLimit(`magic-link:ip:${getClientIp(request)}`, GAME_CONSTANTS.MAGIC_LINKS_PER_IP, windowMinutes);
+    if (!withinLimit) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.TOO_MANY_ATTEMPTS, { minutes: windowMinutes }),
+        { status: 429 }
+      );
+    }
+
+    const token = await createMagicLinkToken(email);
+    const url = new URL('/api/accounts/magic-link/verify', baseUrl);
+    url.searchParams.set('token', token);
+
+    const messages = getMessages(locale).server;
+    await sendMail({
+      to: normalizeEmail(email),
+      subject: messages.magicLinkSubject,
+      text: formatMessage(messages.magicLinkText, {
+        url: url.toString(),
+        minutes: GAME_CONSTANTS.MAGIC_LINK_EXPIRY_MINUTES
+      })
+    });
+
+    // 開発環境では受信箱のページを案内する
+    return NextResponse.json({ success: true, devMailbox: isDevMailSink() });
+
+  } catch (error) {
+    errorLog(`ログイン用リンクの送信エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500 }
+    );
+  }
+}
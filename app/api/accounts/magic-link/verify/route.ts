@@ -0,0 +1,33 @@
+// app/api/accounts/magic-link/verify/route.ts
+// メールのログイン用リンクを開いた時の処理（ログインしてダッシュボードへ移動）
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  consumeMagicLinkToken,
+  findOrCreateAccount,
+  setAccountCookie,
+  startAccountLogin
+} from '@/lib/accounts';
+import { errorLog } from '@/utils/validation';
+
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token');
+
+  try {
+    // 無効・期限切れ・使用済みのリンクはログイン画面でエラーを表示する
+    const email = token ? await consumeMagicLinkToken(token) : null;
+    if (!email) {
+      return NextResponse.redirect(new URL('/host/account?error=invalid-link', request.url));
+    }
+
+    const account = await findOrCreateAccount(email);
+    const login = await startAccountLogin(account.accountId);
+
+    const response = NextResponse.redirect(new URL('/host/dashboard', request.url));
+    setAccountCookie(response, login);
+    return response;
+
+  } catch (error) {
+    errorLog(`ログイン用リンクの確認エラー: ${(error as Error).message}`);
+    return NextResponse.redirect(new URL('/host/account?error=invalid-link', request.url));
+  }
+}
@@ -0,0 +1,25 @@
+// app/api/accounts/me/route.ts
+// ログイン中のホストアカウント（未ログインは account: null）
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestAccount, toAccountSummary } from '@/lib/accounts';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { errorLog } from '@/utils/validation';
+import { ErrorCode } from '@/types';
+import type { AccountResponse } from '@/types';
+
+export async function GET(request: NextRequest) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const account = await getRequestAccount(request);
+    const response: AccountResponse = { account: account && toAccountSummary(account) };
+    return NextResponse.json(response, { headers: { 'Cache-Control': 'no-store, max-age=0' } });
+
+  } catch (error) {
+    errorLog(`アカウント取得エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500 }
+    );
+  }
+}
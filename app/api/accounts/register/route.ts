@@ -0,0 +1,68 @@
+// app/api/accounts/register/route.ts
+// ホストアカウントの登録（メールアドレスとパスワード）
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createAccount,
+  findAccountByEmail,
+  hashPassword,
+  setAccountCookie,
+  startAccountLogin,
+  toAccountSummary
+} from '@/lib/accounts';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { isValidEmail, isValidPassword } from '@/utils/accounts';
+import { errorLog } from '@/utils/validation';
+import { ErrorCode, GAME_CONSTANTS } from '@/types';
+import type { AccountCredentialsRequest, AccountResponse } from '@/types';
+
+export async function POST(request: NextRequest) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const body: AccountCredentialsRequest = await request.json();
+    const { email, password } = body;
+
+    // バリデーション
+    if (!isValidEmail(email)) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_EMAIL),
+        { status: 400 }
+      );
+    }
+
+    if (!isValidPassword(password)) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_PASSWORD, {
+          min: GAME_CONSTANTS.PASSWORD_MIN_LENGTH,
+          max: GAME_CONSTANTS.PASSWORD_MAX_LENGTH
+        }),
+        { status: 400 }
+      );
+    }
+
+    // マジックリンクで作成済みのアカウントも登録済みとして扱う（マジックリンクでログインできる）
+    const account = await findAccountByEmail(email)
+      ? null
+      : await createAccount(email, await hashPassword(password));
+
+    if (!account) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.EMAIL_ALREADY_REGISTERED),
+        { status: 409 }
+      );
+    }
+
+    const login = await startAccountLogin(account.accountId);
+    const accountResponse: AccountResponse = { account: toAccountSummary(account) };
+    const response = NextResponse.json(accountResponse);
+    setAccountCookie(response, login);
+    return response;
+
+  } catch (error) {
+    errorLog(`アカウント登録エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+// app/api/dev/mails/route.ts
+// 開発用の受信箱（開発環境で送信したメールの一覧。本番環境では404）
+import { NextRequest, NextResponse } from 'next/server';
+import { getDevMails, isDevMailSink } from '@/lib/mail';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { errorLog } from '@/utils/validation';
+import { ErrorCode } from '@/types';
+import type { DevMailsResponse } from '@/types';
+
+export async function GET(request: NextRequest) {
+  const locale = getRequestLocale(request);
+
+  if (!isDevMailSink()) {
+    return new NextResponse(null, { status: 404 });
+  }
+
+  try {
+    const response: DevMailsResponse = { mails: await getDevMails() };
+    return NextResponse.json(response, { headers: { 'Cache-Control': 'no-store, max-age=0' } });
+
+  } catch (error) {
+    errorLog(`開発用の受信箱の取得エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500 }
+    );
+  }
+}
@@ -4,7 +4,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Pusher from 'pusher';
 import { getDatabase } from '@/lib/database';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { resolveHostActorId } from '@/lib/coHosts';
+import { ErrorCode } from '@/types';
 import type { GameSession } from '@/types';
+import { findCoHost } from '@/utils/hostPermissions';
+import { getMessages } from '@/utils/i18n';
 
 // Pusherサーバーインスタンスの初期化（環境変数チェック付き）
 let pusher: Pusher;
@@ -29,13 +34,15 @@ try {
 }
 
 export async function POST(req: NextRequest) {
+  const locale = getRequestLocale(req);
+
   try {
     // Pusherが初期化されているか確認
     if (!pusher) {
       console.error('Pusher is not initialized. Check environment variables.');
       return NextResponse.json(
-        { 
-          error: 'Server configuration error',
+        {
+          ...errorBody(locale, ErrorCode.SERVER_CONFIGURATION_ERROR),
           details: 'Pusher service is not properly configured'
         },
         { status: 500 }
@@ -51,12 +58,13 @@ export async function POST(req: NextRequest) {
     let sessionId: string | null = null;
     let accessToken: string | null = null;
     let playerId: string | null = null;
+    let spectatorId: string | null = null;
     
     // 空のボディチェック
     if (!text) {
       console.error('Empty request body');
       return NextResponse.json(
-        { error: 'Empty request body' },
+        errorBody(locale, ErrorCode.INVALID_REQUEST_BODY),
         { status: 400 }
       );
     }
@@ -71,6 +79,7 @@ export async function POST(req: NextRequest) {
         sessionId = body.sessionId;
         accessToken = body.accessToken;
         playerId = body.playerId;
+        spectatorId = body.spectatorId;
         
         console.log('JSON data parsed:', {
           socket_id,
@@ -81,7 +90,7 @@ export async function POST(req: NextRequest) {
       } catch (error) {
         console.error('Failed to parse JSON:', error);
         return NextResponse.json(
-          { error: 'Invalid JSON format' },
+          errorBody(locale, ErrorCode.INVALID_REQUEST_BODY),
           { status: 400 }
         );
       }
@@ -94,6 +103,7 @@ export async function POST(req: NextRequest) {
         sessionId = params.get('sessionId');
         accessToken = params.get('accessToken');
         playerId = params.get('playerId');
+        spectatorId = params.get('spectatorId');
         
         console.log('URL-encoded data parsed:', {
           socket_id,
@@ -104,7 +114,7 @@ export async function POST(req: NextRequest) {
       } catch (error) {
         console.error('Failed to parse URL-encoded data:', error);
         return NextResponse.json(
-          { error: 'Invalid URL-encoded format' },
+          errorBody(locale, ErrorCode.INVALID_REQUEST_BODY),
           { status: 400 }
         );
       }
@@ -114,7 +124,7 @@ export async function POST(req: NextRequest) {
     if (!socket_id || !channel_name) {
       console.error('Missing required parameters:', { socket_id, channel_name });
       return NextResponse.json(
-        { error: 'Missing socket_id or channel_name' },
+        errorBody(locale, ErrorCode.MISSING_PARAMETERS),
         { status: 400 }
       );
     }
@@ -122,7 +132,7 @@ export async function POST(req: NextRequest) {
     if (!sessionId || !accessToken) {
       console.error('Missing authentication parameters:', { sessionId, accessToken });
       return NextResponse.json(
-        { error: 'Missing authentication parameters' },
+        errorBody(locale, ErrorCode.MISSING_PARAMETERS),
         { status: 401 }
       );
     }
@@ -132,7 +142,7 @@ export async function POST(req: NextRequest) {
     if (channel_name !== expectedChannelName) {
       console.error(`Invalid channel name: expected ${expectedChannelName}, got ${channel_name}`);
       return NextResponse.json(
-        { error: 'Invalid channel name' },
+        errorBody(locale, ErrorCode.INVALID_CHANNEL),
         { status: 403 }
       );
     }
@@ -144,8 +154,8 @@ export async function POST(req: NextRequest) {
     } catch (dbError) {
       console.error('Database connection error:', dbError);
       return NextResponse.json(
-        { 
-          error: 'Database connection error',
+        {
+          ...errorBody(locale, ErrorCode.DATABASE_ERROR),
           details: 'Unable to connect to database'
         },
         { status: 500 }
@@ -160,7 +170,7 @@ export async function POST(req: NextRequest) {
     if (!session) {
       console.error(`Session not found for sessionId: ${sessionId}`);
       return NextResponse.json(
-        { error: 'Invalid session or access token' },
+        errorBody(locale, ErrorCode.SESSION_AUTH_FAILED),
         { status: 401 }
       );
     }
@@ -168,24 +178,40 @@ export async function POST(req: NextRequest) {
     // ユーザー情報を準備
     let userInfo;
     let userId;
+    // 共同ホストはトークンを検証し、プレゼンスには公開しているIDを使う
+    const hostActorId = resolveHostActorId(session, playerId);
+    const coHost = findCoHost(session, hostActorId);
+    // 表示名は参加者全員に見えるため、セッションの言語にする
+    const messages = getMessages(session.locale).server;
 
     if (playerId === session.hostId) {
       // ホストの場合
       userId = session.hostId;
       userInfo = {
         id: session.hostId,
-        name: 'ホスト',
+        name: messages.presenceHostName,
         role: 'host' as const,
         isHost: true,
       };
       console.log('Authenticating host:', { userId });
+    } else if (coHost) {
+      // 共同ホストの場合（メインのホストと区別できるよう別の役割にする）
+      userId = coHost.id;
+      userInfo = {
+        id: coHost.id,
+        name: coHost.name,
+        role: 'co-host' as const,
+        isHost: false,
+        permissions: coHost.permissions,
+      };
+      console.log('Authenticating co-host:', { userId, name: coHost.name });
     } else if (playerId) {
       // プレイヤーの場合
       const player = session.players.find(p => p.id === playerId);
       if (!player) {
         console.error(`Player not found in session: ${playerId}`);
         return NextResponse.json(
-          { error: 'Player not found in session' },
+          errorBody(locale, ErrorCode.PLAYER_NOT_FOUND),
           { status: 403 }
         );
       }
@@ -201,11 +227,19 @@ export async function POST(req: NextRequest) {
       };
       console.log('Authenticating player:', { userId, name: player.name });
     } else {
-      // playerIdが指定されていない場合（観戦者など）
-      userId = `observer-${Date.now()}`;
+      // playerIdが指定されていない場合（観戦者）
+      if (!session.rules?.allowSpectators) {
+        console.error(`Spectating is disabled for session: ${sessionId}`);
+        return NextResponse.json(
+          errorBody(locale, ErrorCode.SPECTATING_DISABLED),
+          { status: 403 }
+        );
+      }
+
+      userId = `observer-${spectatorId || Date.now()}`;
       userInfo = {
         id: userId,
-        name: 'Observer',
+        name: messages.presenceObserverName,
         role: 'observer' as const,
         isHost: false,
       };
@@ -232,7 +266,7 @@ export async function POST(req: NextRequest) {
     });
 
     // 認証成功時、最終アクティブ時刻を更新
-    if (playerId && playerId !== session.hostId) {
+    if (playerId && !hostActorId) {
       await db.collection<GameSession>('sessions').updateOne(
         { sessionId, 'players.id': playerId },
         { 
@@ -252,7 +286,7 @@ export async function POST(req: NextRequest) {
     console.error('Pusher auth error:', errorMessage);
     
     return NextResponse.json(
-      { error: 'Authentication failed', details: errorMessage },
+      { ...errorBody(locale, ErrorCode.AUTHENTICATION_FAILED), details: errorMessage },
       { status: 500 }
     );
   }
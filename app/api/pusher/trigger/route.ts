@@ -1,9 +1,24 @@
 // app/api/pusher/trigger/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import Pusher from 'pusher';
+import { nanoid } from 'nanoid';
 import { getDatabase } from '@/lib/database';
-import type { GameSession } from '@/types';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { ErrorCode } from '@/types';
+import type { BingoClaim, GameSession, PrizeWonEventData } from '@/types';
 import { errorLog, debugLog } from '@/utils/validation';
+import { checkBingoOnCards, getNinetyBallPrize } from '@/utils/gameUtils';
+import { getPlayerBoards } from '@/utils/bingo';
+import { resolvePatterns } from '@/utils/patterns';
+import { resolveDaubMode, resolveHostAdjudication, shouldQueueClaim } from '@/utils/claims';
+import { createDrawCommitment, getDrawSeed } from '@/lib/fairness';
+import { drawNextNumber } from '@/lib/draw';
+import { saveGameArchive } from '@/lib/archives';
+import { resolveHostActorId } from '@/lib/coHosts';
+import { resolveDrawMode } from '@/utils/ballMachine';
+import { canPlayerWin } from '@/utils/lateJoin';
+import { hasHostPermission } from '@/utils/hostPermissions';
+import { toPublicSession } from '@/utils/publicSession';
 
 // Pusherサーバーインスタンス（シングルトン）
 const pusher = new Pusher({
@@ -15,6 +30,8 @@ const pusher = new Pusher({
 });
 
 export async function POST(req: NextRequest) {
+  const locale = getRequestLocale(req);
+
   try {
     const body = await req.json();
     const { sessionId, accessToken, playerId, eventName, data } = body;
@@ -22,7 +39,7 @@ export async function POST(req: NextRequest) {
     // 必須パラメータの検証
     if (!sessionId || !accessToken || !eventName) {
       return NextResponse.json(
-        { error: 'Missing required parameters' },
+        errorBody(locale, ErrorCode.MISSING_PARAMETERS),
         { status: 400 }
       );
     }
@@ -36,17 +53,18 @@ export async function POST(req: NextRequest) {
 
     if (!session) {
       return NextResponse.json(
-        { error: 'Invalid session or access token' },
+        errorBody(locale, ErrorCode.SESSION_AUTH_FAILED),
         { status: 401 }
       );
     }
 
-    // プレイヤー認証（playerIdが提供された場合）
+    // プレイヤー認証（playerIdが提供された場合。共同ホストはトークンを検証する）
+    const hostActorId = resolveHostActorId(session, playerId);
     if (playerId) {
       const player = session.players.find(p => p.id === playerId);
-      if (!player && session.hostId !== playerId) {
+      if (!player && !hostActorId) {
         return NextResponse.json(
-          { error: 'Player not found in session' },
+          errorBody(locale, ErrorCode.PLAYER_NOT_FOUND),
           { status: 403 }
         );
       }
@@ -60,17 +78,17 @@ export async function POST(req: NextRequest) {
     switch (eventName) {
       case 'start_game':
       case 'client-start-game':
-        // ホストのみがゲーム開始可能
-        if (playerId !== session.hostId) {
+        // ホスト（ゲーム進行の権限を持つ共同ホストを含む）のみがゲーム開始可能
+        if (!hasHostPermission(session, hostActorId, 'manage-game')) {
           return NextResponse.json(
-            { error: 'Only host can start the game' },
+            errorBody(locale, ErrorCode.HOST_PERMISSION_REQUIRED),
             { status: 403 }
           );
         }
         
-        // セッション状態を更新
-        await db.collection<GameSession>('sessions').updateOne(
-          { sessionId },
+        // 待機中のセッションのみ開始する（開始済みのゲームでシードを作り直さないよう、状態の変更を条件にする）
+        const startResult = await db.collection<GameSession>('sessions').updateOne(
+          { sessionId, status: 'waiting' },
           { 
             $set: { 
               status: 'playing',
@@ -78,10 +96,28 @@ export async function POST(req: NextRequest) {
             }
           }
         );
+
+        if (startResult.matchedCount === 0) {
+          return NextResponse.json(
+            errorBody(locale, ErrorCode.GAME_ALREADY_STARTED),
+            { status: 409 }
+          );
+        }
+
+        // 開始を確定してから抽選順のシードを作り、ハッシュのみ公開する
+        // （ワードビンゴ・抽選機モードはホストが番号を決めるため対象外）
+        const fairness = session.gameType !== 'words' && resolveDrawMode(session.rules, session.gameType) === 'server'
+          ? await createDrawCommitment(sessionId, session.expiresAt)
+          : undefined;
+
+        if (fairness) {
+          await db.collection<GameSession>('sessions').updateOne({ sessionId }, { $set: { fairness } });
+        }
         
         processedData = {
           sessionId,
           startedAt: new Date().toISOString(),
+          fairness,
         };
 
         // ★ 修正: ゲストが待っている 'game-started' イベントを送信
@@ -91,7 +127,7 @@ export async function POST(req: NextRequest) {
         // session-updated も送信
         const updatedSessionForStart = await db.collection<GameSession>('sessions').findOne({ sessionId });
         if (updatedSessionForStart) {
-          await pusher.trigger(channelName, 'session-updated', { session: updatedSessionForStart });
+          await pusher.trigger(channelName, 'session-updated', { session: toPublicSession(updatedSessionForStart) });
         }
 
         // 早期リターン（後の汎用処理をスキップ）
@@ -103,85 +139,193 @@ export async function POST(req: NextRequest) {
 
       case 'draw_number':
       case 'client-draw-number':
-        // ホストのみが番号を引ける
-        if (playerId !== session.hostId) {
+        // ホスト（抽選の権限を持つ共同ホストを含む）のみが番号を引ける
+        if (!hasHostPermission(session, hostActorId, 'draw')) {
           return NextResponse.json(
-            { error: 'Only host can draw numbers' },
+            errorBody(locale, ErrorCode.HOST_PERMISSION_REQUIRED),
             { status: 403 }
           );
         }
 
-        const { number } = data;
-        
-        // 番号の重複チェック
-        if (session.numbers.includes(number)) {
+        // POST /draw と同じ処理で範囲・重複を検証して記録する
+        const drawResult = await drawNextNumber(session, {
+          calledNumber: data?.number !== undefined ? Number(data.number) : undefined,
+          locale
+        });
+
+        if (!drawResult.ok) {
           return NextResponse.json(
-            { error: 'Number already drawn' },
-            { status: 400 }
+            errorBody(locale, drawResult.code, drawResult.params),
+            { status: drawResult.status }
           );
         }
 
-        // セッションに番号を追加
-        const updatedNumbers = [...session.numbers, number];
-        await db.collection<GameSession>('sessions').updateOne(
-          { sessionId },
-          { 
-            $set: { 
-              currentNumber: number,
-              numbers: updatedNumbers 
-            }
-          }
-        );
+        await pusher.trigger(channelName, 'number-drawn', drawResult.eventData);
+        for (const award of drawResult.prizeAwards) {
+          const prizeEventData: PrizeWonEventData = { award };
+          await pusher.trigger(channelName, 'prize-won', prizeEventData);
+        }
 
-        processedData = {
-          number,
-          drawnNumbers: updatedNumbers,
-          allNumbers: updatedNumbers,
-          timestamp: new Date().toISOString(),
-        };
-        updateSession = true;
-        break;
+        return NextResponse.json({
+          success: true,
+          event: 'number-drawn',
+          channel: channelName
+        });
 
-      case 'reset_game':
-      case 'client-reset-game':
-        // ホストのみがリセット可能
-        if (playerId !== session.hostId) {
+      case 'end_game':
+      case 'client-end-game': {
+        // ホスト（ゲーム進行の権限を持つ共同ホストを含む）のみがゲーム終了可能
+        if (!hasHostPermission(session, hostActorId, 'manage-game')) {
           return NextResponse.json(
-            { error: 'Only host can reset the game' },
+            errorBody(locale, ErrorCode.HOST_PERMISSION_REQUIRED),
             { status: 403 }
           );
         }
 
-        // セッションをリセット
+        const finishedAt = new Date();
+
+        // シードを公開して、誰でも抽選順を検証できるようにする
+        const seed = session.fairness ? await getDrawSeed(sessionId) : null;
+        const revealedFairness = session.fairness && seed
+          ? { ...session.fairness, seed, revealedAt: finishedAt.toISOString() }
+          : session.fairness;
+
         await db.collection<GameSession>('sessions').updateOne(
           { sessionId },
-          { 
-            $set: { 
-              status: 'waiting',
-              numbers: [],
-              currentNumber: null,
+          {
+            $set: {
+              status: 'finished',
+              finishedAt,
+              ...(revealedFairness && { fairness: revealedFairness })
             },
-            $unset: {
-              startedAt: 1
-            }
+            $unset: { autoDraw: '' }
           }
         );
-        
-        processedData = { sessionId };
-        updateSession = true;
-        break;
+
+        await pusher.trigger(channelName, 'game-ended', {
+          sessionId,
+          finishedAt: finishedAt.toISOString(),
+          fairness: revealedFairness
+        });
+        debugLog(`Game ended event sent: game-ended`, { channel: channelName });
+
+        const updatedSessionForEnd = await db.collection<GameSession>('sessions').findOne({ sessionId });
+        if (updatedSessionForEnd) {
+          // セッションは有効期限で削除されるため、結果を有効期限のない記録として残す
+          // 記録に失敗してもゲームの終了は取り消さない
+          try {
+            await saveGameArchive(updatedSessionForEnd);
+          } catch (archiveError) {
+            errorLog(`ゲームの記録の保存エラー: ${(archiveError as Error).message}`);
+          }
+
+          await pusher.trigger(channelName, 'session-updated', { session: toPublicSession(updatedSessionForEnd) });
+        }
+
+        return NextResponse.json({
+          success: true,
+          event: 'game-ended',
+          channel: channelName
+        });
+      }
 
       case 'bingo_achieved':
         // ビンゴ達成の処理
         const achievingPlayer = session.players.find(p => p.id === playerId);
         if (!achievingPlayer) {
           return NextResponse.json(
-            { error: 'Player not found' },
+            errorBody(locale, ErrorCode.PLAYER_NOT_FOUND),
             { status: 404 }
           );
         }
 
-        const newBingoCount = data.bingoCount || 1;
+        // 手動マークのセッションはマーク付きの申告（/claims）でのみ受け付ける
+        if (resolveDaubMode(session.rules) === 'manual') {
+          return NextResponse.json(
+            errorBody(locale, ErrorCode.CLAIM_REQUIRED),
+            { status: 400 }
+          );
+        }
+
+        // 途中参加で入賞が次のラウンドからのプレイヤーは記録しない
+        if (!canPlayerWin(achievingPlayer)) {
+          return NextResponse.json(
+            errorBody(locale, ErrorCode.LATE_JOINER_CANNOT_WIN),
+            { status: 403 }
+          );
+        }
+
+        // 申告内容は信用せず、保存済みのカードと抽選済み番号からサーバー側で判定する
+        // 複数カードの場合は最も多く揃ったカードをビンゴしたカードとする
+        const achievingBoards = getPlayerBoards(achievingPlayer);
+        const verification = checkBingoOnCards(
+          achievingBoards,
+          session.numbers || [],
+          resolvePatterns(session.rules)
+        );
+
+        if (!verification.isBingo) {
+          errorLog(`Rejected bingo claim from ${achievingPlayer.name}: no completed line`, {
+            claimedCount: data?.bingoCount,
+            claimedLines: data?.lines
+          });
+          return NextResponse.json(
+            errorBody(locale, ErrorCode.BINGO_NOT_VERIFIED),
+            { status: 400 }
+          );
+        }
+
+        const newBingoCount = verification.bingoLines;
+
+        // 90ボールは揃った行数で 1ライン / 2ライン / フルハウス を判定
+        const prize = session.gameType === '90ball'
+          ? getNinetyBallPrize(newBingoCount) ?? undefined
+          : undefined;
+
+        if (data?.bingoCount !== newBingoCount) {
+          debugLog(`Corrected bingo claim from ${achievingPlayer.name}: ${data?.bingoCount} -> ${newBingoCount}`);
+        }
+
+        // ホスト確認ありの場合は確認待ちの申告として登録し、承認されるまで発表しない
+        if (resolveHostAdjudication(session.rules)) {
+          if (!shouldQueueClaim(session.claims, playerId, newBingoCount)) {
+            return NextResponse.json({
+              success: true,
+              event: 'claim-result',
+              channel: channelName
+            });
+          }
+
+          const drawnSet = new Set(session.numbers || []);
+          const pendingClaim: BingoClaim = {
+            id: nanoid(10),
+            playerId,
+            playerName: achievingPlayer.name,
+            cardIndex: verification.cardIndex,
+            marks: achievingBoards[verification.cardIndex].flat().filter(num => num !== 0 && drawnSet.has(num)),
+            status: 'pending',
+            lines: verification.winningPatterns,
+            bingoCount: newBingoCount,
+            completedPatterns: verification.completedPatterns,
+            drawCount: (session.numbers || []).length,
+            claimedAt: new Date().toISOString()
+          };
+
+          await db.collection<GameSession>('sessions').updateOne(
+            { sessionId },
+            { $push: { claims: pendingClaim } }
+          );
+
+          await pusher.trigger(channelName, 'claim-result', { claim: pendingClaim });
+
+          debugLog(`Queued bingo claim from ${achievingPlayer.name} for host review`);
+
+          return NextResponse.json({
+            success: true,
+            event: 'claim-result',
+            channel: channelName
+          });
+        }
 
         // bingoAchievedAtは初回のみ設定（既存の値を保持）
         const bingoAchievedAt = achievingPlayer.bingoAchievedAt || new Date().toISOString();
@@ -203,7 +347,10 @@ export async function POST(req: NextRequest) {
             bingoCount: newBingoCount
           },
           bingoCount: newBingoCount,
-          lines: data.lines || [],
+          lines: verification.winningPatterns,
+          completedPatterns: verification.completedPatterns,
+          prize,
+          cardIndex: verification.cardIndex,
           achievedAt: bingoAchievedAt  // 初回の時刻を使用
         };
         
@@ -224,7 +371,7 @@ export async function POST(req: NextRequest) {
         const reachingPlayer = session.players.find(p => p.id === playerId);
         if (!reachingPlayer) {
           return NextResponse.json(
-            { error: 'Player not found' },
+            errorBody(locale, ErrorCode.PLAYER_NOT_FOUND),
             { status: 404 }
           );
         }
@@ -234,6 +381,7 @@ export async function POST(req: NextRequest) {
           playerName: data.playerName || reachingPlayer.name,
           reachCount: data.reachCount || 1,
           reachLines: data.reachLines || [],
+          cardIndex: data.cardIndex,
           achievedAt: new Date().toISOString()
         };
         
@@ -258,20 +406,63 @@ export async function POST(req: NextRequest) {
         const player = session.players.find(p => p.id === playerId);
         if (!player) {
           return NextResponse.json(
-            { error: 'Player not found' },
+            errorBody(locale, ErrorCode.PLAYER_NOT_FOUND),
             { status: 404 }
           );
         }
 
+        if (resolveDaubMode(session.rules) === 'manual') {
+          return NextResponse.json(
+            errorBody(locale, ErrorCode.CLAIM_REQUIRED),
+            { status: 400 }
+          );
+        }
+
+        // ホスト確認ありの場合は未承認のビンゴを配信しない
+        if (resolveHostAdjudication(session.rules)) {
+          return NextResponse.json(
+            errorBody(locale, ErrorCode.HOST_APPROVAL_REQUIRED),
+            { status: 400 }
+          );
+        }
+
+        // こちらも申告値ではなく検証済みのライン数を配信する
+        const legacyVerification = checkBingoOnCards(
+          getPlayerBoards(player),
+          session.numbers || [],
+          resolvePatterns(session.rules)
+        );
+        if (!legacyVerification.isBingo) {
+          return NextResponse.json(
+            errorBody(locale, ErrorCode.BINGO_NOT_VERIFIED),
+            { status: 400 }
+          );
+        }
+
         processedData = {
           player,
-          bingoCount: data.bingoCount || 1,
+          bingoCount: legacyVerification.bingoLines,
         };
         break;
 
+      case 'joinGame':
+      case 'client-join-game':
+        // 待機画面への入室通知（参加済みのプレイヤーのみ）
+        if (!playerId) {
+          return NextResponse.json(
+            errorBody(locale, ErrorCode.MISSING_PARAMETERS),
+            { status: 400 }
+          );
+        }
+        processedData = { sessionId, userId: playerId, role: 'player' };
+        break;
+
       default:
-        // その他のカスタムイベント
-        debugLog(`Triggering custom event: ${eventName}`, data);
+        // サーバーが送るイベント（player-kicked・prize-wonなど）やリセットはそれぞれのAPIからのみ送信する
+        return NextResponse.json(
+          errorBody(locale, ErrorCode.EVENT_NOT_ALLOWED),
+          { status: 400 }
+        );
     }
 
     // イベント名をPusher互換に変換（client-プレフィックスを除去）
@@ -300,7 +491,7 @@ export async function POST(req: NextRequest) {
         await pusher.trigger(
           channelName,
           'session-updated',
-          { session: updatedSession }
+          { session: toPublicSession(updatedSession) }
         );
       }
     }
@@ -316,7 +507,7 @@ export async function POST(req: NextRequest) {
     const errorMessage = error instanceof Error ? error.message : 'Failed to trigger Pusher event';
     errorLog(`Pusher trigger error: ${errorMessage}`);
     return NextResponse.json(
-      { error: errorMessage },
+      { ...errorBody(locale, ErrorCode.INTERNAL_ERROR), details: errorMessage },
       { status: 500 }
     );
   }
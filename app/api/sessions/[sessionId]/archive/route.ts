@@ -0,0 +1,67 @@
+// app/api/sessions/[sessionId]/archive/route.ts
+// ゲームの記録の取得API
+//
+// セッションが有効期限で削除された後も、結果ページが順位と抽選順を表示できるようにする
+// 閲覧にはセッションと同じアクセストークンが必要
+import { NextRequest, NextResponse } from 'next/server';
+import { WithId } from 'mongodb';
+import { findGameArchive } from '@/lib/archives';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { errorLog } from '@/utils/validation';
+import { ErrorCode } from '@/types';
+import type { APIRouteContext, GameArchive, SessionRouteParams } from '@/types';
+
+const headers = {
+  'Content-Type': 'application/json; charset=utf-8',
+  'Cache-Control': 'no-store, max-age=0',
+};
+
+export async function GET(
+  request: NextRequest,
+  context: APIRouteContext<SessionRouteParams>
+) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const { sessionId } = await context.params;
+
+    // Authorizationヘッダーからトークンを取得
+    const accessToken = request.headers.get('Authorization')?.replace('Bearer ', '');
+
+    if (!sessionId || !/^[A-Z0-9]{6}$/.test(sessionId)) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_SESSION_ID),
+        { status: 400, headers }
+      );
+    }
+
+    if (!accessToken) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_ACCESS_TOKEN),
+        { status: 401, headers }
+      );
+    }
+
+    const archive = await findGameArchive(sessionId, accessToken);
+
+    if (!archive) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.ARCHIVE_NOT_FOUND),
+        { status: 404, headers }
+      );
+    }
+
+    // MongoDBの_idフィールドを除外して返す
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { _id, ...archiveData } = archive as WithId<GameArchive>;
+
+    return NextResponse.json(archiveData, { status: 200, headers });
+
+  } catch (error) {
+    errorLog(`ゲームの記録の取得エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500, headers }
+    );
+  }
+}
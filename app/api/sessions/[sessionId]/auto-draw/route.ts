@@ -0,0 +1,215 @@
+// app/api/sessions/[sessionId]/auto-draw/route.ts
+// 自動抽選の開始・一時停止・再開・停止API（ホストのみ）
+//
+// 次の抽選予定時刻はセッションに保存し、実際の抽選は draw/tick への依頼で行う。
+// ホストのタブがスリープしても、接続中のゲストが依頼するためゲームは止まらない
+import { NextRequest, NextResponse } from 'next/server';
+import Pusher from 'pusher';
+import { getDatabase } from '@/lib/database';
+import { scheduleNextAutoDraw } from '@/lib/draw';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { resolveHostActorId } from '@/lib/coHosts';
+import { debugLog, errorLog } from '@/utils/validation';
+import { resolveDrawMode } from '@/utils/ballMachine';
+import { hasHostPermission } from '@/utils/hostPermissions';
+import { GAME_CONSTANTS, ErrorCode } from '@/types';
+import type {
+  APIRouteContext,
+  AutoDrawAction,
+  AutoDrawRequest,
+  AutoDrawResponse,
+  AutoDrawState,
+  AutoDrawStatus,
+  AutoDrawUpdatedEventData,
+  GameSession,
+  SessionRouteParams
+} from '@/types';
+
+// Pusherインスタンス初期化
+const pusher = new Pusher({
+  appId: process.env.PUSHER_APP_ID!,
+  key: process.env.PUSHER_KEY!,
+  secret: process.env.PUSHER_SECRET!,
+  cluster: process.env.PUSHER_CLUSTER!,
+  useTLS: true
+});
+
+const AUTO_DRAW_ACTIONS: AutoDrawAction[] = ['start', 'pause', 'resume', 'stop'];
+
+// 各操作を行える現在の状態（undefined: 自動抽選なし）
+const ALLOWED_STATUS: Record<AutoDrawAction, (AutoDrawStatus | undefined)[]> = {
+  start: [undefined, 'running', 'paused'],
+  pause: ['running'],
+  resume: ['paused'],
+  stop: ['running', 'paused']
+};
+
+/**
+ * 抽選間隔の指定を検証（未指定はデフォルト）
+ */
+function sanitizeInterval(input: unknown): number | null {
+  if (input === undefined) return GAME_CONSTANTS.AUTO_DRAW_DEFAULT_INTERVAL;
+  if (
+    typeof input !== 'number' ||
+    !Number.isInteger(input) ||
+    input < GAME_CONSTANTS.AUTO_DRAW_MIN_INTERVAL ||
+    input > GAME_CONSTANTS.AUTO_DRAW_MAX_INTERVAL
+  ) {
+    return null;
+  }
+  return input;
+}
+
+export async function POST(
+  request: NextRequest,
+  context: APIRouteContext<SessionRouteParams>
+) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const { sessionId } = await context.params;
+    const body: AutoDrawRequest = await request.json();
+    const { accessToken, hostId, action } = body;
+
+    // バリデーション
+    if (!sessionId || !accessToken || !hostId || !action) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.MISSING_PARAMETERS),
+        { status: 400 }
+      );
+    }
+
+    if (!AUTO_DRAW_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_ACTION),
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const sessionsCollection = db.collection<GameSession>('sessions');
+
+    const session = await sessionsCollection.findOne({ sessionId, accessToken });
+
+    if (!session) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.SESSION_AUTH_FAILED),
+        { status: 404 }
+      );
+    }
+
+    // ホスト権限チェック（共同ホストは抽選の権限が必要）
+    if (!hasHostPermission(session, resolveHostActorId(session, hostId), 'draw')) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.HOST_PERMISSION_REQUIRED),
+        { status: 403 }
+      );
+    }
+
+    if (session.status !== 'playing' && action !== 'stop') {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.GAME_NOT_PLAYING),
+        { status: 400 }
+      );
+    }
+
+    // 抽選機モードはホストが番号を入力するため自動抽選できない
+    if (action === 'start' && resolveDrawMode(session.rules, session.gameType) === 'machine') {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.AUTO_DRAW_NOT_AVAILABLE),
+        { status: 400 }
+      );
+    }
+
+    const currentStatus = session.autoDraw?.status;
+    if (!ALLOWED_STATUS[action].includes(currentStatus)) {
+      return NextResponse.json(
+        errorBody(locale, currentStatus ? ErrorCode.AUTO_DRAW_INVALID_STATE : ErrorCode.AUTO_DRAW_NOT_STARTED),
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    let autoDraw: AutoDrawState | null;
+
+    switch (action) {
+      case 'start': {
+        const intervalSeconds = sanitizeInterval(body.intervalSeconds);
+        if (intervalSeconds === null) {
+          return NextResponse.json(
+            errorBody(locale, ErrorCode.INVALID_AUTO_DRAW_INTERVAL, {
+              min: GAME_CONSTANTS.AUTO_DRAW_MIN_INTERVAL,
+              max: GAME_CONSTANTS.AUTO_DRAW_MAX_INTERVAL
+            }),
+            { status: 400 }
+          );
+        }
+        autoDraw = scheduleNextAutoDraw(intervalSeconds, now);
+        break;
+      }
+      case 'pause': {
+        // 次の抽選までの残り時間を保存し、再開時に続きからカウントダウンする
+        const nextDrawAt = new Date(session.autoDraw!.nextDrawAt ?? now).getTime();
+        autoDraw = {
+          status: 'paused',
+          intervalSeconds: session.autoDraw!.intervalSeconds,
+          remainingMs: Math.max(0, nextDrawAt - now.getTime()),
+          updatedAt: now.toISOString()
+        };
+        break;
+      }
+      case 'resume': {
+        const { intervalSeconds, remainingMs = intervalSeconds * 1000 } = session.autoDraw!;
+        autoDraw = {
+          status: 'running',
+          intervalSeconds,
+          nextDrawAt: new Date(now.getTime() + remainingMs).toISOString(),
+          updatedAt: now.toISOString()
+        };
+        break;
+      }
+      case 'stop':
+        autoDraw = null;
+        break;
+    }
+
+    // 読み込み後に他の操作や抽選で状態が変わっていれば更新しない
+    const updateResult = await sessionsCollection.updateOne(
+      {
+        sessionId,
+        'autoDraw.updatedAt': session.autoDraw?.updatedAt ?? { $exists: false }
+      },
+      autoDraw
+        ? { $set: { autoDraw, updatedAt: now } }
+        : { $unset: { autoDraw: '' }, $set: { updatedAt: now } }
+    );
+
+    if (updateResult.matchedCount === 0) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.AUTO_DRAW_CONFLICT),
+        { status: 409 }
+      );
+    }
+
+    debugLog('自動抽選を更新', { sessionId, action, autoDraw });
+
+    const serverTime = new Date().toISOString();
+
+    try {
+      const eventData: AutoDrawUpdatedEventData = { autoDraw, serverTime };
+      await pusher.trigger(`presence-session-${sessionId}`, 'auto-draw-updated', eventData);
+    } catch (pusherError) {
+      errorLog(`Pusherイベント送信エラー: ${(pusherError as Error).message}`);
+    }
+
+    const response: AutoDrawResponse = { success: true, autoDraw, serverTime };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    errorLog(`自動抽選操作エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,239 @@
+// app/api/sessions/[sessionId]/claims/[claimId]/route.ts
+// ホストによるビンゴ申告の承認・却下API
+import { NextRequest, NextResponse } from 'next/server';
+import Pusher from 'pusher';
+import { getDatabase } from '@/lib/database';
+import { recordPrizeAwards } from '@/lib/prizes';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { resolveHostActorId } from '@/lib/coHosts';
+import { getMessages } from '@/utils/i18n';
+import { debugLog, errorLog } from '@/utils/validation';
+import { getNinetyBallPrize } from '@/utils/gameUtils';
+import { getPlayerBoards } from '@/utils/bingo';
+import { evaluateClaim } from '@/utils/claims';
+import { resolvePatterns } from '@/utils/patterns';
+import { findPrizeAwardsForClaim } from '@/utils/prizes';
+import { hasHostPermission } from '@/utils/hostPermissions';
+import { ErrorCode } from '@/types';
+import type {
+  APIRouteContext,
+  BingoClaim,
+  ClaimRouteParams,
+  GameSession,
+  PrizeWonEventData,
+  ReviewClaimRequest,
+  ReviewClaimResponse
+} from '@/types';
+
+// Pusherインスタンス初期化
+const pusher = new Pusher({
+  appId: process.env.PUSHER_APP_ID!,
+  key: process.env.PUSHER_KEY!,
+  secret: process.env.PUSHER_SECRET!,
+  cluster: process.env.PUSHER_CLUSTER!,
+  useTLS: true
+});
+
+export async function POST(
+  request: NextRequest,
+  context: APIRouteContext<ClaimRouteParams>
+) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const { sessionId, claimId } = await context.params;
+    const body: ReviewClaimRequest = await request.json();
+    const { accessToken, hostId, action, reason } = body;
+
+    // バリデーション
+    if (!sessionId || !claimId || !accessToken || !hostId) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.MISSING_PARAMETERS),
+        { status: 400 }
+      );
+    }
+
+    if (action !== 'approve' && action !== 'reject') {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_ACTION),
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const sessionsCollection = db.collection<GameSession>('sessions');
+
+    const session = await sessionsCollection.findOne({ sessionId, accessToken });
+
+    if (!session) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.SESSION_AUTH_FAILED),
+        { status: 404 }
+      );
+    }
+
+    // ホスト権限チェック（共同ホストは参加者対応の権限が必要）
+    if (!hasHostPermission(session, resolveHostActorId(session, hostId), 'moderate-players')) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.HOST_PERMISSION_REQUIRED),
+        { status: 403 }
+      );
+    }
+
+    const pendingClaim = (session.claims || []).find(c => c.id === claimId);
+    if (!pendingClaim) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.CLAIM_NOT_FOUND),
+        { status: 404 }
+      );
+    }
+
+    if (pendingClaim.status !== 'pending') {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.CLAIM_ALREADY_REVIEWED),
+        { status: 409 }
+      );
+    }
+
+    const player = session.players.find(p => p.id === pendingClaim.playerId);
+    if (!player) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.PLAYER_NOT_FOUND),
+        { status: 404 }
+      );
+    }
+
+    const reviewedAt = new Date().toISOString();
+    const numbers = session.numbers || [];
+    const board = getPlayerBoards(player)[pendingClaim.cardIndex ?? 0];
+
+    // 承認時は現在の抽選済みの番号で判定し直す（申告後に抽選が取り消された場合は無効にする）
+    const evaluation = action === 'approve' && board
+      ? evaluateClaim(board, numbers, pendingClaim.marks, resolvePatterns(session.rules), session.locale)
+      : null;
+
+    const claim: BingoClaim = action === 'reject'
+      ? {
+          ...pendingClaim,
+          status: 'rejected',
+          reason: reason?.trim() || getMessages(session.locale).server.claimRejectedByHost,
+          reviewedAt
+        }
+      : evaluation?.valid
+        ? {
+            ...pendingClaim,
+            status: 'accepted',
+            reason: undefined,
+            marks: pendingClaim.marks.filter(num => numbers.includes(num)),
+            lines: evaluation.winningPatterns,
+            bingoCount: evaluation.bingoLines,
+            completedPatterns: evaluation.completedPatterns,
+            reviewedAt
+          }
+        : {
+            ...pendingClaim,
+            status: 'voided',
+            reason: getMessages(session.locale).server.claimVoidedByCorrection,
+            reviewedAt
+          };
+
+    // 承認後のライン数（後から少ないライン数の申告を承認しても減らさない）
+    const bingoCount = Math.max(player.bingoCount, claim.bingoCount ?? 0);
+    // bingoAchievedAtは初回の承認時のみ設定（ランキング順は承認した順）
+    const bingoAchievedAt = player.bingoAchievedAt || reviewedAt;
+
+    // 同時に確認された場合に二重に処理しないよう、確認待ちの申告のみを更新する
+    // 判定後に抽選・取り消しが行われた場合も、判定し直せるよう更新しない
+    const updateResult = await sessionsCollection.updateOne(
+      {
+        sessionId,
+        claims: { $elemMatch: { id: claimId, status: 'pending' } },
+        numbers: { $size: numbers.length }
+      },
+      {
+        $set: {
+          'claims.$[c]': claim,
+          ...(claim.status === 'accepted'
+            ? {
+                'players.$[p].bingoCount': bingoCount,
+                'players.$[p].bingoAchievedAt': bingoAchievedAt
+              }
+            : {})
+        }
+      },
+      {
+        arrayFilters: claim.status === 'accepted'
+          ? [{ 'c.id': claimId }, { 'p.id': player.id }]
+          : [{ 'c.id': claimId }]
+      }
+    );
+
+    if (updateResult.matchedCount === 0) {
+      const latest = await sessionsCollection.findOne({ sessionId });
+      const stillPending = latest?.claims?.some(c => c.id === claimId && c.status === 'pending');
+      return NextResponse.json(
+        errorBody(locale, stillPending ? ErrorCode.DRAW_CONFLICT : ErrorCode.CLAIM_ALREADY_REVIEWED),
+        { status: 409 }
+      );
+    }
+
+    // 承認された申告で達成した賞を確定する
+    const prizeAwards = claim.status === 'accepted'
+      ? await recordPrizeAwards(
+          sessionId,
+          findPrizeAwardsForClaim(session, claim, board, reviewedAt)
+        )
+      : [];
+
+    debugLog(`Host reviewed bingo claim from ${player.name}: ${claim.status}`, {
+      lines: claim.lines,
+      reason: claim.reason
+    });
+
+    // 承認された申告だけをビンゴとして発表する
+    try {
+      const channelName = `presence-session-${sessionId}`;
+
+      if (claim.status === 'accepted') {
+        await pusher.trigger(channelName, 'player-bingo', {
+          player: { ...player, bingoCount, bingoAchievedAt },
+          bingoCount,
+          lines: claim.lines,
+          completedPatterns: claim.completedPatterns,
+          prize: session.gameType === '90ball'
+            ? getNinetyBallPrize(bingoCount) ?? undefined
+            : undefined,
+          cardIndex: claim.cardIndex,
+          achievedAt: bingoAchievedAt
+        });
+
+        for (const award of prizeAwards) {
+          const prizeEventData: PrizeWonEventData = { award };
+          await pusher.trigger(channelName, 'prize-won', prizeEventData);
+        }
+      }
+
+      await pusher.trigger(channelName, 'claim-result', { claim });
+    } catch (pusherError) {
+      // 確認結果は保存済みなので処理は続行
+      errorLog(`Pusherイベント送信エラー: ${(pusherError as Error).message}`);
+    }
+
+    const response: ReviewClaimResponse = {
+      success: true,
+      claim
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    errorLog(`申告確認エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      {
+        ...errorBody(locale, ErrorCode.INTERNAL_ERROR),
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,280 @@
+// app/api/sessions/[sessionId]/claims/route.ts
+// 手動マーク時のビンゴ申告API（ホスト確認ありの場合は確認待ちとして登録）
+import { NextRequest, NextResponse } from 'next/server';
+import Pusher from 'pusher';
+import { nanoid } from 'nanoid';
+import { getDatabase } from '@/lib/database';
+import { recordPrizeAwards } from '@/lib/prizes';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { debugLog, errorLog } from '@/utils/validation';
+import { getNinetyBallPrize } from '@/utils/gameUtils';
+import { getPlayerBoards } from '@/utils/bingo';
+import { resolvePatterns } from '@/utils/patterns';
+import { findPrizeAwardsForClaim } from '@/utils/prizes';
+import { canPlayerWin } from '@/utils/lateJoin';
+import {
+  evaluateClaim,
+  getLockoutRemaining,
+  isAlreadyAcceptedClaim,
+  resolveDaubMode,
+  resolveHostAdjudication
+} from '@/utils/claims';
+import { ErrorCode } from '@/types';
+import type {
+  APIRouteContext,
+  BingoClaim,
+  GameSession,
+  PrizeWonEventData,
+  SessionRouteParams,
+  SubmitClaimResponse
+} from '@/types';
+
+// Pusherインスタンス初期化
+const pusher = new Pusher({
+  appId: process.env.PUSHER_APP_ID!,
+  key: process.env.PUSHER_KEY!,
+  secret: process.env.PUSHER_SECRET!,
+  cluster: process.env.PUSHER_CLUSTER!,
+  useTLS: true
+});
+
+export async function POST(
+  request: NextRequest,
+  context: APIRouteContext<SessionRouteParams>
+) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const { sessionId } = await context.params;
+    const body = await request.json();
+    const { accessToken, playerId, marks, cardIndex = 0 } = body;
+
+    // バリデーション
+    if (!sessionId || !accessToken || !playerId) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.MISSING_PARAMETERS),
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(marks) || !marks.every(num => Number.isInteger(num))) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_MARKS),
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const sessionsCollection = db.collection<GameSession>('sessions');
+
+    const session = await sessionsCollection.findOne({ sessionId, accessToken });
+
+    if (!session) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.SESSION_AUTH_FAILED),
+        { status: 404 }
+      );
+    }
+
+    if (session.status !== 'playing') {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.GAME_NOT_STARTED),
+        { status: 400 }
+      );
+    }
+
+    if (resolveDaubMode(session.rules) !== 'manual') {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.CLAIM_NOT_REQUIRED),
+        { status: 400 }
+      );
+    }
+
+    const player = session.players.find(p => p.id === playerId);
+    if (!player) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.PLAYER_NOT_FOUND),
+        { status: 404 }
+      );
+    }
+
+    // 途中参加で入賞が次のラウンドからの場合は申告を受け付けない
+    if (!canPlayerWin(player)) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.LATE_JOINER_CANNOT_WIN),
+        { status: 403 }
+      );
+    }
+
+    const boards = getPlayerBoards(player);
+    if (!Number.isInteger(cardIndex) || cardIndex < 0 || cardIndex >= boards.length) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_CARD_INDEX),
+        { status: 400 }
+      );
+    }
+
+    const drawnNumbers = session.numbers || [];
+    const drawCount = drawnNumbers.length;
+
+    // 誤申告ペナルティ中は申告を受け付けない
+    const lockoutRemaining = getLockoutRemaining(player, drawCount);
+    if (lockoutRemaining > 0) {
+      return NextResponse.json(
+        {
+          ...errorBody(locale, ErrorCode.CLAIM_LOCKED_OUT, { draws: lockoutRemaining }),
+          lockedUntilDraw: player.lockedUntilDraw
+        },
+        { status: 423 }
+      );
+    }
+
+    // サーバー側で保存済みのカード・抽選済み番号・マークから判定
+    const uniqueMarks = [...new Set(marks as number[])].sort((a, b) => a - b);
+    const evaluation = evaluateClaim(
+      boards[cardIndex],
+      drawnNumbers,
+      uniqueMarks,
+      resolvePatterns(session.rules),
+      session.locale
+    );
+
+    // 確認待ちの申告があれば重複して受け付けない
+    if ((session.claims || []).some(c => c.playerId === playerId && c.status === 'pending')) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.CLAIM_PENDING),
+        { status: 409 }
+      );
+    }
+
+    // 同じカードで既に認められたラインだけの申告は重複として受け付けない
+    if (
+      evaluation.valid &&
+      isAlreadyAcceptedClaim(session.claims, playerId, cardIndex, evaluation.winningPatterns)
+    ) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.CLAIM_ALREADY_ACCEPTED),
+        { status: 409 }
+      );
+    }
+
+    // 判定が通っても、ホスト確認ありの場合は承認されるまで確定しない
+    const awaitingReview = evaluation.valid && resolveHostAdjudication(session.rules);
+
+    const claim: BingoClaim = {
+      id: nanoid(10),
+      playerId,
+      playerName: player.name,
+      cardIndex,
+      marks: uniqueMarks,
+      status: evaluation.valid ? (awaitingReview ? 'pending' : 'accepted') : 'rejected',
+      reason: evaluation.reason,
+      lines: evaluation.valid ? evaluation.winningPatterns : undefined,
+      bingoCount: evaluation.valid ? evaluation.bingoLines : undefined,
+      completedPatterns: evaluation.valid ? evaluation.completedPatterns : undefined,
+      drawCount,
+      claimedAt: new Date().toISOString()
+    };
+
+    let lockedUntilDraw: number | undefined;
+    let bingoAchievedAt: string | undefined;
+
+    // 複数カードの場合、他のカードで揃っているライン数より減らさない
+    const bingoCount = Math.max(player.bingoCount, evaluation.bingoLines);
+
+    if (awaitingReview) {
+      await sessionsCollection.updateOne(
+        { sessionId },
+        { $push: { claims: claim } }
+      );
+    } else if (evaluation.valid) {
+      // bingoAchievedAtは初回のみ設定（既存の値を保持）
+      bingoAchievedAt = player.bingoAchievedAt || claim.claimedAt;
+
+      await sessionsCollection.updateOne(
+        { sessionId, 'players.id': playerId },
+        {
+          $set: {
+            'players.$.bingoCount': bingoCount,
+            'players.$.bingoAchievedAt': bingoAchievedAt
+          },
+          $push: { claims: claim }
+        }
+      );
+    } else {
+      const penaltyDraws = session.rules?.falseClaimPenaltyDraws ?? 0;
+      lockedUntilDraw = penaltyDraws > 0 ? drawCount + penaltyDraws : undefined;
+
+      await sessionsCollection.updateOne(
+        { sessionId, 'players.id': playerId },
+        {
+          $set: lockedUntilDraw !== undefined ? { 'players.$.lockedUntilDraw': lockedUntilDraw } : {},
+          $inc: { 'players.$.falseClaimCount': 1 },
+          $push: { claims: claim }
+        }
+      );
+    }
+
+    // 認められた申告で達成した賞を確定する
+    const prizeAwards = claim.status === 'accepted'
+      ? await recordPrizeAwards(
+          sessionId,
+          findPrizeAwardsForClaim(session, claim, boards[cardIndex], claim.claimedAt)
+        )
+      : [];
+
+    debugLog(`Bingo claim from ${player.name}: ${claim.status}`, {
+      reason: claim.reason,
+      lines: claim.lines,
+      lockedUntilDraw
+    });
+
+    // 判定結果を全員に配信（ホスト画面の申告履歴用）
+    try {
+      const channelName = `presence-session-${sessionId}`;
+
+      if (claim.status === 'accepted') {
+        await pusher.trigger(channelName, 'player-bingo', {
+          player: { ...player, bingoCount },
+          bingoCount,
+          lines: evaluation.winningPatterns,
+          completedPatterns: evaluation.completedPatterns,
+          prize: session.gameType === '90ball'
+            ? getNinetyBallPrize(bingoCount) ?? undefined
+            : undefined,
+          cardIndex,
+          achievedAt: bingoAchievedAt
+        });
+      }
+
+      for (const award of prizeAwards) {
+        const prizeEventData: PrizeWonEventData = { award };
+        await pusher.trigger(channelName, 'prize-won', prizeEventData);
+      }
+
+      await pusher.trigger(channelName, 'claim-result', { claim, lockedUntilDraw });
+    } catch (pusherError) {
+      // 判定結果は保存済みなので処理は続行
+      errorLog(`Pusherイベント送信エラー: ${(pusherError as Error).message}`);
+    }
+
+    const response: SubmitClaimResponse = {
+      success: true,
+      claim,
+      bingoCount: claim.status === 'accepted' ? bingoCount : player.bingoCount,
+      lockedUntilDraw
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    errorLog(`ビンゴ申告エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      {
+        ...errorBody(locale, ErrorCode.INTERNAL_ERROR),
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
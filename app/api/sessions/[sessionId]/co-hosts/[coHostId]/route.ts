@@ -0,0 +1,99 @@
+// app/api/sessions/[sessionId]/co-hosts/[coHostId]/route.ts
+// 共同ホストを外すAPI（メインのホストのみ）
+//
+// 外された共同ホストの画面はセッション更新を受けて操作できなくなる
+import { NextRequest, NextResponse } from 'next/server';
+import Pusher from 'pusher';
+import { getDatabase } from '@/lib/database';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { findCoHost } from '@/utils/hostPermissions';
+import { toPublicSession } from '@/utils/publicSession';
+import { debugLog, errorLog } from '@/utils/validation';
+import { ErrorCode } from '@/types';
+import type {
+  APIRouteContext,
+  CoHostRouteParams,
+  GameSession,
+  RemoveCoHostRequest
+} from '@/types';
+
+// Pusherインスタンス初期化
+const pusher = new Pusher({
+  appId: process.env.PUSHER_APP_ID!,
+  key: process.env.PUSHER_KEY!,
+  secret: process.env.PUSHER_SECRET!,
+  cluster: process.env.PUSHER_CLUSTER!,
+  useTLS: true
+});
+
+export async function DELETE(
+  request: NextRequest,
+  context: APIRouteContext<CoHostRouteParams>
+) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const { sessionId, coHostId } = await context.params;
+    const body: RemoveCoHostRequest = await request.json();
+    const { accessToken, hostId } = body;
+
+    // バリデーション
+    if (!sessionId || !coHostId || !accessToken || !hostId) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.MISSING_PARAMETERS),
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const sessionsCollection = db.collection<GameSession>('sessions');
+    const session = await sessionsCollection.findOne({ sessionId, accessToken });
+
+    if (!session) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.SESSION_AUTH_FAILED),
+        { status: 404 }
+      );
+    }
+
+    // 共同ホストを外せるのはメインのホストのみ
+    if (session.hostId !== hostId) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.HOST_ONLY),
+        { status: 403 }
+      );
+    }
+
+    if (!findCoHost(session, coHostId)) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.CO_HOST_NOT_FOUND),
+        { status: 404 }
+      );
+    }
+
+    await sessionsCollection.updateOne(
+      { sessionId },
+      { $pull: { coHosts: { id: coHostId } }, $set: { updatedAt: new Date() } }
+    );
+
+    debugLog('共同ホストを削除', { sessionId, coHostId });
+
+    const updatedSession = await sessionsCollection.findOne({ sessionId });
+    if (updatedSession) {
+      try {
+        await pusher.trigger(`presence-session-${sessionId}`, 'session-updated', { session: toPublicSession(updatedSession) });
+      } catch (pusherError) {
+        errorLog(`Pusherイベント送信エラー: ${(pusherError as Error).message}`);
+      }
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    errorLog(`共同ホストの削除エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,142 @@
+// app/api/sessions/[sessionId]/co-hosts/join/route.ts
+// 招待リンクから共同ホストとして参加するAPI
+//
+// 参加すると共同ホストのトークンを返し、以降はホストIDの代わりにこのトークンでホスト用の画面・APIを使う
+import { NextRequest, NextResponse } from 'next/server';
+import Pusher from 'pusher';
+import { nanoid } from 'nanoid';
+import { getDatabase } from '@/lib/database';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { consumeCoHostInvite, createCoHostToken } from '@/lib/coHosts';
+import { debugLog, errorLog } from '@/utils/validation';
+import { toPublicSession } from '@/utils/publicSession';
+import { ErrorCode, GAME_CONSTANTS } from '@/types';
+import type {
+  APIRouteContext,
+  CoHost,
+  GameSession,
+  JoinCoHostRequest,
+  JoinCoHostResponse,
+  SessionRouteParams
+} from '@/types';
+
+// Pusherインスタンス初期化
+const pusher = new Pusher({
+  appId: process.env.PUSHER_APP_ID!,
+  key: process.env.PUSHER_KEY!,
+  secret: process.env.PUSHER_SECRET!,
+  cluster: process.env.PUSHER_CLUSTER!,
+  useTLS: true
+});
+
+export async function POST(
+  request: NextRequest,
+  context: APIRouteContext<SessionRouteParams>
+) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const { sessionId } = await context.params;
+    const body: JoinCoHostRequest = await request.json();
+    const { accessToken, inviteToken } = body;
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    // バリデーション
+    if (!sessionId || !accessToken || !inviteToken) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.MISSING_PARAMETERS),
+        { status: 400 }
+      );
+    }
+
+    if (!name) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.NAME_REQUIRED),
+        { status: 400 }
+      );
+    }
+
+    if (name.length > GAME_CONSTANTS.PLAYER_NAME_MAX_LENGTH) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.NAME_TOO_LONG, { max: GAME_CONSTANTS.PLAYER_NAME_MAX_LENGTH }),
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const sessionsCollection = db.collection<GameSession>('sessions');
+    const session = await sessionsCollection.findOne({ sessionId, accessToken });
+
+    if (!session) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.SESSION_AUTH_FAILED),
+        { status: 404 }
+      );
+    }
+
+    if (session.status === 'finished') {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.CO_HOST_INVITE_INVALID),
+        { status: 410 }
+      );
+    }
+
+    const permissions = await consumeCoHostInvite(sessionId, inviteToken);
+    if (!permissions) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.CO_HOST_INVITE_INVALID),
+        { status: 410 }
+      );
+    }
+
+    // IDは公開し、トークンは本人にだけ返してハッシュを保存する
+    const coHostId = nanoid();
+    const { token, tokenHash } = createCoHostToken(coHostId);
+    const coHost: CoHost = {
+      id: coHostId,
+      name,
+      permissions,
+      joinedAt: new Date().toISOString(),
+      tokenHash
+    };
+
+    // 同時に参加した場合も上限を超えないよう、人数を条件に追加する
+    const updateResult = await sessionsCollection.updateOne(
+      { sessionId, [`coHosts.${GAME_CONSTANTS.MAX_CO_HOSTS - 1}`]: { $exists: false } },
+      { $push: { coHosts: coHost }, $set: { updatedAt: new Date() } }
+    );
+
+    if (updateResult.modifiedCount === 0) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.CO_HOST_LIMIT_REACHED, { max: GAME_CONSTANTS.MAX_CO_HOSTS }),
+        { status: 409 }
+      );
+    }
+
+    debugLog('共同ホストが参加', { sessionId, coHostId: coHost.id, permissions });
+
+    const updatedSession = await sessionsCollection.findOne({ sessionId });
+    if (updatedSession) {
+      try {
+        await pusher.trigger(`presence-session-${sessionId}`, 'session-updated', { session: toPublicSession(updatedSession) });
+      } catch (pusherError) {
+        errorLog(`Pusherイベント送信エラー: ${(pusherError as Error).message}`);
+      }
+    }
+
+    const response: JoinCoHostResponse = {
+      success: true,
+      coHost,
+      token,
+      status: updatedSession?.status ?? session.status
+    };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    errorLog(`共同ホストの参加エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+// app/api/sessions/[sessionId]/co-hosts/route.ts
+// 共同ホストの招待リンクを作成するAPI（メインのホストのみ）
+//
+// 招待リンクは1回だけ使え、受け取った人が名前を入力すると共同ホストとして追加される
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { createCoHostInvite } from '@/lib/coHosts';
+import { sanitizeCoHostPermissions } from '@/utils/hostPermissions';
+import { createCoHostInviteUrl, getBaseUrl } from '@/utils/url';
+import { debugLog, errorLog } from '@/utils/validation';
+import { ErrorCode, GAME_CONSTANTS } from '@/types';
+import type {
+  APIRouteContext,
+  CreateCoHostInviteRequest,
+  CreateCoHostInviteResponse,
+  GameSession,
+  SessionRouteParams
+} from '@/types';
+
+export async function POST(
+  request: NextRequest,
+  context: APIRouteContext<SessionRouteParams>
+) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const { sessionId } = await context.params;
+    const body: CreateCoHostInviteRequest = await request.json();
+    const { accessToken, hostId } = body;
+
+    // バリデーション
+    if (!sessionId || !accessToken || !hostId) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.MISSING_PARAMETERS),
+        { status: 400 }
+      );
+    }
+
+    const permissions = sanitizeCoHostPermissions(body.permissions);
+    if (!permissions) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_CO_HOST_PERMISSIONS),
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const session = await db.collection<GameSession>('sessions').findOne({ sessionId, accessToken });
+
+    if (!session) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.SESSION_AUTH_FAILED),
+        { status: 404 }
+      );
+    }
+
+    // 共同ホストの招待はメインのホストのみ
+    if (session.hostId !== hostId) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.HOST_ONLY),
+        { status: 403 }
+      );
+    }
+
+    if ((session.coHosts?.length ?? 0) >= GAME_CONSTANTS.MAX_CO_HOSTS) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.CO_HOST_LIMIT_REACHED, { max: GAME_CONSTANTS.MAX_CO_HOSTS }),
+        { status: 409 }
+      );
+    }
+
+    const invite = await createCoHostInvite(sessionId, permissions, session.expiresAt);
+
+    debugLog('共同ホストの招待を作成', { sessionId, permissions });
+
+    const response: CreateCoHostInviteResponse = {
+      success: true,
+      inviteUrl: createCoHostInviteUrl(getBaseUrl(request), sessionId, accessToken, invite.token),
+      permissions,
+      expiresAt: invite.expiresAt.toISOString()
+    };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    errorLog(`共同ホストの招待の作成エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500 }
+    );
+  }
+}
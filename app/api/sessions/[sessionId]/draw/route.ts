@@ -3,7 +3,19 @@ import { NextRequest, NextResponse } from 'next/server';
 import Pusher from 'pusher';
 import { getDatabase } from '@/lib/database';
 import { errorLog } from '@/utils/validation';
-import { APIRouteContext, SessionRouteParams, GameSession } from '@/types';
+import { drawNextNumber } from '@/lib/draw';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { resolveHostActorId } from '@/lib/coHosts';
+import { getMessages } from '@/utils/i18n';
+import { hasHostPermission } from '@/utils/hostPermissions';
+import {
+  ErrorCode,
+  APIRouteContext,
+  SessionRouteParams,
+  GameSession,
+  PrizeWonEventData,
+  AutoDrawUpdatedEventData
+} from '@/types';
 
 // Pusherインスタンス初期化
 const pusher = new Pusher({
@@ -14,19 +26,11 @@ const pusher = new Pusher({
   useTLS: true
 });
 
-// ビンゴレター取得（1-15: B, 16-30: I, 31-45: N, 46-60: G, 61-75: O）
-function getBingoLetter(number: number): string {
-  if (number <= 15) return 'B';
-  if (number <= 30) return 'I';
-  if (number <= 45) return 'N';
-  if (number <= 60) return 'G';
-  return 'O';
-}
-
 export async function POST(
   request: NextRequest,
   context: APIRouteContext<SessionRouteParams>
 ) {
+  const locale = getRequestLocale(request);
   const startTime = Date.now();
   
   try {
@@ -36,12 +40,12 @@ export async function POST(
     
     // リクエストボディ取得
     const body = await request.json();
-    const { accessToken, hostId } = body;
+    const { accessToken, hostId, number: calledNumber } = body;
 
     // バリデーション
     if (!sessionId || !accessToken || !hostId) {
       return NextResponse.json(
-        { error: '必須パラメータが不足しています' },
+        errorBody(locale, ErrorCode.MISSING_PARAMETERS),
         { status: 400 }
       );
     }
@@ -62,72 +66,32 @@ export async function POST(
     if (!session) {
       errorLog('セッションが見つからないか、認証に失敗しました');
       return NextResponse.json(
-        { error: 'セッションが見つからないか、認証に失敗しました' },
+        errorBody(locale, ErrorCode.SESSION_AUTH_FAILED),
         { status: 404 }
       );
     }
 
-    // ホスト権限確認
-    if (session.hostId !== hostId) {
+    // ホスト権限チェック（共同ホストは抽選の権限が必要）
+    if (!hasHostPermission(session, resolveHostActorId(session, hostId), 'draw')) {
       errorLog('ホスト権限がありません');
       return NextResponse.json(
-        { error: 'ホスト権限がありません' },
+        errorBody(locale, ErrorCode.HOST_PERMISSION_REQUIRED),
         { status: 403 }
       );
     }
 
-    // ゲーム状態確認
-    if (session.status !== 'playing') {
-      return NextResponse.json(
-        { error: 'ゲームが開始されていません' },
-        { status: 400 }
-      );
-    }
-
-    // 全ての番号が抽選済みかチェック
-    const drawnNumbers = session.numbers || [];
-    if (drawnNumbers.length >= 75) {
+    const result = await drawNextNumber(session, { calledNumber, locale });
+    if (!result.ok) {
       return NextResponse.json(
-        { error: '全ての番号が抽選済みです' },
-        { status: 400 }
+        errorBody(locale, result.code, result.params),
+        { status: result.status }
       );
     }
 
-    // 未抽選の番号から1つ選択
-    const allNumbers = Array.from({ length: 75 }, (_, i) => i + 1);
-    const availableNumbers = allNumbers.filter(n => !drawnNumbers.includes(n));
-    const randomIndex = Math.floor(Math.random() * availableNumbers.length);
-    const drawnNumber = availableNumbers[randomIndex];
-
-    // データベース更新
-    const updateResult = await sessionsCollection.updateOne(
-      { sessionId },
-      {
-        $push: { numbers: drawnNumber },
-        $set: { 
-          currentNumber: drawnNumber,
-          updatedAt: new Date()
-        }
-      }
-    );
-
-    if (updateResult.matchedCount === 0) {
-      errorLog('セッションの更新に失敗しました');
-      return NextResponse.json(
-        { error: 'セッションの更新に失敗しました' },
-        { status: 500 }
-      );
-    }
+    const { eventData, message: drawMessage, prizeAwards, autoDraw } = result;
 
     // Pusherで全参加者にイベント送信
     try {
-      const eventData = {
-        number: drawnNumber,
-        bingoLetter: getBingoLetter(drawnNumber),
-        drawnNumbers: [...drawnNumbers, drawnNumber],
-        drawnAt: new Date().toISOString()
-      };
-
       console.log('Pusherイベント送信:', eventData);
 
       await pusher.trigger(
@@ -136,20 +100,32 @@ export async function POST(
         eventData
       );
 
+      for (const award of prizeAwards) {
+        const prizeEventData: PrizeWonEventData = { award };
+        await pusher.trigger(`presence-session-${sessionId}`, 'prize-won', prizeEventData);
+      }
+
+      // 自動抽選中に手動で抽選した場合はカウントダウンをやり直す
+      if (session.autoDraw) {
+        const autoDrawEventData: AutoDrawUpdatedEventData = { autoDraw, serverTime: new Date().toISOString() };
+        await pusher.trigger(`presence-session-${sessionId}`, 'auto-draw-updated', autoDrawEventData);
+      }
+
       console.log('番号抽選成功:', {
         sessionId,
-        drawnNumber,
-        totalDrawn: drawnNumbers.length + 1,
+        drawnNumber: eventData.number,
+        totalDrawn: eventData.drawnNumbers.length,
         responseTime: Date.now() - startTime
       });
 
       // 成功レスポンス
       return NextResponse.json({
         success: true,
-        number: drawnNumber,
-        bingoLetter: getBingoLetter(drawnNumber),
-        drawnNumbers: [...drawnNumbers, drawnNumber],
-        message: `番号 ${getBingoLetter(drawnNumber)}-${drawnNumber} が抽選されました`
+        number: eventData.number,
+        bingoLetter: eventData.bingoLetter,
+        term: eventData.term,
+        drawnNumbers: eventData.drawnNumbers,
+        message: drawMessage
       });
 
     } catch (pusherError) {
@@ -160,11 +136,12 @@ export async function POST(
       // クライアントには成功を返す（番号は抽選済みのため）
       return NextResponse.json({
         success: true,
-        number: drawnNumber,
-        bingoLetter: getBingoLetter(drawnNumber),
-        drawnNumbers: [...drawnNumbers, drawnNumber],
-        message: `番号 ${getBingoLetter(drawnNumber)}-${drawnNumber} が抽選されました`,
-        warning: 'リアルタイム通知の送信に一部問題が発生しました'
+        number: eventData.number,
+        bingoLetter: eventData.bingoLetter,
+        term: eventData.term,
+        drawnNumbers: eventData.drawnNumbers,
+        message: drawMessage,
+        warning: getMessages(locale).server.realtimeWarning
       });
     }
 
@@ -173,8 +150,8 @@ export async function POST(
     console.error('Draw number error:', error);
     
     return NextResponse.json(
-      { 
-        error: 'サーバーエラーが発生しました',
+      {
+        ...errorBody(locale, ErrorCode.INTERNAL_ERROR),
         details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
       },
       { status: 500 }
@@ -187,6 +164,8 @@ export async function GET(
   request: NextRequest,
   context: APIRouteContext<SessionRouteParams>
 ) {
+  const locale = getRequestLocale(request);
+
   try {
     const params = await context.params;
     const { sessionId } = params;
@@ -203,7 +182,7 @@ export async function GET(
 
     if (!session) {
       return NextResponse.json(
-        { error: 'セッションが見つかりません' },
+        errorBody(locale, ErrorCode.INVALID_SESSION),
         { status: 404 }
       );
     }
@@ -218,7 +197,7 @@ export async function GET(
   } catch (error) {
     errorLog(`抽選状態取得エラー: ${(error as Error).message}`);
     return NextResponse.json(
-      { error: 'サーバーエラーが発生しました' },
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
       { status: 500 }
     );
   }
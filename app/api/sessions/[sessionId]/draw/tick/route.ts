@@ -0,0 +1,136 @@
+// app/api/sessions/[sessionId]/draw/tick/route.ts
+// 自動抽選の抽選依頼API
+//
+// 接続中のクライアントはカウントダウンが0になったらこのAPIを呼ぶ。
+// 予定時刻を過ぎていれば抽選し、同じ予定に対する2件目以降の依頼は何もしない
+import { NextRequest, NextResponse } from 'next/server';
+import Pusher from 'pusher';
+import { getDatabase } from '@/lib/database';
+import { drawNextNumber } from '@/lib/draw';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { resolveHostActorId } from '@/lib/coHosts';
+import { debugLog, errorLog } from '@/utils/validation';
+
+import { ErrorCode } from '@/types';
+import type {
+  APIRouteContext,
+  AutoDrawUpdatedEventData,
+  DrawTickRequest,
+  DrawTickResponse,
+  GameSession,
+  PrizeWonEventData,
+  SessionRouteParams
+} from '@/types';
+
+// Pusherインスタンス初期化
+const pusher = new Pusher({
+  appId: process.env.PUSHER_APP_ID!,
+  key: process.env.PUSHER_KEY!,
+  secret: process.env.PUSHER_SECRET!,
+  cluster: process.env.PUSHER_CLUSTER!,
+  useTLS: true
+});
+
+export async function POST(
+  request: NextRequest,
+  context: APIRouteContext<SessionRouteParams>
+) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const { sessionId } = await context.params;
+    const body: DrawTickRequest = await request.json();
+    const { accessToken, participantId } = body;
+
+    // バリデーション
+    if (!sessionId || !accessToken || !participantId) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.MISSING_PARAMETERS),
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const sessionsCollection = db.collection<GameSession>('sessions');
+
+    const session = await sessionsCollection.findOne({ sessionId, accessToken });
+
+    if (!session) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.SESSION_AUTH_FAILED),
+        { status: 404 }
+      );
+    }
+
+    // ホスト（共同ホストを含む）または参加中のプレイヤーのみ
+    const isParticipant = resolveHostActorId(session, participantId) !== null ||
+      session.players.some(player => player.id === participantId);
+    if (!isParticipant) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.NOT_SESSION_PLAYER),
+        { status: 403 }
+      );
+    }
+
+    const autoDraw = session.autoDraw ?? null;
+    const isDue = session.status === 'playing' &&
+      autoDraw?.status === 'running' &&
+      !!autoDraw.nextDrawAt &&
+      new Date(autoDraw.nextDrawAt).getTime() <= Date.now();
+
+    // 予定前・一時停止中は現在の状態を返して、クライアントのカウントダウンを合わせる
+    if (!isDue) {
+      const response: DrawTickResponse = { drawn: false, autoDraw, serverTime: new Date().toISOString() };
+      return NextResponse.json(response);
+    }
+
+    const result = await drawNextNumber(session, { expectedNextDrawAt: autoDraw!.nextDrawAt });
+
+    if (!result.ok) {
+      // 他のクライアントの依頼で抽選済み（409）の場合は最新の状態を返す
+      if (result.status === 409) {
+        const latest = await sessionsCollection.findOne({ sessionId }, { projection: { autoDraw: 1 } });
+        const response: DrawTickResponse = {
+          drawn: false,
+          autoDraw: latest?.autoDraw ?? null,
+          serverTime: new Date().toISOString()
+        };
+        return NextResponse.json(response);
+      }
+
+      return NextResponse.json(
+        errorBody(locale, result.code, result.params),
+        { status: result.status }
+      );
+    }
+
+    debugLog('自動抽選', { sessionId, number: result.eventData.number, requestedBy: participantId });
+
+    const serverTime = new Date().toISOString();
+
+    try {
+      await pusher.trigger(`presence-session-${sessionId}`, 'number-drawn', result.eventData);
+
+      for (const award of result.prizeAwards) {
+        const prizeEventData: PrizeWonEventData = { award };
+        await pusher.trigger(`presence-session-${sessionId}`, 'prize-won', prizeEventData);
+      }
+
+      const autoDrawEventData: AutoDrawUpdatedEventData = { autoDraw: result.autoDraw, serverTime };
+      await pusher.trigger(`presence-session-${sessionId}`, 'auto-draw-updated', autoDrawEventData);
+    } catch (pusherError) {
+      // 番号は抽選済みのため、エラーログのみ残して処理は続行
+      errorLog(`Pusherイベント送信エラー: ${(pusherError as Error).message}`);
+    }
+
+    const response: DrawTickResponse = { drawn: true, autoDraw: result.autoDraw, serverTime };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    errorLog(`自動抽選エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,234 @@
+// app/api/sessions/[sessionId]/draw/void/route.ts
+// 直前の抽選を取り消すAPI（ホストのみ）
+//
+// 番号を抽選済みから外し、その番号に依存していたビンゴ・申告・賞を訂正して、
+// 取り消しを操作履歴に記録する
+import { NextRequest, NextResponse } from 'next/server';
+import Pusher from 'pusher';
+import { getDatabase } from '@/lib/database';
+import { scheduleNextAutoDraw } from '@/lib/draw';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { resolveHostActorId } from '@/lib/coHosts';
+import { formatMessage, getMessages } from '@/utils/i18n';
+import { debugLog, errorLog } from '@/utils/validation';
+import { voidLastDraw } from '@/utils/corrections';
+import { createAuditEntry } from '@/utils/audit';
+import { formatBingoNumber } from '@/utils/gameUtils';
+import { getTermLabel } from '@/utils/terms';
+import { hasHostPermission } from '@/utils/hostPermissions';
+import { toPublicSession } from '@/utils/publicSession';
+import { ErrorCode } from '@/types';
+import type {
+  APIRouteContext,
+  AutoDrawUpdatedEventData,
+  GameSession,
+  NumberVoidedEventData,
+  SessionRouteParams,
+  VoidDrawRequest,
+  VoidDrawResponse
+} from '@/types';
+
+// Pusherインスタンス初期化
+const pusher = new Pusher({
+  appId: process.env.PUSHER_APP_ID!,
+  key: process.env.PUSHER_KEY!,
+  secret: process.env.PUSHER_SECRET!,
+  cluster: process.env.PUSHER_CLUSTER!,
+  useTLS: true
+});
+
+// 参加・退出・申告と重なった場合にやり直す回数
+const VOID_UPDATE_ATTEMPTS = 3;
+
+export async function POST(
+  request: NextRequest,
+  context: APIRouteContext<SessionRouteParams>
+) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const { sessionId } = await context.params;
+    const body: VoidDrawRequest = await request.json();
+    const { accessToken, hostId, number } = body;
+
+    // バリデーション
+    if (!sessionId || !accessToken || !hostId || !Number.isInteger(number)) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.MISSING_PARAMETERS),
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const sessionsCollection = db.collection<GameSession>('sessions');
+
+    const session = await sessionsCollection.findOne({ sessionId, accessToken });
+
+    if (!session) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.SESSION_AUTH_FAILED),
+        { status: 404 }
+      );
+    }
+
+    // ホスト権限チェック（共同ホストは抽選の権限が必要）
+    const actorId = resolveHostActorId(session, hostId);
+    if (!actorId || !hasHostPermission(session, actorId, 'draw')) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.HOST_PERMISSION_REQUIRED),
+        { status: 403 }
+      );
+    }
+
+    if (session.status !== 'playing') {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.GAME_NOT_PLAYING),
+        { status: 400 }
+      );
+    }
+
+    const drawnNumbers = session.numbers || [];
+    if (drawnNumbers.length === 0) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.NOTHING_TO_VOID),
+        { status: 400 }
+      );
+    }
+
+    // 連打や他の抽選と重なった場合に、意図しない番号を取り消さない
+    if (drawnNumbers[drawnNumbers.length - 1] !== number) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.ONLY_LAST_DRAW_VOIDABLE),
+        { status: 409 }
+      );
+    }
+
+    const now = new Date();
+    const gameType = session.gameType || '75ball';
+    const label = gameType === 'words'
+      ? getTermLabel(session.terms, number)
+      : formatBingoNumber(number, gameType);
+
+    // 操作履歴の説明はセッションの言語で記録する
+    const messages = getMessages(session.locale).server;
+
+    // 参加者・申告・賞は配列ごと書き戻すため、読み込んだ時点から変わっていない場合のみ更新する
+    // 参加・退出・申告と重なった場合は読み込み直して計算し直す（抽選と重なった場合はエラー）
+    let current = session;
+    let result = voidLastDraw(current)!;
+    for (let attempt = 1; ; attempt++) {
+      const auditEntry = createAuditEntry({
+        action: 'draw-voided',
+        actorId,
+        message: formatMessage(messages.drawVoided, { count: drawnNumbers.length, label }) +
+          (result.cancelledPlayerIds.length > 0
+            ? formatMessage(messages.drawVoidedBingoCancelled, { players: result.cancelledPlayerIds.length })
+            : ''),
+        number,
+        drawCount: drawnNumbers.length,
+        playerIds: result.cancelledPlayerIds
+      }, now);
+
+      // 自動抽選中は取り消し後にカウントダウンをやり直す
+      const autoDraw = current.autoDraw?.status === 'running'
+        ? scheduleNextAutoDraw(current.autoDraw.intervalSeconds, now)
+        : current.autoDraw;
+
+      const updateResult = await sessionsCollection.updateOne(
+        {
+          sessionId,
+          status: 'playing',
+          numbers: { $size: drawnNumbers.length },
+          [`numbers.${drawnNumbers.length - 1}`]: number,
+          players: current.players,
+          claims: current.claims ?? { $exists: false },
+          prizeAwards: current.prizeAwards ?? { $exists: false }
+        },
+        {
+          $set: {
+            numbers: result.numbers,
+            currentNumber: result.currentNumber,
+            players: result.players,
+            claims: result.claims,
+            prizeAwards: result.prizeAwards,
+            updatedAt: now,
+            ...(autoDraw && { autoDraw })
+          },
+          $push: { auditLog: auditEntry }
+        }
+      );
+
+      if (updateResult.matchedCount > 0) break;
+
+      const latest = await sessionsCollection.findOne({ sessionId });
+      const latestNumbers = latest?.numbers || [];
+      const drawUnchanged = latest?.status === 'playing' &&
+        latestNumbers.length === drawnNumbers.length &&
+        latestNumbers[latestNumbers.length - 1] === number;
+
+      if (!latest || !drawUnchanged || attempt >= VOID_UPDATE_ATTEMPTS) {
+        return NextResponse.json(
+          errorBody(locale, ErrorCode.DRAW_CONFLICT),
+          { status: 409 }
+        );
+      }
+
+      current = latest;
+      result = voidLastDraw(current)!;
+    }
+
+    const updatedSession = await sessionsCollection.findOne({ sessionId });
+
+    if (!updatedSession) {
+      throw new Error('Failed to retrieve updated session');
+    }
+
+    debugLog(`Draw voided for session: ${sessionId}`, {
+      number,
+      cancelledPlayerIds: result.cancelledPlayerIds
+    });
+
+    try {
+      const channelName = `presence-session-${sessionId}`;
+      const eventData: NumberVoidedEventData = {
+        number,
+        drawnNumbers: result.numbers,
+        currentNumber: result.currentNumber,
+        cancelledPlayerIds: result.cancelledPlayerIds,
+        session: toPublicSession(updatedSession),
+        voidedAt: now.toISOString()
+      };
+
+      await pusher.trigger(channelName, 'number-voided', eventData);
+      await pusher.trigger(channelName, 'session-updated', { session: toPublicSession(updatedSession) });
+
+      if (current.autoDraw?.status === 'running') {
+        const autoDrawEventData: AutoDrawUpdatedEventData = {
+          autoDraw: updatedSession.autoDraw ?? null,
+          serverTime: new Date().toISOString()
+        };
+        await pusher.trigger(channelName, 'auto-draw-updated', autoDrawEventData);
+      }
+    } catch (pusherError) {
+      // 取り消しは保存済みなので処理は続行
+      errorLog(`Pusherイベント送信エラー: ${(pusherError as Error).message}`);
+    }
+
+    const response: VoidDrawResponse = {
+      success: true,
+      number,
+      drawnNumbers: result.numbers,
+      currentNumber: result.currentNumber,
+      cancelledPlayerIds: result.cancelledPlayerIds
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    errorLog(`抽選取り消しエラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500 }
+    );
+  }
+}
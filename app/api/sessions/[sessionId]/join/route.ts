@@ -6,13 +6,21 @@ import {
   Player, 
   JoinSessionResponse, 
   APIError, 
-  NameAdjustmentResult 
+  NameAdjustmentResult,
+  ErrorCode,
+  GAME_CONSTANTS
 } from '@/types';
 import { 
   generatePlayerId, 
-  generateBingoBoard, 
   adjustPlayerName 
 } from '@/utils/gameUtils';
+import { generateCardsForGameType } from '@/utils/bingo';
+import { getAllSessionCards } from '@/utils/paperCards';
+import { resolveLateJoinMode } from '@/utils/lateJoin';
+import { sanitizeLocale } from '@/utils/i18n';
+import { toPublicSession } from '@/utils/publicSession';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { getDeviceToken, hashDeviceToken, isDeviceBanned, setDeviceCookie } from '@/lib/bans';
 
 // Pusherインスタンス
 const pusher = new Pusher({
@@ -23,36 +31,52 @@ const pusher = new Pusher({
   useTLS: true,
 });
 
+// 他の参加と重なった場合にやり直す回数
+const JOIN_UPDATE_ATTEMPTS = 3;
+
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ sessionId: string }> }
 ) {
+  const locale = getRequestLocale(request);
+
   try {
     // Next.js 15の新仕様：paramsをawaitで解決
     const { sessionId } = await params;
     
     // リクエストボディの解析
     const body = await request.json();
-    const { accessToken, playerName } = body;
+    const { accessToken, playerName, cardCount = 1 } = body;
+    const playerLocale = body.locale === undefined ? null : sanitizeLocale(body.locale);
+    // 端末のトークン（Cookie）。参加禁止の照合に使い、初めての端末には発行する
+    const device = getDeviceToken(request);
+    const deviceTokenHash = hashDeviceToken(device.token);
     
     // バリデーション
     if (!accessToken || !/^[A-Z0-9]{8}$/.test(accessToken)) {
       return NextResponse.json(
-        { error: '無効なアクセストークンです' } as APIError,
+        errorBody(locale, ErrorCode.INVALID_ACCESS_TOKEN),
         { status: 400 }
       );
     }
     
     if (!playerName || playerName.trim().length === 0) {
       return NextResponse.json(
-        { error: '名前を入力してください' } as APIError,
+        errorBody(locale, ErrorCode.NAME_REQUIRED),
         { status: 400 }
       );
     }
     
-    if (playerName.length > 25) {
+    if (playerName.length > GAME_CONSTANTS.PLAYER_NAME_MAX_LENGTH) {
       return NextResponse.json(
-        { error: '名前は25文字以内で入力してください' } as APIError,
+        errorBody(locale, ErrorCode.NAME_TOO_LONG, { max: GAME_CONSTANTS.PLAYER_NAME_MAX_LENGTH }),
+        { status: 400 }
+      );
+    }
+
+    if (body.locale !== undefined && !playerLocale) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_LOCALE),
         { status: 400 }
       );
     }
@@ -68,7 +92,7 @@ export async function POST(
     
     if (!session) {
       return NextResponse.json(
-        { error: 'セッションが見つからないか、アクセストークンが正しくありません' } as APIError,
+        errorBody(locale, ErrorCode.SESSION_AUTH_FAILED),
         { status: 404 }
       );
     }
@@ -76,15 +100,25 @@ export async function POST(
     // 有効期限チェック
     if (new Date(session.expiresAt) < new Date()) {
       return NextResponse.json(
-        { error: 'セッションの有効期限が切れています' } as APIError,
+        errorBody(locale, ErrorCode.SESSION_EXPIRED),
         { status: 410 }
       );
     }
+
+    // 参加禁止チェック（退出させられた端末からは別の名前でも参加できない）
+    if (isDeviceBanned(session, deviceTokenHash)) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.PLAYER_BANNED),
+        { status: 403 }
+      );
+    }
     
-    // ゲーム開始済みチェック
-    if (session.status !== 'waiting') {
+    // ゲーム開始済みチェック（途中参加を許可している場合はゲーム中も参加できる）
+    const lateJoinMode = resolveLateJoinMode(session.rules);
+    const isLateJoin = session.status === 'playing' && lateJoinMode !== 'off';
+    if (session.status !== 'waiting' && !isLateJoin) {
       return NextResponse.json(
-        { error: 'このセッションはすでにゲームが開始されています' } as APIError,
+        errorBody(locale, ErrorCode.GAME_ALREADY_STARTED),
         { status: 400 }
       );
     }
@@ -92,31 +126,96 @@ export async function POST(
     // 最大人数チェック
     if (session.players.length >= (session.maxPlayers || 25)) {
       return NextResponse.json(
-        { error: 'このセッションは満員です' } as APIError,
+        errorBody(locale, ErrorCode.SESSION_FULL),
         { status: 400 }
       );
     }
     
-    const nameAdjustment = adjustPlayerName(playerName.trim(), session.players);
-    
-    // プレイヤー情報の作成（Player型に完全準拠）
-    const newPlayer: Player = {
-      id: generatePlayerId(), 
-      name: nameAdjustment.adjustedName,
-      board: generateBingoBoard(),
-      bingoCount: 0,
-      joinedAt: new Date().toISOString(),
-      isConnected: true
-    };
+    // 購入枚数チェック（上限はセッションごとに設定）
+    const maxCards = session.rules?.maxCardsPerPlayer ?? 1;
+    if (!Number.isInteger(cardCount) || cardCount < 1 || cardCount > maxCards) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_CARD_COUNT, { max: maxCards }),
+        { status: 400 }
+      );
+    }
     
-    // データベース更新
-    await sessions.updateOne(
-      { sessionId },
-      { 
-        $push: { players: newPlayer },
-        $set: { updatedAt: new Date() }
+    // 同時に参加した人と同じカード・似すぎたカードにならないよう、カードを比較した時点から参加者が変わっていない場合のみ追加する
+    // 他の参加と重なった場合は読み込み直してカードを作り直す
+    const playerId = generatePlayerId();
+    let current = session;
+    let nameAdjustment: ReturnType<typeof adjustPlayerName>;
+    let boards: number[][][];
+    let newPlayer: Player;
+    for (let attempt = 1; ; attempt++) {
+      nameAdjustment = adjustPlayerName(playerName.trim(), current.players);
+      
+      // ゲーム形式に合わせたカードを生成
+      // 90ボールは3×9のチケット、ワードビンゴは用語インデックスのカード
+      // 他の参加者と同じカード・似すぎたカードにならないよう、セッション内の全カード（紙のカードを含む）と比較する
+      boards = generateCardsForGameType(
+        cardCount,
+        current.gameType,
+        current.terms?.length,
+        getAllSessionCards(current)
+      );
+      
+      // プレイヤー情報の作成（Player型に完全準拠）
+      newPlayer = {
+        id: playerId, 
+        name: nameAdjustment.adjustedName,
+        board: boards[0],
+        boards,
+        bingoCount: 0,
+        joinedAt: new Date().toISOString(),
+        isConnected: true,
+        ...(playerLocale && { locale: playerLocale }),
+        deviceTokenHash,
+        // 途中参加: 参加時点の抽選数を記録（カードは抽選済みの番号で自動的にマークされる）
+        ...(isLateJoin && {
+          lateJoinedAtDraw: (current.numbers || []).length,
+          ...(lateJoinMode === 'next-round' && { waitingForNextRound: true })
+        })
+      };
+      
+      // データベース更新（確認後にゲームが開始・終了した・参加を禁止された場合は参加させない）
+      const updateResult = await sessions.updateOne(
+        {
+          sessionId,
+          status: session.status,
+          players: { $size: current.players.length },
+          'bannedPlayers.deviceTokenHash': { $ne: deviceTokenHash }
+        },
+        { 
+          $push: { players: newPlayer },
+          $set: { updatedAt: new Date() }
+        }
+      );
+
+      if (updateResult.matchedCount > 0) break;
+
+      const latest = await sessions.findOne({ sessionId, accessToken });
+      if (
+        !latest ||
+        latest.status !== session.status ||
+        isDeviceBanned(latest, deviceTokenHash) ||
+        attempt >= JOIN_UPDATE_ATTEMPTS
+      ) {
+        return NextResponse.json(
+          errorBody(locale, ErrorCode.SESSION_STATE_CHANGED),
+          { status: 409 }
+        );
       }
-    );
+
+      if (latest.players.length >= (latest.maxPlayers || 25)) {
+        return NextResponse.json(
+          errorBody(locale, ErrorCode.SESSION_FULL),
+          { status: 400 }
+        );
+      }
+
+      current = latest;
+    }
     
     // Pusherで参加イベントを送信
     try {
@@ -127,11 +226,21 @@ export async function POST(
           id: newPlayer.id,
           name: newPlayer.name,
           role: 'player',
-          isHost: false
+          isHost: false,
+          lateJoinedAtDraw: newPlayer.lateJoinedAtDraw,
+          waitingForNextRound: newPlayer.waitingForNextRound
         }
       );
       
       console.log(`Player joined event sent: ${newPlayer.name} (${newPlayer.id})`);
+
+      // ゲーム中の画面は参加者一覧をセッション更新で受け取るため、途中参加時は全体を送る
+      if (isLateJoin) {
+        const updatedSession = await sessions.findOne({ sessionId });
+        if (updatedSession) {
+          await pusher.trigger(`presence-session-${sessionId}`, 'session-updated', { session: toPublicSession(updatedSession) });
+        }
+      }
     } catch (pusherError) {
       console.error('Failed to send Pusher event:', pusherError);
       // Pusherエラーは無視して続行（参加自体は成功）
@@ -149,17 +258,22 @@ export async function POST(
     const response: JoinSessionResponse = {
       playerId: newPlayer.id,
       board: newPlayer.board,
+      boards,
       nameAdjustment: nameAdjustmentData
     };
     
-    return NextResponse.json(response, { status: 201 });
+    const jsonResponse = NextResponse.json(response, { status: 201 });
+    if (device.isNew) {
+      setDeviceCookie(jsonResponse, device.token);
+    }
+    return jsonResponse;
     
   } catch (error) {
     console.error('参加エラー:', error);
     
     return NextResponse.json(
-      { 
-        error: 'ゲームへの参加に失敗しました',
+      {
+        ...errorBody(locale, ErrorCode.JOIN_FAILED),
         details: process.env.NODE_ENV === 'development' ? String(error) : undefined
       } as APIError,
       { status: 500 }
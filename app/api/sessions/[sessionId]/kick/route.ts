@@ -0,0 +1,174 @@
+// app/api/sessions/[sessionId]/kick/route.ts
+// プレイヤーを退出させるAPI（ホスト、またはプレイヤー管理の権限を持つ共同ホスト）
+//
+// 退出させられたプレイヤーには player-kicked を送り、説明画面へ移動させる
+// ban を指定すると、同じ端末からは別の名前でもこのセッションに参加できなくなる
+import { NextRequest, NextResponse } from 'next/server';
+import Pusher from 'pusher';
+import { getDatabase } from '@/lib/database';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { resolveHostActorId } from '@/lib/coHosts';
+import { formatMessage, getMessages } from '@/utils/i18n';
+import { createAuditEntry } from '@/utils/audit';
+import { hasHostPermission } from '@/utils/hostPermissions';
+import { toPublicSession } from '@/utils/publicSession';
+import { debugLog, errorLog } from '@/utils/validation';
+import { ErrorCode } from '@/types';
+import type {
+  APIRouteContext,
+  BannedPlayer,
+  GameSession,
+  KickPlayerRequest,
+  KickPlayerResponse,
+  PlayerKickedEventData,
+  SessionRouteParams
+} from '@/types';
+
+// Pusherインスタンス初期化
+const pusher = new Pusher({
+  appId: process.env.PUSHER_APP_ID!,
+  key: process.env.PUSHER_KEY!,
+  secret: process.env.PUSHER_SECRET!,
+  cluster: process.env.PUSHER_CLUSTER!,
+  useTLS: true
+});
+
+export async function POST(
+  request: NextRequest,
+  context: APIRouteContext<SessionRouteParams>
+) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const { sessionId } = await context.params;
+    const body: KickPlayerRequest = await request.json();
+    const { accessToken, hostId, playerId } = body;
+
+    // バリデーション
+    if (!sessionId || !accessToken || !hostId || !playerId) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.MISSING_PARAMETERS),
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const sessionsCollection = db.collection<GameSession>('sessions');
+    const session = await sessionsCollection.findOne({ sessionId, accessToken });
+
+    if (!session) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.SESSION_AUTH_FAILED),
+        { status: 404 }
+      );
+    }
+
+    // ホスト権限チェック（共同ホストはプレイヤー管理の権限が必要）
+    const actorId = resolveHostActorId(session, hostId);
+    if (!actorId || !hasHostPermission(session, actorId, 'moderate-players')) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.HOST_PERMISSION_REQUIRED),
+        { status: 403 }
+      );
+    }
+
+    const player = session.players.find(p => p.id === playerId);
+    if (!player) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.PLAYER_NOT_FOUND),
+        { status: 404 }
+      );
+    }
+
+    // 参加禁止は端末のトークン（Cookie）で照合するため、トークンなしで参加した古いプレイヤーは禁止できない
+    // 退出だけが行われて禁止されたと誤解しないよう、退出もさせずにエラーを返す
+    if (body.ban === true && !player.deviceTokenHash) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.PLAYER_NOT_BANNABLE),
+        { status: 409 }
+      );
+    }
+
+    const now = new Date();
+
+    const bannedPlayer: BannedPlayer | null = body.ban === true && player.deviceTokenHash
+      ? { name: player.name, deviceTokenHash: player.deviceTokenHash, bannedAt: now.toISOString() }
+      : null;
+    const ban = bannedPlayer !== null;
+
+    // 操作履歴・申告の理由はセッションの言語で記録する
+    const messages = getMessages(session.locale).server;
+    const auditEntry = createAuditEntry({
+      action: 'player-kicked',
+      actorId,
+      message: formatMessage(ban ? messages.playerBanned : messages.playerKicked, { name: player.name }),
+      playerIds: [playerId]
+    }, now);
+
+    // 確認待ちの申告はホストの画面に残らないよう無効にする
+    const hasPendingClaims = (session.claims || []).some(
+      claim => claim.playerId === playerId && claim.status === 'pending'
+    );
+
+    // 読み込み後に本人が退出していない場合のみ更新する
+    const updateResult = await sessionsCollection.updateOne(
+      { sessionId, 'players.id': playerId },
+      {
+        $pull: { players: { id: playerId } },
+        $push: {
+          auditLog: auditEntry,
+          ...(bannedPlayer && { bannedPlayers: bannedPlayer })
+        },
+        $set: {
+          updatedAt: now,
+          ...(hasPendingClaims && {
+            'claims.$[claim].status': 'voided',
+            'claims.$[claim].reason': messages.claimVoidedByKick
+          })
+        }
+      },
+      hasPendingClaims
+        ? { arrayFilters: [{ 'claim.playerId': playerId, 'claim.status': 'pending' }] }
+        : undefined
+    );
+
+    if (updateResult.matchedCount === 0) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.PLAYER_NOT_FOUND),
+        { status: 404 }
+      );
+    }
+
+    debugLog('プレイヤーを退出させました', { sessionId, playerId, ban });
+
+    try {
+      const channelName = `presence-session-${sessionId}`;
+      const eventData: PlayerKickedEventData = { playerId, banned: ban };
+
+      await pusher.trigger(channelName, 'player-kicked', eventData);
+      await pusher.trigger(channelName, 'player-left', playerId);
+
+      const updatedSession = await sessionsCollection.findOne({ sessionId });
+      if (updatedSession) {
+        await pusher.trigger(channelName, 'session-updated', { session: toPublicSession(updatedSession) });
+      }
+    } catch (pusherError) {
+      // 退出は保存済みなので処理は続行
+      errorLog(`Pusherイベント送信エラー: ${(pusherError as Error).message}`);
+    }
+
+    const response: KickPlayerResponse = {
+      success: true,
+      playerId,
+      banned: ban
+    };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    errorLog(`プレイヤーの退出エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500 }
+    );
+  }
+}
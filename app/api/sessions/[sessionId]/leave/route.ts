@@ -9,9 +9,11 @@ import {
   LeaveSessionRequest,
   LeaveSessionResponse,
   APIError,
-  ErrorCode,
-  ERROR_MESSAGES
+  ErrorCode
 } from '@/types';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { getMessages } from '@/utils/i18n';
+import { toPublicSession } from '@/utils/publicSession';
 
 // Pusherインスタンス
 const pusher = new Pusher({
@@ -26,6 +28,8 @@ export async function POST(
   request: NextRequest,
   context: APIRouteContext<SessionRouteParams>
 ) {
+  const locale = getRequestLocale(request);
+
   try {
     // リクエストボディを取得
     const body: LeaveSessionRequest = await request.json();
@@ -42,9 +46,8 @@ export async function POST(
     // バリデーション
     if (!playerId || !accessToken) {
       const errorResponse: APIError = {
-        error: ERROR_MESSAGES[ErrorCode.VALIDATION_ERROR],
-        code: ErrorCode.VALIDATION_ERROR,
-        details: '必須パラメータが不足しています'
+        ...errorBody(locale, ErrorCode.VALIDATION_ERROR),
+        details: getMessages(locale).errors[ErrorCode.MISSING_PARAMETERS]
       };
       return NextResponse.json(errorResponse, { status: 400 });
     }
@@ -56,29 +59,20 @@ export async function POST(
     const session = await collection.findOne({ sessionId });
 
     if (!session) {
-      const errorResponse: APIError = {
-        error: ERROR_MESSAGES[ErrorCode.INVALID_SESSION],
-        code: ErrorCode.INVALID_SESSION
-      };
+      const errorResponse: APIError = errorBody(locale, ErrorCode.INVALID_SESSION);
       return NextResponse.json(errorResponse, { status: 404 });
     }
 
     // アクセストークンの検証
     if (session.accessToken !== accessToken) {
-      const errorResponse: APIError = {
-        error: ERROR_MESSAGES[ErrorCode.INVALID_ACCESS_TOKEN],
-        code: ErrorCode.INVALID_ACCESS_TOKEN
-      };
+      const errorResponse: APIError = errorBody(locale, ErrorCode.INVALID_ACCESS_TOKEN);
       return NextResponse.json(errorResponse, { status: 403 });
     }
 
     // プレイヤーの存在確認
     const playerExists = session.players.find(p => p.id === playerId);
     if (!playerExists) {
-      const errorResponse: APIError = {
-        error: ERROR_MESSAGES[ErrorCode.PLAYER_NOT_FOUND],
-        code: ErrorCode.PLAYER_NOT_FOUND
-      };
+      const errorResponse: APIError = errorBody(locale, ErrorCode.PLAYER_NOT_FOUND);
       return NextResponse.json(errorResponse, { status: 404 });
     }
 
@@ -111,8 +105,8 @@ export async function POST(
     // 成功レスポンス
     const response: LeaveSessionResponse = {
       success: true,
-      message: 'セッションから退出しました',
-      session: result as GameSession | undefined
+      message: getMessages(locale).server.leftSession,
+      session: result ? toPublicSession(result) : undefined
     };
 
     return NextResponse.json(response);
@@ -121,8 +115,7 @@ export async function POST(
     console.error('Leave session error:', error);
     
     const errorResponse: APIError = {
-      error: ERROR_MESSAGES[ErrorCode.INTERNAL_ERROR],
-      code: ErrorCode.INTERNAL_ERROR,
+      ...errorBody(locale, ErrorCode.INTERNAL_ERROR),
       details: error instanceof Error ? error.message : 'Unknown error'
     };
     
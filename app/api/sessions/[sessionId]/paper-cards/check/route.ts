@@ -0,0 +1,99 @@
+// app/api/sessions/[sessionId]/paper-cards/check/route.ts
+// 紙のカードの照合API（ホストのみ）
+//
+// 参加者が読み上げたシリアル番号のカードを、サーバーに保存したカードと抽選済みの番号で判定する
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { resolveHostActorId } from '@/lib/coHosts';
+import { errorLog } from '@/utils/validation';
+import { resolvePatterns } from '@/utils/patterns';
+import { evaluateClaim } from '@/utils/claims';
+import { findPaperCard } from '@/utils/paperCards';
+import { hasHostPermission } from '@/utils/hostPermissions';
+import { ErrorCode } from '@/types';
+import type {
+  APIRouteContext,
+  CheckPaperCardRequest,
+  CheckPaperCardResponse,
+  GameSession,
+  SessionRouteParams
+} from '@/types';
+
+export async function POST(
+  request: NextRequest,
+  context: APIRouteContext<SessionRouteParams>
+) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const { sessionId } = await context.params;
+    const body: CheckPaperCardRequest = await request.json();
+    const { accessToken, hostId, serial } = body;
+
+    // バリデーション
+    if (!sessionId || !accessToken || !hostId || typeof serial !== 'string' || !serial.trim()) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.MISSING_PARAMETERS),
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const sessionsCollection = db.collection<GameSession>('sessions');
+
+    const session = await sessionsCollection.findOne({ sessionId, accessToken });
+
+    if (!session) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.SESSION_AUTH_FAILED),
+        { status: 404 }
+      );
+    }
+
+    // ホスト権限チェック（共同ホストは参加者対応の権限が必要）
+    if (!hasHostPermission(session, resolveHostActorId(session, hostId), 'moderate-players')) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.HOST_PERMISSION_REQUIRED),
+        { status: 403 }
+      );
+    }
+
+    const paperCard = findPaperCard(session.paperCards, serial);
+
+    if (!paperCard) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.PAPER_CARD_NOT_FOUND, { serial: serial.trim() }),
+        { status: 404 }
+      );
+    }
+
+    // 紙のカードは参加者がマークを申告できないため、抽選済みの番号を全てマークしたものとして判定する
+    const drawnNumbers = session.numbers || [];
+    const evaluation = evaluateClaim(
+      paperCard.card,
+      drawnNumbers,
+      drawnNumbers,
+      resolvePatterns(session.rules),
+      session.locale
+    );
+
+    const drawn = new Set(drawnNumbers);
+    const response: CheckPaperCardResponse = {
+      success: true,
+      paperCard,
+      isBingo: evaluation.valid,
+      lines: evaluation.winningPatterns,
+      markedNumbers: paperCard.card.flat().filter(num => num !== 0 && drawn.has(num)),
+      drawCount: drawnNumbers.length
+    };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    errorLog(`紙のカード照合エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500 }
+    );
+  }
+}
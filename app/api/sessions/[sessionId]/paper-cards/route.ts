@@ -0,0 +1,120 @@
+// app/api/sessions/[sessionId]/paper-cards/route.ts
+// 紙のカードの発行API（ホストのみ）
+//
+// スマートフォンのない参加者向けに印刷するカードを生成し、シリアル番号を付けてセッションに登録する
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { resolveHostActorId } from '@/lib/coHosts';
+import { debugLog, errorLog } from '@/utils/validation';
+import { generateCardsForGameType } from '@/utils/bingo';
+import { generatePaperCardSerial, getAllSessionCards } from '@/utils/paperCards';
+import { hasHostPermission } from '@/utils/hostPermissions';
+import { ErrorCode, GAME_CONSTANTS } from '@/types';
+import type {
+  APIRouteContext,
+  CreatePaperCardsRequest,
+  CreatePaperCardsResponse,
+  GameSession,
+  PaperCard,
+  SessionRouteParams
+} from '@/types';
+
+export async function POST(
+  request: NextRequest,
+  context: APIRouteContext<SessionRouteParams>
+) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const { sessionId } = await context.params;
+    const body: CreatePaperCardsRequest = await request.json();
+    const { accessToken, hostId, count } = body;
+
+    // バリデーション
+    if (!sessionId || !accessToken || !hostId) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.MISSING_PARAMETERS),
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(count) || count < 1 || count > GAME_CONSTANTS.MAX_PAPER_CARDS_PER_BATCH) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_PAPER_CARD_COUNT, { max: GAME_CONSTANTS.MAX_PAPER_CARDS_PER_BATCH }),
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const sessionsCollection = db.collection<GameSession>('sessions');
+
+    const session = await sessionsCollection.findOne({ sessionId, accessToken });
+
+    if (!session) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.SESSION_AUTH_FAILED),
+        { status: 404 }
+      );
+    }
+
+    // ホスト権限チェック（共同ホストは参加者対応の権限が必要）
+    if (!hasHostPermission(session, resolveHostActorId(session, hostId), 'moderate-players')) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.HOST_PERMISSION_REQUIRED),
+        { status: 403 }
+      );
+    }
+
+    const existingPaperCards = session.paperCards || [];
+    if (existingPaperCards.length + count > GAME_CONSTANTS.MAX_PAPER_CARDS) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.PAPER_CARD_LIMIT_REACHED, {
+          max: GAME_CONSTANTS.MAX_PAPER_CARDS,
+          remaining: GAME_CONSTANTS.MAX_PAPER_CARDS - existingPaperCards.length
+        }),
+        { status: 400 }
+      );
+    }
+
+    // 参加者のカード・発行済みの紙のカードと同じカード・似すぎたカードにならないようにする
+    const cards = generateCardsForGameType(
+      count,
+      session.gameType,
+      session.terms?.length,
+      getAllSessionCards(session)
+    );
+
+    const serials = new Set(existingPaperCards.map(paperCard => paperCard.serial));
+    const createdAt = new Date().toISOString();
+    const paperCards: PaperCard[] = cards.map(card => {
+      const serial = generatePaperCardSerial(serials);
+      serials.add(serial);
+      return { serial, card, createdAt };
+    });
+
+    await sessionsCollection.updateOne(
+      { sessionId },
+      {
+        $push: { paperCards: { $each: paperCards } },
+        $set: { updatedAt: new Date() }
+      }
+    );
+
+    debugLog('紙のカードを発行', { sessionId, count });
+
+    const response: CreatePaperCardsResponse = {
+      success: true,
+      paperCards,
+      total: existingPaperCards.length + paperCards.length
+    };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    errorLog(`紙のカード発行エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500 }
+    );
+  }
+}
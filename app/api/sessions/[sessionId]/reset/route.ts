@@ -1,9 +1,16 @@
 // app/api/sessions/[sessionId]/reset/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/database';
-import { GameSession } from '@/types';
+import { GameSession, ErrorCode } from '@/types';
+import type { DiscardedDraws } from '@/types';
 import { debugLog, errorLog } from '@/utils/validation';
-import { generateBingoCard } from '@/utils/bingo';
+import { generateCardsForGameType, getPlayerBoards } from '@/utils/bingo';
+import { createDrawCommitment, getDrawSeed } from '@/lib/fairness';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { resolveHostActorId } from '@/lib/coHosts';
+import { getMessages } from '@/utils/i18n';
+import { hasHostPermission } from '@/utils/hostPermissions';
+import { toPublicSession } from '@/utils/publicSession';
 import Pusher from 'pusher';
 
 // Pusherクライアントの初期化
@@ -19,6 +26,8 @@ export async function POST(
   request: NextRequest,
   context: { params: Promise<{ sessionId: string }> }
 ) {
+  const locale = getRequestLocale(request);
+
   try {
     const params = await context.params;
     const { sessionId } = params;
@@ -31,7 +40,7 @@ export async function POST(
     // 認証チェック
     if (!hostId || !accessToken) {
       return NextResponse.json(
-        { error: 'Authentication required' },
+        errorBody(locale, ErrorCode.AUTHENTICATION_FAILED),
         { status: 401 }
       );
     }
@@ -47,26 +56,60 @@ export async function POST(
 
     if (!session) {
       return NextResponse.json(
-        { error: 'Session not found' },
+        errorBody(locale, ErrorCode.INVALID_SESSION),
         { status: 404 }
       );
     }
 
-    // ホスト権限チェック
-    if (session.hostId !== hostId) {
+    // ホスト権限チェック（共同ホストはゲーム進行の権限が必要）
+    if (!hasHostPermission(session, resolveHostActorId(session, hostId), 'manage-game')) {
       return NextResponse.json(
-        { error: 'Only host can reset the game' },
+        errorBody(locale, ErrorCode.HOST_PERMISSION_REQUIRED),
         { status: 403 }
       );
     }
 
-    // プレイヤーのビンゴカードを再生成
-    const resetPlayers = session.players.map(player => ({
-      ...player,
-      board: generateBingoCard(),
-      bingoCount: 0,
-      bingoAchievedAt: undefined,
-    }));
+    // プレイヤーのビンゴカードを再生成（ゲーム形式に合わせる）
+    // 購入した枚数は維持し、新しいカード同士でも重複・類似しないようにする
+    // 紙のカードは印刷済みのためリセット後もそのまま使い、新しいカードと重ならないようにする
+    const assignedBoards: number[][][] = (session.paperCards || []).map(paperCard => paperCard.card);
+    const resetPlayers = session.players.map(player => {
+      const boards = generateCardsForGameType(
+        getPlayerBoards(player).length,
+        session.gameType,
+        session.terms?.length,
+        assignedBoards
+      );
+      assignedBoards.push(...boards);
+
+      return {
+        ...player,
+        board: boards[0],
+        boards,
+        bingoCount: 0,
+        bingoAchievedAt: undefined,
+        falseClaimCount: 0,
+        lockedUntilDraw: undefined,
+        lateJoinedAtDraw: undefined,
+        waitingForNextRound: undefined,
+      };
+    });
+
+    // 破棄するゲームのシードを公開して記録に残す（リセットで抽選をやり直しても検証できるようにする）
+    const seed = session.fairness ? await getDrawSeed(sessionId) : null;
+    const discardedAt = new Date();
+    const discardedDraws: DiscardedDraws | undefined = session.fairness && seed
+      ? {
+          numbers: session.numbers,
+          fairness: { ...session.fairness, seed, revealedAt: discardedAt.toISOString() },
+          discardedAt: discardedAt.toISOString()
+        }
+      : undefined;
+
+    // 新しいゲーム用にシードを作り直す（前回のシードは使い回さない）
+    const fairness = session.fairness
+      ? await createDrawCommitment(sessionId, session.expiresAt)
+      : undefined;
 
     // セッションをリセット（statusは'playing'を維持）
     const updateResult = await db.collection<GameSession>('sessions').updateOne(
@@ -77,8 +120,14 @@ export async function POST(
           numbers: [],
           currentNumber: null,
           players: resetPlayers,
-          updatedAt: new Date()
-        }
+          claims: [],
+          prizeAwards: [],
+          roundStartedAt: new Date(),
+          updatedAt: new Date(),
+          ...(fairness && { fairness })
+        },
+        ...(discardedDraws && { $push: { discardedDraws } }),
+        $unset: { autoDraw: '' }
       }
     );
 
@@ -101,7 +150,7 @@ export async function POST(
       'game-reset',
       {
         sessionId,
-        session: updatedSession,
+        session: toPublicSession(updatedSession),
         resetAt: new Date().toISOString()
       }
     );
@@ -111,7 +160,7 @@ export async function POST(
       `presence-session-${sessionId}`,
       'session-updated',
       {
-        session: updatedSession
+        session: toPublicSession(updatedSession)
       }
     );
 
@@ -119,7 +168,7 @@ export async function POST(
 
     return NextResponse.json({
       success: true,
-      message: 'ゲームがリセットされました',
+      message: getMessages(locale).server.gameReset,
       session: updatedSession
     });
 
@@ -127,7 +176,7 @@ export async function POST(
     const errorMessage = error instanceof Error ? error.message : 'Failed to reset game';
     errorLog(`Game reset error: ${errorMessage}`);
     return NextResponse.json(
-      { error: errorMessage },
+      { ...errorBody(locale, ErrorCode.INTERNAL_ERROR), details: errorMessage },
       { status: 500 }
     );
   }
@@ -0,0 +1,219 @@
+// app/api/sessions/[sessionId]/rounds/route.ts
+// 次のラウンドを開始するAPI（現在のラウンドを記録し、同じプレイヤーに新しいカードを配る）
+import { NextRequest, NextResponse } from 'next/server';
+import Pusher from 'pusher';
+import { getDatabase } from '@/lib/database';
+import { createDrawCommitment, getDrawSeed } from '@/lib/fairness';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { resolveHostActorId } from '@/lib/coHosts';
+import { debugLog, errorLog } from '@/utils/validation';
+import { generateCardsForGameType, getPlayerBoards } from '@/utils/bingo';
+import { sanitizePatterns } from '@/utils/patterns';
+import { buildRoundResult } from '@/utils/rounds';
+import { hasHostPermission } from '@/utils/hostPermissions';
+import { toPublicSession } from '@/utils/publicSession';
+import { ErrorCode } from '@/types';
+import type {
+  APIRouteContext,
+  GameSession,
+  RoundStartedEventData,
+  SessionRouteParams,
+  StartRoundRequest,
+  StartRoundResponse
+} from '@/types';
+
+// Pusherインスタンス初期化
+const pusher = new Pusher({
+  appId: process.env.PUSHER_APP_ID!,
+  key: process.env.PUSHER_KEY!,
+  secret: process.env.PUSHER_SECRET!,
+  cluster: process.env.PUSHER_CLUSTER!,
+  useTLS: true
+});
+
+export async function POST(
+  request: NextRequest,
+  context: APIRouteContext<SessionRouteParams>
+) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const { sessionId } = await context.params;
+    const body: StartRoundRequest = await request.json();
+    const { accessToken, hostId } = body;
+
+    // バリデーション
+    if (!sessionId || !accessToken || !hostId) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.MISSING_PARAMETERS),
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const sessionsCollection = db.collection<GameSession>('sessions');
+
+    const session = await sessionsCollection.findOne({ sessionId, accessToken });
+
+    if (!session) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.SESSION_AUTH_FAILED),
+        { status: 404 }
+      );
+    }
+
+    // ホスト権限チェック（共同ホストはゲーム進行の権限が必要）
+    if (!hasHostPermission(session, resolveHostActorId(session, hostId), 'manage-game')) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.HOST_PERMISSION_REQUIRED),
+        { status: 403 }
+      );
+    }
+
+    if (session.status !== 'playing') {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.GAME_NOT_PLAYING),
+        { status: 400 }
+      );
+    }
+
+    if (session.numbers.length === 0) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.ROUND_HAS_NO_DRAWS),
+        { status: 400 }
+      );
+    }
+
+    // 90ボールは賞（1ライン・2ライン・フルハウス）が固定のためパターンを変更しない
+    const patterns = body.patterns !== undefined && session.gameType !== '90ball'
+      ? sanitizePatterns(body.patterns)
+      : session.rules?.patterns;
+
+    if (patterns === null) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_PATTERNS),
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+
+    // 終了するラウンドのシードを公開して記録に残す（次のラウンドでは新しいシードを使う）
+    const seed = session.fairness ? await getDrawSeed(sessionId) : null;
+    const round = buildRoundResult(
+      {
+        ...session,
+        fairness: session.fairness && seed
+          ? { ...session.fairness, seed, revealedAt: now.toISOString() }
+          : session.fairness
+      },
+      now
+    );
+
+    // プレイヤーはそのままで新しいカードを配る（購入した枚数は維持）
+    // 紙のカードは印刷済みのため次のラウンドでもそのまま使い、新しいカードと重ならないようにする
+    const assignedBoards: number[][][] = (session.paperCards || []).map(paperCard => paperCard.card);
+    const nextPlayers = session.players.map(player => {
+      const boards = generateCardsForGameType(
+        getPlayerBoards(player).length,
+        session.gameType,
+        session.terms?.length,
+        assignedBoards
+      );
+      assignedBoards.push(...boards);
+
+      return {
+        ...player,
+        board: boards[0],
+        boards,
+        bingoCount: 0,
+        bingoAchievedAt: undefined,
+        falseClaimCount: 0,
+        lockedUntilDraw: undefined,
+        lateJoinedAtDraw: undefined,
+        waitingForNextRound: undefined,
+      };
+    });
+
+    // 同時に押された場合に同じラウンドを二重に記録しないよう、記録済みのラウンド数を条件にする
+    const updateResult = await sessionsCollection.updateOne(
+      {
+        sessionId,
+        $expr: { $eq: [{ $size: { $ifNull: ['$rounds', []] } }, round.roundNumber - 1] }
+      },
+      {
+        $push: { rounds: round },
+        $set: {
+          numbers: [],
+          currentNumber: null,
+          players: nextPlayers,
+          claims: [],
+          prizeAwards: [],
+          roundStartedAt: now,
+          ...(patterns && { 'rules.patterns': patterns })
+        },
+        // 自動抽選はラウンドごとにホストが開始し直す
+        $unset: { autoDraw: '' }
+      }
+    );
+
+    if (updateResult.matchedCount === 0) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.ROUND_ALREADY_STARTED),
+        { status: 409 }
+      );
+    }
+
+    // ラウンドを確定してから新しいシードを作る（前のラウンドのシードは記録に公開済み）
+    if (session.fairness) {
+      const fairness = await createDrawCommitment(sessionId, session.expiresAt);
+      await sessionsCollection.updateOne({ sessionId }, { $set: { fairness } });
+    }
+
+    const updatedSession = await sessionsCollection.findOne({ sessionId });
+
+    if (!updatedSession) {
+      throw new Error('Failed to retrieve updated session');
+    }
+
+    debugLog(`Round ${round.roundNumber} finished for session: ${sessionId}`, {
+      winners: round.winners.map(w => w.playerName),
+      drawCount: round.numbers.length
+    });
+
+    try {
+      const channelName = `presence-session-${sessionId}`;
+      const eventData: RoundStartedEventData = {
+        sessionId,
+        roundNumber: round.roundNumber + 1,
+        previousRound: round,
+        session: toPublicSession(updatedSession),
+        startedAt: now.toISOString()
+      };
+
+      await pusher.trigger(channelName, 'round-started', eventData);
+      await pusher.trigger(channelName, 'session-updated', { session: toPublicSession(updatedSession) });
+    } catch (pusherError) {
+      // ラウンドは保存済みなので処理は続行
+      errorLog(`Pusherイベント送信エラー: ${(pusherError as Error).message}`);
+    }
+
+    const response: StartRoundResponse = {
+      success: true,
+      round,
+      session: updatedSession
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    errorLog(`ラウンド開始エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      {
+        ...errorBody(locale, ErrorCode.INTERNAL_ERROR),
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
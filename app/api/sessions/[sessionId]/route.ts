@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCollection } from '@/lib/database';
-import { GameSession, APIError } from '@/types';
+import { GameSession, APIError, ErrorCode } from '@/types';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { resolveHostActorId } from '@/lib/coHosts';
+import { toPublicSession } from '@/utils/publicSession';
 import { WithId } from 'mongodb';
 
 //セッション情報取得API
@@ -14,13 +17,15 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ sessionId: string }> }
 ) {
+  const locale = getRequestLocale(request);
+
   try {
     const { sessionId } = await params;
     
     // バリデーション
     if (!sessionId || !/^[A-Z0-9]{6}$/.test(sessionId)) {
       return NextResponse.json(
-        { error: '無効なセッションIDです' } as APIError,
+        errorBody(locale, ErrorCode.INVALID_SESSION_ID),
         { status: 400, headers }
       );
     }
@@ -31,7 +36,7 @@ export async function GET(
 
     if (!session) {
       return NextResponse.json(
-        { error: 'セッションが見つかりません' } as APIError,
+        errorBody(locale, ErrorCode.INVALID_SESSION),
         { status: 404, headers }
       );
     }
@@ -39,11 +44,16 @@ export async function GET(
     // 期限切れチェック
     if (new Date(session.expiresAt) < new Date()) {
       return NextResponse.json(
-        { error: 'セッションの有効期限が切れています' } as APIError,
+        errorBody(locale, ErrorCode.SESSION_EXPIRED),
         { status: 410, headers }
       );
     }
 
+    // ホスト・共同ホスト以外には、ホストの認証情報や申告・操作履歴、紙のカードを除いて返す
+    if (!resolveHostActorId(session, request.headers.get('x-host-id'))) {
+      return NextResponse.json(toPublicSession(session), { status: 200, headers });
+    }
+
     // MongoDBの_idフィールドを除外して返す
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const { _id, ...sessionData } = session as WithId<GameSession>;
@@ -54,8 +64,8 @@ export async function GET(
     console.error('セッション取得エラー:', error);
     
     return NextResponse.json(
-      { 
-        error: 'セッション情報の取得に失敗しました',
+      {
+        ...errorBody(locale, ErrorCode.SESSION_FETCH_FAILED),
         details: process.env.NODE_ENV === 'development' ? String(error) : undefined
       } as APIError,
       { status: 500, headers }
@@ -69,7 +79,7 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Host-Id',
       'Access-Control-Max-Age': '86400',
     },
   });
@@ -0,0 +1,77 @@
+// app/api/sessions/[sessionId]/spectate/route.ts
+// 観戦として参加するAPI
+//
+// 観戦者はプレイヤーとして登録しないため、参加人数の上限には含めない。
+// 返したIDはPusherのプレゼンスチャンネルの認証に使い、ホストが観戦者数を確認できる
+import { NextRequest, NextResponse } from 'next/server';
+import { nanoid } from 'nanoid';
+import { getCollection } from '@/lib/database';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { debugLog, errorLog } from '@/utils/validation';
+import { ErrorCode } from '@/types';
+import type {
+  APIRouteContext,
+  GameSession,
+  SessionRouteParams,
+  SpectateRequest,
+  SpectateResponse
+} from '@/types';
+
+export async function POST(
+  request: NextRequest,
+  context: APIRouteContext<SessionRouteParams>
+) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const { sessionId } = await context.params;
+    const body: SpectateRequest = await request.json();
+    const { accessToken } = body;
+
+    // バリデーション
+    if (!sessionId || !accessToken) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.MISSING_PARAMETERS),
+        { status: 400 }
+      );
+    }
+
+    const sessions = await getCollection<GameSession>('sessions');
+    const session = await sessions.findOne({ sessionId, accessToken });
+
+    if (!session) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.SESSION_AUTH_FAILED),
+        { status: 404 }
+      );
+    }
+
+    // 有効期限チェック
+    if (new Date(session.expiresAt) < new Date()) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.SESSION_EXPIRED),
+        { status: 410 }
+      );
+    }
+
+    if (!session.rules?.allowSpectators) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.SPECTATING_DISABLED),
+        { status: 403 }
+      );
+    }
+
+    const response: SpectateResponse = { spectatorId: nanoid(10) };
+
+    debugLog('観戦者が参加', { sessionId, spectatorId: response.spectatorId });
+
+    return NextResponse.json(response, { status: 201 });
+
+  } catch (error) {
+    errorLog(`観戦参加エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500 }
+    );
+  }
+}
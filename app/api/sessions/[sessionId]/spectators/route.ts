@@ -0,0 +1,101 @@
+// app/api/sessions/[sessionId]/spectators/route.ts
+// 観戦の許可・停止API（ホストのみ）
+//
+// 停止すると新しい観戦者は接続できなくなり、接続中の観戦画面はセッション更新を受けて閉じる
+import { NextRequest, NextResponse } from 'next/server';
+import Pusher from 'pusher';
+import { getDatabase } from '@/lib/database';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { resolveHostActorId } from '@/lib/coHosts';
+import { debugLog, errorLog } from '@/utils/validation';
+import { hasHostPermission } from '@/utils/hostPermissions';
+import { toPublicSession } from '@/utils/publicSession';
+import { ErrorCode } from '@/types';
+import type {
+  APIRouteContext,
+  GameSession,
+  SessionRouteParams,
+  SpectatorSettingsRequest,
+  SpectatorSettingsResponse
+} from '@/types';
+
+// Pusherインスタンス初期化
+const pusher = new Pusher({
+  appId: process.env.PUSHER_APP_ID!,
+  key: process.env.PUSHER_KEY!,
+  secret: process.env.PUSHER_SECRET!,
+  cluster: process.env.PUSHER_CLUSTER!,
+  useTLS: true
+});
+
+export async function POST(
+  request: NextRequest,
+  context: APIRouteContext<SessionRouteParams>
+) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const { sessionId } = await context.params;
+    const body: SpectatorSettingsRequest = await request.json();
+    const { accessToken, hostId, enabled } = body;
+
+    // バリデーション
+    if (!sessionId || !accessToken || !hostId || typeof enabled !== 'boolean') {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.MISSING_PARAMETERS),
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const sessionsCollection = db.collection<GameSession>('sessions');
+
+    const session = await sessionsCollection.findOne({ sessionId, accessToken });
+
+    if (!session) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.SESSION_AUTH_FAILED),
+        { status: 404 }
+      );
+    }
+
+    // ホスト権限チェック（共同ホストはゲーム進行の権限が必要）
+    if (!hasHostPermission(session, resolveHostActorId(session, hostId), 'manage-game')) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.HOST_PERMISSION_REQUIRED),
+        { status: 403 }
+      );
+    }
+
+    await sessionsCollection.updateOne(
+      { sessionId },
+      enabled
+        ? { $set: { 'rules.allowSpectators': true, updatedAt: new Date() } }
+        : { $unset: { 'rules.allowSpectators': '' }, $set: { updatedAt: new Date() } }
+    );
+
+    const updatedSession = await sessionsCollection.findOne({ sessionId });
+
+    if (!updatedSession) {
+      throw new Error('Failed to retrieve updated session');
+    }
+
+    debugLog('観戦の設定を更新', { sessionId, enabled });
+
+    try {
+      await pusher.trigger(`presence-session-${sessionId}`, 'session-updated', { session: toPublicSession(updatedSession) });
+    } catch (pusherError) {
+      errorLog(`Pusherイベント送信エラー: ${(pusherError as Error).message}`);
+    }
+
+    const response: SpectatorSettingsResponse = { success: true, allowSpectators: enabled };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    errorLog(`観戦設定エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500 }
+    );
+  }
+}
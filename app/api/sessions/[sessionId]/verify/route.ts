@@ -0,0 +1,98 @@
+// app/api/sessions/[sessionId]/verify/route.ts
+// 抽選の公平性検証API（認証不要・誰でも確認できる）
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollection } from '@/lib/database';
+import { verifyDrawOrder } from '@/utils/fairness';
+import { findGameArchive } from '@/lib/archives';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { getMaxNumber } from '@/utils/gameUtils';
+import { restoreSessionFromArchive } from '@/utils/archives';
+import { errorLog } from '@/utils/validation';
+import { ErrorCode } from '@/types';
+import type {
+  APIRouteContext,
+  FairnessVerificationResponse,
+  GameSession,
+  SessionRouteParams
+} from '@/types';
+
+const headers = {
+  'Content-Type': 'application/json; charset=utf-8',
+  'Cache-Control': 'no-store, max-age=0',
+};
+
+export async function GET(
+  request: NextRequest,
+  context: APIRouteContext<SessionRouteParams>
+) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const { sessionId } = await context.params;
+
+    if (!sessionId || !/^[A-Z0-9]{6}$/.test(sessionId)) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_SESSION_ID),
+        { status: 400, headers }
+      );
+    }
+
+    const sessions = await getCollection<GameSession>('sessions');
+    const liveSession = await sessions.findOne(
+      { sessionId },
+      { projection: { sessionId: 1, status: 1, gameType: 1, terms: 1, numbers: 1, fairness: 1 } }
+    );
+
+    // セッションが有効期限で削除された後は、ゲームの記録（最終ラウンド）で検証する
+    const archive = liveSession ? null : await findGameArchive(sessionId);
+    const session = liveSession ?? (archive ? restoreSessionFromArchive(archive) : null);
+
+    if (!session) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_SESSION),
+        { status: 404, headers }
+      );
+    }
+
+    if (!session.fairness) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.NO_FAIRNESS_COMMITMENT),
+        { status: 404, headers }
+      );
+    }
+
+    const { algorithm, commitment, committedAt, seed } = session.fairness;
+    const drawnNumbers = session.numbers || [];
+
+    const response: FairnessVerificationResponse = {
+      sessionId,
+      status: session.status,
+      algorithm,
+      commitment,
+      committedAt,
+      revealed: Boolean(seed),
+      drawnNumbers
+    };
+
+    // シードはゲーム終了時に公開される。公開前はコミットメントのみ返す
+    if (seed) {
+      const result = verifyDrawOrder(
+        seed,
+        commitment,
+        drawnNumbers,
+        getMaxNumber(session.gameType, session.terms?.length)
+      );
+
+      Object.assign(response, { seed, ...result });
+    }
+
+    return NextResponse.json(response, { status: 200, headers });
+
+  } catch (error) {
+    errorLog(`抽選検証エラー: ${(error as Error).message}`);
+    return NextResponse.json(
+      errorBody(locale, ErrorCode.INTERNAL_ERROR),
+      { status: 500, headers }
+    );
+  }
+}
@@ -2,9 +2,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDatabase } from '@/lib/database';
 import { nanoid } from 'nanoid';
-import type { GameSession } from '@/types';
+import { ErrorCode, GAME_CONSTANTS } from '@/types';
+import type { GameSession, GameType } from '@/types';
 import { getBaseUrl, createParticipationUrl } from '@/utils/url';
 import { errorLog } from '@/utils/validation';
+import { errorBody, getRequestLocale } from '@/lib/i18n';
+import { getRequestAccount } from '@/lib/accounts';
+import { DEFAULT_LOCALE, getMessages, sanitizeLocale } from '@/utils/i18n';
+import { sanitizePatterns, DEFAULT_PATTERNS } from '@/utils/patterns';
+import { sanitizeTerms } from '@/utils/terms';
+import { sanitizeDaubRules } from '@/utils/claims';
+import { sanitizePlacementPoints } from '@/utils/rounds';
+import { sanitizePrizeTiers } from '@/utils/prizes';
+import { sanitizeDrawMode } from '@/utils/ballMachine';
+import { sanitizeLateJoinMode } from '@/utils/lateJoin';
 
 // セッションID生成（6文字の英数字大文字）
 function generateSessionId(): string {
@@ -28,6 +39,8 @@ function generateAccessToken(): string {
 
 // GETリクエスト: セッション一覧取得
 export async function GET(request: NextRequest) {
+  const locale = getRequestLocale(request);
+
   try {
     const db = await getDatabase();
     
@@ -65,7 +78,7 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     errorLog(`Failed to fetch sessions: ${error}`);
     return NextResponse.json(
-      { error: 'セッション一覧の取得に失敗しました' },
+      errorBody(locale, ErrorCode.SESSION_LIST_FAILED),
       { status: 500 }
     );
   }
@@ -73,32 +86,139 @@ export async function GET(request: NextRequest) {
 
 // POSTリクエスト: 新規セッション作成
 export async function POST(request: NextRequest) {
+  const locale = getRequestLocale(request);
+
   try {
     const body = await request.json();
-    const { gameName, maxPlayers = 25 } = body;
+    const { gameName, maxPlayers = 25, gameType = '75ball', terms, rules } = body;
 
     // 入力値検証
     if (!gameName || typeof gameName !== 'string') {
       return NextResponse.json(
-        { error: 'ゲーム名は必須です' },
+        errorBody(locale, ErrorCode.GAME_NAME_REQUIRED),
         { status: 400 }
       );
     }
 
     if (gameName.length < 1 || gameName.length > 50) {
       return NextResponse.json(
-        { error: 'ゲーム名は1〜50文字で入力してください' },
+        errorBody(locale, ErrorCode.INVALID_GAME_NAME, { max: GAME_CONSTANTS.GAME_NAME_MAX_LENGTH }),
         { status: 400 }
       );
     }
 
     if (typeof maxPlayers !== 'number' || maxPlayers < 2 || maxPlayers > 100) {
       return NextResponse.json(
-        { error: '最大参加人数は2〜100人の間で設定してください' },
+        errorBody(locale, ErrorCode.INVALID_MAX_PLAYERS, { min: 2, max: 100 }),
+        { status: 400 }
+      );
+    }
+
+    if (gameType !== '75ball' && gameType !== '90ball' && gameType !== 'words') {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_GAME_TYPE),
+        { status: 400 }
+      );
+    }
+
+    // ワードビンゴは用語リストが必須
+    let sanitizedTerms: string[] | undefined;
+    if (gameType === 'words') {
+      const termsResult = sanitizeTerms(terms);
+      if ('code' in termsResult) {
+        return NextResponse.json(
+          errorBody(locale, termsResult.code, termsResult.params),
+          { status: 400 }
+        );
+      }
+      sanitizedTerms = termsResult.terms;
+    }
+
+    const patterns = sanitizePatterns(rules?.patterns);
+    if (!patterns) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_PATTERNS),
         { status: 400 }
       );
     }
 
+    const daubRules = sanitizeDaubRules(rules);
+    if (!daubRules) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_DAUB_SETTINGS),
+        { status: 400 }
+      );
+    }
+
+    if (rules?.hostAdjudication !== undefined && typeof rules.hostAdjudication !== 'boolean') {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_HOST_ADJUDICATION),
+        { status: 400 }
+      );
+    }
+
+    const maxCardsPerPlayer = rules?.maxCardsPerPlayer ?? 1;
+    if (
+      !Number.isInteger(maxCardsPerPlayer) ||
+      maxCardsPerPlayer < 1 ||
+      maxCardsPerPlayer > GAME_CONSTANTS.MAX_CARDS_PER_PLAYER
+    ) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_CARD_LIMIT, { max: GAME_CONSTANTS.MAX_CARDS_PER_PLAYER }),
+        { status: 400 }
+      );
+    }
+
+    const placementPoints = sanitizePlacementPoints(rules?.placementPoints);
+    if (!placementPoints) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_PLACEMENT_POINTS, {
+          maxRanks: GAME_CONSTANTS.MAX_PLACEMENT_RANKS,
+          maxPoints: GAME_CONSTANTS.MAX_PLACEMENT_POINTS
+        }),
+        { status: 400 }
+      );
+    }
+
+    const prizeTiers = sanitizePrizeTiers(rules?.prizeTiers, gameType as GameType);
+    if (!prizeTiers) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_PRIZE_TIERS, {
+          maxTiers: GAME_CONSTANTS.MAX_PRIZE_TIERS,
+          maxLength: GAME_CONSTANTS.PRIZE_LABEL_MAX_LENGTH
+        }),
+        { status: 400 }
+      );
+    }
+
+    const drawMode = sanitizeDrawMode(rules?.drawMode);
+    if (!drawMode) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_DRAW_MODE),
+        { status: 400 }
+      );
+    }
+
+    const lateJoin = sanitizeLateJoinMode(rules?.lateJoin);
+    if (!lateJoin) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_LATE_JOIN),
+        { status: 400 }
+      );
+    }
+
+    // セッションの言語（参加者の既定の表示言語。未指定は日本語）
+    const sessionLocale = body.locale === undefined ? DEFAULT_LOCALE : sanitizeLocale(body.locale);
+    if (!sessionLocale) {
+      return NextResponse.json(
+        errorBody(locale, ErrorCode.INVALID_LOCALE),
+        { status: 400 }
+      );
+    }
+
+    // 90ボールは行単位（1ライン・2ライン・フルハウス）で判定するため、ラインのみ有効
+    const resolvedPatterns = gameType === '90ball' ? DEFAULT_PATTERNS : patterns;
+
     const db = await getDatabase();
     
     // ユニークなセッションIDを生成（重複チェック付き）
@@ -119,7 +239,7 @@ export async function POST(request: NextRequest) {
 
     if (exists) {
       return NextResponse.json(
-        { error: 'セッションIDの生成に失敗しました。もう一度お試しください。' },
+        errorBody(locale, ErrorCode.SESSION_ID_GENERATION_FAILED),
         { status: 500 }
       );
     }
@@ -130,6 +250,9 @@ export async function POST(request: NextRequest) {
     // ホストID生成
     const hostId = nanoid();
 
+    // ログイン中のホストはセッションをアカウントに紐付ける（ダッシュボードから操作を再開できる）
+    const account = await getRequestAccount(request);
+
     // セッションドキュメント作成
     const session: GameSession = {
       sessionId,
@@ -141,6 +264,21 @@ export async function POST(request: NextRequest) {
       numbers: [], // 抽選済み番号
       currentNumber: null,
       status: 'waiting',
+      gameType: gameType as GameType,
+      ...(sanitizedTerms && { terms: sanitizedTerms }),
+      rules: {
+        patterns: resolvedPatterns,
+        ...daubRules,
+        ...(rules?.hostAdjudication && { hostAdjudication: true }),
+        ...(maxCardsPerPlayer > 1 && { maxCardsPerPlayer }),
+        placementPoints,
+        ...(prizeTiers.length > 0 && { prizeTiers }),
+        ...(drawMode === 'machine' && gameType !== 'words' && { drawMode }),
+        ...(lateJoin !== 'off' && { lateJoin }),
+        ...(rules?.allowSpectators === true && { allowSpectators: true })
+      },
+      locale: sessionLocale,
+      ...(account && { accountId: account.accountId }),
       createdAt: new Date(),
       expiresAt: new Date(Date.now() + 2 * 60 * 60 * 1000), // 2時間後
     };
@@ -150,7 +288,7 @@ export async function POST(request: NextRequest) {
 
     if (!result.acknowledged) {
       return NextResponse.json(
-        { error: 'セッションの作成に失敗しました' },
+        errorBody(locale, ErrorCode.SESSION_CREATE_FAILED),
         { status: 500 }
       );
     }
@@ -187,16 +325,20 @@ export async function POST(request: NextRequest) {
       hostId,
       gameName,
       maxPlayers,
+      gameType: session.gameType,
+      terms: session.terms,
+      rules: session.rules,
+      locale: session.locale,
       participationUrl,
       qrCode: qrCodeDataUrl,
       expiresAt: session.expiresAt,
-      message: 'セッションが作成されました',
+      message: getMessages(locale).server.sessionCreated,
     });
 
   } catch (error) {
     errorLog(`Failed to create session: ${error}`);
     return NextResponse.json(
-      { error: 'セッションの作成中にエラーが発生しました' },
+      errorBody(locale, ErrorCode.SESSION_CREATE_FAILED),
       { status: 500 }
     );
   }
@@ -4,6 +4,7 @@
 import React, { useState, useEffect } from 'react';
 import { LogIn, QrCode, Loader2 } from 'lucide-react';
 import type { AuthenticationFormProps } from '@/types';
+import { useLocale } from '@/hooks/useLocale';
 
 export const AuthenticationForm: React.FC<AuthenticationFormProps> = ({
   sessionId: initialSessionId = '',
@@ -16,6 +17,8 @@ export const AuthenticationForm: React.FC<AuthenticationFormProps> = ({
   const [sessionId, setSessionId] = useState(initialSessionId);
   const [accessToken, setAccessToken] = useState(initialAccessToken);
   const [showQRScanner, setShowQRScanner] = useState(false);
+  const { messages } = useLocale();
+  const t = messages.authForm;
 
   // Props更新時に内部状態も更新
   useEffect(() => {
@@ -37,14 +40,14 @@ export const AuthenticationForm: React.FC<AuthenticationFormProps> = ({
         {/* セッションID入力 */}
         <div>
           <label htmlFor="sessionId" className="block text-white font-semibold mb-2 drop-shadow-sm">
-            セッションID
+            {t.sessionId}
           </label>
           <input
             type="text"
             id="sessionId"
             value={sessionId}
             onChange={(e) => setSessionId(e.target.value.toUpperCase())}
-            placeholder="例: ABC123"
+            placeholder={t.sessionIdPlaceholder}
             className="w-full px-4 py-3 bg-white/20 backdrop-blur-sm border border-white/40 rounded-lg text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-yellow-400 focus:border-transparent transition-all font-mono text-center"
             maxLength={6}
             required
@@ -55,14 +58,14 @@ export const AuthenticationForm: React.FC<AuthenticationFormProps> = ({
         {/* アクセストークン入力 */}
         <div>
           <label htmlFor="accessToken" className="block text-white font-semibold mb-2 drop-shadow-sm">
-            アクセストークン
+            {t.accessToken}
           </label>
           <input
             type="text"
             id="accessToken"
             value={accessToken}
             onChange={(e) => setAccessToken(e.target.value)}
-            placeholder="8桁の英数字"
+            placeholder={t.accessTokenPlaceholder}
             className="w-full px-4 py-3 bg-white/20 backdrop-blur-sm border border-white/40 rounded-lg text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-yellow-400 focus:border-transparent transition-all font-mono text-center"
             maxLength={8}
             required
@@ -90,12 +93,12 @@ export const AuthenticationForm: React.FC<AuthenticationFormProps> = ({
           {isLoading ? (
             <>
               <Loader2 className="w-5 h-5 animate-spin mr-2" />
-              認証中...
+              {t.authenticating}
             </>
           ) : (
             <>
               <LogIn className="w-5 h-5 mr-2" />
-              ゲームに参加
+              {t.submit}
             </>
           )}
         </button>
@@ -110,7 +113,7 @@ export const AuthenticationForm: React.FC<AuthenticationFormProps> = ({
               className="text-blue-300 hover:text-blue-100 underline text-sm font-medium flex items-center justify-center mx-auto transition-colors"
             >
               <QrCode className="w-4 h-4 mr-1" />
-              QRコードで参加
+              {t.joinWithQR}
             </button>
           </div>
         )}
@@ -119,7 +122,7 @@ export const AuthenticationForm: React.FC<AuthenticationFormProps> = ({
         {showQRScanner && (
           <div className="text-center py-8 text-white/70">
             <QrCode className="w-12 h-12 mx-auto mb-2 opacity-50" />
-            <p className="text-sm">QRコードスキャナーは開発中です</p>
+            <p className="text-sm">{t.qrScannerComingSoon}</p>
           </div>
         )}
       </form>
@@ -1,6 +1,11 @@
-"use client" 
-import React from 'react';
-import { BingoCell, BingoCardProps } from '@/types';
+"use client"
+import React, { useId, useRef, useState } from 'react';
+import { BingoCell, BingoCardProps, CardTheme } from '@/types';
+import { getTermLabel } from '@/utils/terms';
+import { getShapeLabel } from '@/utils/patterns';
+import { CARD_THEME_STYLES } from '@/utils/cardThemes';
+import { formatMessage } from '@/utils/i18n';
+import { useLocale } from '@/hooks/useLocale';
 
 // BINGO文字を取得
 const getBingoLetter = (colIndex: number): string => {
@@ -9,35 +14,49 @@ const getBingoLetter = (colIndex: number): string => {
 };
 
 // セルのスタイルを決定（デザインテーマに合わせて修正）
-const getCellStyle = (cell: BingoCell, size: string): string => {
-  const baseStyle = 'rounded-lg font-bold transition-all transform flex items-center justify-center';
-  
+const getCellStyle = (cell: BingoCell, size: string, isTicket: boolean, theme: CardTheme): string => {
+  const baseStyle = 'relative w-full rounded-lg font-bold transition-all transform flex items-center justify-center focus:outline-none focus-visible:ring-4 focus-visible:ring-sky-400 focus-visible:ring-offset-2';
+  const styles = CARD_THEME_STYLES[theme];
+
   const sizeStyles = {
     small: 'text-sm',
     medium: 'text-lg',
     large: 'text-xl'
   };
 
-  const stateStyle = cell.number === 0
-    ? 'bg-gradient-to-br from-yellow-300 to-yellow-500 text-red-700 border-2 border-red-600'
-    : cell.marked
-      ? 'bg-gradient-to-br from-yellow-300 to-yellow-500 text-red-700 border-2 border-red-600'
-      : 'bg-gradient-to-br from-red-600 to-red-800 text-yellow-300 border border-yellow-400/50';
+  // 90ボールのチケットでは0は空白マス
+  const stateStyle = isTicket && cell.number === 0
+    ? styles.blank
+    : cell.number === 0 || cell.marked
+      ? styles.marked
+      : styles.cell;
 
-  const latestStyle = cell.isLatest ? 'ring-4 ring-yellow-400 animate-pulse' : '';
+  const latestStyle = cell.isLatest ? styles.latest : '';
 
   return `${baseStyle} ${sizeStyles[size as keyof typeof sizeStyles]} ${stateStyle} ${latestStyle}`;
 };
 
 export default function BingoCard({
   board,
+  gameType = '75ball',
+  terms,
   onCellClick,
   isInteractive = true,
   bingoLines = [],
   showNumbers = true,
   size = 'medium',
-  className = ''
+  className = '',
+  theme = 'default',
+  label
 }: BingoCardProps) {
+  const { locale, messages } = useLocale();
+  const t = messages.bingoCard;
+  const hintId = useId();
+
+  // キーボード操作: フォーカスできるマスは1つだけにし、矢印キーで移動する（roving tabindex）
+  const [focusedCell, setFocusedCell] = useState<[number, number]>([0, 0]);
+  const cellRefs = useRef<Map<string, HTMLButtonElement>>(new Map());
+
   // サイズに応じたコンテナスタイル
   const containerSizeStyles = {
     small: 'max-w-sm',
@@ -51,15 +70,85 @@ export default function BingoCard({
     large: 'w-16 h-16 text-2xl'
   };
 
+  // 90ボールは3×9のチケット（BINGOヘッダーとFREEマスなし）
+  const isTicket = gameType === '90ball';
+  // ワードビンゴはマスに用語を表示（インデックスから引く）
+  const isWords = gameType === 'words';
+  const totalNumbers = board.flat().filter(cell => !isTicket || cell.number !== 0).length;
+  const themeStyles = CARD_THEME_STYLES[theme];
+
+  const ticketCellSizeStyles = {
+    small: 'h-8 text-xs',
+    medium: 'h-10 text-sm',
+    large: 'h-14 text-lg'
+  };
+
+  const rowCount = board.length;
+  const colCount = board[0]?.length ?? 0;
+  // カードが差し替わって範囲外になった場合は先頭のマスに戻す
+  const [focusedRow, focusedCol] = focusedCell[0] < rowCount && focusedCell[1] < colCount ? focusedCell : [0, 0];
+
+  // マスの読み上げ（「G 52、マーク済み」）
+  const getCellLabel = (cell: BingoCell, colIdx: number): string => {
+    if (isTicket && cell.number === 0) return t.blank;
+
+    const name = cell.number === 0
+      ? t.free
+      : isWords
+        ? getTermLabel(terms, cell.number)
+        : isTicket
+          ? String(cell.number)
+          : `${getBingoLetter(colIdx)} ${cell.number}`;
+    const state = formatMessage(cell.marked || cell.number === 0 ? t.cellMarked : t.cellUnmarked, { cell: name });
+
+    return cell.isLatest ? `${state}${t.latest}` : state;
+  };
+
+  const moveFocus = (row: number, col: number) => {
+    const nextRow = Math.min(Math.max(row, 0), rowCount - 1);
+    const nextCol = Math.min(Math.max(col, 0), colCount - 1);
+    setFocusedCell([nextRow, nextCol]);
+    cellRefs.current.get(`${nextRow}-${nextCol}`)?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, rowIdx: number, colIdx: number) => {
+    switch (e.key) {
+      case 'ArrowRight':
+        moveFocus(rowIdx, colIdx + 1);
+        break;
+      case 'ArrowLeft':
+        moveFocus(rowIdx, colIdx - 1);
+        break;
+      case 'ArrowDown':
+        moveFocus(rowIdx + 1, colIdx);
+        break;
+      case 'ArrowUp':
+        moveFocus(rowIdx - 1, colIdx);
+        break;
+      case 'Home':
+        moveFocus(e.ctrlKey ? 0 : rowIdx, 0);
+        break;
+      case 'End':
+        moveFocus(e.ctrlKey ? rowCount - 1 : rowIdx, colCount - 1);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  // FREE・空白マスはフォーカスできるよう disabled ではなく aria-disabled にする
+  const isCellDisabled = (cell: BingoCell) => !isInteractive || cell.number === 0;
+
   return (
     <div className={`${containerSizeStyles[size]} ${className}`}>
-      {/* BINGOヘッダー */}
-      {showNumbers && (
-        <div className="mb-4 flex justify-center gap-2">
+      {/* BINGOヘッダー（各マスの読み上げに列の文字を含めるため、支援技術には公開しない） */}
+      {showNumbers && !isTicket && !isWords && (
+        <div className="mb-4 flex justify-center gap-2" aria-hidden="true">
           {['B', 'I', 'N', 'G', 'O'].map((letter) => (
             <div
               key={letter}
-              className={`${headerSizeStyles[size]} bg-gradient-to-br from-red-600 to-red-800 text-yellow-300 rounded-lg flex items-center justify-center font-bold shadow-lg border border-yellow-400/50`}
+              className={`${headerSizeStyles[size]} ${themeStyles.header} rounded-lg flex items-center justify-center font-bold shadow-lg`}
             >
               {letter}
             </div>
@@ -68,27 +157,58 @@ export default function BingoCard({
       )}
 
       {/* ビンゴボード */}
-      <div className="grid grid-cols-5 gap-2">
-        {board.map((row, rowIdx) =>
-          row.map((cell, colIdx) => (
-            <button
-              key={`${rowIdx}-${colIdx}`}
-              onClick={() => isInteractive && onCellClick && onCellClick(rowIdx, colIdx)}
-              disabled={!isInteractive || cell.number === 0}
-              className={`aspect-square ${getCellStyle(cell, size)}`}
-              aria-label={`${getBingoLetter(colIdx)}-${cell.number === 0 ? 'FREE' : cell.number}`}
-            >
-              {cell.number === 0 ? '★' : cell.number}
-            </button>
-          ))
-        )}
+      <div
+        role="grid"
+        aria-label={label || t.card}
+        aria-readonly={!isInteractive}
+        aria-describedby={isInteractive ? hintId : undefined}
+        className={isTicket ? 'grid grid-cols-9 gap-1' : 'grid grid-cols-5 gap-2'}
+      >
+        {board.map((row, rowIdx) => (
+          <div key={rowIdx} role="row" className="contents">
+            {row.map((cell, colIdx) => (
+              <div key={colIdx} role="gridcell">
+                <button
+                  ref={element => {
+                    if (element) {
+                      cellRefs.current.set(`${rowIdx}-${colIdx}`, element);
+                    } else {
+                      cellRefs.current.delete(`${rowIdx}-${colIdx}`);
+                    }
+                  }}
+                  type="button"
+                  tabIndex={rowIdx === focusedRow && colIdx === focusedCol ? 0 : -1}
+                  onClick={() => !isCellDisabled(cell) && onCellClick && onCellClick(rowIdx, colIdx)}
+                  onFocus={() => setFocusedCell([rowIdx, colIdx])}
+                  onKeyDown={e => handleKeyDown(e, rowIdx, colIdx)}
+                  aria-disabled={isCellDisabled(cell)}
+                  aria-label={getCellLabel(cell, colIdx)}
+                  className={`${isTicket ? ticketCellSizeStyles[size] : 'aspect-square'} ${getCellStyle(cell, size, isTicket, theme)}`}
+                >
+                  {cell.number === 0
+                    ? (isTicket ? '' : '★')
+                    : isWords
+                      ? <span className="text-xs leading-tight break-all px-1">{getTermLabel(terms, cell.number)}</span>
+                      : cell.number}
+                  {/* 色の違いが分かりにくい人向けに、マーク済みを形でも示す */}
+                  {themeStyles.showMarkIcon && cell.marked && cell.number !== 0 && (
+                    <span aria-hidden="true" className="absolute top-0.5 right-1 text-[0.6rem] leading-none">✓</span>
+                  )}
+                </button>
+              </div>
+            ))}
+          </div>
+        ))}
       </div>
+      {isInteractive && (
+        <p id={hintId} className="sr-only">{t.keyboardHint}</p>
+      )}
 
       {/* ビンゴライン表示 */}
       {bingoLines.length > 0 && (
         <div className="mt-4 p-3 bg-yellow-300/30 border-2 border-yellow-400 rounded-lg backdrop-blur-sm">
           <p className="text-sm font-semibold text-red-700">
-            🎉 達成ライン: {bingoLines.join(', ')}
+            🎉 {t.completedLines} {bingoLines.map(line => getShapeLabel(line, locale)).join(', ')}
           </p>
         </div>
       )}
@@ -97,19 +217,21 @@ export default function BingoCard({
       {showNumbers && (
         <div className="mt-4 grid grid-cols-3 gap-2 text-center">
           <div className="bg-white/30 backdrop-blur-sm rounded-lg p-2 border border-white/20">
-            <p className="text-xs text-white/80">マーク済み</p>
+            <p className="text-xs text-white/80">{t.marked}</p>
             <p className="text-lg font-bold text-yellow-300 drop-shadow-md">
-              {board.flat().filter(cell => cell.marked).length}
+              {board.flat().filter(cell => cell.marked && !(isTicket && cell.number === 0)).length}
             </p>
           </div>
           <div className="bg-white/30 backdrop-blur-sm rounded-lg p-2 border border-white/20">
-            <p className="text-xs text-white/80">残り</p>
+            <p className="text-xs text-white/80">{t.remaining}</p>
             <p className="text-lg font-bold text-yellow-300 drop-shadow-md">
-              {25 - board.flat().filter(cell => cell.marked || cell.number === 0).length}
+              {totalNumbers - board.flat().filter(cell =>
+                isTicket ? cell.number !== 0 && cell.marked : cell.marked || cell.number === 0
+              ).length}
             </p>
           </div>
           <div className="bg-yellow-300/30 backdrop-blur-sm rounded-lg p-2 border border-yellow-400">
-            <p className="text-xs text-red-700">ビンゴ数</p>
+            <p className="text-xs text-red-700">{t.bingoCount}</p>
             <p className="text-lg font-bold text-red-700">
               {bingoLines.length}
             </p>
@@ -118,4 +240,4 @@ export default function BingoCard({
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,33 @@
+"use client"
+// ビンゴカードの配色テーマの選択（設定は端末ごとに保存）
+
+import React from 'react';
+import { Palette } from 'lucide-react';
+import type { CardTheme, CardThemeSelectProps } from '@/types';
+import { useLocale } from '@/hooks/useLocale';
+import { CARD_THEMES } from '@/utils/cardThemes';
+
+export default function CardThemeSelect({ value, onChange }: CardThemeSelectProps) {
+  const { messages } = useLocale();
+  const t = messages.cardTheme;
+
+  return (
+    <label className="block text-sm text-white">
+      <span className="flex items-center gap-1 text-white/70 text-xs mb-1">
+        <Palette className="w-3 h-3" aria-hidden="true" />
+        {t.label}
+      </span>
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value as CardTheme)}
+        className="w-full px-2 py-1 rounded-lg bg-white/10 border border-white/20 text-white"
+      >
+        {CARD_THEMES.map(theme => (
+          <option key={theme} value={theme} className="text-gray-900">
+            {t.themes[theme]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
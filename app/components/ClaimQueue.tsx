@@ -0,0 +1,117 @@
+"use client"
+// ホスト確認待ちのビンゴ申告一覧（カードと揃ったラインを表示して承認・却下する）
+
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import type { ClaimQueueProps } from '@/types';
+import { getClaimedCells } from '@/utils/claims';
+import { getTermLabel } from '@/utils/terms';
+import { getPlayerBoards } from '@/utils/bingo';
+import { getShapeLabel } from '@/utils/patterns';
+import { useLocale } from '@/hooks/useLocale';
+import { LOCALE_TAGS, formatMessage } from '@/utils/i18n';
+
+export default function ClaimQueue({
+  claims,
+  players,
+  drawnNumbers,
+  gameType = '75ball',
+  terms,
+  patterns,
+  reviewingClaimId = null,
+  onReview
+}: ClaimQueueProps) {
+  const { locale, messages } = useLocale();
+  const t = messages.claimQueue;
+  const pendingClaims = claims.filter(claim => claim.status === 'pending');
+
+  if (pendingClaims.length === 0) {
+    return <p className="text-white/60 text-center py-4">{t.empty}</p>;
+  }
+
+  const drawn = new Set(drawnNumbers);
+  const isTicket = gameType === '90ball';
+  const isWords = gameType === 'words';
+
+  return (
+    <div className="space-y-4">
+      {pendingClaims.map(claim => {
+        const player = players.find(p => p.id === claim.playerId);
+        const boards = player ? getPlayerBoards(player) : [];
+        const board = boards[claim.cardIndex ?? 0] || [];
+        const claimedCells = getClaimedCells(board, claim.lines, patterns);
+        const isReviewing = reviewingClaimId === claim.id;
+
+        return (
+          <div key={claim.id} className="bg-yellow-400/20 border-2 border-yellow-300 rounded-xl p-4">
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-bold text-white text-lg">
+                {claim.playerName}
+                {boards.length > 1 && (
+                  <span className="ml-2 text-sm font-normal text-white/80">
+                    {formatMessage(messages.common.cardNumber, { number: (claim.cardIndex ?? 0) + 1 })}
+                  </span>
+                )}
+              </span>
+              <span className="text-xs text-white/70">
+                {formatMessage(t.afterDraw, { count: claim.drawCount })} ・ {new Date(claim.claimedAt).toLocaleTimeString(LOCALE_TAGS[locale])}
+              </span>
+            </div>
+
+            <p className="text-sm text-yellow-200 mb-3">{(claim.lines || []).map(line => getShapeLabel(line, locale)).join(', ')}</p>
+
+            {/* 申告者のカード（揃ったラインを強調） */}
+            <div className={`grid ${isTicket ? 'grid-cols-9' : 'grid-cols-5'} gap-1 mb-3`}>
+              {board.map((row, rowIdx) =>
+                row.map((num, colIdx) => {
+                  const isClaimed = claimedCells.has(`${rowIdx}-${colIdx}`);
+                  const isMarked = num === 0 || drawn.has(num);
+
+                  return (
+                    <div
+                      key={`${rowIdx}-${colIdx}`}
+                      className={`${isTicket ? 'h-7' : 'aspect-square'} rounded flex items-center justify-center text-xs font-bold ${
+                        isTicket && num === 0
+                          ? 'bg-white/10'
+                          : isClaimed
+                            ? 'bg-yellow-300 text-red-700 ring-2 ring-red-500'
+                            : isMarked
+                              ? 'bg-yellow-300/50 text-red-800'
+                              : 'bg-white/20 text-white/70'
+                      }`}
+                    >
+                      {num === 0
+                        ? (isTicket ? '' : '★')
+                        : isWords
+                          ? <span className="text-[10px] leading-tight break-all px-0.5">{getTermLabel(terms, num)}</span>
+                          : num}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => onReview(claim.id, 'approve')}
+                disabled={isReviewing}
+                className="flex items-center justify-center gap-1 bg-green-500 hover:bg-green-600 disabled:opacity-50 text-white font-bold py-2 rounded-lg transition"
+              >
+                <Check className="w-4 h-4" />
+                {t.approve}
+              </button>
+              <button
+                onClick={() => onReview(claim.id, 'reject')}
+                disabled={isReviewing}
+                className="flex items-center justify-center gap-1 bg-red-500 hover:bg-red-600 disabled:opacity-50 text-white font-bold py-2 rounded-lg transition"
+              >
+                <X className="w-4 h-4" />
+                {t.reject}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+"use client"
+// 共同ホストの招待（リンクとQRコード）と参加中の共同ホストの一覧（メインのホストのみ表示）
+
+import React, { useState, useEffect } from 'react';
+import Image from 'next/image';
+import { CheckCircle, Copy, Link2, UserMinus } from 'lucide-react';
+import { GAME_CONSTANTS } from '@/types';
+import type { CoHostPanelProps, CoHostPermission, CreateCoHostInviteResponse } from '@/types';
+import { CO_HOST_PERMISSIONS } from '@/utils/hostPermissions';
+import { useQRCode } from '@/hooks/useQRCode';
+import { useLocale } from '@/hooks/useLocale';
+import { LOCALE_TAGS, formatMessage } from '@/utils/i18n';
+
+export default function CoHostPanel({ sessionId, accessToken, hostId, coHosts }: CoHostPanelProps) {
+  const { locale, messages } = useLocale();
+  const t = messages.coHosts;
+  const { qrCodeUrl, generateQRCode, clearQRCode } = useQRCode();
+
+  const [permissions, setPermissions] = useState<CoHostPermission[]>(['draw']);
+  const [invite, setInvite] = useState<CreateCoHostInviteResponse | null>(null);
+  const [isInviting, setIsInviting] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // 招待リンクのQRコード（共同ホストの端末で読み取る）
+  useEffect(() => {
+    if (invite) {
+      generateQRCode(invite.inviteUrl, { size: 192 });
+    } else {
+      clearQRCode();
+    }
+  }, [invite, generateQRCode, clearQRCode]);
+
+  // 招待が使われたら（共同ホストが増えたら）古いリンクは隠す
+  useEffect(() => {
+    setInvite(null);
+  }, [coHosts.length]);
+
+  const togglePermission = (permission: CoHostPermission) => {
+    setPermissions(prev => prev.includes(permission)
+      ? prev.filter(p => p !== permission)
+      : [...prev, permission]
+    );
+  };
+
+  const handleInvite = async () => {
+    if (isInviting || permissions.length === 0) return;
+
+    setIsInviting(true);
+    setError(null);
+    setCopied(false);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/co-hosts`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ accessToken, hostId, permissions })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t.inviteFailed);
+      }
+
+      setInvite(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.inviteFailed);
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRemove = async (coHostId: string) => {
+    if (removingId) return;
+
+    setRemovingId(coHostId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/co-hosts/${coHostId}`, {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ accessToken, hostId })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t.removeFailed);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.removeFailed);
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!invite) return;
+
+    try {
+      await navigator.clipboard.writeText(invite.inviteUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('コピーに失敗しました:', err);
+    }
+  };
+
+  const isFull = coHosts.length >= GAME_CONSTANTS.MAX_CO_HOSTS;
+
+  return (
+    <div className="space-y-4 text-white">
+      <p className="text-sm text-white/80">{t.description}</p>
+
+      {/* 参加中の共同ホスト */}
+      <div>
+        <p className="text-xs text-white/60 mb-2">
+          {formatMessage(t.count, { count: coHosts.length, max: GAME_CONSTANTS.MAX_CO_HOSTS })}
+        </p>
+        {coHosts.length === 0 ? (
+          <p className="text-white/60 text-sm">{t.empty}</p>
+        ) : (
+          <ul className="space-y-2">
+            {coHosts.map(coHost => (
+              <li key={coHost.id} className="flex items-center justify-between gap-2 bg-white/20 rounded-lg px-3 py-2">
+                <div className="min-w-0">
+                  <p className="font-semibold truncate">{coHost.name}</p>
+                  <p className="text-xs text-white/70">
+                    {coHost.permissions.map(permission => t.permissions[permission]).join(messages.common.listSeparator)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRemove(coHost.id)}
+                  disabled={removingId !== null}
+                  aria-label={formatMessage(t.removeLabel, { name: coHost.name })}
+                  className="flex-shrink-0 px-2 py-1 bg-white/20 rounded-lg text-xs hover:bg-red-500/60 transition-colors flex items-center gap-1 disabled:opacity-50"
+                >
+                  <UserMinus className="w-4 h-4" />
+                  {t.remove}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* 招待リンクの作成 */}
+      {!isFull && (
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-semibold mb-1">{t.permissionsLabel}</legend>
+          {CO_HOST_PERMISSIONS.map(permission => (
+            <label key={permission} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={permissions.includes(permission)}
+                onChange={() => togglePermission(permission)}
+                className="w-4 h-4"
+              />
+              {t.permissions[permission]}
+            </label>
+          ))}
+          <button
+            onClick={handleInvite}
+            disabled={isInviting || permissions.length === 0}
+            className="w-full mt-2 px-4 py-2 bg-yellow-300/90 text-purple-900 rounded-lg text-sm font-semibold hover:bg-yellow-300 transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Link2 className="w-4 h-4" />
+            {isInviting ? t.inviting : t.invite}
+          </button>
+        </fieldset>
+      )}
+
+      {error && <p role="alert" className="text-sm text-red-200">{error}</p>}
+
+      {invite && (
+        <div className="space-y-3 bg-white/10 rounded-lg p-3 border border-white/20">
+          {qrCodeUrl && (
+            <div className="flex justify-center">
+              <div className="bg-white p-2 rounded-lg">
+                <Image
+                  src={qrCodeUrl}
+                  alt={t.qrAlt}
+                  width={192}
+                  height={192}
+                  unoptimized
+                  className="w-40 h-40"
+                  style={{ imageRendering: 'pixelated' }}
+                />
+              </div>
+            </div>
+          )}
+          <p className="text-xs text-yellow-200 font-mono break-all">{invite.inviteUrl}</p>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-white/70">
+              {formatMessage(t.inviteExpires, {
+                time: new Date(invite.expiresAt).toLocaleTimeString(LOCALE_TAGS[locale], { hour: '2-digit', minute: '2-digit' })
+              })}
+            </p>
+            <button
+              onClick={handleCopy}
+              className="px-3 py-1 bg-white/20 rounded-lg text-xs hover:bg-white/30 transition-colors flex items-center gap-1"
+            >
+              {copied ? <CheckCircle className="w-4 h-4 text-green-300" /> : <Copy className="w-4 h-4" />}
+              {copied ? t.linkCopied : t.copyLink}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client"
+// 抽選の公平性（コミット・リビール）の検証結果を表示
+
+import React, { useEffect, useState } from 'react';
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+import type { FairnessPanelProps, FairnessVerificationResponse } from '@/types';
+import { useLocale } from '@/hooks/useLocale';
+import { formatMessage } from '@/utils/i18n';
+
+export default function FairnessPanel({ sessionId }: FairnessPanelProps) {
+  const [result, setResult] = useState<FairnessVerificationResponse | null>(null);
+  const { messages } = useLocale();
+  const t = messages.fairness;
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const fetchVerification = async () => {
+      try {
+        const res = await fetch(`/api/sessions/${sessionId}/verify`);
+        // コミットメントのないセッション（旧データ・ワードビンゴ）は表示しない
+        if (!res.ok) return;
+        setResult(await res.json());
+      } catch (error) {
+        console.error('Failed to fetch draw verification:', error);
+      }
+    };
+
+    fetchVerification();
+  }, [sessionId]);
+
+  if (!result) return null;
+
+  const verified = result.revealed && result.commitmentMatches && result.orderMatches;
+
+  return (
+    <div className="bg-white/30 backdrop-blur-md rounded-xl p-6 shadow-xl border border-white/20">
+      <h3 className="text-xl font-bold text-white mb-3 flex items-center gap-2 drop-shadow-md">
+        {verified || !result.revealed
+          ? <ShieldCheck className="w-5 h-5 text-green-300" />
+          : <ShieldAlert className="w-5 h-5 text-red-300" />}
+        {t.title}
+      </h3>
+
+      <p className="text-sm text-white/90 mb-3">
+        {!result.revealed
+          ? t.notRevealed
+          : verified
+            ? formatMessage(t.verified, { count: result.drawnNumbers.length })
+            : t.mismatch}
+      </p>
+
+      <dl className="space-y-2 text-xs">
+        <div>
+          <dt className="text-white/70">{t.commitment}</dt>
+          <dd className="font-mono text-white break-all">{result.commitment}</dd>
+        </div>
+        {result.seed && (
+          <div>
+            <dt className="text-white/70">{t.seed}</dt>
+            <dd className="font-mono text-white break-all">{result.seed}</dd>
+          </div>
+        )}
+        <div>
+          <dt className="text-white/70">{t.algorithm}</dt>
+          <dd className="font-mono text-white">{result.algorithm}</dd>
+        </div>
+      </dl>
+
+      <a
+        href={`/api/sessions/${sessionId}/verify`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-block mt-3 text-xs text-yellow-200 underline"
+      >
+        {t.openJson}
+      </a>
+    </div>
+  );
+}
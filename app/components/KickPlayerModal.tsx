@@ -0,0 +1,112 @@
+"use client"
+// プレイヤーを退出させる確認ダイアログ（再参加の禁止も選べる）
+
+import React, { useState } from 'react';
+import { UserX, XCircle } from 'lucide-react';
+import type { KickPlayerModalProps } from '@/types';
+import { useLocale } from '@/hooks/useLocale';
+import { formatMessage } from '@/utils/i18n';
+
+export default function KickPlayerModal({ sessionId, accessToken, hostId, player, onClose }: KickPlayerModalProps) {
+  const { messages } = useLocale();
+  const t = messages.kickPlayer;
+  const [ban, setBan] = useState(false);
+  const [isKicking, setIsKicking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleKick = async () => {
+    if (isKicking) return;
+
+    setIsKicking(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/kick`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ accessToken, hostId, playerId: player.id, ban })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t.failed);
+      }
+
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.failed);
+      setIsKicking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* オーバーレイ */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={isKicking ? undefined : onClose}
+      />
+
+      {/* モーダル本体 */}
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="kick-player-title"
+        className="relative bg-white rounded-2xl shadow-2xl p-6 m-4 max-w-sm w-full"
+      >
+        <button
+          onClick={onClose}
+          disabled={isKicking}
+          aria-label={messages.common.close}
+          className="absolute top-3 right-3 text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+        >
+          <XCircle className="w-6 h-6" />
+        </button>
+
+        <h3 id="kick-player-title" className="text-xl font-bold text-gray-800 mb-2 pr-8 flex items-center gap-2">
+          <UserX className="w-6 h-6 text-red-500" />
+          {t.title}
+        </h3>
+
+        <p className="text-gray-600 mb-4">{formatMessage(t.confirm, { name: player.name })}</p>
+
+        <label className="flex items-start gap-2 mb-6 p-3 bg-gray-50 rounded-lg border border-gray-200 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={ban}
+            onChange={e => setBan(e.target.checked)}
+            disabled={isKicking}
+            className="w-4 h-4 mt-1"
+          />
+          <span>
+            <span className="block font-medium text-gray-800">{t.ban}</span>
+            <span className="block text-xs text-gray-500">{t.banDescription}</span>
+          </span>
+        </label>
+
+        {error && (
+          <p role="alert" className="mb-4 text-sm text-red-600">{error}</p>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            disabled={isKicking}
+            className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors font-medium disabled:opacity-50"
+          >
+            {messages.common.cancel}
+          </button>
+          <button
+            onClick={handleKick}
+            disabled={isKicking}
+            className="flex-1 px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors font-medium disabled:opacity-50"
+          >
+            {isKicking ? t.submitting : t.submit}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+"use client"
+// スクリーンリーダーへの読み上げ領域（画面には表示しない）
+
+import React from 'react';
+import type { LiveAnnouncerProps } from '@/types';
+
+export default function LiveAnnouncer({ message, politeness = 'polite' }: LiveAnnouncerProps) {
+  return (
+    <div
+      role={politeness === 'assertive' ? 'alert' : 'status'}
+      aria-live={politeness}
+      aria-atomic="true"
+      className="sr-only"
+    >
+      {message}
+    </div>
+  );
+}
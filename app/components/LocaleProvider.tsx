@@ -0,0 +1,31 @@
+"use client"
+// 表示言語の状態を保持し、切り替え時にCookieと<html lang>を更新する
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Locale, LocaleProviderProps } from '@/types';
+import { LocaleContext } from '@/hooks/useLocale';
+import { LOCALE_COOKIE, getMessages } from '@/utils/i18n';
+
+// 選んだ言語を1年間保持する
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+export default function LocaleProvider({ initialLocale, children }: LocaleProviderProps) {
+  const [locale, setLocaleState] = useState<Locale>(initialLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    // APIのエラーメッセージもこの言語で返るよう、リクエストに付くCookieに保存する
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+    setLocaleState(next);
+  }, []);
+
+  const value = useMemo(
+    () => ({ locale, messages: getMessages(locale), setLocale }),
+    [locale, setLocale]
+  );
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+}
@@ -0,0 +1,30 @@
+"use client"
+// 表示言語の切り替え
+
+import React from 'react';
+import { Globe } from 'lucide-react';
+import type { Locale, LocaleSwitcherProps } from '@/types';
+import { useLocale } from '@/hooks/useLocale';
+import { LOCALES, LOCALE_LABELS } from '@/utils/i18n';
+
+export default function LocaleSwitcher({ className = '' }: LocaleSwitcherProps) {
+  const { locale, messages, setLocale } = useLocale();
+
+  return (
+    <label className={`inline-flex items-center gap-2 text-sm text-white ${className}`}>
+      <Globe className="w-4 h-4" aria-hidden="true" />
+      <span className="sr-only">{messages.common.language}</span>
+      <select
+        value={locale}
+        onChange={e => setLocale(e.target.value as Locale)}
+        className="px-2 py-1 rounded-lg bg-white/10 border border-white/20 text-white"
+      >
+        {LOCALES.map(option => (
+          <option key={option} value={option} className="text-gray-900">
+            {LOCALE_LABELS[option]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
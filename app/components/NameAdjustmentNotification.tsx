@@ -3,6 +3,8 @@
 import React from 'react';
 import { AlertCircle, X } from 'lucide-react';
 import type { NameAdjustmentNotificationProps } from '@/types';
+import { useLocale } from '@/hooks/useLocale';
+import { formatMessage } from '@/utils/i18n';
 
 export const NameAdjustmentNotification: React.FC<NameAdjustmentNotificationProps> = ({
   originalName,
@@ -10,16 +12,19 @@ export const NameAdjustmentNotification: React.FC<NameAdjustmentNotificationProp
   reason,
   onAcknowledge
 }) => {
+  const { messages } = useLocale();
+  const t = messages.nameAdjustment;
+
   const getReasonMessage = () => {
     switch (reason) {
       case 'duplicate':
-        return '同じ名前の参加者がいたため';
+        return t.reasonDuplicate;
       case 'invalid':
-        return '使用できない文字が含まれていたため';
+        return t.reasonInvalid;
       case 'length':
-        return '名前が長すぎたため';
+        return t.reasonLength;
       default:
-        return '名前の調整が必要だったため';
+        return t.reasonOther;
     }
   };
 
@@ -30,22 +35,22 @@ export const NameAdjustmentNotification: React.FC<NameAdjustmentNotificationProp
         
         <div className="flex-1">
           <h3 className="font-semibold text-gray-800 mb-1">
-            名前が自動調整されました
+            {t.title}
           </h3>
           
           <p className="text-sm text-gray-600 mb-2">
-            {getReasonMessage()}、名前が調整されました。
+            {formatMessage(t.description, { reason: getReasonMessage() })}
           </p>
           
           <div className="bg-gray-50 rounded p-2 text-sm">
             <div className="flex items-center gap-2 mb-1">
-              <span className="text-gray-500">変更前:</span>
+              <span className="text-gray-500">{t.before}</span>
               <span className="font-medium line-through text-gray-400">
                 {originalName}
               </span>
             </div>
             <div className="flex items-center gap-2">
-              <span className="text-gray-500">変更後:</span>
+              <span className="text-gray-500">{t.after}</span>
               <span className="font-medium text-blue-600">
                 {adjustedName}
               </span>
@@ -56,7 +61,7 @@ export const NameAdjustmentNotification: React.FC<NameAdjustmentNotificationProp
         <button
           onClick={onAcknowledge}
           className="text-gray-400 hover:text-gray-600 transition-colors"
-          aria-label="閉じる"
+          aria-label={messages.common.close}
         >
           <X className="w-5 h-5" />
         </button>
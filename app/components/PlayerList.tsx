@@ -4,6 +4,9 @@
 import React, { useMemo } from 'react';
 import { User, Trophy, Wifi, WifiOff, UserCheck } from 'lucide-react';
 import type { Player, PlayerListProps } from '@/types';
+import { isLateJoiner } from '@/utils/lateJoin';
+import { useLocale } from '@/hooks/useLocale';
+import { formatMessage } from '@/utils/i18n';
 
 export const PlayerList: React.FC<PlayerListProps> = ({
   players,
@@ -13,6 +16,9 @@ export const PlayerList: React.FC<PlayerListProps> = ({
   showNameAdjustment = true,
   showConnectionStatus = true
 }) => {
+  const { messages } = useLocale();
+  const t = messages.playerList;
+
   // ビンゴ数でソート
   const sortedPlayers = useMemo(() => {
     return [...players].sort((a, b) => {
@@ -28,16 +34,16 @@ export const PlayerList: React.FC<PlayerListProps> = ({
     
     return player.isConnected ? (
       <div className="relative group">
-        <Wifi className="w-4 h-4 text-green-500" aria-label="接続中" />
+        <Wifi className="w-4 h-4 text-green-500" aria-label={t.connected} />
         <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-1 px-2 py-1 text-xs text-white bg-gray-800 rounded opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap">
-          接続中
+          {t.connected}
         </div>
       </div>
     ) : (
       <div className="relative group">
-        <WifiOff className="w-4 h-4 text-gray-400" aria-label="切断中" />
+        <WifiOff className="w-4 h-4 text-gray-400" aria-label={t.disconnected} />
         <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-1 px-2 py-1 text-xs text-white bg-gray-800 rounded opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap">
-          切断中
+          {t.disconnected}
         </div>
       </div>
     );
@@ -47,9 +53,9 @@ export const PlayerList: React.FC<PlayerListProps> = ({
     if (index === 0 && sortedPlayers[0].bingoCount > 0) {
       return (
         <div className="relative group">
-          <Trophy className="w-5 h-5 text-yellow-500" aria-label="1位" />
+          <Trophy className="w-5 h-5 text-yellow-500" aria-label={t.first} />
           <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-1 px-2 py-1 text-xs text-white bg-gray-800 rounded opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap">
-            1位
+            {t.first}
           </div>
         </div>
       );
@@ -61,7 +67,7 @@ export const PlayerList: React.FC<PlayerListProps> = ({
     return (
       <div className="text-center py-8 text-gray-500">
         <User className="w-12 h-12 mx-auto mb-2 text-gray-300" />
-        <p>まだ参加者がいません</p>
+        <p>{t.empty}</p>
       </div>
     );
   }
@@ -103,12 +109,18 @@ export const PlayerList: React.FC<PlayerListProps> = ({
               <div className="font-medium text-gray-800">
                 {player.name}
                 {player.id === currentUserId && (
-                  <span className="text-xs text-blue-600 ml-1">(あなた)</span>
+                  <span className="text-xs text-blue-600 ml-1">{t.you}</span>
                 )}
               </div>
+              {isLateJoiner(player) && (
+                <div className="text-xs text-sky-600">
+                  {formatMessage(t.lateJoined, { draws: player.lateJoinedAtDraw ?? 0 })}
+                  {player.waitingForNextRound && t.winsFromNextRound}
+                </div>
+              )}
               {showNameAdjustment && player.nameAdjusted && (
                 <div className="text-xs text-gray-500">
-                  元の名前: {player.originalName}
+                  {t.originalName} {player.originalName}
                 </div>
               )}
             </div>
@@ -134,9 +146,9 @@ export const PlayerList: React.FC<PlayerListProps> = ({
               <button
                 onClick={() => onKickPlayer(player.id)}
                 className="text-red-500 hover:text-red-700 text-sm"
-                aria-label={`${player.name}を退出させる`}
+                aria-label={formatMessage(t.kickLabel, { name: player.name })}
               >
-                退出
+                {t.kick}
               </button>
             )}
           </div>
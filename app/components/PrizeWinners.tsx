@@ -0,0 +1,82 @@
+"use client"
+// 段階ごとの賞と獲得者の一覧（同じ抽選で達成した獲得者は同着として表示）
+
+import React from 'react';
+import { Award } from 'lucide-react';
+import type { PrizeWinnersProps } from '@/types';
+import { describePrizeTier } from '@/utils/prizes';
+import { formatBingoNumber } from '@/utils/gameUtils';
+import { getTermLabel } from '@/utils/terms';
+import { useLocale } from '@/hooks/useLocale';
+import { formatMessage } from '@/utils/i18n';
+
+export default function PrizeWinners({
+  tiers,
+  awards,
+  terms,
+  gameType = '75ball',
+  currentPlayerId,
+  inProgress = false
+}: PrizeWinnersProps) {
+  const { locale, messages } = useLocale();
+  const t = messages.prizeWinners;
+
+  if (tiers.length === 0) return null;
+
+  return (
+    <ul className="space-y-3">
+      {tiers.map(tier => {
+        const award = awards.find(a => a.tierId === tier.id);
+
+        return (
+          <li
+            key={tier.id}
+            className={`rounded-lg p-3 border ${
+              award ? 'bg-yellow-300/30 border-yellow-300/60' : 'bg-white/20 border-white/30'
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-2 font-bold text-white">
+                <Award className={`w-5 h-5 ${award ? 'text-yellow-300' : 'text-white/50'}`} />
+                {tier.label}
+              </span>
+              <span className="text-xs text-white/70">{describePrizeTier(tier, gameType, locale)}</span>
+            </div>
+
+            {award ? (
+              <>
+                <p className="mt-1 text-white">
+                  {award.winners.map((winner, index) => (
+                    <span
+                      key={winner.playerId}
+                      className={winner.playerId === currentPlayerId ? 'font-bold text-yellow-200' : ''}
+                    >
+                      {index > 0 && messages.common.listSeparator}
+                      {winner.playerName}
+                    </span>
+                  ))}
+                  {award.winners.length > 1 && (
+                    <span className="ml-2 px-2 py-0.5 bg-white/30 rounded-full text-xs">
+                      {formatMessage(t.tied, { count: award.winners.length })}
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-white/70 mt-1">
+                  {formatMessage(t.drawCount, { count: award.drawCount })}
+                  {award.number !== null && (
+                    <>{formatMessage(t.drawnNumber, {
+                      number: gameType === 'words' ? getTermLabel(terms, award.number) : formatBingoNumber(award.number, gameType)
+                    })}</>
+                  )}
+                </p>
+              </>
+            ) : (
+              <p className="mt-1 text-sm text-white/60">{inProgress ? t.noWinnersYet : t.noWinners}
+</p>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,112 @@
+"use client"
+// 複数ラウンドの通算順位とラウンドごとの入賞者を表示
+
+import React from 'react';
+import type { RoundStandingsProps } from '@/types';
+import { calculateStandings } from '@/utils/rounds';
+import { useLocale } from '@/hooks/useLocale';
+import { LOCALE_TAGS, formatMessage } from '@/utils/i18n';
+
+export default function RoundStandings({ rounds, players, currentPlayerId }: RoundStandingsProps) {
+  const { locale, messages } = useLocale();
+  const t = messages.roundStandings;
+
+  if (rounds.length === 0) return null;
+
+  const standings = calculateStandings(rounds, players);
+
+  return (
+    <div className="bg-white/30 backdrop-blur-md rounded-xl p-6 shadow-xl border border-white/20">
+      <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-300 to-yellow-500 mb-4 drop-shadow-md">
+        📊 {formatMessage(t.title, { count: rounds.length })}
+      </h2>
+
+      {/* 通算順位表 */}
+      <div className="overflow-x-auto mb-6">
+        <table className="w-full text-sm text-white">
+          <thead>
+            <tr className="border-b border-white/30 text-white/80">
+              <th className="py-2 pr-2 text-left">{t.rank}</th>
+              <th className="py-2 pr-2 text-left">{t.name}</th>
+              {rounds.map(round => (
+                <th key={round.roundNumber} className="py-2 px-1 text-right whitespace-nowrap">R{round.roundNumber}</th>
+              ))}
+              <th className="py-2 pl-2 text-right">{t.total}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {standings.map(entry => (
+              <tr
+                key={entry.playerId}
+                className={`border-b border-white/10 ${
+                  entry.playerId === currentPlayerId ? 'bg-yellow-300/30 font-bold' : ''
+                }`}
+              >
+                <td className="py-2 pr-2">{formatMessage(messages.common.rank, { rank: entry.rank })}</td>
+                <td className="py-2 pr-2 truncate max-w-[10rem]">
+                  {entry.playerName}
+                  {entry.wins > 0 && <span className="ml-1 text-xs text-yellow-200">👑×{entry.wins}</span>}
+                </td>
+                {entry.roundPoints.map((points, index) => (
+                  <td key={index} className="py-2 px-1 text-right text-white/80">{points || '-'}</td>
+                ))}
+                <td className="py-2 pl-2 text-right font-bold text-yellow-200">{entry.totalPoints}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* ラウンドごとの入賞者 */}
+      <h3 className="text-lg font-semibold text-white mb-3">{t.byRound}</h3>
+      <div className="grid sm:grid-cols-2 gap-3">
+        {rounds.map(round => (
+          <div key={round.roundNumber} className="bg-white/20 rounded-lg p-4 border border-white/20">
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-bold text-white">{formatMessage(messages.common.roundNumber, { round: round.roundNumber })}</span>
+              <span className="text-xs text-white/70">
+                {round.patterns.map(p => messages.labels.patterns[p]).join(' / ')} ・ {formatMessage(t.drawnCount, { count: round.numbers.length })}
+              </span>
+            </div>
+
+            {round.winners.length > 0 ? (
+              <ol className="space-y-1 text-sm">
+                {round.winners.map(winner => (
+                  <li
+                    key={winner.playerId}
+                    className={`flex justify-between ${
+                      winner.playerId === currentPlayerId ? 'text-yellow-200 font-bold' : 'text-white'
+                    }`}
+                  >
+                    <span>{formatMessage(messages.common.rank, { rank: winner.placement })}: {winner.playerName}</span>
+                    <span>{winner.points}pt</span>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="text-sm text-white/70">{t.noWinners}</p>
+            )}
+
+            {/* 段階ごとの賞 */}
+            {(round.prizeAwards || []).length > 0 && (
+              <ul className="mt-2 pt-2 border-t border-white/20 space-y-1 text-xs text-white/90">
+                {round.prizeAwards!.map(award => (
+                  <li key={award.tierId}>
+                    🏅 {award.label}: {award.winners.map(w => w.playerName).join(messages.common.listSeparator)}
+                    {award.winners.length > 1 && t.tied}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {round.startedAt && round.finishedAt && (
+              <p className="mt-2 text-xs text-white/60">
+                {new Date(round.startedAt).toLocaleTimeString(LOCALE_TAGS[locale])} 〜 {new Date(round.finishedAt).toLocaleTimeString(LOCALE_TAGS[locale])}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
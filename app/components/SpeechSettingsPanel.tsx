@@ -0,0 +1,120 @@
+"use client"
+// 番号読み上げのオン・オフと読み上げ方の設定（設定は端末ごとに保存）
+
+import React from 'react';
+import { Volume2, VolumeX, RotateCcw } from 'lucide-react';
+import { GAME_CONSTANTS } from '@/types';
+import type { SpeechCallStyle, SpeechLanguage, SpeechSettingsPanelProps } from '@/types';
+import { useLocale } from '@/hooks/useLocale';
+import { formatMessage } from '@/utils/i18n';
+
+export default function SpeechSettingsPanel({
+  settings,
+  onChange,
+  onRepeat,
+  canRepeat,
+  isSupported,
+  gameType = '75ball'
+}: SpeechSettingsPanelProps) {
+  const { messages } = useLocale();
+  const t = messages.speech;
+
+  if (!isSupported) {
+    return <p className="text-white/60 text-sm">{t.notSupported}</p>;
+  }
+
+  const isWords = gameType === 'words';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <button
+          onClick={() => onChange({ enabled: !settings.enabled })}
+          aria-pressed={settings.enabled}
+          className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold transition-colors ${
+            settings.enabled
+              ? 'bg-green-500/80 hover:bg-green-500 text-white'
+              : 'bg-white/10 hover:bg-white/20 text-white/80'
+          }`}
+        >
+          {settings.enabled ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+          {settings.enabled ? t.on : t.off}
+        </button>
+        <button
+          onClick={onRepeat}
+          disabled={!canRepeat}
+          className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-semibold bg-white/10 hover:bg-white/20 text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          title={t.repeatTitle}
+        >
+          <RotateCcw className="w-4 h-4" />
+          {t.repeat}
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <div className="space-y-3 text-sm text-white">
+          <label className="block">
+            <span className="text-white/70 text-xs">{messages.common.language}</span>
+            <select
+              value={settings.language}
+              onChange={e => onChange({ language: e.target.value as SpeechLanguage })}
+              className="mt-1 w-full px-2 py-1.5 rounded-lg bg-white/10 border border-white/20 text-white"
+            >
+              {(Object.keys(messages.labels.speechLanguages) as SpeechLanguage[]).map(language => (
+                <option key={language} value={language} className="text-gray-900">
+                  {messages.labels.speechLanguages[language]}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="text-white/70 text-xs">{formatMessage(t.rate, { rate: settings.rate.toFixed(1) })}</span>
+            <input
+              type="range"
+              min={GAME_CONSTANTS.SPEECH_MIN_RATE}
+              max={GAME_CONSTANTS.SPEECH_MAX_RATE}
+              step={0.1}
+              value={settings.rate}
+              onChange={e => onChange({ rate: parseFloat(e.target.value) })}
+              className="mt-1 w-full accent-green-400"
+            />
+          </label>
+
+          {/* ワードビンゴは用語をそのまま読むため読み上げ方は選べない */}
+          {!isWords && (
+            <>
+              <label className="block">
+                <span className="text-white/70 text-xs">{t.callStyle}</span>
+                <select
+                  value={settings.callStyle}
+                  onChange={e => onChange({ callStyle: e.target.value as SpeechCallStyle })}
+                  className="mt-1 w-full px-2 py-1.5 rounded-lg bg-white/10 border border-white/20 text-white"
+                >
+                  {(Object.keys(messages.labels.speechCallStyles) as SpeechCallStyle[]).map(style => (
+                    <option key={style} value={style} className="text-gray-900">
+                      {messages.labels.speechCallStyles[style]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="flex items-start gap-2">
+                <input
+                  type="checkbox"
+                  checked={settings.useNicknames}
+                  onChange={e => onChange({ useNicknames: e.target.checked })}
+                  className="mt-0.5 accent-green-400"
+                />
+                <span>
+                  {t.useNicknames}
+                  <span className="block text-white/60 text-xs">{t.useNicknamesHint}</span>
+                </span>
+              </label>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
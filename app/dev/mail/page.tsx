@@ -0,0 +1,94 @@
+// app/dev/mail/page.tsx
+// 開発用の受信箱（開発環境で送信したメールを表示し、ログイン用リンクを開けるようにする）
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Inbox, RefreshCw } from 'lucide-react';
+import type { DevMail, DevMailsResponse } from '@/types';
+import { LOCALE_TAGS } from '@/utils/i18n';
+import { useLocale } from '@/hooks/useLocale';
+
+// 本文中のURLをリンクにする
+interface MailTextProps {
+  text: string;
+}
+
+const MailText: React.FC<MailTextProps> = ({ text }) => (
+  <p className="whitespace-pre-wrap break-all text-sm text-gray-800">
+    {text.split(/(https?:\/\/\S+)/).map((part, index) =>
+      /^https?:\/\//.test(part)
+        ? <a key={index} href={part} className="text-blue-700 underline">{part}</a>
+        : <React.Fragment key={index}>{part}</React.Fragment>
+    )}
+  </p>
+);
+
+export default function DevMailPage() {
+  const { locale, messages } = useLocale();
+  const t = messages.devMail;
+  const [mails, setMails] = useState<DevMail[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMails = useCallback(async () => {
+    try {
+      const response = await fetch('/api/dev/mails');
+      if (!response.ok) {
+        setError(t.unavailable);
+        return;
+      }
+      const data: DevMailsResponse = await response.json();
+      setMails(data.mails);
+      setError(null);
+    } catch {
+      setError(t.unavailable);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadMails();
+  }, [loadMails]);
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-6">
+      <div className="max-w-3xl mx-auto space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <Inbox className="w-6 h-6" />
+              {t.title}
+            </h1>
+            <p className="text-sm text-gray-600">{t.description}</p>
+          </div>
+          <button
+            onClick={loadMails}
+            className="px-3 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center gap-1 text-sm"
+          >
+            <RefreshCw className="w-4 h-4" />
+            {t.reload}
+          </button>
+        </div>
+
+        {error ? (
+          <p className="text-red-700">{error}</p>
+        ) : !mails ? (
+          <p className="text-gray-600">{messages.common.loading}</p>
+        ) : mails.length === 0 ? (
+          <p className="text-gray-600">{t.empty}</p>
+        ) : (
+          <ul className="space-y-3">
+            {mails.map((mail, index) => (
+              <li key={`${mail.createdAt}-${index}`} className="bg-white rounded-lg border border-gray-200 p-4 shadow-sm">
+                <div className="flex flex-wrap justify-between gap-2 mb-2">
+                  <p className="font-bold text-gray-900">{mail.subject}</p>
+                  <p className="text-xs text-gray-500">{new Date(mail.createdAt).toLocaleString(LOCALE_TAGS[locale])}</p>
+                </div>
+                <p className="text-xs text-gray-600 mb-2">{t.to}: {mail.to}</p>
+                <MailText text={mail.text} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { usePusherConnection } from '@/hooks/usePusherConnection';
+import { useAutoDrawCountdown } from '@/hooks/useAutoDrawCountdown';
+import { useSpeechCaller } from '@/hooks/useSpeechCaller';
+import { useCardTheme } from '@/hooks/useCardTheme';
 import { Trophy, Crown, Users } from 'lucide-react';
 import {
   BingoCell,
@@ -12,8 +15,33 @@ import {
   BingoCheckResult,
   NumberDrawnEventData,
   SessionUpdatedEventData,
-  GameSession
+  GameSession,
+  BingoPattern,
+  SubmitClaimResponse,
+  ClaimStatus,
+  ClaimResultEventData,
+  RoundStartedEventData,
+  PrizeWonEventData,
+  NumberVoidedEventData,
+  PlayerKickedEventData
 } from '@/types';
+import { evaluatePatterns, resolvePatterns } from '@/utils/patterns';
+import { formatBingoNumber, getBingoLetter, getNinetyBallPrize } from '@/utils/gameUtils';
+import { getTermLabel } from '@/utils/terms';
+import { resolveDaubMode, getLockoutRemaining } from '@/utils/claims';
+import { getPlayerBoards } from '@/utils/bingo';
+import { getCurrentRoundNumber } from '@/utils/rounds';
+import { canPlayerWin, isLateJoiner } from '@/utils/lateJoin';
+import { formatMessage } from '@/utils/i18n';
+import { useLocale } from '@/hooks/useLocale';
+import BingoCard from '../../../components/BingoCard';
+import SpeechSettingsPanel from '../../../components/SpeechSettingsPanel';
+import LocaleSwitcher from '../../../components/LocaleSwitcher';
+import CardThemeSelect from '../../../components/CardThemeSelect';
+import LiveAnnouncer from '../../../components/LiveAnnouncer';
+
+// 自動抽選の依頼をゲストごとにずらす最大時間（ms）
+const GUEST_TICK_JITTER_MS = 1500;
 
 interface GuestGamePageProps {
   params: Promise<{ sessionId: string }>;
@@ -33,54 +61,61 @@ interface BingoReachResult extends BingoCheckResult {
   reachLines: string[];
 }
 
-// ビンゴ・リーチ判定関数
-const checkBingoAndReach = (board: BingoCell[][]): BingoReachResult => {
-  const bingoLines: string[] = [];
-  const reachLines: string[] = [];
-  let bingoCount = 0;
-  let reachCount = 0;
-
-  // ラインをチェックするヘルパー関数
-  const checkLine = (cells: BingoCell[], lineName: string) => {
-    const markedCount = cells.filter(cell => cell.marked || cell.number === 0).length;
-    
-    if (markedCount === 5) {
-      // ビンゴ
-      bingoLines.push(lineName);
-      bingoCount++;
-    } else if (markedCount === 4) {
-      // リーチ（4つマーク済み、1つ未マーク）
-      reachLines.push(lineName);
-      reachCount++;
-    }
+// ビンゴ・リーチ判定関数（セッションの当たりパターンに従う）
+const checkBingoAndReach = (board: BingoCell[][], patterns: BingoPattern[]): BingoReachResult => {
+  const marked = board.map(row => row.map(cell => cell.marked || cell.number === 0));
+  const { completed, reach } = evaluatePatterns(marked, patterns);
+
+  return { 
+    count: completed.length, 
+    lines: completed.map(shape => shape.name), 
+    newBingo: false,
+    reachCount: reach.length,
+    reachLines: reach.map(shape => shape.name)
   };
+};
 
-  // 横のチェック
-  for (let row = 0; row < 5; row++) {
-    checkLine(board[row], `横${row + 1}列目`);
-  }
+// カードごとにビンゴ・リーチを判定
+// ビンゴ数は最も多く揃ったカードのライン数、リーチ数は全カードの合計
+const checkCards = (boards: BingoCell[][][], patterns: BingoPattern[]) => {
+  const results = boards.map(board => checkBingoAndReach(board, patterns));
+  const bestIndex = results.reduce((best, result, i) => (result.count > results[best].count ? i : best), 0);
 
-  // 縦のチェック
-  for (let col = 0; col < 5; col++) {
-    const columnCells = board.map(row => row[col]);
-    checkLine(columnCells, `縦${col + 1}列目`);
-  }
+  return {
+    results,
+    bestIndex,
+    count: results[bestIndex]?.count ?? 0,
+    reachCount: results.reduce((sum, result) => sum + result.reachCount, 0),
+    reachIndex: results.findIndex(result => result.reachCount > 0)
+  };
+};
 
-  // 斜め（左上から右下）
-  const diagonal1 = board.map((row, i) => row[i]);
-  checkLine(diagonal1, '斜め（＼）');
+// 申告結果メッセージの文字色
+const CLAIM_MESSAGE_STYLES: Record<ClaimStatus, string> = {
+  pending: 'text-white',
+  accepted: 'text-yellow-300',
+  rejected: 'text-red-200',
+  voided: 'text-white/80'
+};
 
-  // 斜め（右上から左下）
-  const diagonal2 = board.map((row, i) => row[4 - i]);
-  checkLine(diagonal2, '斜め（／）');
+// 手動マークの状態をリロード後も保持するためのキー
+const getManualMarksKey = (sessionId: string, playerId: string) => `manualMarks_${sessionId}_${playerId}`;
 
-  return { 
-    count: bingoCount, 
-    lines: bingoLines, 
-    newBingo: false,
-    reachCount,
-    reachLines
-  };
+// カードごとにマークした番号を保存（1枚分の配列で保存された旧形式も読み込む）
+const loadManualMarks = (sessionId: string, playerId: string): number[][] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(getManualMarksKey(sessionId, playerId)) || '[]');
+    return Array.isArray(saved[0]) ? saved : [saved];
+  } catch {
+    return [];
+  }
+};
+
+const getMarkedNumbers = (board: BingoCell[][]) =>
+  board.flat().filter(cell => cell.marked && cell.number !== 0).map(cell => cell.number);
+
+const saveManualMarks = (sessionId: string, playerId: string, boards: BingoCell[][][]) => {
+  localStorage.setItem(getManualMarksKey(sessionId, playerId), JSON.stringify(boards.map(getMarkedNumbers)));
 };
 
 // ランキング用プレイヤーカードコンポーネント
@@ -91,6 +126,8 @@ interface RankingPlayerCardProps {
 }
 
 const RankingPlayerCard: React.FC<RankingPlayerCardProps> = ({ player, rank, isCurrentPlayer }) => {
+  const { messages } = useLocale();
+
   return (
     <div className={`flex items-center gap-2 p-2 rounded-lg ${isCurrentPlayer ? 'bg-yellow-400/30 border border-yellow-400/50' : 'bg-white/10'}`}>
       <div className={`
@@ -104,7 +141,7 @@ const RankingPlayerCard: React.FC<RankingPlayerCardProps> = ({ player, rank, isC
       </div>
       <span className={`text-sm truncate flex-1 ${isCurrentPlayer ? 'text-yellow-300 font-bold' : 'text-white'}`}>
         {player.name}
-        {isCurrentPlayer && ' (あなた)'}
+        {isCurrentPlayer && messages.guestGame.youSuffix}
       </span>
       <div className="flex items-center gap-1 text-yellow-300 text-xs">
         <Trophy className="w-3 h-3" />
@@ -116,11 +153,13 @@ const RankingPlayerCard: React.FC<RankingPlayerCardProps> = ({ player, rank, isC
 
 export default function GuestGamePage({ params, searchParams }: GuestGamePageProps) {
   const router = useRouter();
+  const { messages } = useLocale();
+  const t = messages.guestGame;
   
   // 状態管理（drawnNumbersとisExpiredを内部で管理）
   const [state, setState] = useState<GuestGameState & { drawnNumbers: number[]; isExpired: boolean }>({
     session: null,
-    board: [],
+    boards: [],
     currentNumber: null,
     drawnNumbers: [],
     bingoLines: [],
@@ -143,13 +182,56 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
   
   // メニュー状態: 'closed' | 'open' | 'confirming'
   const [menuState, setMenuState] = useState<'closed' | 'open' | 'confirming'>('closed');
+  const [showSpeechSettings, setShowSpeechSettings] = useState(false);
+  const [showDisplaySettings, setShowDisplaySettings] = useState(false);
+
+  // カードの配色テーマ（端末ごとに保存）
+  const { theme: cardTheme, setTheme: setCardTheme } = useCardTheme();
+
+  // スクリーンリーダーへの読み上げ（新しい番号・リーチ・ビンゴ・取り消し）
+  const [announcement, setAnnouncement] = useState('');
+  const announcedDrawCountRef = useRef<number | null>(null);
 
   // ランキング表示/非表示
   const [showRanking, setShowRanking] = useState(false);
 
+  // 手動マーク時の申告状態
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [lockedUntilDraw, setLockedUntilDraw] = useState<number | undefined>(undefined);
+  const [claimMessage, setClaimMessage] = useState<{ type: ClaimStatus; text: string } | null>(null);
+
+  // 賞の確定通知
+  const [prizeMessage, setPrizeMessage] = useState<{ text: string; isWinner: boolean } | null>(null);
+
+  // 抽選の取り消し通知
+  const [voidMessage, setVoidMessage] = useState<string | null>(null);
+
   // Pusher接続
   const { isConnected, on, off, emit } = usePusherConnection(resolvedParams?.sessionId || null);
 
+  // 自動抽選のカウントダウン（ホストのタブがスリープしていても、0になったらゲストから抽選を依頼する）
+  const { remainingSeconds: autoDrawRemaining, autoDraw } = useAutoDrawCountdown({
+    sessionId: resolvedParams?.sessionId || null,
+    accessToken: resolvedSearchParams?.token || null,
+    participantId: resolvedSearchParams?.playerId || null,
+    sessionAutoDraw: state.session?.autoDraw,
+    isConnected,
+    on,
+    off,
+    maxJitterMs: GUEST_TICK_JITTER_MS
+  });
+
+  // 番号の読み上げ（各端末で個別にオンにする）
+  const speech = useSpeechCaller({
+    storageKey: 'guest',
+    gameType: state.session?.gameType,
+    terms: state.session?.terms,
+    currentNumber: state.currentNumber,
+    isConnected,
+    on,
+    off
+  });
+
   // PromiseのparamsとsearchParamsを解決
   useEffect(() => {
     Promise.all([params, searchParams]).then(([p, sp]) => {
@@ -186,7 +268,7 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
         if (sessionRes.status === 404) {
           setState(prev => ({
             ...prev,
-            error: 'セッションが見つかりません。制限時間（2時間）が経過してデータが削除された可能性があります。',
+            error: messages.game.sessionExpired,
             loading: false,
             isExpired: true
           }));
@@ -194,7 +276,7 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
         }
 
         if (!sessionRes.ok) {
-          throw new Error('セッションの取得に失敗しました');
+          throw new Error(t.fetchFailed);
         }
 
         const sessionData: SessionDataFromAPI = await sessionRes.json();
@@ -203,7 +285,7 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
         // データ構造を確認してから安全にアクセス
         if (!sessionData.players || !Array.isArray(sessionData.players)) {
           console.error('Invalid session data: players array not found', sessionData);
-          throw new Error('セッションデータが不正です');
+          throw new Error(t.invalidSessionData);
         }
 
         const currentPlayer = sessionData.players.find((p: Player) => p.id === resolvedSearchParams.playerId);
@@ -211,12 +293,12 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
         if (!currentPlayer) {
           console.error('Player not found in session:', resolvedSearchParams.playerId);
           console.error('Available players:', sessionData.players.map((p: Player) => ({ id: p.id, name: p.name })));
-          throw new Error('プレイヤーが見つかりません');
+          throw new Error(t.playerNotFound);
         }
 
         if (!currentPlayer.board || !Array.isArray(currentPlayer.board)) {
           console.error('Invalid player data: board not found', currentPlayer);
-          throw new Error('ビンゴカードが見つかりません');
+          throw new Error(t.cardNotFound);
         }
 
         // drawnNumbersまたはnumbersの互換性処理
@@ -232,13 +314,30 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
           console.warn('Unexpected drawnNumbers/numbers format:', sessionData.drawnNumbers);
         }
 
-        // ボードを2次元配列のBingoCell形式に変換
-        const initialBoard: BingoCell[][] = currentPlayer.board.map((row: number[]) =>
-          row.map((num: number) => ({
-            number: num,
-            marked: num === 0 || drawnNumbers.includes(num)
-          }))
+        // 全カードを2次元配列のBingoCell形式に変換
+        // 手動マークの場合は抽選番号ではなく自分でマークした番号を復元
+        const isManualDaub = resolveDaubMode(sessionData.rules) === 'manual';
+        const manualMarks = isManualDaub
+          ? loadManualMarks(resolvedParams.sessionId, currentPlayer.id)
+          : [];
+        // 途中参加の初回表示では、参加前に抽選された番号をマーク済みにする
+        const catchUpNumbers = isManualDaub && isLateJoiner(currentPlayer) && manualMarks.flat().length === 0
+          ? drawnNumbers.slice(0, currentPlayer.lateJoinedAtDraw)
+          : [];
+        const initialBoards: BingoCell[][][] = getPlayerBoards(currentPlayer).map((board, cardIndex) =>
+          board.map((row: number[]) =>
+            row.map((num: number) => ({
+              number: num,
+              marked: num === 0 ||
+                catchUpNumbers.includes(num) ||
+                (isManualDaub ? (manualMarks[cardIndex] || []).includes(num) : drawnNumbers.includes(num))
+            }))
+          )
         );
+        if (catchUpNumbers.length > 0) {
+          saveManualMarks(resolvedParams.sessionId, currentPlayer.id, initialBoards);
+        }
+        setLockedUntilDraw(currentPlayer.lockedUntilDraw);
 
         // GameSession型に変換
         const session: GameSession = {
@@ -251,7 +350,7 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
         setState(prev => ({
           ...prev,
           session: session,
-          board: initialBoard,
+          boards: initialBoards,
           playerName: currentPlayer.name,
           drawnNumbers: drawnNumbers,
           currentNumber: sessionData.currentNumber || null,
@@ -260,11 +359,18 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
           isExpired: false
         }));
 
+        // 手動マークでは判定はサーバーの申告結果に任せる
+        if (isManualDaub) {
+          setState(prev => ({ ...prev, bingoCount: currentPlayer.bingoCount }));
+          hasBingodRef.current = currentPlayer.bingoCount > 0;
+          return;
+        }
+
         // 初回のビンゴ・リーチチェック
-        const result = checkBingoAndReach(initialBoard);
+        const result = checkCards(initialBoards, resolvePatterns(sessionData.rules));
         setState(prev => ({
           ...prev,
-          bingoLines: result.lines,
+          bingoLines: result.results.map(r => r.lines),
           bingoCount: result.count
         }));
         setReachCount(result.reachCount);
@@ -281,7 +387,7 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
         console.error('データ取得エラー:', error);
         setState(prev => ({
           ...prev,
-          error: error instanceof Error ? error.message : 'エラーが発生しました',
+          error: error instanceof Error ? error.message : t.errorOccurred,
           loading: false,
           isExpired: false
         }));
@@ -289,7 +395,7 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
     };
 
     fetchData();
-  }, [resolvedParams, resolvedSearchParams]);
+  }, [resolvedParams, resolvedSearchParams, messages, t]);
 
   // Pusherイベントリスナー
   useEffect(() => {
@@ -299,25 +405,40 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
       console.log('番号が引かれました:', data);
       
       setState(prev => {
-        // boardが空の場合は何もしない
-        if (!prev.board || prev.board.length === 0) {
+        // カードが空の場合は何もしない
+        if (!prev.boards || prev.boards.length === 0) {
           console.error('Board is not initialized');
           return prev;
         }
 
-        const newBoard = prev.board.map(row =>
-          row.map(cell => ({
-            ...cell,
-            marked: cell.marked || cell.number === data.number
-          }))
+        // 手動マークでは自動でマークしない（プレイヤーが自分でタップする）
+        if (resolveDaubMode(prev.session?.rules) === 'manual') {
+          return {
+            ...prev,
+            currentNumber: data.number,
+            drawnNumbers: [...prev.drawnNumbers, data.number]
+          };
+        }
+
+        const newBoards = prev.boards.map(board =>
+          board.map(row =>
+            row.map(cell => ({
+              ...cell,
+              marked: cell.marked || cell.number === data.number
+            }))
+          )
         );
 
-        const result = checkBingoAndReach(newBoard);
+        const result = checkCards(newBoards, resolvePatterns(prev.session?.rules));
         const isFirstBingo = !hasBingodRef.current && result.count > 0;
         const newReach = !hasReachedRef.current && result.reachCount > 0;
 
+        // 途中参加で入賞が次のラウンドからの場合はビンゴを送信しない
+        const currentPlayer = prev.session?.players.find(p => p.id === resolvedSearchParams?.playerId);
+        const canWin = !currentPlayer || canPlayerWin(currentPlayer);
+
         // ビンゴ達成時の処理
-        if (result.count > 0 && resolvedSearchParams?.playerId) {
+        if (result.count > 0 && canWin && resolvedSearchParams?.playerId) {
           // 初回フラグを更新（演出制御用）
           if (isFirstBingo) {
             hasBingodRef.current = true;
@@ -329,7 +450,8 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
             playerId: resolvedSearchParams.playerId,
             playerName: prev.playerName,
             bingoCount: result.count,
-            lines: result.lines
+            lines: result.results[result.bestIndex].lines,
+            cardIndex: result.bestIndex
           });
         }
 
@@ -342,7 +464,8 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
             playerId: resolvedSearchParams.playerId,
             playerName: prev.playerName,
             reachCount: result.reachCount,
-            reachLines: result.reachLines
+            reachLines: result.results[result.reachIndex].reachLines,
+            cardIndex: result.reachIndex
           });
         }
 
@@ -350,34 +473,97 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
 
         return {
           ...prev,
-          board: newBoard,
+          boards: newBoards,
           currentNumber: data.number,
           drawnNumbers: [...prev.drawnNumbers, data.number],
-          bingoLines: result.lines,
+          bingoLines: result.results.map(r => r.lines),
           bingoCount: result.count,
           showBingoAnimation: isFirstBingo  // 演出は初回のみ
         };
       });
     };
 
+    // 抽選の取り消し: 取り消された番号のマークを外してビンゴ・リーチを判定し直す
+    const handleNumberVoided = (data: NumberVoidedEventData) => {
+      const playerId = resolvedSearchParams?.playerId;
+      const isCancelled = !!playerId && data.cancelledPlayerIds.includes(playerId);
+      const label = data.session.gameType === 'words'
+        ? formatMessage(messages.game.quotedTerm, { term: getTermLabel(data.session.terms, data.number) })
+        : formatBingoNumber(data.number, data.session.gameType);
+
+      setVoidMessage(formatMessage(isCancelled ? t.voidedWithBingo : t.voided, { label }));
+
+      if (isCancelled) {
+        hasBingodRef.current = false;
+      }
+
+      setState(prev => {
+        const newBoards = prev.boards.map(board =>
+          board.map(row =>
+            row.map(cell => (cell.number === data.number ? { ...cell, marked: false } : cell))
+          )
+        );
+        const base = {
+          ...prev,
+          session: data.session,
+          boards: newBoards,
+          currentNumber: data.currentNumber,
+          drawnNumbers: data.drawnNumbers,
+          showBingoAnimation: false
+        };
+
+        // 手動マーク: ビンゴ数はホスト・サーバーで判定し直した値を使う
+        if (resolveDaubMode(prev.session?.rules) === 'manual') {
+          if (resolvedParams && playerId) {
+            saveManualMarks(resolvedParams.sessionId, playerId, newBoards);
+          }
+          const me = data.session.players.find(p => p.id === playerId);
+          return {
+            ...base,
+            bingoCount: me?.bingoCount ?? prev.bingoCount,
+            bingoLines: isCancelled ? [] : prev.bingoLines
+          };
+        }
+
+        const result = checkCards(newBoards, resolvePatterns(prev.session?.rules));
+        if (result.reachCount === 0) {
+          hasReachedRef.current = false;
+        }
+        setReachCount(result.reachCount);
+
+        return {
+          ...base,
+          bingoLines: result.results.map(r => r.lines),
+          bingoCount: result.count
+        };
+      });
+    };
+
     const handleGameReset = () => {
       console.log('ゲームがリセットされました');
       hasReachedRef.current = false;
       hasBingodRef.current = false;
       setReachCount(0);
+      setLockedUntilDraw(undefined);
+      setClaimMessage(null);
+      if (resolvedParams && resolvedSearchParams?.playerId) {
+        localStorage.removeItem(getManualMarksKey(resolvedParams.sessionId, resolvedSearchParams.playerId));
+      }
       setState(prev => {
-        // boardが空の場合は何もしない
-        if (!prev.board || prev.board.length === 0) {
+        // カードが空の場合は何もしない
+        if (!prev.boards || prev.boards.length === 0) {
           return prev;
         }
 
         return {
           ...prev,
-          board: prev.board.map(row =>
-            row.map(cell => ({
-              ...cell,
-              marked: cell.number === 0
-            }))
+          boards: prev.boards.map(board =>
+            board.map(row =>
+              row.map(cell => ({
+                ...cell,
+                marked: cell.number === 0
+              }))
+            )
           ),
           currentNumber: null,
           drawnNumbers: [],
@@ -388,6 +574,36 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
       });
     };
 
+    // 次のラウンド: 新しいカードに差し替えて最初から
+    const handleRoundStarted = (data: RoundStartedEventData) => {
+      console.log(`ラウンド${data.roundNumber}が始まりました`);
+      const currentPlayer = data.session.players.find(p => p.id === resolvedSearchParams?.playerId);
+      if (!currentPlayer) return;
+
+      hasReachedRef.current = false;
+      hasBingodRef.current = false;
+      setReachCount(0);
+      setShowReachAnimation(false);
+      setLockedUntilDraw(undefined);
+      setClaimMessage(null);
+      if (resolvedParams) {
+        localStorage.removeItem(getManualMarksKey(resolvedParams.sessionId, currentPlayer.id));
+      }
+
+      setState(prev => ({
+        ...prev,
+        session: data.session,
+        boards: getPlayerBoards(currentPlayer).map(board =>
+          board.map(row => row.map(num => ({ number: num, marked: num === 0 })))
+        ),
+        currentNumber: null,
+        drawnNumbers: [],
+        bingoLines: [],
+        bingoCount: 0,
+        showBingoAnimation: false
+      }));
+    };
+
     const handleSessionUpdated = (data: SessionUpdatedEventData) => {
       console.log('セッションが更新されました:', data);
       
@@ -422,24 +638,176 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
       });
     };
 
+    // ホスト確認の結果（自分の申告のみ）
+    const handleClaimResult = (data: ClaimResultEventData) => {
+      const { claim } = data;
+      if (claim.playerId !== resolvedSearchParams?.playerId) return;
+
+      if (claim.status === 'pending') {
+        setClaimMessage({ type: 'pending', text: t.claimPending });
+      } else if (claim.status === 'accepted' && claim.reviewedAt) {
+        setClaimMessage({ type: 'accepted', text: t.claimApprovedByHost });
+        // 手動マークでは承認されたライン数を反映（自動マークは手元で判定済み）
+        setState(prev => {
+          if (resolveDaubMode(prev.session?.rules) !== 'manual') return prev;
+          const isFirstBingo = !hasBingodRef.current;
+          hasBingodRef.current = true;
+          return {
+            ...prev,
+            bingoCount: Math.max(prev.bingoCount, claim.bingoCount ?? 0),
+            bingoLines: prev.boards.map((_, i) => (i === (claim.cardIndex ?? 0) ? claim.lines || [] : prev.bingoLines[i] || [])),
+            showBingoAnimation: isFirstBingo
+          };
+        });
+      } else if (claim.status === 'rejected' && claim.reviewedAt) {
+        setClaimMessage({ type: 'rejected', text: formatMessage(t.claimRejectedByHost, { reason: claim.reason ?? '' }) });
+      }
+    };
+
+    // 賞の確定（同着の追加時も同じ賞が再送される）
+    const handlePrizeWon = (data: PrizeWonEventData) => {
+      const { award } = data;
+      const isWinner = award.winners.some(w => w.playerId === resolvedSearchParams?.playerId);
+      const names = award.winners.map(w => w.playerName).join(t.nameSeparator);
+
+      setPrizeMessage({
+        text: isWinner
+          ? formatMessage(t.prizeWon, { label: award.label, tie: award.winners.length > 1 ? messages.game.tie : '' })
+          : formatMessage(t.prizeWonBy, { names, label: award.label }),
+        isWinner
+      });
+
+      setState(prev => {
+        if (!prev.session) return prev;
+        const awards = prev.session.prizeAwards || [];
+
+        return {
+          ...prev,
+          session: {
+            ...prev.session,
+            prizeAwards: awards.some(a => a.tierId === award.tierId)
+              ? awards.map(a => (a.tierId === award.tierId ? award : a))
+              : [...awards, award]
+          }
+        };
+      });
+    };
+
     const handleGameEnded = () => {
       console.log('ゲームが終了しました');
       router.push(`/guest/result/${resolvedParams?.sessionId}`);
     };
 
+    // ホストに退出させられた場合は説明画面へ
+    const handlePlayerKicked = (data: PlayerKickedEventData) => {
+      if (data.playerId !== resolvedSearchParams?.playerId) return;
+
+      localStorage.removeItem('reconnectionData');
+      localStorage.removeItem('participantInfo');
+      router.replace(`/guest/kicked${data.banned ? '?banned=1' : ''}`);
+    };
+
     // イベントリスナー登録
     on('number-drawn', handleNumberDrawn);
+    on('number-voided', handleNumberVoided);
     on('game-reset', handleGameReset);
     on('session-updated', handleSessionUpdated);
     on('game-ended', handleGameEnded);
+    on('claim-result', handleClaimResult);
+    on('round-started', handleRoundStarted);
+    on('prize-won', handlePrizeWon);
+    on('player-kicked', handlePlayerKicked);
 
     return () => {
       off('number-drawn', handleNumberDrawn);
+      off('number-voided', handleNumberVoided);
       off('game-reset', handleGameReset);
       off('session-updated', handleSessionUpdated);
       off('game-ended', handleGameEnded);
+      off('claim-result', handleClaimResult);
+      off('round-started', handleRoundStarted);
+      off('prize-won', handlePrizeWon);
+      off('player-kicked', handlePlayerKicked);
     };
-  }, [isConnected, on, off, emit, router, resolvedParams, resolvedSearchParams]);
+  }, [isConnected, on, off, emit, router, resolvedParams, resolvedSearchParams, messages, t]);
+
+  // 手動マーク: セルをタップしてマークを切り替え
+  const handleCellClick = (cardIndex: number, row: number, col: number) => {
+    if (!resolvedParams || !resolvedSearchParams?.playerId) return;
+
+    setState(prev => {
+      const newBoards = prev.boards.map((board, i) =>
+        i !== cardIndex ? board : board.map((cells, r) =>
+          cells.map((cell, c) =>
+            r === row && c === col && cell.number !== 0 ? { ...cell, marked: !cell.marked } : cell
+          )
+        )
+      );
+      saveManualMarks(resolvedParams.sessionId, resolvedSearchParams.playerId!, newBoards);
+      return { ...prev, boards: newBoards };
+    });
+  };
+
+  // 手動マーク: カードごとの「BINGO!」ボタンで申告
+  const handleClaimBingo = async (cardIndex: number) => {
+    if (!resolvedParams || !resolvedSearchParams?.playerId || !resolvedSearchParams.token || isClaiming) return;
+
+    setIsClaiming(true);
+    setClaimMessage(null);
+
+    try {
+      const marks = getMarkedNumbers(state.boards[cardIndex]);
+
+      const response = await fetch(`/api/sessions/${resolvedParams.sessionId}/claims`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          accessToken: resolvedSearchParams.token,
+          playerId: resolvedSearchParams.playerId,
+          marks,
+          cardIndex
+        })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.lockedUntilDraw !== undefined) {
+          setLockedUntilDraw(data.lockedUntilDraw);
+        }
+        throw new Error(data.error || t.claimFailed);
+      }
+
+      const { claim, bingoCount, lockedUntilDraw: newLockedUntilDraw } = data as SubmitClaimResponse;
+
+      if (claim.status === 'pending') {
+        setClaimMessage({ type: 'pending', text: t.claimPending });
+      } else if (claim.status === 'accepted') {
+        const isFirstBingo = !hasBingodRef.current;
+        hasBingodRef.current = true;
+        setClaimMessage({ type: 'accepted', text: t.claimAccepted });
+        setState(prev => ({
+          ...prev,
+          bingoCount: bingoCount ?? prev.bingoCount,
+          bingoLines: prev.boards.map((_, i) => (i === cardIndex ? claim.lines || [] : prev.bingoLines[i] || [])),
+          showBingoAnimation: isFirstBingo
+        }));
+      } else {
+        setLockedUntilDraw(newLockedUntilDraw);
+        setClaimMessage({
+          type: 'rejected',
+          text: formatMessage(t.claimRejected, { reason: claim.reason || t.noCompletedLine })
+        });
+      }
+    } catch (error) {
+      setClaimMessage({
+        type: 'rejected',
+        text: error instanceof Error ? error.message : t.claimFailed
+      });
+    } finally {
+      setIsClaiming(false);
+    }
+  };
 
   // ビンゴアニメーション制御
   useEffect(() => {
@@ -461,6 +829,59 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
     }
   }, [showReachAnimation]);
 
+  // 賞の確定通知は5秒で消す
+  useEffect(() => {
+    if (prizeMessage) {
+      const timer = setTimeout(() => {
+        setPrizeMessage(null);
+      }, 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [prizeMessage]);
+
+  // 新しく呼ばれた番号を読み上げる（読み込み時の既存の番号と、取り消しで減った場合は読み上げない）
+  useEffect(() => {
+    if (state.loading) return;
+    const drawCount = state.drawnNumbers.length;
+    const previousCount = announcedDrawCountRef.current;
+    announcedDrawCountRef.current = drawCount;
+    if (previousCount === null || drawCount <= previousCount) return;
+
+    const latest = state.drawnNumbers[drawCount - 1];
+    const gameType = state.session?.gameType;
+    setAnnouncement(gameType === 'words'
+      ? formatMessage(t.announceTerm, { term: getTermLabel(state.session?.terms, latest) })
+      : formatMessage(t.announceNumber, { number: `${getBingoLetter(latest, gameType)} ${latest}`.trim() }));
+  }, [state.drawnNumbers, state.loading, state.session?.gameType, state.session?.terms, t]);
+
+  useEffect(() => {
+    if (showReachAnimation) {
+      setAnnouncement(t.announceReach);
+    }
+  }, [showReachAnimation, t]);
+
+  useEffect(() => {
+    if (state.showBingoAnimation) {
+      setAnnouncement(formatMessage(t.announceBingo, { count: state.bingoCount }));
+    }
+  }, [state.showBingoAnimation, state.bingoCount, t]);
+
+  useEffect(() => {
+    if (voidMessage) {
+      setAnnouncement(voidMessage);
+    }
+  }, [voidMessage]);
+
+  // 抽選の取り消し通知は5秒で消す
+  useEffect(() => {
+    if (voidMessage) {
+      const timer = setTimeout(() => {
+        setVoidMessage(null);
+      }, 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [voidMessage]);
+
   // ランキング計算: ビンゴ達成者を最初にビンゴした順にソート
   const rankedPlayers = [...(state.session?.players || [])]
     .filter(p => p.bingoCount > 0 && p.bingoAchievedAt)
@@ -471,7 +892,7 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
   if (state.loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-600 to-pink-600">
-        <div className="text-white text-2xl">読み込み中...</div>
+        <div className="text-white text-2xl">{messages.common.loading}</div>
       </div>
     );
   }
@@ -483,38 +904,53 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
           {state.isExpired ? (
             <>
               <div className="text-5xl text-center mb-4">⏰</div>
-              <h2 className="text-xl font-bold text-white text-center mb-2">セッション期限切れ</h2>
+              <h2 className="text-xl font-bold text-white text-center mb-2">{messages.game.sessionExpiredTitle}</h2>
               <p className="text-white/80 text-center mb-6">
-                制限時間（2時間）が経過したため、ゲームデータが削除されました。
+                {messages.game.sessionExpiredDescription}
               </p>
             </>
           ) : (
-            <p className="text-white text-xl mb-4 text-center">エラー: {state.error}</p>
+            <p className="text-white text-xl mb-4 text-center">{formatMessage(t.errorPrefix, { error: state.error })}</p>
           )}
           <button
             onClick={() => router.push('/')}
             className="w-full px-6 py-3 bg-white/20 text-white rounded-lg hover:bg-white/30 transition-colors border border-white/30 font-semibold"
           >
-            トップページへ戻る
+            {messages.common.backToTop}
           </button>
         </div>
       </div>
     );
   }
 
-  // boardが初期化されていない場合のフォールバック
-  if (!state.board || state.board.length === 0) {
+  // カードが初期化されていない場合のフォールバック
+  if (!state.boards || state.boards.length === 0) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-600 to-pink-600">
         <div className="bg-white/20 backdrop-blur-md rounded-lg p-8 border border-white/30">
-          <p className="text-white text-xl mb-4">ビンゴカードを準備中...</p>
+          <p className="text-white text-xl mb-4">{t.preparingCard}</p>
         </div>
       </div>
     );
   }
 
+  // 90ボールは3×9のチケット
+  const isTicket = state.session?.gameType === '90ball';
+  // ワードビンゴは番号の代わりに用語を表示
+  const isWords = state.session?.gameType === 'words';
+  // 手動マーク（自分でタップして申告）
+  const isManualDaub = resolveDaubMode(state.session?.rules) === 'manual';
+  const lockoutRemaining = getLockoutRemaining({ lockedUntilDraw }, state.drawnNumbers.length);
+  const currentPlayer = state.session?.players.find(p => p.id === resolvedSearchParams?.playerId);
+  const isWaitingForNextRound = currentPlayer ? !canPlayerWin(currentPlayer) : false;
+  const displayValue = (num: number) => isWords ? getTermLabel(state.session?.terms, num) : num;
+  // 複数カード（横スワイプで切り替え）
+  const hasMultipleCards = state.boards.length > 1;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-600 to-pink-600 p-4">
+      <LiveAnnouncer message={announcement} />
+
       {/* ビンゴアニメーション */}
       {state.showBingoAnimation && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 animate-fade-in">
@@ -522,7 +958,7 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
             <h2 className="text-6xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-300 to-yellow-500 animate-pulse">
               BINGO!!
             </h2>
-            <p className="text-2xl text-white mt-4 text-center">{state.bingoCount}ライン達成！</p>
+            <p className="text-2xl text-white mt-4 text-center">{formatMessage(t.linesAchieved, { count: state.bingoCount })}</p>
           </div>
         </div>
       )}
@@ -532,12 +968,36 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
         <div className="fixed top-4 left-1/2 transform -translate-x-1/2 z-50 animate-slide-down">
           <div className="bg-gradient-to-r from-orange-400 to-pink-500 rounded-full px-8 py-3 shadow-lg border-2 border-white/50">
             <p className="text-2xl font-bold text-white text-center">
-              🎯 リーチ！
+              {t.reach}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* 賞の確定通知 */}
+      {prizeMessage && (
+        <div className="fixed top-16 left-1/2 transform -translate-x-1/2 z-50 animate-slide-down w-full max-w-sm px-4">
+          <div className={`rounded-xl px-6 py-3 shadow-lg border-2 text-center ${
+            prizeMessage.isWinner
+              ? 'bg-gradient-to-r from-yellow-400 to-orange-500 border-yellow-200'
+              : 'bg-purple-900/90 border-purple-400/50'
+          }`}>
+            <p className={`font-bold text-white ${prizeMessage.isWinner ? 'text-2xl' : 'text-base'}`}>
+              🏅 {prizeMessage.text}
             </p>
           </div>
         </div>
       )}
 
+      {/* 抽選の取り消し通知 */}
+      {voidMessage && (
+        <div className="fixed top-32 left-1/2 transform -translate-x-1/2 z-50 animate-slide-down w-full max-w-sm px-4">
+          <div className="rounded-xl px-6 py-3 shadow-lg border-2 text-center bg-gray-800/90 border-gray-400/50">
+            <p className="font-bold text-white text-base">↩️ {voidMessage}</p>
+          </div>
+        </div>
+      )}
+
       <div className="max-w-md mx-auto">
         {/* ヘッダー */}
         <div className="bg-white/20 backdrop-blur-md rounded-lg shadow-xl p-4 mb-4 border border-white/30 relative">
@@ -546,7 +1006,7 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
             <button
               onClick={() => setMenuState(prev => prev === 'closed' ? 'open' : 'closed')}
               className="p-2 text-white/70 hover:text-white hover:bg-white/10 rounded-lg transition-colors"
-              aria-label="メニュー"
+              aria-label={messages.game.menu}
             >
               <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor">
                 <circle cx="10" cy="4" r="2" />
@@ -559,18 +1019,38 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
             {menuState !== 'closed' && (
               <div className="absolute top-10 right-0 bg-purple-900 rounded-lg shadow-xl border border-purple-400/50 overflow-hidden min-w-[180px] z-10">
                 {menuState === 'open' ? (
-                  <button
-                    onClick={() => setMenuState('confirming')}
-                    className="w-full px-4 py-3 text-left text-white hover:bg-purple-800 transition-colors text-sm"
-                  >
-                    ゲームを退出
-                  </button>
+                  <>
+                    <button
+                      onClick={() => {
+                        setShowSpeechSettings(prev => !prev);
+                        setMenuState('closed');
+                      }}
+                      className="w-full px-4 py-3 text-left text-white hover:bg-purple-800 transition-colors text-sm"
+                    >
+                      {showSpeechSettings ? t.closeSpeechSettings : t.speechSettings}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setShowDisplaySettings(prev => !prev);
+                        setMenuState('closed');
+                      }}
+                      className="w-full px-4 py-3 text-left text-white hover:bg-purple-800 transition-colors text-sm"
+                    >
+                      {showDisplaySettings ? t.closeDisplaySettings : t.displaySettings}
+                    </button>
+                    <button
+                      onClick={() => setMenuState('confirming')}
+                      className="w-full px-4 py-3 text-left text-white hover:bg-purple-800 transition-colors text-sm"
+                    >
+                      {t.leave}
+                    </button>
+                  </>
                 ) : (
                   <button
                     onClick={() => router.push('/')}
                     className="w-full px-4 py-3 text-left text-red-400 hover:bg-red-900/50 transition-colors text-sm font-medium"
                   >
-                    本当に退出しますか？
+                    {t.confirmLeave}
                   </button>
                 )}
               </div>
@@ -578,78 +1058,207 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
           </div>
           
           <h1 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-200 to-yellow-400 mb-2 pr-8">
-            {state.session?.gameName || 'ビンゴゲーム'}
+            {state.session?.gameName || messages.game.defaultTitle}
+            {state.session?.rounds && state.session.rounds.length > 0 && (
+              <span className="ml-2 text-sm text-white/90">
+                {formatMessage(messages.common.roundNumber, { round: getCurrentRoundNumber(state.session) })}
+              </span>
+            )}
           </h1>
           <div className="flex justify-between items-center">
-            <p className="text-sm text-white/90">プレイヤー: {state.playerName}</p>
+            <div>
+              <p className="text-sm text-white/90">{formatMessage(t.player, { name: state.playerName })}</p>
+              <p className="text-xs text-white/70">
+                {formatMessage(t.wins, {
+                  patterns: isTicket
+                    ? Object.values(messages.labels.ninetyBallPrizes).join(' / ')
+                    : resolvePatterns(state.session?.rules).map(p => messages.labels.patterns[p]).join(' / ')
+                })}
+              </p>
+            </div>
             <div className="text-right">
-              <p className="text-xs text-white/70">{isConnected ? '✅ 接続中' : '❌ 切断'}</p>
+              <LocaleSwitcher className="mb-1" />
+              <p className="text-xs text-white/70">{isConnected ? messages.game.connected : messages.game.disconnected}</p>
               {state.bingoCount > 0 && (
                 <p className="text-sm font-bold text-yellow-300">
-                  {state.bingoCount}ビンゴ達成！
+                  {isTicket
+                    ? formatMessage(t.prizeAchieved, {
+                        prize: messages.labels.ninetyBallPrizes[getNinetyBallPrize(state.bingoCount) ?? 'one_line']
+                      })
+                    : formatMessage(t.bingoAchieved, { count: state.bingoCount })}
                 </p>
               )}
               {state.bingoCount === 0 && reachCount > 0 && (
                 <p className="text-sm font-bold text-orange-300">
-                  {reachCount}リーチ！
+                  {formatMessage(t.reachCount, { count: reachCount })}
                 </p>
               )}
             </div>
           </div>
         </div>
 
+        {/* 番号の読み上げ設定（この端末のみ） */}
+        {showSpeechSettings && (
+          <div className="bg-white/20 backdrop-blur-md rounded-lg shadow-xl p-4 mb-4 border border-white/30">
+            <p className="text-sm font-bold text-white mb-3">{t.speechTitle}</p>
+            <SpeechSettingsPanel
+              settings={speech.settings}
+              onChange={speech.updateSettings}
+              onRepeat={speech.repeat}
+              canRepeat={state.currentNumber !== null}
+              isSupported={speech.isSupported}
+              gameType={state.session?.gameType}
+            />
+          </div>
+        )}
+
+        {/* 表示設定（この端末のみ） */}
+        {showDisplaySettings && (
+          <div className="bg-white/20 backdrop-blur-md rounded-lg shadow-xl p-4 mb-4 border border-white/30">
+            <CardThemeSelect value={cardTheme} onChange={setCardTheme} />
+          </div>
+        )}
+
         {/* 現在の番号表示 */}
         {state.currentNumber && (
           <div className="bg-gradient-to-r from-yellow-300 to-yellow-500 rounded-lg shadow-xl p-4 mb-4 animate-slide-in border-2 border-yellow-600">
-            <p className="text-center text-purple-800 text-sm mb-1">現在の番号</p>
-            <p className="text-center text-5xl font-bold text-purple-900">
-              {state.currentNumber}
+            <p className="text-center text-purple-800 text-sm mb-1">{isWords ? messages.game.currentTerm : messages.game.currentNumber}</p>
+            <p className={`text-center font-bold text-purple-900 ${isWords ? 'text-3xl break-all' : 'text-5xl'}`}>
+              {displayValue(state.currentNumber)}
             </p>
           </div>
         )}
 
-        {/* ビンゴカード */}
-        <div className="bg-white/20 backdrop-blur-md rounded-lg shadow-xl p-4 mb-4 border border-white/30">
-          {/* B I N G O ヘッダー */}
-          <div className="grid grid-cols-5 gap-2 mb-3">
-            {['B', 'I', 'N', 'G', 'O'].map(letter => (
-              <div 
-                key={letter} 
-                className="text-center font-extrabold text-xl p-1 text-transparent bg-clip-text bg-gradient-to-br from-yellow-200 to-yellow-400 drop-shadow-sm"
+        {/* 自動抽選のカウントダウン */}
+        {autoDraw && (
+          <p className="text-center text-sm text-white/90 mb-4">
+            {autoDraw.status === 'running'
+              ? <>{isWords ? t.nextTermIn : t.nextNumberIn} <span className="text-xl font-bold tabular-nums">{autoDrawRemaining ?? '-'}</span> {t.seconds}</>
+              : t.autoDrawPaused}
+          </p>
+        )}
+
+        {/* ビンゴカード（複数枚は横スワイプで切り替え） */}
+        {isManualDaub && (
+          <p className="text-xs text-white/80 mb-2 text-center">{t.manualDaubHint}</p>
+        )}
+        {hasMultipleCards && (
+          <p className="text-xs text-white/70 mb-2 text-center">{formatMessage(t.swipeHint, { count: state.boards.length })}</p>
+        )}
+        <div className={hasMultipleCards ? 'flex gap-3 overflow-x-auto snap-x snap-mandatory mb-4' : 'mb-4'}>
+          {state.boards.map((board, cardIndex) => {
+            const cardBingoCount = state.bingoLines[cardIndex]?.length ?? 0;
+            const cardLabel = hasMultipleCards
+              ? formatMessage(t.cardOf, { number: cardIndex + 1, total: state.boards.length })
+              : undefined;
+
+            return (
+              <div
+                key={cardIndex}
+                className={`
+                  bg-white/20 backdrop-blur-md rounded-lg shadow-xl p-4 border
+                  ${cardBingoCount > 0 && hasMultipleCards ? 'border-yellow-300' : 'border-white/30'}
+                  ${hasMultipleCards ? 'snap-center shrink-0 w-full' : ''}
+                `}
               >
-                {letter}
+                {/* カード番号（複数カード時） */}
+                {hasMultipleCards && (
+                  <div className="flex justify-between items-center mb-3 text-sm">
+                    <span className="font-bold text-white">
+                      {formatMessage(t.cardOf, { number: cardIndex + 1, total: state.boards.length })}
+                    </span>
+                    {cardBingoCount > 0 && (
+                      <span className="font-bold text-yellow-300">{formatMessage(t.cardBingo, { count: cardBingoCount })}</span>
+                    )}
+                  </div>
+                )}
+
+                {isManualDaub ? (
+                  <>
+                    <div className="flex justify-center">
+                      <BingoCard
+                        board={board}
+                        gameType={state.session?.gameType}
+                        terms={state.session?.terms}
+                        onCellClick={(row, col) => handleCellClick(cardIndex, row, col)}
+                        isInteractive={true}
+                        bingoLines={state.bingoLines[cardIndex]}
+                        showNumbers={false}
+                        size="small"
+                        className="w-full"
+                        theme={cardTheme}
+                        label={cardLabel}
+                      />
+                    </div>
+
+                    {/* 申告ボタン（カードごと） */}
+                    <button
+                      onClick={() => handleClaimBingo(cardIndex)}
+                      disabled={isClaiming || lockoutRemaining > 0 || isWaitingForNextRound}
+                      className={`
+                        w-full mt-4 py-3 rounded-lg font-extrabold text-2xl shadow-lg transition-all
+                        ${isClaiming || lockoutRemaining > 0 || isWaitingForNextRound
+                          ? 'bg-gray-500/70 text-gray-200 cursor-not-allowed'
+                          : 'bg-gradient-to-r from-yellow-300 to-yellow-500 text-purple-900 hover:scale-105'}
+                      `}
+                    >
+                      {isClaiming ? t.judging : 'BINGO!'}
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    {/* B I N G O ヘッダー（90ボールのチケット・ワードビンゴにはなし） */}
+                    {!isTicket && !isWords && (
+                      <div className="grid grid-cols-5 gap-2 mb-3" aria-hidden="true">
+                        {['B', 'I', 'N', 'G', 'O'].map(letter => (
+                          <div 
+                            key={letter} 
+                            className="text-center font-extrabold text-xl p-1 text-transparent bg-clip-text bg-gradient-to-br from-yellow-200 to-yellow-400 drop-shadow-sm"
+                          >
+                            {letter}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  
+                    {/* ビンゴ数字グリッド（自動マークのため操作はできないが、矢印キーで読み上げられる） */}
+                    <BingoCard
+                      board={board}
+                      gameType={state.session?.gameType}
+                      terms={state.session?.terms}
+                      isInteractive={false}
+                      showNumbers={false}
+                      size="small"
+                      className="w-full"
+                      theme={cardTheme}
+                      label={cardLabel}
+                    />
+                  </>
+                )}
               </div>
-            ))}
-          </div>
-          
-          {/* ビンゴ数字グリッド */}
-          <div className="grid grid-cols-5 gap-2">
-            {state.board.map((row, rowIndex) =>
-              row.map((cell, colIndex) => (
-                <div
-                  key={`${rowIndex}-${colIndex}`}
-                  className={`
-                    aspect-square flex items-center justify-center
-                    rounded-lg shadow-md transition-all
-                    ${cell.number === 0
-                      ? 'bg-gradient-to-br from-yellow-300 to-yellow-500 text-purple-700 border-2 border-purple-600'
-                      : cell.marked
-                        ? 'bg-gradient-to-br from-yellow-300 to-yellow-500 text-purple-700 border-2 border-purple-600 scale-95'
-                        : 'bg-gradient-to-br from-purple-700 to-purple-900 text-pink-200 border border-pink-400/50 hover:brightness-110'}
-                  `}
-                >
-                  <span className={`
-                    font-bold drop-shadow-md
-                    ${cell.number === 0 ? 'text-2xl' : 'text-lg'}
-                  `}>
-                    {cell.number === 0 ? '★' : cell.number}
-                  </span>
-                </div>
-              ))
-            )}
-          </div>
+            );
+          })}
         </div>
 
+        {/* 途中参加（入賞は次のラウンドから） */}
+        {isWaitingForNextRound && (
+          <p className="-mt-2 mb-4 text-center text-sm text-sky-200">
+            {t.lateJoinNotEligible}
+          </p>
+        )}
+
+        {/* 申告のペナルティ・判定結果 */}
+        {isManualDaub && lockoutRemaining > 0 && (
+          <p className="-mt-2 mb-4 text-center text-sm text-orange-200">
+            {formatMessage(t.lockout, { count: lockoutRemaining })}
+          </p>
+        )}
+        {claimMessage && (
+          <p className={`-mt-2 mb-4 text-center text-sm font-semibold ${CLAIM_MESSAGE_STYLES[claimMessage.type]}`}>
+            {claimMessage.text}
+          </p>
+        )}
+
         {/* ランキングセクション */}
         <div className="bg-white/20 backdrop-blur-md rounded-lg shadow-xl p-4 mb-4 border border-white/30">
           <button
@@ -658,13 +1267,13 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
           >
             <h3 className="text-lg font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-200 to-yellow-400 flex items-center gap-2">
               <Crown className="w-5 h-5 text-yellow-400" />
-              ビンゴ達成者
+              {messages.game.bingoWinners}
               {rankedPlayers.length > 0 && (
-                <span className="text-sm text-yellow-300">({rankedPlayers.length}名)</span>
+                <span className="text-sm text-yellow-300">{formatMessage(t.winnersCount, { count: rankedPlayers.length })}</span>
               )}
             </h3>
             <span className="text-white/70 text-sm">
-              {showRanking ? '▲ 閉じる' : '▼ 開く'}
+              {showRanking ? t.collapse : t.expand}
             </span>
           </button>
           
@@ -680,7 +1289,7 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
                   />
                 ))
               ) : (
-                <p className="text-white/60 text-center py-2 text-sm">まだビンゴ達成者はいません</p>
+                <p className="text-white/60 text-center py-2 text-sm">{messages.game.noBingoWinners}</p>
               )}
             </div>
           )}
@@ -690,12 +1299,12 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
         <div className="bg-white/20 backdrop-blur-md rounded-lg shadow-xl p-3 mb-4 border border-white/30">
           <div className="flex items-center justify-center gap-2 text-white/80">
             <Users className="w-4 h-4" />
-            <span className="text-sm">{state.session?.players.length || 0}名が参加中</span>
+            <span className="text-sm">{formatMessage(messages.game.playersJoined, { count: state.session?.players.length || 0 })}</span>
           </div>
         </div>
         {/* 履歴 */}
         <div className="bg-white/20 backdrop-blur-md rounded-lg shadow-xl p-4 border border-white/30">
-          <h3 className="text-lg font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-200 to-yellow-400 mb-3">抽選履歴</h3>
+          <h3 className="text-lg font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-200 to-yellow-400 mb-3">{messages.game.drawHistory}</h3>
           <div className="flex flex-wrap gap-2">
             {state.drawnNumbers && state.drawnNumbers.length > 0 ? (
               state.drawnNumbers.map(num => (
@@ -708,11 +1317,11 @@ export default function GuestGamePage({ params, searchParams }: GuestGamePagePro
                       : 'bg-white/30 text-white'}
                   `}
                 >
-                  {num}
+                  {displayValue(num)}
                 </span>
               ))
             ) : (
-              <p className="text-white/70 text-sm">まだ番号が引かれていません</p>
+              <p className="text-white/70 text-sm">{isWords ? messages.game.noTermsYet : messages.game.noNumbersYet}</p>
             )}
           </div>
         </div>
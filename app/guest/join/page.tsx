@@ -3,15 +3,20 @@
 import { useState, useEffect, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { useNameAdjustment } from '@/hooks/useNameAdjustment';
-import { Users, Sparkles, ArrowLeft, AlertCircle } from 'lucide-react';
+import { Users, Sparkles, ArrowLeft, AlertCircle, Eye } from 'lucide-react';
 import { 
   JoinSessionRequest,
   JoinSessionResponse 
 } from '@/types';
 import { 
   joinSession,
+  spectateSession,
+  getSession,
   normalizeErrorMessage 
 } from '@/utils/api';
+import { useLocale } from '@/hooks/useLocale';
+import { formatMessage, getSavedLocale } from '@/utils/i18n';
+import LocaleSwitcher from '../../components/LocaleSwitcher';
 
 // 参加ページのメインコンポーネント
 const JoinPageContent: React.FC = () => {
@@ -24,6 +29,13 @@ const JoinPageContent: React.FC = () => {
   const [sessionId, setSessionId] = useState('');
   const [accessToken, setAccessToken] = useState('');
   const [playerName, setPlayerName] = useState('');
+  // 購入するカードの枚数（上限はセッションの設定に従う）
+  const [maxCards, setMaxCards] = useState(1);
+  const [cardCount, setCardCount] = useState(1);
+  // 観戦を受け付けているセッションか（名前の入力なしで観戦できる）
+  const [allowSpectators, setAllowSpectators] = useState(false);
+  const { locale, messages, setLocale } = useLocale();
+  const t = messages.guestJoin;
 
   // URLパラメータまたはLocalStorageから初期値を取得
   useEffect(() => {
@@ -61,6 +73,40 @@ const JoinPageContent: React.FC = () => {
     }
   }, [searchParams]);
 
+  // セッションのカード上限を取得
+  useEffect(() => {
+    if (!/^[A-Z0-9]{6}$/.test(sessionId) || !accessToken) {
+      setMaxCards(1);
+      setAllowSpectators(false);
+      return;
+    }
+
+    let cancelled = false;
+    getSession(sessionId, accessToken)
+      .then(session => {
+        if (cancelled) return;
+        const limit = session.rules?.maxCardsPerPlayer ?? 1;
+        setMaxCards(limit);
+        setCardCount(prev => Math.min(prev, limit));
+        setAllowSpectators(session.rules?.allowSpectators === true);
+        // 言語を選んでいない参加者はセッションの言語で表示する
+        if (session.locale && !getSavedLocale()) {
+          setLocale(session.locale);
+        }
+      })
+      .catch(() => {
+        // 取得できない場合は参加時のエラーで通知する
+        if (!cancelled) {
+          setMaxCards(1);
+          setAllowSpectators(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, accessToken, setLocale]);
+
   // セッション参加処理（認証スキップ版）
   const handleJoin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -70,15 +116,15 @@ const JoinPageContent: React.FC = () => {
     try {
       // 入力値のバリデーション
       if (!sessionId || !/^[A-Z0-9]{6}$/.test(sessionId)) {
-        throw new Error('有効なセッションIDを入力してください（6桁の英数字）');
+        throw new Error(t.invalidSessionId);
       }
 
       if (!accessToken || accessToken.length < 6) {
-        throw new Error('有効なアクセストークンを入力してください');
+        throw new Error(t.invalidAccessToken);
       }
 
       if (!playerName.trim() || playerName.length > 25) {
-        throw new Error('名前を1〜25文字で入力してください');
+        throw new Error(formatMessage(t.invalidName, { max: 25 }));
       }
 
       console.log('Joining session with:', {
@@ -90,7 +136,9 @@ const JoinPageContent: React.FC = () => {
       // 参加リクエスト
       const joinRequest: JoinSessionRequest = {
         accessToken,
-        playerName: playerName.trim()
+        playerName: playerName.trim(),
+        cardCount,
+        locale
       };
 
       const response: JoinSessionResponse = await joinSession(sessionId, joinRequest);
@@ -126,8 +174,25 @@ const JoinPageContent: React.FC = () => {
     }
   };
 
+  // 観戦として参加（カードは配られず、参加人数にも含まれない）
+  const handleSpectate = async () => {
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const response = await spectateSession(sessionId, { accessToken });
+      router.push(`/guest/spectate/${sessionId}?spectatorId=${response.spectatorId}&token=${accessToken}`);
+    } catch (err) {
+      console.error('Spectate error:', err);
+      setError(normalizeErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 p-8 flex items-center justify-center">
+      <LocaleSwitcher className="absolute top-4 right-4" />
       <div className="max-w-2xl mx-auto w-full">
         <div className="overflow-hidden rounded-xl shadow-2xl">
           {/* ヘッダー */}
@@ -136,12 +201,12 @@ const JoinPageContent: React.FC = () => {
               <div className="flex items-center justify-center mb-2">
                 <Sparkles className="w-8 h-8 text-yellow-300 mr-2" />
                 <h1 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-300 to-yellow-500 drop-shadow-md">
-                  オンラインビンゴ
+                  {t.appTitle}
                 </h1>
                 <Sparkles className="w-8 h-8 text-yellow-300 ml-2" />
               </div>
               <p className="text-white/90 text-lg font-medium drop-shadow-sm">
-                大会に参加しましょう！
+                {t.tagline}
               </p>
             </div>
           </div>
@@ -153,25 +218,25 @@ const JoinPageContent: React.FC = () => {
                 <div className="flex items-center justify-center mb-3">
                   <Users className="w-6 h-6 text-yellow-300 mr-2" />
                   <h2 className="text-2xl font-bold text-white drop-shadow-sm">
-                    セッション情報を入力
+                    {t.enterSession}
                   </h2>
                 </div>
                 <p className="text-white/80 text-sm">
-                  セッションIDとアクセストークンを入力してください
+                  {t.enterSessionHint}
                 </p>
               </div>
 
               {/* セッションID入力 */}
               <div>
                 <label htmlFor="sessionId" className="block text-white font-semibold mb-2 drop-shadow-sm">
-                  セッションID
+                  {messages.authForm.sessionId}
                 </label>
                 <input
                   type="text"
                   id="sessionId"
                   value={sessionId}
                   onChange={(e) => setSessionId(e.target.value.toUpperCase())}
-                  placeholder="例：M9CFU4"
+                  placeholder={t.sessionIdExample}
                   maxLength={6}
                   className="w-full px-4 py-3 bg-white/20 backdrop-blur-sm border border-white/40 rounded-lg text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-yellow-400 focus:border-transparent transition-all"
                   disabled={isLoading}
@@ -182,14 +247,14 @@ const JoinPageContent: React.FC = () => {
               {/* アクセストークン入力 */}
               <div>
                 <label htmlFor="accessToken" className="block text-white font-semibold mb-2 drop-shadow-sm">
-                  アクセストークン
+                  {messages.authForm.accessToken}
                 </label>
                 <input
                   type="text"
                   id="accessToken"
                   value={accessToken}
                   onChange={(e) => setAccessToken(e.target.value)}
-                  placeholder="例：1R2SGFHX"
+                  placeholder={t.accessTokenExample}
                   className="w-full px-4 py-3 bg-white/20 backdrop-blur-sm border border-white/40 rounded-lg text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-yellow-400 focus:border-transparent transition-all"
                   disabled={isLoading}
                   required
@@ -199,24 +264,54 @@ const JoinPageContent: React.FC = () => {
               {/* プレイヤー名入力 */}
               <div>
                 <label htmlFor="playerName" className="block text-white font-semibold mb-2 drop-shadow-sm">
-                  あなたの名前
+                  {t.yourName}
                 </label>
                 <input
                   type="text"
                   id="playerName"
                   value={playerName}
                   onChange={(e) => setPlayerName(e.target.value)}
-                  placeholder="表示名を入力"
+                  placeholder={t.displayNamePlaceholder}
                   maxLength={25}
                   className="w-full px-4 py-3 bg-white/20 backdrop-blur-sm border border-white/40 rounded-lg text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-yellow-400 focus:border-transparent transition-all"
                   disabled={isLoading}
                   required
                 />
                 <p className="mt-2 text-white/70 text-sm">
-                  ※同じ名前のプレイヤーがいる場合、自動的に番号が付けられます
+                  {t.duplicateNameHint}
                 </p>
               </div>
 
+              {/* カード枚数選択（複数カードが許可されたセッションのみ） */}
+              {maxCards > 1 && (
+                <div>
+                  <span className="block text-white font-semibold mb-2 drop-shadow-sm">
+                    {t.cardCount}
+                  </span>
+                  <div className="grid grid-cols-6 gap-2">
+                    {Array.from({ length: maxCards }, (_, i) => i + 1).map(count => (
+                      <button
+                        key={count}
+                        type="button"
+                        onClick={() => setCardCount(count)}
+                        disabled={isLoading}
+                        aria-pressed={cardCount === count}
+                        className={`py-2 rounded-lg font-bold transition-all ${
+                          cardCount === count
+                            ? 'bg-yellow-300 text-red-700'
+                            : 'bg-white/20 text-white hover:bg-white/30 border border-white/40'
+                        }`}
+                      >
+                        {formatMessage(t.cards, { count })}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="mt-2 text-white/70 text-sm">
+                    {formatMessage(t.cardLimitHint, { max: maxCards })}
+                  </p>
+                </div>
+              )}
+
               {/* エラー表示 */}
               {error && (
                 <div className="bg-red-500/30 backdrop-blur-sm border border-red-400/50 rounded-lg p-4 flex items-start">
@@ -238,16 +333,28 @@ const JoinPageContent: React.FC = () => {
                   {isLoading ? (
                     <div className="flex items-center justify-center">
                       <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2" />
-                      参加中...
+                      {t.joining}
                     </div>
                   ) : (
                     <>
                       <Users className="w-5 h-5 inline mr-2" />
-                      ゲームに参加
+                      {messages.authForm.submit}
                     </>
                   )}
                 </button>
 
+                {allowSpectators && (
+                  <button
+                    type="button"
+                    onClick={handleSpectate}
+                    disabled={isLoading}
+                    className="w-full py-3 rounded-lg font-medium transition-colors bg-white/20 backdrop-blur-sm text-white hover:bg-white/30 border border-white/30 disabled:opacity-50"
+                  >
+                    <Eye className="w-4 h-4 inline mr-2" />
+                    {t.spectate}
+                  </button>
+                )}
+
                 <button
                   type="button"
                   onClick={() => router.push('/')}
@@ -255,14 +362,14 @@ const JoinPageContent: React.FC = () => {
                   className="w-full py-3 rounded-lg font-medium transition-colors bg-white/20 backdrop-blur-sm text-white hover:bg-white/30 border border-white/30 disabled:opacity-50"
                 >
                   <ArrowLeft className="w-4 h-4 inline mr-2" />
-                  トップページに戻る
+                  {messages.common.backToTop}
                 </button>
               </div>
 
               {/* ヒント */}
               <div className="text-center mt-6">
                 <p className="text-white/80 text-sm">
-                  💡 ヒント：セッションIDとアクセストークンは、大会のホストから共有されます
+                  💡 {t.hostShareHint}
                 </p>
               </div>
             </form>
@@ -274,19 +381,19 @@ const JoinPageContent: React.FC = () => {
       {nameAdjustment && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-lg p-6 max-w-sm w-full">
-            <h3 className="text-lg font-bold mb-3">名前が調整されました</h3>
+            <h3 className="text-lg font-bold mb-3">{t.nameAdjustedTitle}</h3>
             <p className="text-gray-700 mb-4">
-              同じ名前のプレイヤーが既に存在するため、あなたの名前は
+              {t.nameAdjustedPrefix}
               <span className="font-bold text-blue-600 mx-1">
-                「{nameAdjustment.adjusted}」
+                {formatMessage(t.quotedName, { name: nameAdjustment.adjusted })}
               </span>
-              になりました。
+              {t.nameAdjustedSuffix}
             </p>
             <button
               onClick={acknowledgeAdjustment}
               className="w-full py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
             >
-              了解しました
+              {t.acknowledge}
             </button>
           </div>
         </div>
@@ -297,12 +404,14 @@ const JoinPageContent: React.FC = () => {
 
 // Suspenseでラップしたメインコンポーネント
 const JoinPage: React.FC = () => {
+  const { messages } = useLocale();
+
   return (
     <Suspense fallback={
       <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 p-8 flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-yellow-400 mx-auto mb-4"></div>
-          <p className="text-white text-lg font-medium drop-shadow-sm">読み込み中...</p>
+          <p className="text-white text-lg font-medium drop-shadow-sm">{messages.common.loading}</p>
         </div>
       </div>
     }>
@@ -0,0 +1,50 @@
+// app/guest/kicked/page.tsx
+// ホストに退出させられたプレイヤーの説明画面（参加を禁止された場合は再参加できないことも伝える）
+'use client';
+
+import React, { use } from 'react';
+import { useRouter } from 'next/navigation';
+import { UserX } from 'lucide-react';
+import type { KickedPageProps } from '@/types';
+import { useLocale } from '@/hooks/useLocale';
+import LocaleSwitcher from '../../components/LocaleSwitcher';
+
+export default function KickedPage({ searchParams: searchParamsPromise }: KickedPageProps) {
+  const router = useRouter();
+  const { banned } = use(searchParamsPromise);
+  const { messages } = useLocale();
+  const t = messages.kicked;
+  const isBanned = banned === '1';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 p-8 flex items-center justify-center">
+      <div className="w-full max-w-md">
+        <div className="flex justify-end mb-4">
+          <LocaleSwitcher />
+        </div>
+
+        <div role="alert" className="bg-white/30 backdrop-blur-md rounded-xl p-6 shadow-2xl border border-white/20 text-center text-white space-y-3">
+          <UserX className="w-12 h-12 mx-auto" />
+          <h1 className="text-2xl font-bold drop-shadow">{t.title}</h1>
+          <p>{t.description}</p>
+          <p className="text-sm text-white/90">{isBanned ? t.banned : t.rejoin}</p>
+        </div>
+
+        <div className="mt-6 space-y-3">
+          <button
+            onClick={() => router.push('/guest/join')}
+            className="w-full bg-white text-red-600 rounded-lg py-3 font-semibold hover:bg-white/90 transition-colors shadow-lg"
+          >
+            {t.joinAnother}
+          </button>
+          <button
+            onClick={() => router.push('/')}
+            className="w-full border-2 border-white/30 text-white rounded-lg py-3 font-semibold hover:bg-white/10 transition-colors backdrop-blur-sm"
+          >
+            {messages.common.backToTop}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,9 @@
 import { useState, useEffect, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { Users, Loader2, AlertCircle } from 'lucide-react';
+import { useLocale } from '@/hooks/useLocale';
+import { formatMessage } from '@/utils/i18n';
+import LocaleSwitcher from '../components/LocaleSwitcher';
 
 /**
  * URLパラメータを取得するコンポーネント
@@ -21,6 +24,8 @@ function JoinForm() {
   const [playerName, setPlayerName] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { locale, messages } = useLocale();
+  const t = messages.guestJoin;
 
   // URLパラメータが変更されたら更新
   useEffect(() => {
@@ -41,17 +46,17 @@ function JoinForm() {
 
     // バリデーション
     if (!sessionId || !/^[A-Z0-9]{6}$/.test(sessionId)) {
-      setError('有効なセッションIDを入力してください（6桁の英数字）');
+      setError(t.invalidSessionId);
       return;
     }
 
     if (!accessToken || !/^[A-Z0-9]{8}$/.test(accessToken)) {
-      setError('有効なアクセストークンを入力してください（8桁の英数字）');
+      setError(t.invalidAccessTokenFormat);
       return;
     }
 
     if (!playerName.trim() || playerName.length > 25) {
-      setError('名前を1〜25文字で入力してください');
+      setError(formatMessage(t.invalidName, { max: 25 }));
       return;
     }
 
@@ -66,13 +71,14 @@ function JoinForm() {
         },
         body: JSON.stringify({
           accessToken,
-          playerName: playerName.trim()
+          playerName: playerName.trim(),
+          locale
         })
       });
 
       if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'エラーが発生しました' }));
-        throw new Error(errorData.error || `エラー: ${response.status}`);
+        const errorData = await response.json().catch(() => ({ error: t.genericError }));
+        throw new Error(errorData.error || formatMessage(t.statusError, { status: response.status }));
       }
 
       const data = await response.json();
@@ -93,7 +99,7 @@ function JoinForm() {
 
       // 名前が調整された場合はアラート
       if (data.nameAdjustment?.wasAdjusted) {
-        alert(`名前が重複していたため「${data.playerName}」として登録されました。`);
+        alert(formatMessage(t.nameAdjustedAlert, { name: data.playerName }));
       }
 
       // 待機画面へ遷移
@@ -106,7 +112,7 @@ function JoinForm() {
 
     } catch (err) {
       console.error('参加エラー:', err);
-      setError(err instanceof Error ? err.message : '予期しないエラーが発生しました');
+      setError(err instanceof Error ? err.message : messages.api.unexpectedError);
     } finally {
       setIsLoading(false);
     }
@@ -114,15 +120,16 @@ function JoinForm() {
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 p-8 flex items-center justify-center">
+      <LocaleSwitcher className="absolute top-4 right-4" />
       <div className="w-full max-w-md">
         <h1 className="text-4xl font-bold text-center text-white mb-8 drop-shadow-lg">
-          ビンゴ<span className="text-yellow-300">大会</span>に参加
+          {t.titlePrefix}<span className="text-yellow-300">{t.titleHighlight}</span>{t.titleSuffix}
         </h1>
         
         <div className="w-full overflow-hidden rounded-xl shadow-2xl">
           <div className="bg-gradient-to-r from-pink-500/70 to-orange-400/70 p-4 backdrop-blur-sm border-t border-l border-r border-white/20">
             <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-300 to-yellow-500 drop-shadow-md">
-              参加情報を入力
+              {t.enterDetails}
             </h2>
           </div>
           
@@ -138,7 +145,7 @@ function JoinForm() {
             {/* セッションID */}
             <div className="space-y-2">
               <label htmlFor="sessionId" className="block text-lg font-medium text-white drop-shadow-sm">
-                セッションID
+                {messages.authForm.sessionId}
               </label>
               <input
                 type="text"
@@ -150,13 +157,13 @@ function JoinForm() {
                 disabled={isLoading}
                 maxLength={6}
               />
-              <p className="text-xs text-white/70">6桁の英数字</p>
+              <p className="text-xs text-white/70">{t.sessionIdHint}</p>
             </div>
 
             {/* アクセストークン */}
             <div className="space-y-2">
               <label htmlFor="accessToken" className="block text-lg font-medium text-white drop-shadow-sm">
-                アクセストークン
+                {messages.authForm.accessToken}
               </label>
               <input
                 type="text"
@@ -168,25 +175,25 @@ function JoinForm() {
                 disabled={isLoading}
                 maxLength={8}
               />
-              <p className="text-xs text-white/70">8桁の英数字（ホストから共有）</p>
+              <p className="text-xs text-white/70">{t.accessTokenHint}</p>
             </div>
 
             {/* プレイヤー名 */}
             <div className="space-y-2">
               <label htmlFor="playerName" className="block text-lg font-medium text-white drop-shadow-sm">
-                あなたの名前
+                {t.yourName}
               </label>
               <input
                 type="text"
                 id="playerName"
                 value={playerName}
                 onChange={(e) => setPlayerName(e.target.value)}
-                placeholder="山田太郎"
+                placeholder={t.namePlaceholder}
                 className="w-full px-4 py-3 rounded-lg border border-white/40 bg-white/20 backdrop-blur-sm focus:outline-none focus:ring-2 focus:ring-yellow-400 text-white placeholder-white/60"
                 disabled={isLoading}
                 maxLength={25}
               />
-              <p className="text-xs text-white/70">他の参加者に表示される名前（最大25文字）</p>
+              <p className="text-xs text-white/70">{formatMessage(t.nameHint, { max: 25 })}</p>
             </div>
 
             {/* 送信ボタン */}
@@ -202,12 +209,12 @@ function JoinForm() {
               {isLoading ? (
                 <span className="flex items-center justify-center">
                   <Loader2 className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" />
-                  参加中...
+                  {t.joining}
                 </span>
               ) : (
                 <span className="flex items-center justify-center">
                   <Users className="mr-2 h-5 w-5" />
-                  大会に参加する
+                  {t.submit}
                 </span>
               )}
             </button>
@@ -217,7 +224,7 @@ function JoinForm() {
         {/* ヒント */}
         <div className="mt-6 bg-white/20 backdrop-blur-sm rounded-lg p-4 border border-white/30">
           <p className="text-sm text-white/90">
-            💡 ヒント：QRコードを読み取った場合、セッションIDとアクセストークンは自動入力されます。名前だけ入力してください。
+            💡 {t.qrHint}
           </p>
         </div>
 
@@ -228,7 +235,7 @@ function JoinForm() {
             disabled={isLoading}
             className="text-white hover:text-yellow-300 transition-colors font-medium drop-shadow-md"
           >
-            トップページに戻る
+            {messages.common.backToTop}
           </button>
         </div>
       </div>
@@ -241,12 +248,14 @@ function JoinForm() {
  * QRコードまたは手入力で参加
  */
 export default function GuestJoinPage() {
+  const { messages } = useLocale();
+
   return (
     <Suspense fallback={
       <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 p-8 flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-yellow-400 mx-auto mb-4"></div>
-          <p className="text-white text-lg">読み込み中...</p>
+          <p className="text-white text-lg">{messages.common.loading}</p>
         </div>
       </div>
     }>
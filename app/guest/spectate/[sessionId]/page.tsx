@@ -0,0 +1,346 @@
+"use client"
+// app/guest/spectate/[sessionId]/page.tsx
+// 観戦画面（カードなしで現在の番号・抽選履歴・ランキングを表示する）
+
+import React, { useState, useEffect, useCallback, use } from 'react';
+import { useRouter } from 'next/navigation';
+import { Eye, Trophy, Award, History } from 'lucide-react';
+import { usePusherConnection } from '@/hooks/usePusherConnection';
+import PrizeWinners from '../../../components/PrizeWinners';
+import LocaleSwitcher from '../../../components/LocaleSwitcher';
+import type {
+  PublicGameSession,
+  NumberDrawnEventData,
+  NumberVoidedEventData,
+  Player,
+  PlayerBingoEventData,
+  PrizeWonEventData,
+  RoundStartedEventData,
+  SessionUpdatedEventData,
+  SpectatorPageProps
+} from '@/types';
+import { getSession, normalizeErrorMessage } from '@/utils/api';
+import { formatBingoNumber } from '@/utils/gameUtils';
+import { getTermLabel } from '@/utils/terms';
+import { getCurrentRoundNumber } from '@/utils/rounds';
+import { formatMessage } from '@/utils/i18n';
+import { useLocale } from '@/hooks/useLocale';
+
+// ランキング: ビンゴ数が多い順、同数は先にビンゴした順
+const rankPlayers = (players: Player[]): Player[] =>
+  [...players].sort((a, b) => {
+    if (a.bingoCount !== b.bingoCount) return b.bingoCount - a.bingoCount;
+    const aTime = a.bingoAchievedAt ? new Date(a.bingoAchievedAt).getTime() : Infinity;
+    const bTime = b.bingoAchievedAt ? new Date(b.bingoAchievedAt).getTime() : Infinity;
+    if (aTime !== bTime) return aTime - bTime;
+    return new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime();
+  });
+
+// ランキング
+interface SpectatorLeaderboardProps {
+  players: Player[];
+}
+
+const SpectatorLeaderboard: React.FC<SpectatorLeaderboardProps> = ({ players }) => {
+  const { messages } = useLocale();
+
+  if (players.length === 0) {
+    return <p className="text-white/60 text-center py-4">{messages.playerList.empty}</p>;
+  }
+
+  return (
+    <div className="space-y-2 max-h-96 overflow-y-auto">
+      {rankPlayers(players).map((player, index) => (
+        <div key={player.id} className="flex items-center gap-2 p-2 rounded-lg bg-white/10">
+          <div className={`
+            w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold
+            ${player.bingoCount === 0 ? 'bg-white/30 text-white' :
+              index === 0 ? 'bg-yellow-400 text-yellow-900' :
+              index === 1 ? 'bg-gray-300 text-gray-700' :
+              index === 2 ? 'bg-orange-400 text-orange-900' :
+              'bg-white/30 text-white'}
+          `}>
+            {index + 1}
+          </div>
+          <span className="text-sm truncate flex-1 text-white">{player.name}</span>
+          {player.bingoCount > 0 && (
+            <div className="flex items-center gap-1 text-yellow-300 text-xs">
+              <Trophy className="w-3 h-3" />
+              <span>{player.bingoCount}</span>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default function SpectatorPage({ params: paramsPromise, searchParams: searchParamsPromise }: SpectatorPageProps) {
+  const router = useRouter();
+  const { sessionId } = use(paramsPromise);
+  const { spectatorId, token: accessToken } = use(searchParamsPromise);
+  const { messages } = useLocale();
+  const t = messages.spectate;
+
+  const [session, setSession] = useState<PublicGameSession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Pusher認証用のreconnectionDataを保存してから接続する
+  const [isAuthReady, setIsAuthReady] = useState(false);
+
+  useEffect(() => {
+    if (!sessionId || !accessToken || !spectatorId) return;
+
+    localStorage.setItem('reconnectionData', JSON.stringify({
+      sessionId,
+      accessToken,
+      spectatorId,
+      lastActiveAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 30 * 60 * 1000).toISOString()
+    }));
+    setIsAuthReady(true);
+  }, [sessionId, accessToken, spectatorId]);
+
+  const { isConnected, on, off, disconnect } = usePusherConnection(isAuthReady ? sessionId : null);
+
+  // セッション情報の取得（ゲーム開始・リセット・終了時も取り直す）
+  const loadSession = useCallback(async () => {
+    if (!sessionId || !accessToken) {
+      setError(messages.common.missingSessionInfo);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const data = await getSession(sessionId, accessToken);
+      setSession(data);
+      setError(null);
+    } catch (err) {
+      setError(normalizeErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, accessToken, messages]);
+
+  useEffect(() => {
+    loadSession();
+  }, [loadSession]);
+
+  // Pusherイベントリスナー
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const handleNumberDrawn = (data: NumberDrawnEventData) => {
+      setSession(prev => prev && {
+        ...prev,
+        numbers: data.drawnNumbers,
+        currentNumber: data.number
+      });
+    };
+
+    const handleNumberVoided = (data: NumberVoidedEventData) => {
+      setSession({
+        ...data.session,
+        numbers: data.drawnNumbers,
+        currentNumber: data.currentNumber
+      });
+    };
+
+    const handlePlayerBingo = (data: PlayerBingoEventData) => {
+      setSession(prev => prev && {
+        ...prev,
+        players: prev.players.map(p =>
+          p.id === data.player.id
+            ? { ...p, bingoCount: data.bingoCount, bingoAchievedAt: data.achievedAt || p.bingoAchievedAt }
+            : p
+        )
+      });
+    };
+
+    const handlePrizeWon = (data: PrizeWonEventData) => {
+      const { award } = data;
+      setSession(prev => {
+        if (!prev) return prev;
+        const awards = prev.prizeAwards || [];
+        return {
+          ...prev,
+          prizeAwards: awards.some(a => a.tierId === award.tierId)
+            ? awards.map(a => (a.tierId === award.tierId ? award : a))
+            : [...awards, award]
+        };
+      });
+    };
+
+    const handleSessionUpdated = (data: SessionUpdatedEventData) => {
+      if (data.session) setSession(data.session);
+    };
+
+    const handleRoundStarted = (data: RoundStartedEventData) => {
+      setSession(data.session);
+    };
+
+    on('number-drawn', handleNumberDrawn);
+    on('number-voided', handleNumberVoided);
+    on('player-bingo', handlePlayerBingo);
+    on('prize-won', handlePrizeWon);
+    on('session-updated', handleSessionUpdated);
+    on('round-started', handleRoundStarted);
+    on('game-started', loadSession);
+    on('game-reset', loadSession);
+    on('game-ended', loadSession);
+
+    return () => {
+      off('number-drawn', handleNumberDrawn);
+      off('number-voided', handleNumberVoided);
+      off('player-bingo', handlePlayerBingo);
+      off('prize-won', handlePrizeWon);
+      off('session-updated', handleSessionUpdated);
+      off('round-started', handleRoundStarted);
+      off('game-started', loadSession);
+      off('game-reset', loadSession);
+      off('game-ended', loadSession);
+    };
+  }, [isConnected, on, off, loadSession]);
+
+  // ホストが観戦を停止したら接続を切る
+  const isSpectatingClosed = session !== null && !session.rules?.allowSpectators;
+  useEffect(() => {
+    if (isSpectatingClosed) disconnect();
+  }, [isSpectatingClosed, disconnect]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-600 to-pink-600">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white"></div>
+      </div>
+    );
+  }
+
+  if (error || !session || isSpectatingClosed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-600 to-pink-600 p-4">
+        <div className="bg-white/20 backdrop-blur-md rounded-lg p-8 border border-white/30 text-center max-w-md">
+          <p className="text-white text-lg mb-4">
+            {error || (isSpectatingClosed ? t.closed : messages.common.sessionNotFound)}
+          </p>
+          <button
+            onClick={() => router.push('/')}
+            className="px-6 py-2 bg-white/20 text-white rounded-lg hover:bg-white/30 border border-white/30"
+          >
+            {messages.common.backToTop}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const gameType = session.gameType || '75ball';
+  const isWords = gameType === 'words';
+  const displayNumber = (num: number) =>
+    isWords ? getTermLabel(session.terms, num) : formatBingoNumber(num, gameType);
+  const drawnNumbers = session.numbers || [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-600 to-pink-600 p-4">
+      <div className="max-w-4xl mx-auto">
+        {/* ヘッダー */}
+        <div className="bg-white/20 backdrop-blur-md rounded-lg shadow-xl p-4 mb-4 border border-white/30">
+          <div className="flex justify-between items-start">
+            <div>
+              <h1 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-200 to-yellow-400 mb-1">
+                {session.gameName || messages.game.defaultTitle}
+                {session.rounds && session.rounds.length > 0 && (
+                  <span className="ml-2 text-sm text-white/90">
+                    {formatMessage(messages.common.roundNumber, { round: getCurrentRoundNumber(session) })}
+                  </span>
+                )}
+              </h1>
+              <p className="text-sm text-white/90 flex items-center gap-1">
+                <Eye className="w-4 h-4" />
+                {formatMessage(t.watching, { count: session.players.length })}
+              </p>
+            </div>
+            <div className="flex flex-col items-end gap-2">
+              <LocaleSwitcher />
+              <p className="text-xs text-white/70">{isConnected ? messages.game.connected : messages.game.disconnected}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-3 gap-4">
+          <div className="md:col-span-2 space-y-4">
+            {/* 現在の番号 */}
+            <div className="bg-white/20 backdrop-blur-md rounded-lg shadow-xl p-6 border border-white/30 text-center">
+              {session.status === 'waiting' ? (
+                <p className="text-white text-lg">{t.waitingForStart}</p>
+              ) : session.status === 'finished' ? (
+                <p className="text-white text-lg">{t.finished}</p>
+              ) : session.currentNumber ? (
+                <>
+                  <p className="text-white/80 text-sm mb-2">{isWords ? messages.game.currentTerm : messages.game.currentNumber}</p>
+                  <p className={`${isWords ? 'text-4xl' : 'text-7xl'} font-bold text-yellow-300 drop-shadow-lg`}>
+                    {displayNumber(session.currentNumber)}
+                  </p>
+                </>
+              ) : (
+                <p className="text-white text-lg">{t.waitingForFirstDraw}</p>
+              )}
+            </div>
+
+            {/* 抽選履歴 */}
+            <div className="bg-white/20 backdrop-blur-md rounded-lg shadow-xl p-4 border border-white/30">
+              <h2 className="text-lg font-bold text-white mb-3 flex items-center gap-2">
+                <History className="w-5 h-5" />
+                {formatMessage(t.drawHistory, { count: drawnNumbers.length })}
+              </h2>
+              {drawnNumbers.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {[...drawnNumbers].reverse().map((num, index) => (
+                    <span
+                      key={num}
+                      className={`px-2 py-1 rounded text-sm font-bold ${
+                        index === 0 ? 'bg-yellow-300 text-purple-900' : 'bg-white/30 text-white'
+                      }`}
+                    >
+                      {displayNumber(num)}
+                    </span>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-white/60 text-sm">{t.noDraws}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {/* ランキング */}
+            <div className="bg-white/20 backdrop-blur-md rounded-lg shadow-xl p-4 border border-white/30">
+              <h2 className="text-lg font-bold text-white mb-3 flex items-center gap-2">
+                <Trophy className="w-5 h-5 text-yellow-300" />
+                {t.ranking}
+              </h2>
+              <SpectatorLeaderboard players={session.players} />
+            </div>
+
+            {/* 段階ごとの賞 */}
+            {(session.rules?.prizeTiers?.length ?? 0) > 0 && (
+              <div className="bg-white/20 backdrop-blur-md rounded-lg shadow-xl p-4 border border-white/30">
+                <h2 className="text-lg font-bold text-white mb-3 flex items-center gap-2">
+                  <Award className="w-5 h-5 text-yellow-300" />
+                  {t.prizes}
+                </h2>
+                <PrizeWinners
+                  tiers={session.rules?.prizeTiers || []}
+                  awards={session.prizeAwards || []}
+                  terms={session.terms}
+                  gameType={gameType}
+                  inProgress={session.status === 'playing'}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,22 +7,28 @@ import { useRealtimeConnection } from '@/hooks/useRealtimeConnection';
 import { useNameAdjustment } from '@/hooks/useNameAdjustment';
 import { useGameTimer } from '@/hooks/useGameTimer';
 import { 
-  GameSession, 
-  Player
+  ErrorCode,
+  PublicGameSession, 
+  Player,
+  PlayerKickedEventData
 } from '@/types';
 import { 
   getSession, 
   leaveSession,
   normalizeErrorMessage 
 } from '@/utils/api';
-import { Clock, AlertCircle, LogOut, Wifi, WifiOff, Users, Sparkles, Crown, Timer } from 'lucide-react';
+import { Clock, AlertCircle, LogOut, Wifi, WifiOff, Users, Sparkles, Timer } from 'lucide-react';
+import { useLocale } from '@/hooks/useLocale';
+import { formatMessage } from '@/utils/i18n';
+import LocaleSwitcher from '../../../components/LocaleSwitcher';
 
 // プレイヤーカードコンポーネント
 const PlayerCard: React.FC<{
   player: Player;
   isCurrentPlayer: boolean;
-  isHost?: boolean;
-}> = ({ player, isCurrentPlayer, isHost }) => {
+}> = ({ player, isCurrentPlayer }) => {
+  const { messages } = useLocale();
+
   return (
     <div className={`
       p-4 rounded-lg border transition-all
@@ -38,18 +44,15 @@ const PlayerCard: React.FC<{
           <div className="ml-3">
             <p className="font-semibold text-white drop-shadow-md flex items-center">
               {player.name}
-              {isHost && (
-                <Crown className="w-4 h-4 text-yellow-300 ml-1" />
-              )}
               {isCurrentPlayer && (
                 <span className="ml-2 text-xs bg-yellow-400 text-red-700 px-2 py-1 rounded-full font-bold">
-                  あなた
+                  {messages.guestWaiting.you}
                 </span>
               )}
             </p>
             {player.nameAdjusted && (
               <p className="text-xs text-white/70">
-                元の名前: {player.originalName}
+                {messages.playerList.originalName} {player.originalName}
               </p>
             )}
           </div>
@@ -69,10 +72,12 @@ const WaitingPageContent: React.FC = () => {
   const playerId = searchParams.get('playerId') || '';
   const accessToken = searchParams.get('token') || searchParams.get('accessToken') || '';
 
-  const [session, setSession] = useState<GameSession | null>(null);
+  const [session, setSession] = useState<PublicGameSession | null>(null);
   const [currentPlayer, setCurrentPlayer] = useState<Player | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { messages } = useLocale();
+  const t = messages.guestWaiting;
 
   // joinGame送信済みフラグ
   const hasJoinedRef = useRef(false);
@@ -107,7 +112,7 @@ const WaitingPageContent: React.FC = () => {
   useEffect(() => {
     const loadInitialData = async () => {
       if (!sessionId || !accessToken) {
-        setError('セッション情報が不足しています');
+        setError(messages.common.missingSessionInfo);
         setIsLoading(false);
         return;
       }
@@ -154,7 +159,7 @@ const WaitingPageContent: React.FC = () => {
     };
 
     loadInitialData();
-  }, [sessionId, accessToken, playerId, setAdjustment, router]);
+  }, [sessionId, accessToken, playerId, setAdjustment, router, messages]);
 
   // 接続後、joinGameイベントを一度だけ送信
   useEffect(() => {
@@ -202,8 +207,11 @@ const WaitingPageContent: React.FC = () => {
           console.error('セッション状態の再取得に失敗:', err);
           // セッションが見つからない場合はエラー表示
           const errorMessage = normalizeErrorMessage(err);
-          if (errorMessage.includes('見つかりません') || errorMessage.includes('期限切れ')) {
-            setError('セッションが終了しました');
+          if (
+            errorMessage === messages.errors[ErrorCode.INVALID_SESSION] ||
+            errorMessage === messages.errors[ErrorCode.SESSION_EXPIRED]
+          ) {
+            setError(t.sessionEnded);
           }
         }
       }
@@ -211,7 +219,7 @@ const WaitingPageContent: React.FC = () => {
 
     document.addEventListener('visibilitychange', handleVisibilityChange);
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, [sessionId, accessToken, playerId, router]);
+  }, [sessionId, accessToken, playerId, router, messages, t]);
 
   // リアルタイムイベントリスナー設定
   useEffect(() => {
@@ -256,8 +264,8 @@ const WaitingPageContent: React.FC = () => {
     };
 
     const handleSessionUpdated = (data: unknown) => {
-      const updatedData = data as { session?: GameSession } | GameSession;
-      const updatedSession = 'session' in updatedData ? updatedData.session : updatedData as GameSession;
+      const updatedData = data as { session?: PublicGameSession } | PublicGameSession;
+      const updatedSession = 'session' in updatedData ? updatedData.session : updatedData as PublicGameSession;
       
       console.log('Session updated:', updatedSession);
       
@@ -277,6 +285,16 @@ const WaitingPageContent: React.FC = () => {
       }
     };
 
+    // ホストに退出させられた場合は説明画面へ
+    const handlePlayerKicked = (data: unknown) => {
+      const kickedData = data as PlayerKickedEventData;
+      if (kickedData.playerId !== playerId) return;
+
+      localStorage.removeItem('reconnectionData');
+      localStorage.removeItem('participantInfo');
+      router.replace(`/guest/kicked${kickedData.banned ? '?banned=1' : ''}`);
+    };
+
     const handleConnectionError = (data: unknown) => {
       const errorMessage = data as string;
       console.error('Connection error:', errorMessage);
@@ -286,7 +304,7 @@ const WaitingPageContent: React.FC = () => {
     const handleSessionCancelled = (data: unknown) => {
       const cancelData = data as { sessionId: string };
       if (cancelData.sessionId === sessionId) {
-        setError('ホストによってゲームが終了されました');
+        setError(t.endedByHost);
         setTimeout(() => {
           router.push('/guest/join');
         }, 3000);
@@ -303,6 +321,7 @@ const WaitingPageContent: React.FC = () => {
     on('game-started', handleGameStarted);
     on('session_updated', handleSessionUpdated);
     on('session-updated', handleSessionUpdated);
+    on('player-kicked', handlePlayerKicked);
     on('connection_error', handleConnectionError);
     on('session_cancelled', handleSessionCancelled);
 
@@ -317,10 +336,11 @@ const WaitingPageContent: React.FC = () => {
       off('game-started', handleGameStarted);
       off('session_updated', handleSessionUpdated);
       off('session-updated', handleSessionUpdated);
+      off('player-kicked', handlePlayerKicked);
       off('connection_error', handleConnectionError);
       off('session_cancelled', handleSessionCancelled);
     };
-  }, [isConnected, on, off, router, sessionId, playerId, accessToken]);
+  }, [isConnected, on, off, router, sessionId, playerId, accessToken, t]);
 
   // セッション離脱処理
   const handleLeaveSession = useCallback(async () => {
@@ -349,7 +369,7 @@ const WaitingPageContent: React.FC = () => {
       <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-yellow-400 mx-auto mb-4"></div>
-          <p className="text-white text-lg font-medium drop-shadow-sm">セッション情報を読み込み中...</p>
+          <p className="text-white text-lg font-medium drop-shadow-sm">{t.loadingSession}</p>
         </div>
       </div>
     );
@@ -363,7 +383,7 @@ const WaitingPageContent: React.FC = () => {
           <div className="bg-white/30 backdrop-blur-md rounded-xl shadow-2xl p-6 border border-white/20">
             <AlertCircle className="w-12 h-12 text-yellow-300 mx-auto mb-4" />
             <h2 className="text-xl font-bold text-white text-center mb-2 drop-shadow-md">
-              エラーが発生しました
+              {t.errorTitle}
             </h2>
             <p className="text-white/90 text-center mb-4">
               {error}
@@ -372,7 +392,7 @@ const WaitingPageContent: React.FC = () => {
               onClick={() => router.push('/guest/join')}
               className="w-full bg-gradient-to-r from-pink-600 to-orange-500 hover:from-pink-700 hover:to-orange-600 text-white font-bold py-3 rounded-lg shadow-lg transform transition hover:scale-105"
             >
-              参加ページに戻る
+              {t.backToJoin}
             </button>
           </div>
         </div>
@@ -385,6 +405,10 @@ const WaitingPageContent: React.FC = () => {
   return (
     <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 p-8">
       <div className="max-w-4xl mx-auto">
+        <div className="flex justify-end mb-4">
+          <LocaleSwitcher />
+        </div>
+
         {/* ヘッダー */}
         <div className="text-center mb-8">
           <div className="flex items-center justify-center mb-4">
@@ -395,7 +419,7 @@ const WaitingPageContent: React.FC = () => {
             <Sparkles className="w-10 h-10 text-yellow-300 ml-3" />
           </div>
           <p className="text-white/90 text-lg">
-            セッションID: <span className="font-mono bg-white/20 px-3 py-1 rounded-lg">{session.sessionId}</span>
+            {t.sessionIdLabel} <span className="font-mono bg-white/20 px-3 py-1 rounded-lg">{session.sessionId}</span>
           </p>
         </div>
 
@@ -408,7 +432,7 @@ const WaitingPageContent: React.FC = () => {
               <div className="text-2xl font-bold text-white drop-shadow-md">
                 {session.players.length} / {session.maxPlayers}
               </div>
-              <div className="text-sm text-white/90">参加者</div>
+              <div className="text-sm text-white/90">{t.players}</div>
             </div>
             
             {/* 残り時間 */}
@@ -417,7 +441,7 @@ const WaitingPageContent: React.FC = () => {
               <div className="text-2xl font-bold text-white drop-shadow-md">
                 {formattedTime}
               </div>
-              <div className="text-sm text-white/90">残り時間</div>
+              <div className="text-sm text-white/90">{t.timeLeft}</div>
             </div>
             
             {/* 接続状態 */}
@@ -426,24 +450,24 @@ const WaitingPageContent: React.FC = () => {
                 <>
                   <Wifi className="w-8 h-8 text-green-400 mx-auto mb-2" />
                   <div className="text-2xl font-bold text-white drop-shadow-md">
-                    接続中
+                    {t.connected}
                   </div>
                 </>
               ) : (
                 <>
                   <WifiOff className="w-8 h-8 text-red-400 mx-auto mb-2" />
                   <div className="text-xl font-bold text-white drop-shadow-md">
-                    再接続中
+                    {t.reconnecting}
                   </div>
                 </>
               )}
-              <div className="text-sm text-white/90">接続状態</div>
+              <div className="text-sm text-white/90">{t.connection}</div>
               {!isConnected && (
                 <button
                   onClick={handleReconnect}
                   className="mt-2 text-xs bg-yellow-400 text-red-700 px-3 py-1 rounded-full hover:bg-yellow-300 font-bold"
                 >
-                  再接続
+                  {t.reconnect}
                 </button>
               )}
             </div>
@@ -463,10 +487,10 @@ const WaitingPageContent: React.FC = () => {
             <Clock className="w-8 h-8 text-red-700 mr-3 animate-pulse" />
             <div className="text-center">
               <h3 className="text-2xl font-bold text-red-700 drop-shadow-sm">
-                ゲーム開始を待機中...
+                {t.waitingTitle}
               </h3>
               <p className="text-red-600 mt-1">
-                ホストがゲームを開始するまでお待ちください
+                {t.waitingDescription}
               </p>
             </div>
           </div>
@@ -475,7 +499,7 @@ const WaitingPageContent: React.FC = () => {
         {/* バックグラウンドでも大丈夫という説明 */}
         <div className="mb-6 p-4 bg-blue-500/20 backdrop-blur-sm rounded-xl border border-blue-400/30">
           <p className="text-white/90 text-sm text-center">
-            💡 他のアプリを見ていても大丈夫です。ゲームが始まると自動でゲーム画面に移動します
+            💡 {t.backgroundHint}
           </p>
         </div>
 
@@ -483,7 +507,7 @@ const WaitingPageContent: React.FC = () => {
         <div className="bg-white/30 backdrop-blur-md rounded-xl shadow-2xl p-6 border border-white/20">
           <h2 className="text-2xl font-bold text-white mb-4 drop-shadow-md flex items-center">
             <Users className="w-6 h-6 text-yellow-300 mr-2" />
-            参加者一覧
+            {t.playerList}
           </h2>
           <div className="grid gap-3">
             {session.players.map((player) => (
@@ -491,7 +515,6 @@ const WaitingPageContent: React.FC = () => {
                 key={player.id}
                 player={player}
                 isCurrentPlayer={player.id === currentPlayer.id}
-                isHost={player.id === session.hostId}
               />
             ))}
           </div>
@@ -504,7 +527,7 @@ const WaitingPageContent: React.FC = () => {
             className="bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white font-bold py-3 px-8 rounded-lg shadow-lg transform transition hover:scale-105 inline-flex items-center"
           >
             <LogOut className="w-5 h-5 mr-2" />
-            待機室から離脱
+            {t.leave}
           </button>
         </div>
       </div>
@@ -515,20 +538,20 @@ const WaitingPageContent: React.FC = () => {
           <div className="bg-gradient-to-br from-pink-400 to-orange-400 rounded-xl p-1 max-w-sm w-full">
             <div className="bg-white rounded-lg p-6">
               <h3 className="text-xl font-bold text-gray-800 mb-3">
-                名前が調整されました
+                {messages.guestJoin.nameAdjustedTitle}
               </h3>
               <p className="text-gray-700 mb-4">
-                同じ名前のプレイヤーが既に存在するため、あなたの名前は
+                {messages.guestJoin.nameAdjustedPrefix}
                 <span className="font-bold text-blue-600 mx-1 text-lg">
-                  「{nameAdjustment.adjusted}」
+                  {formatMessage(messages.guestJoin.quotedName, { name: nameAdjustment.adjusted })}
                 </span>
-                になりました。
+                {messages.guestJoin.nameAdjustedSuffix}
               </p>
               <button
                 onClick={acknowledgeAdjustment}
                 className="w-full bg-gradient-to-r from-pink-600 to-orange-500 hover:from-pink-700 hover:to-orange-600 text-white font-bold py-3 rounded-lg shadow-lg transform transition hover:scale-105"
               >
-                了解しました
+                {messages.guestJoin.acknowledge}
               </button>
             </div>
           </div>
@@ -540,12 +563,14 @@ const WaitingPageContent: React.FC = () => {
 
 // Suspenseでラップしたメインコンポーネント
 const WaitingPage: React.FC = () => {
+  const { messages } = useLocale();
+
   return (
     <Suspense fallback={
       <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-yellow-400 mx-auto mb-4"></div>
-          <p className="text-white text-lg font-medium drop-shadow-sm">待機ページを読み込み中...</p>
+          <p className="text-white text-lg font-medium drop-shadow-sm">{messages.guestWaiting.loadingPage}</p>
         </div>
       </div>
     }>
@@ -0,0 +1,215 @@
+// app/host/account/page.tsx
+// ホストアカウントのログイン・登録画面（メールアドレスとパスワード、またはメールのログイン用リンク）
+'use client';
+
+import React, { useState, useEffect, use } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Mail, UserCircle } from 'lucide-react';
+import { GAME_CONSTANTS } from '@/types';
+import type { AccountFormMode, HostAccountPageProps } from '@/types';
+import { isValidEmail, isValidPassword, normalizeEmail } from '@/utils/accounts';
+import { formatMessage } from '@/utils/i18n';
+import { useLocale } from '@/hooks/useLocale';
+import { useHostAccount } from '@/hooks/useHostAccount';
+import LocaleSwitcher from '../../components/LocaleSwitcher';
+
+const FORM_MODES: AccountFormMode[] = ['login', 'register', 'magic-link'];
+
+const ENDPOINTS: Record<AccountFormMode, string> = {
+  login: '/api/accounts/login',
+  register: '/api/accounts/register',
+  'magic-link': '/api/accounts/magic-link'
+};
+
+export default function HostAccountPage({ searchParams: searchParamsPromise }: HostAccountPageProps) {
+  const router = useRouter();
+  const searchParams = use(searchParamsPromise);
+  const { messages } = useLocale();
+  const t = messages.account;
+  const { account, isLoading } = useHostAccount();
+
+  const [mode, setMode] = useState<AccountFormMode>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(
+    searchParams.error === 'invalid-link' ? t.invalidLink : null
+  );
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [showDevMailbox, setShowDevMailbox] = useState(false);
+
+  // ログイン済みならダッシュボードへ
+  useEffect(() => {
+    if (account) {
+      router.replace('/host/dashboard');
+    }
+  }, [account, router]);
+
+  const canSubmit = mode === 'register'
+    ? isValidEmail(email) && isValidPassword(password)
+    : mode === 'login'
+      ? email.trim() !== '' && password !== ''
+      : isValidEmail(email);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(ENDPOINTS[mode], {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(mode === 'magic-link' ? { email } : { email, password })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t.failed);
+      }
+
+      if (mode === 'magic-link') {
+        const data: { devMailbox?: boolean } = await response.json();
+        setSentTo(normalizeEmail(email));
+        setShowDevMailbox(Boolean(data.devMailbox));
+        return;
+      }
+
+      router.push('/host/dashboard');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.failed);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading || account) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 flex items-center justify-center">
+        <p className="text-white text-lg">{messages.common.loading}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 p-8 flex items-center justify-center">
+      <div className="w-full max-w-md">
+        <div className="flex justify-end mb-4">
+          <LocaleSwitcher />
+        </div>
+
+        <h1 className="text-4xl font-bold text-center text-white mb-4 drop-shadow-lg flex items-center justify-center gap-2">
+          <UserCircle className="w-9 h-9" />
+          {t.title}
+        </h1>
+        <p className="text-center text-white/90 text-sm mb-6">{t.description}</p>
+
+        <div className="bg-white/30 backdrop-blur-md rounded-xl p-6 shadow-2xl border border-white/20 space-y-5">
+          {/* 入力方法の切り替え */}
+          <div role="tablist" className="grid grid-cols-3 gap-1 bg-white/20 rounded-lg p-1">
+            {FORM_MODES.map(formMode => (
+              <button
+                key={formMode}
+                type="button"
+                role="tab"
+                aria-selected={mode === formMode}
+                onClick={() => {
+                  setMode(formMode);
+                  setError(null);
+                  setSentTo(null);
+                }}
+                className={`py-2 rounded-md text-sm font-semibold transition-colors ${
+                  mode === formMode ? 'bg-white text-red-700 shadow' : 'text-white hover:bg-white/20'
+                }`}
+              >
+                {t.modes[formMode]}
+              </button>
+            ))}
+          </div>
+
+          {error && (
+            <p role="alert" className="p-3 bg-red-100/90 border border-red-300 rounded-lg text-sm text-red-700">
+              {error}
+            </p>
+          )}
+
+          {sentTo ? (
+            <div role="status" className="space-y-3 text-white">
+              <p className="flex items-start gap-2">
+                <Mail className="w-5 h-5 mt-0.5 flex-shrink-0" />
+                {formatMessage(t.magicLinkSent, { email: sentTo, minutes: GAME_CONSTANTS.MAGIC_LINK_EXPIRY_MINUTES })}
+              </p>
+              {showDevMailbox && (
+                <div className="p-3 bg-yellow-300/30 border border-yellow-400 rounded-lg text-sm">
+                  <p>{t.devMailbox}</p>
+                  <Link href="/dev/mail" target="_blank" className="underline font-semibold">
+                    {t.openDevMailbox}
+                  </Link>
+                </div>
+              )}
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {mode === 'magic-link' && (
+                <p className="text-sm text-white/90">{t.magicLinkHint}</p>
+              )}
+
+              <label className="block">
+                <span className="block text-sm font-semibold text-white mb-1">{t.email}</span>
+                <input
+                  type="email"
+                  autoComplete="email"
+                  required
+                  value={email}
+                  onChange={e => setEmail(e.target.value)}
+                  maxLength={GAME_CONSTANTS.EMAIL_MAX_LENGTH}
+                  className="w-full px-4 py-3 rounded-lg bg-white/90 text-gray-900 focus:ring-2 focus:ring-yellow-400 focus:outline-none"
+                />
+              </label>
+
+              {mode !== 'magic-link' && (
+                <label className="block">
+                  <span className="block text-sm font-semibold text-white mb-1">{t.password}</span>
+                  <input
+                    type="password"
+                    autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+                    required
+                    value={password}
+                    onChange={e => setPassword(e.target.value)}
+                    maxLength={GAME_CONSTANTS.PASSWORD_MAX_LENGTH}
+                    className="w-full px-4 py-3 rounded-lg bg-white/90 text-gray-900 focus:ring-2 focus:ring-yellow-400 focus:outline-none"
+                  />
+                  {mode === 'register' && (
+                    <span className="block mt-1 text-xs text-white/80">
+                      {formatMessage(t.passwordHint, { min: GAME_CONSTANTS.PASSWORD_MIN_LENGTH })}
+                    </span>
+                  )}
+                </label>
+              )}
+
+              <button
+                type="submit"
+                disabled={!canSubmit || isSubmitting}
+                className="w-full bg-gradient-to-r from-pink-600 to-orange-500 hover:from-pink-700 hover:to-orange-600 text-white font-bold py-3 rounded-lg shadow-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? t.submitting : t.submit[mode]}
+              </button>
+            </form>
+          )}
+        </div>
+
+        <button
+          onClick={() => router.push('/')}
+          className="mt-6 w-full border-2 border-white/30 text-white rounded-lg py-3 font-semibold hover:bg-white/10 transition-colors backdrop-blur-sm"
+        >
+          {messages.common.backToTop}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+// app/host/co-host/page.tsx
+// 共同ホストの招待を受ける画面（招待リンク・QRコードから開く）
+//
+// 参加後は共同ホストのトークンをホストIDとして、待機画面またはゲーム画面へ移動する
+'use client';
+
+import React, { useState, use } from 'react';
+import { useRouter } from 'next/navigation';
+import { UserPlus } from 'lucide-react';
+import { GAME_CONSTANTS } from '@/types';
+import type { CoHostJoinPageProps, JoinCoHostResponse } from '@/types';
+import { useLocale } from '@/hooks/useLocale';
+import LocaleSwitcher from '../../components/LocaleSwitcher';
+
+export default function CoHostJoinPage({ searchParams: searchParamsPromise }: CoHostJoinPageProps) {
+  const router = useRouter();
+  const { session: sessionId, token: accessToken, invite: inviteToken } = use(searchParamsPromise);
+  const { messages } = useLocale();
+  const t = messages.coHostJoin;
+
+  const [name, setName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(
+    sessionId && accessToken && inviteToken ? null : t.invalidLink
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sessionId || !accessToken || !inviteToken || !name.trim() || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/co-hosts/join`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ accessToken, inviteToken, name: name.trim() })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t.failed);
+      }
+
+      const data: JoinCoHostResponse = await response.json();
+
+      // Pusher認証用（ホストと同じく、プレイヤーIDの代わりに共同ホストのトークンを使う）
+      localStorage.setItem('reconnectionData', JSON.stringify({
+        sessionId,
+        accessToken,
+        playerId: data.token,
+        playerName: data.coHost.name,
+        lastActiveAt: new Date().toISOString(),
+        expiresAt: new Date(Date.now() + 30 * 60 * 1000).toISOString()
+      }));
+
+      router.push(data.status === 'waiting'
+        ? `/host/waiting?sessionId=${sessionId}&accessToken=${accessToken}&hostId=${encodeURIComponent(data.token)}`
+        : `/host/game/${sessionId}?token=${accessToken}&hostId=${encodeURIComponent(data.token)}`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.failed);
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 p-8 flex items-center justify-center">
+      <div className="w-full max-w-md">
+        <div className="flex justify-end mb-4">
+          <LocaleSwitcher />
+        </div>
+
+        <h1 className="text-4xl font-bold text-center text-white mb-4 drop-shadow-lg flex items-center justify-center gap-2">
+          <UserPlus className="w-9 h-9" />
+          {t.title}
+        </h1>
+        <p className="text-center text-white/90 text-sm mb-6">{t.description}</p>
+
+        <div className="bg-white/30 backdrop-blur-md rounded-xl p-6 shadow-2xl border border-white/20 space-y-5">
+          {error && (
+            <p role="alert" className="p-3 bg-red-100/90 border border-red-300 rounded-lg text-sm text-red-700">
+              {error}
+            </p>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <label className="block">
+              <span className="block text-sm font-semibold text-white mb-1">{t.nameLabel}</span>
+              <input
+                type="text"
+                required
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder={t.namePlaceholder}
+                maxLength={GAME_CONSTANTS.PLAYER_NAME_MAX_LENGTH}
+                className="w-full px-4 py-3 rounded-lg bg-white/90 text-gray-900 focus:ring-2 focus:ring-yellow-400 focus:outline-none"
+              />
+            </label>
+
+            <button
+              type="submit"
+              disabled={!sessionId || !accessToken || !inviteToken || !name.trim() || isSubmitting}
+              className="w-full bg-gradient-to-r from-pink-600 to-orange-500 hover:from-pink-700 hover:to-orange-600 text-white font-bold py-3 rounded-lg shadow-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? t.submitting : t.submit}
+            </button>
+          </form>
+        </div>
+
+        <button
+          onClick={() => router.push('/')}
+          className="mt-6 w-full border-2 border-white/30 text-white rounded-lg py-3 font-semibold hover:bg-white/10 transition-colors backdrop-blur-sm"
+        >
+          {messages.common.backToTop}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,50 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
+import { GAME_CONSTANTS } from '@/types';
+import type { BingoPattern, DaubMode, DrawMode, GameType, LateJoinMode, Locale } from '@/types';
+import { ALL_BINGO_PATTERNS, DEFAULT_PATTERNS } from '@/utils/patterns';
+import { parseTermsText } from '@/utils/terms';
+import { DEFAULT_FALSE_CLAIM_PENALTY_DRAWS } from '@/utils/claims';
+import { DEFAULT_DRAW_MODE } from '@/utils/ballMachine';
+import { DEFAULT_LATE_JOIN_MODE } from '@/utils/lateJoin';
+import { LOCALES, LOCALE_LABELS, formatMessage } from '@/utils/i18n';
+import { useLocale } from '@/hooks/useLocale';
+import { useHostAccount } from '@/hooks/useHostAccount';
+import LocaleSwitcher from '../../components/LocaleSwitcher';
+import { DEFAULT_PLACEMENT_POINTS, parsePlacementPointsText, sanitizePlacementPoints } from '@/utils/rounds';
+import {
+  describePrizeTier,
+  getMaxPrizeLines,
+  getPrizeTierPatterns,
+  getPrizeTierPresets,
+  sanitizePrizeTiers
+} from '@/utils/prizes';
+import type { PrizeTierInput } from '@/utils/prizes';
 
 interface FormData {
   name: string;
   maxPlayers: number;
+  maxCardsPerPlayer: number;
+  gameType: GameType;
+  patterns: BingoPattern[];
+  termsText: string;
+  daubMode: DaubMode;
+  falseClaimPenaltyDraws: number;
+  hostAdjudication: boolean;
+  placementPointsText: string;
+  prizeTiers: PrizeTierInput[];
+  drawMode: DrawMode;
+  lateJoin: LateJoinMode;
+  allowSpectators: boolean;
+  locale: Locale;
 }
 
+// ゲーム形式の選択肢（表示名はメッセージから取る）
+const GAME_TYPE_OPTIONS: GameType[] = ['75ball', '90ball', 'words'];
+
 interface SessionResponse {
   sessionId: string;
   accessToken: string;
@@ -20,9 +57,25 @@ interface SessionResponse {
 
 export default function CreateGamePage() {
   const router = useRouter();
+  const { locale, messages } = useLocale();
+  const t = messages.createGame;
+  const { account, isLoading: isAccountLoading } = useHostAccount();
   const [formData, setFormData] = useState<FormData>({
     name: '',
-    maxPlayers: 10
+    maxPlayers: 10,
+    maxCardsPerPlayer: 1,
+    gameType: '75ball',
+    patterns: DEFAULT_PATTERNS,
+    termsText: '',
+    daubMode: 'auto',
+    falseClaimPenaltyDraws: DEFAULT_FALSE_CLAIM_PENALTY_DRAWS,
+    hostAdjudication: false,
+    placementPointsText: DEFAULT_PLACEMENT_POINTS.join(', '),
+    prizeTiers: [],
+    drawMode: DEFAULT_DRAW_MODE,
+    lateJoin: DEFAULT_LATE_JOIN_MODE,
+    allowSpectators: false,
+    locale
   });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -35,6 +88,67 @@ export default function CreateGamePage() {
     }));
   };
 
+  // 当たりパターンの切り替え
+  const handlePatternToggle = (pattern: BingoPattern) => {
+    setFormData(prev => ({
+      ...prev,
+      patterns: prev.patterns.includes(pattern)
+        ? prev.patterns.filter(p => p !== pattern)
+        : [...prev.patterns, pattern]
+    }));
+  };
+
+  // 賞の追加・変更・削除
+  const handlePrizeTierChange = (index: number, tier: PrizeTierInput) => {
+    setFormData(prev => ({
+      ...prev,
+      prizeTiers: prev.prizeTiers.map((t, i) => (i === index ? tier : t))
+    }));
+  };
+
+  const handlePrizeTierRemove = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      prizeTiers: prev.prizeTiers.filter((_, i) => i !== index)
+    }));
+  };
+
+  const handlePrizeTierAdd = () => {
+    setFormData(prev => ({
+      ...prev,
+      prizeTiers: [...prev.prizeTiers, { label: '', lines: 1 }]
+    }));
+  };
+
+  // 達成条件のセレクト値（"lines:2" / "pattern:blackout"）
+  const prizeConditionOptions = [
+    ...Array.from({ length: getMaxPrizeLines(formData.gameType) }, (_, i) => ({ lines: i + 1 })),
+    ...getPrizeTierPatterns(formData.gameType).map(pattern => ({ pattern }))
+  ].map(condition => ({
+    value: 'lines' in condition ? `lines:${condition.lines}` : `pattern:${condition.pattern}`,
+    label: describePrizeTier({ label: '', ...condition }, formData.gameType, locale),
+    condition
+  }));
+
+  // 用語リストのテキストファイル読み込み
+  const handleTermsFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      setFormData(prev => ({ ...prev, termsText: text }));
+    } catch {
+      setError(t.fileReadFailed);
+    } finally {
+      // 同じファイルを再選択できるようにリセット
+      e.target.value = '';
+    }
+  };
+
+  // 入力中の用語（重複を除く）
+  const parsedTerms = [...new Set(parseTermsText(formData.termsText))];
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -43,17 +157,69 @@ export default function CreateGamePage() {
     try {
       // バリデーション
       if (!formData.name.trim()) {
-        throw new Error('大会名を入力してください');
+        throw new Error(t.nameRequired);
       }
 
       if (formData.maxPlayers < 2 || formData.maxPlayers > 99) {
-        throw new Error('参加人数は2〜99人の範囲で設定してください');
+        throw new Error(t.maxPlayersRange);
+      }
+
+      if (
+        !Number.isInteger(formData.maxCardsPerPlayer) ||
+        formData.maxCardsPerPlayer < 1 ||
+        formData.maxCardsPerPlayer > GAME_CONSTANTS.MAX_CARDS_PER_PLAYER
+      ) {
+        throw new Error(formatMessage(t.cardLimitRange, { max: GAME_CONSTANTS.MAX_CARDS_PER_PLAYER }));
+      }
+
+      if (
+        formData.daubMode === 'manual' &&
+        (!Number.isInteger(formData.falseClaimPenaltyDraws) ||
+          formData.falseClaimPenaltyDraws < 0 ||
+          formData.falseClaimPenaltyDraws > GAME_CONSTANTS.MAX_FALSE_CLAIM_PENALTY_DRAWS)
+      ) {
+        throw new Error(formatMessage(t.penaltyRange, { max: GAME_CONSTANTS.MAX_FALSE_CLAIM_PENALTY_DRAWS }));
+      }
+
+      const placementPoints = sanitizePlacementPoints(parsePlacementPointsText(formData.placementPointsText));
+      if (!placementPoints) {
+        throw new Error(formatMessage(t.placementPointsInvalid, {
+          ranks: GAME_CONSTANTS.MAX_PLACEMENT_RANKS,
+          max: GAME_CONSTANTS.MAX_PLACEMENT_POINTS
+        }));
+      }
+
+      if (!sanitizePrizeTiers(formData.prizeTiers, formData.gameType)) {
+        throw new Error(formatMessage(t.prizeTiersInvalid, { max: GAME_CONSTANTS.PRIZE_LABEL_MAX_LENGTH }));
+      }
+
+      if (formData.gameType === 'words' && parsedTerms.length < GAME_CONSTANTS.MIN_TERMS) {
+        throw new Error(formatMessage(t.termsTooFew, { min: GAME_CONSTANTS.MIN_TERMS }));
+      }
+
+      if (formData.gameType !== '90ball' && formData.patterns.length === 0) {
+        throw new Error(t.patternsRequired);
       }
 
       // APIリクエスト
       const requestBody = {
         gameName: formData.name.trim(),
-        maxPlayers: formData.maxPlayers
+        maxPlayers: formData.maxPlayers,
+        gameType: formData.gameType,
+        ...(formData.gameType === 'words' && { terms: parsedTerms }),
+        rules: {
+          patterns: formData.patterns,
+          daubMode: formData.daubMode,
+          ...(formData.daubMode === 'manual' && { falseClaimPenaltyDraws: formData.falseClaimPenaltyDraws }),
+          ...(formData.hostAdjudication && { hostAdjudication: true }),
+          ...(formData.maxCardsPerPlayer > 1 && { maxCardsPerPlayer: formData.maxCardsPerPlayer }),
+          placementPoints,
+          ...(formData.prizeTiers.length > 0 && { prizeTiers: formData.prizeTiers }),
+          ...(formData.gameType !== 'words' && { drawMode: formData.drawMode }),
+          lateJoin: formData.lateJoin,
+          ...(formData.allowSpectators && { allowSpectators: true })
+        },
+        locale: formData.locale
       };
 
       const response = await fetch('/api/sessions', {
@@ -65,8 +231,8 @@ export default function CreateGamePage() {
       });
 
       if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'エラーが発生しました' }));
-        throw new Error(errorData.error || `エラー: ${response.status}`);
+        const errorData = await response.json().catch(() => ({ error: t.requestFailed }));
+        throw new Error(errorData.error || formatMessage(t.statusError, { status: response.status }));
       }
 
       const data: SessionResponse = await response.json();
@@ -100,7 +266,7 @@ export default function CreateGamePage() {
 
     } catch (err) {
       console.error('セッション作成エラー:', err);
-      setError(err instanceof Error ? err.message : '予期しないエラーが発生しました');
+      setError(err instanceof Error ? err.message : messages.api.unexpectedError);
       setIsLoading(false);
     }
   };
@@ -108,17 +274,36 @@ export default function CreateGamePage() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 p-8 flex items-center justify-center">
       <div className="w-full max-w-md">
+        <div className="flex justify-end mb-4">
+          <LocaleSwitcher />
+        </div>
+
         {/* タイトル */}
         <h1 className="text-4xl font-bold text-center text-white mb-8 drop-shadow-lg">
-          ビンゴ<span className="text-yellow-300">大会</span>を作成
+          {t.titlePrefix}<span className="text-yellow-300">{t.titleHighlight}</span>{t.titleSuffix}
         </h1>
+
+        {/* ホストアカウント（ログイン中は作成したゲームがダッシュボードに保存される） */}
+        {!isAccountLoading && (
+          <p className="mb-4 text-center text-sm text-white/90">
+            {account ? (
+              <Link href="/host/dashboard" className="underline hover:text-white">
+                {formatMessage(t.accountLinked, { email: account.email })}
+              </Link>
+            ) : (
+              <Link href="/host/account" className="underline hover:text-white">
+                {t.accountHint}
+              </Link>
+            )}
+          </p>
+        )}
         
         {/* メインカード */}
         <div className="w-full overflow-hidden rounded-xl shadow-2xl">
           {/* カードヘッダー */}
           <div className="bg-gradient-to-r from-pink-500/70 to-orange-400/70 p-4 backdrop-blur-sm border-t border-l border-r border-white/20">
             <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-300 to-yellow-500 drop-shadow-md">
-              大会情報を入力
+              {t.formTitle}
             </h2>
           </div>
           
@@ -134,7 +319,7 @@ export default function CreateGamePage() {
             {/* 大会名入力 */}
             <div className="space-y-2">
               <label htmlFor="name" className="block text-lg font-medium text-white drop-shadow-sm">
-                大会名
+                {t.name}
               </label>
               <input
                 type="text"
@@ -144,7 +329,7 @@ export default function CreateGamePage() {
                 onChange={handleInputChange}
                 disabled={isLoading}
                 className="w-full px-4 py-3 bg-white/50 backdrop-blur-sm text-gray-900 rounded-lg focus:ring-2 focus:ring-yellow-400 focus:outline-none transition-all placeholder-gray-600 disabled:opacity-50"
-                placeholder="例: 新年会ビンゴ大会"
+                placeholder={t.namePlaceholder}
                 required
               />
             </div>
@@ -152,7 +337,7 @@ export default function CreateGamePage() {
             {/* 最大参加人数入力 */}
             <div className="space-y-2">
               <label htmlFor="maxPlayers" className="block text-lg font-medium text-white drop-shadow-sm">
-                最大参加人数
+                {t.maxPlayers}
               </label>
               <input
                 type="number"
@@ -166,7 +351,383 @@ export default function CreateGamePage() {
                 className="w-full px-4 py-3 bg-white/50 backdrop-blur-sm text-gray-900 rounded-lg focus:ring-2 focus:ring-yellow-400 focus:outline-none transition-all disabled:opacity-50"
                 required
               />
-              <p className="text-xs text-white/70">※ 2〜99人の範囲で設定してください</p>
+              <p className="text-xs text-white/70">{t.maxPlayersHint}</p>
+            </div>
+
+            {/* 1人あたりのカード上限 */}
+            <div className="space-y-2">
+              <label htmlFor="maxCardsPerPlayer" className="block text-lg font-medium text-white drop-shadow-sm">
+                {t.maxCards}
+              </label>
+              <input
+                type="number"
+                id="maxCardsPerPlayer"
+                name="maxCardsPerPlayer"
+                value={formData.maxCardsPerPlayer}
+                onChange={handleInputChange}
+                disabled={isLoading}
+                min="1"
+                max={GAME_CONSTANTS.MAX_CARDS_PER_PLAYER}
+                className="w-full px-4 py-3 bg-white/50 backdrop-blur-sm text-gray-900 rounded-lg focus:ring-2 focus:ring-yellow-400 focus:outline-none transition-all disabled:opacity-50"
+                required
+              />
+              <p className="text-xs text-white/70">{t.maxCardsHint}</p>
+            </div>
+
+            {/* 順位ポイント（複数ラウンドの通算順位に使用） */}
+            <div className="space-y-2">
+              <label htmlFor="placementPointsText" className="block text-lg font-medium text-white drop-shadow-sm">
+                {t.placementPoints}
+              </label>
+              <input
+                type="text"
+                id="placementPointsText"
+                name="placementPointsText"
+                value={formData.placementPointsText}
+                onChange={handleInputChange}
+                disabled={isLoading}
+                inputMode="numeric"
+                className="w-full px-4 py-3 bg-white/50 backdrop-blur-sm text-gray-900 rounded-lg focus:ring-2 focus:ring-yellow-400 focus:outline-none transition-all disabled:opacity-50"
+                required
+              />
+              <p className="text-xs text-white/70">{t.placementPointsHint}</p>
+            </div>
+
+            {/* 大会の言語 */}
+            <div className="space-y-2">
+              <label htmlFor="locale" className="block text-lg font-medium text-white drop-shadow-sm">
+                {t.sessionLocale}
+              </label>
+              <select
+                id="locale"
+                name="locale"
+                value={formData.locale}
+                onChange={e => setFormData(prev => ({ ...prev, locale: e.target.value as Locale }))}
+                disabled={isLoading}
+                className="w-full px-4 py-3 bg-white/50 backdrop-blur-sm text-gray-900 rounded-lg focus:ring-2 focus:ring-yellow-400 focus:outline-none transition-all disabled:opacity-50"
+              >
+                {LOCALES.map(option => (
+                  <option key={option} value={option}>{LOCALE_LABELS[option]}</option>
+                ))}
+              </select>
+              <p className="text-xs text-white/70">{t.sessionLocaleHint}</p>
+            </div>
+
+            {/* ゲーム形式選択 */}
+            <div className="space-y-2">
+              <span className="block text-lg font-medium text-white drop-shadow-sm">
+                {t.gameType}
+              </span>
+              <div className="grid grid-cols-3 gap-2">
+                {GAME_TYPE_OPTIONS.map(option => (
+                  <label
+                    key={option}
+                    className={`flex flex-col px-3 py-2 rounded-lg cursor-pointer transition-all text-sm ${
+                      formData.gameType === option
+                        ? 'bg-yellow-300/80 text-red-800 font-semibold'
+                        : 'bg-white/30 text-white'
+                    }`}
+                  >
+                    <span className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        name="gameType"
+                        value={option}
+                        checked={formData.gameType === option}
+                        onChange={() => setFormData(prev => ({ ...prev, gameType: option }))}
+                        disabled={isLoading}
+                        className="accent-red-600"
+                      />
+                      {t.gameTypes[option].label}
+                    </span>
+                    <span className="text-xs opacity-80">{t.gameTypes[option].description}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* 用語リスト入力（ワードビンゴのみ） */}
+            {formData.gameType === 'words' && (
+              <div className="space-y-2">
+                <label htmlFor="termsText" className="block text-lg font-medium text-white drop-shadow-sm">
+                  {t.terms}
+                </label>
+                <textarea
+                  id="termsText"
+                  name="termsText"
+                  value={formData.termsText}
+                  onChange={(e) => setFormData(prev => ({ ...prev, termsText: e.target.value }))}
+                  disabled={isLoading}
+                  rows={6}
+                  placeholder={t.termsPlaceholder}
+                  className="w-full px-4 py-3 bg-white/50 backdrop-blur-sm text-gray-900 placeholder-gray-600 rounded-lg focus:ring-2 focus:ring-yellow-400 focus:outline-none transition-all disabled:opacity-50"
+                />
+                <div className="flex items-center justify-between gap-2">
+                  <label className="px-3 py-2 bg-white/30 text-white text-sm rounded-lg cursor-pointer hover:bg-white/40 transition-all">
+                    {t.loadTermsFile}
+                    <input
+                      type="file"
+                      accept=".txt,.csv,text/plain"
+                      onChange={handleTermsFileChange}
+                      disabled={isLoading}
+                      className="hidden"
+                    />
+                  </label>
+                  <span className={`text-sm ${parsedTerms.length >= GAME_CONSTANTS.MIN_TERMS ? 'text-white' : 'text-yellow-200'}`}>
+                    {formatMessage(t.termsCount, { count: parsedTerms.length, min: GAME_CONSTANTS.MIN_TERMS })}
+                  </span>
+                </div>
+                <p className="text-xs text-white/70">{t.termsHint}</p>
+              </div>
+            )}
+
+            {/* 当たりパターン選択（90ボールは1ライン・2ライン・フルハウス固定） */}
+            {formData.gameType === '90ball' ? (
+              <div className="space-y-2">
+                <span className="block text-lg font-medium text-white drop-shadow-sm">
+                  {t.ninetyBallWins}
+                </span>
+                <p className="text-sm text-white/90">{t.ninetyBallWinsDescription}</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <span className="block text-lg font-medium text-white drop-shadow-sm">
+                  {t.patterns}
+                </span>
+                <div className="grid grid-cols-2 gap-2">
+                  {ALL_BINGO_PATTERNS.map(pattern => (
+                    <label
+                      key={pattern}
+                      className={`flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer transition-all text-sm ${
+                        formData.patterns.includes(pattern)
+                          ? 'bg-yellow-300/80 text-red-800 font-semibold'
+                          : 'bg-white/30 text-white'
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={formData.patterns.includes(pattern)}
+                        onChange={() => handlePatternToggle(pattern)}
+                        disabled={isLoading}
+                        className="accent-red-600"
+                      />
+                      {messages.labels.patterns[pattern]}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-white/70">{t.patternsHint}</p>
+              </div>
+            )}
+
+            {/* 段階ごとの賞 */}
+            <div className="space-y-2">
+              <span className="block text-lg font-medium text-white drop-shadow-sm">
+                {t.prizeTiers}
+              </span>
+              {formData.prizeTiers.map((tier, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={tier.label}
+                    onChange={e => handlePrizeTierChange(index, { ...tier, label: e.target.value })}
+                    disabled={isLoading}
+                    maxLength={GAME_CONSTANTS.PRIZE_LABEL_MAX_LENGTH}
+                    placeholder={t.prizeNamePlaceholder}
+                    aria-label={formatMessage(t.prizeNameLabel, { number: index + 1 })}
+                    className="flex-1 min-w-0 px-3 py-2 bg-white/50 backdrop-blur-sm text-gray-900 placeholder-gray-600 rounded-lg focus:ring-2 focus:ring-yellow-400 focus:outline-none transition-all disabled:opacity-50"
+                  />
+                  <select
+                    value={tier.pattern ? `pattern:${tier.pattern}` : `lines:${tier.lines}`}
+                    onChange={e => {
+                      const option = prizeConditionOptions.find(o => o.value === e.target.value);
+                      if (option) handlePrizeTierChange(index, { label: tier.label, ...option.condition });
+                    }}
+                    disabled={isLoading}
+                    aria-label={formatMessage(t.prizeConditionLabel, { number: index + 1 })}
+                    className="px-2 py-2 bg-white/50 backdrop-blur-sm text-gray-900 rounded-lg focus:ring-2 focus:ring-yellow-400 focus:outline-none text-sm disabled:opacity-50"
+                  >
+                    {prizeConditionOptions.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => handlePrizeTierRemove(index)}
+                    disabled={isLoading}
+                    aria-label={formatMessage(t.prizeRemoveLabel, { number: index + 1 })}
+                    className="px-3 py-2 bg-white/30 text-white rounded-lg hover:bg-white/40 transition-all disabled:opacity-50"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                {formData.prizeTiers.length < GAME_CONSTANTS.MAX_PRIZE_TIERS && (
+                  <button
+                    type="button"
+                    onClick={handlePrizeTierAdd}
+                    disabled={isLoading}
+                    className="px-3 py-2 bg-white/30 text-white text-sm rounded-lg hover:bg-white/40 transition-all disabled:opacity-50"
+                  >
+                    {t.addPrize}
+                  </button>
+                )}
+                {formData.prizeTiers.length === 0 && (
+                  <button
+                    type="button"
+                    onClick={() => setFormData(prev => ({ ...prev, prizeTiers: getPrizeTierPresets(prev.gameType, prev.locale) }))}
+                    disabled={isLoading}
+                    className="px-3 py-2 bg-yellow-300/80 text-red-800 text-sm font-semibold rounded-lg hover:bg-yellow-300 transition-all disabled:opacity-50"
+                  >
+                    {t.prizePresets}
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-white/70">{t.prizeTiersHint}</p>
+            </div>
+
+            {/* 抽選方式選択（ワードビンゴはホストが用語をコールする） */}
+            {formData.gameType !== 'words' && (
+              <div className="space-y-2">
+                <span className="block text-lg font-medium text-white drop-shadow-sm">
+                  {t.drawMode}
+                </span>
+                <div className="grid grid-cols-2 gap-2">
+                  {(Object.keys(messages.labels.drawModes) as DrawMode[]).map(mode => (
+                    <label
+                      key={mode}
+                      className={`flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer transition-all text-sm ${
+                        formData.drawMode === mode
+                          ? 'bg-yellow-300/80 text-red-800 font-semibold'
+                          : 'bg-white/30 text-white'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="drawMode"
+                        value={mode}
+                        checked={formData.drawMode === mode}
+                        onChange={() => setFormData(prev => ({ ...prev, drawMode: mode }))}
+                        disabled={isLoading}
+                        className="accent-red-600"
+                      />
+                      {messages.labels.drawModes[mode]}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-white/70">{t.drawModeHint}</p>
+              </div>
+            )}
+
+            {/* 途中参加 */}
+            <div className="space-y-2">
+              <span className="block text-lg font-medium text-white drop-shadow-sm">
+                {t.lateJoin}
+              </span>
+              <div className="grid grid-cols-1 gap-2">
+                {(Object.keys(messages.labels.lateJoinModes) as LateJoinMode[]).map(mode => (
+                  <label
+                    key={mode}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer transition-all text-sm ${
+                      formData.lateJoin === mode
+                        ? 'bg-yellow-300/80 text-red-800 font-semibold'
+                        : 'bg-white/30 text-white'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="lateJoin"
+                      value={mode}
+                      checked={formData.lateJoin === mode}
+                      onChange={() => setFormData(prev => ({ ...prev, lateJoin: mode }))}
+                      disabled={isLoading}
+                      className="accent-red-600"
+                    />
+                    {messages.labels.lateJoinModes[mode]}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-white/70">{t.lateJoinHint}</p>
+            </div>
+
+            {/* マーク方式選択 */}
+            <div className="space-y-2">
+              <span className="block text-lg font-medium text-white drop-shadow-sm">
+                {t.daubMode}
+              </span>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(messages.labels.daubModes) as DaubMode[]).map(mode => (
+                  <label
+                    key={mode}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer transition-all text-sm ${
+                      formData.daubMode === mode
+                        ? 'bg-yellow-300/80 text-red-800 font-semibold'
+                        : 'bg-white/30 text-white'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="daubMode"
+                      value={mode}
+                      checked={formData.daubMode === mode}
+                      onChange={() => setFormData(prev => ({ ...prev, daubMode: mode }))}
+                      disabled={isLoading}
+                      className="accent-red-600"
+                    />
+                    {messages.labels.daubModes[mode]}
+                  </label>
+                ))}
+              </div>
+              {formData.daubMode === 'manual' && (
+                <div className="flex items-center gap-2 text-sm text-white">
+                  <label htmlFor="falseClaimPenaltyDraws">{t.penaltyLabel}</label>
+                  <input
+                    type="number"
+                    id="falseClaimPenaltyDraws"
+                    name="falseClaimPenaltyDraws"
+                    value={formData.falseClaimPenaltyDraws}
+                    onChange={handleInputChange}
+                    disabled={isLoading}
+                    min="0"
+                    max={GAME_CONSTANTS.MAX_FALSE_CLAIM_PENALTY_DRAWS}
+                    className="w-20 px-2 py-1 bg-white/50 text-gray-900 rounded-lg focus:ring-2 focus:ring-yellow-400 focus:outline-none"
+                  />
+                  <span>{t.penaltySuffix}</span>
+                </div>
+              )}
+              <p className="text-xs text-white/70">{t.daubModeHint}</p>
+            </div>
+
+            {/* ホスト確認 */}
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-white cursor-pointer">
+                <input
+                  type="checkbox"
+                  name="hostAdjudication"
+                  checked={formData.hostAdjudication}
+                  onChange={e => setFormData(prev => ({ ...prev, hostAdjudication: e.target.checked }))}
+                  disabled={isLoading}
+                  className="accent-red-600"
+                />
+                <span className="text-lg font-medium drop-shadow-sm">{t.hostAdjudication}</span>
+              </label>
+              <p className="text-xs text-white/70">{t.hostAdjudicationHint}</p>
+            </div>
+
+            {/* 観戦 */}
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-white cursor-pointer">
+                <input
+                  type="checkbox"
+                  name="allowSpectators"
+                  checked={formData.allowSpectators}
+                  onChange={e => setFormData(prev => ({ ...prev, allowSpectators: e.target.checked }))}
+                  disabled={isLoading}
+                  className="accent-red-600"
+                />
+                <span className="text-lg font-medium drop-shadow-sm">{t.allowSpectators}</span>
+              </label>
+              <p className="text-xs text-white/70">{t.allowSpectatorsHint}</p>
             </div>
 
             {/* 送信ボタン */}
@@ -185,10 +746,10 @@ export default function CreateGamePage() {
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                   </svg>
-                  作成中...
+                  {t.creating}
                 </span>
               ) : (
-                '大会を作成する'
+                t.submit
               )}
             </button>
           </form>
@@ -201,14 +762,14 @@ export default function CreateGamePage() {
             disabled={isLoading}
             className="text-white hover:text-yellow-300 transition-colors font-medium drop-shadow-md"
           >
-            トップページに戻る
+            {messages.common.backToTop}
           </button>
         </div>
 
         {/* ヒント */}
         <div className="mt-6 bg-white/20 backdrop-blur-sm rounded-lg p-4 border border-white/30">
           <p className="text-sm text-white/90">
-            💡 ヒント：作成後、参加者に<strong>QRコード</strong>または<strong>URL</strong>を共有してください。
+            {t.tipPrefix}<strong>{t.tipQrCode}</strong>{t.tipOr}<strong>{t.tipUrl}</strong>{t.tipSuffix}
           </p>
         </div>
       </div>
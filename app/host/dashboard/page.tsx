@@ -0,0 +1,198 @@
+// app/host/dashboard/page.tsx
+// ホストのダッシュボード（進行中のゲームの再開と、終了したゲームの結果の閲覧）
+//
+// 未ログインの場合はログイン画面へ移動する
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { History, LogOut, Play, Plus, Trophy } from 'lucide-react';
+import type { DashboardArchive, DashboardResponse, DashboardSession } from '@/types';
+import { formatMessage, LOCALE_TAGS } from '@/utils/i18n';
+import { useLocale } from '@/hooks/useLocale';
+import LocaleSwitcher from '../../components/LocaleSwitcher';
+
+// 進行中のゲームの操作画面（参加受付中は待機画面、それ以降はゲーム画面）
+const getResumeUrl = (session: DashboardSession): string =>
+  session.status === 'waiting'
+    ? `/host/waiting?sessionId=${session.sessionId}&accessToken=${session.accessToken}&hostId=${session.hostId}`
+    : `/host/game/${session.sessionId}?token=${session.accessToken}&hostId=${session.hostId}`;
+
+const getResultUrl = (archive: DashboardArchive): string =>
+  `/host/result/${archive.sessionId}?token=${archive.accessToken}`;
+
+export default function HostDashboardPage() {
+  const router = useRouter();
+  const { locale, messages } = useLocale();
+  const t = messages.dashboard;
+  const [dashboard, setDashboard] = useState<DashboardResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const formatTime = useCallback(
+    (value: string) => new Date(value).toLocaleString(LOCALE_TAGS[locale], {
+      month: 'numeric',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    }),
+    [locale]
+  );
+
+  useEffect(() => {
+    const fetchDashboard = async () => {
+      try {
+        const response = await fetch('/api/accounts/dashboard');
+
+        if (response.status === 401) {
+          router.replace('/host/account');
+          return;
+        }
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || t.loadFailed);
+        }
+
+        setDashboard(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : t.loadFailed);
+      }
+    };
+
+    fetchDashboard();
+  }, [router, t]);
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/accounts/logout', { method: 'POST' });
+    } catch (err) {
+      console.error('ログアウトエラー:', err);
+    }
+    router.push('/');
+  };
+
+  if (error || !dashboard) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 flex items-center justify-center">
+        <p className="text-white text-lg">{error || messages.common.loading}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 p-4 sm:p-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* ヘッダー */}
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-4xl font-bold text-white drop-shadow-lg">{t.title}</h1>
+            <p className="text-white/90 text-sm mt-1">
+              {formatMessage(t.loggedInAs, { email: dashboard.account.email })}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <LocaleSwitcher />
+            <button
+              onClick={handleLogout}
+              className="px-3 py-2 bg-white/20 backdrop-blur-sm text-white rounded-lg hover:bg-white/30 transition-all flex items-center gap-1 border border-white/30"
+            >
+              <LogOut className="w-5 h-5" />
+              <span className="text-sm">{t.logout}</span>
+            </button>
+          </div>
+        </div>
+
+        <button
+          onClick={() => router.push('/host/create')}
+          className="w-full bg-gradient-to-r from-yellow-500 to-yellow-600 hover:from-yellow-600 hover:to-yellow-700 text-red-800 font-bold py-3 rounded-lg shadow-lg flex items-center justify-center gap-2"
+        >
+          <Plus className="w-5 h-5" />
+          {t.createGame}
+        </button>
+
+        {/* 進行中のゲーム */}
+        <section className="bg-white/30 backdrop-blur-md rounded-xl p-6 shadow-xl border border-white/20">
+          <h2 className="text-2xl font-bold text-white mb-4 flex items-center gap-2 drop-shadow-md">
+            <Play className="w-6 h-6" />
+            {t.activeSessions}
+          </h2>
+          {dashboard.activeSessions.length === 0 ? (
+            <p className="text-white/80">{t.noActiveSessions}</p>
+          ) : (
+            <ul className="space-y-3">
+              {dashboard.activeSessions.map(session => (
+                <li
+                  key={session.sessionId}
+                  className="flex flex-wrap items-center justify-between gap-3 p-4 bg-white/20 rounded-lg border border-white/30"
+                >
+                  <div>
+                    <p className="text-lg font-bold text-white">
+                      {session.gameName}
+                      <span className="ml-2 px-2 py-0.5 bg-yellow-300/80 text-red-800 rounded-full text-xs font-semibold align-middle">
+                        {t.statuses[session.status]}
+                      </span>
+                    </p>
+                    <p className="text-sm text-white/80">
+                      {session.sessionId}
+                      {' ・ '}{formatMessage(t.players, { count: session.playerCount })}
+                      {session.status === 'playing' && <>{' ・ '}{formatMessage(t.draws, { count: session.drawCount })}</>}
+                      {' ・ '}{formatMessage(t.expiresAt, { time: formatTime(session.expiresAt) })}
+                    </p>
+                  </div>
+                  <Link
+                    href={getResumeUrl(session)}
+                    className="px-4 py-2 bg-gradient-to-r from-pink-600 to-orange-500 hover:from-pink-700 hover:to-orange-600 text-white font-bold rounded-lg shadow-lg"
+                  >
+                    {t.resume}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* 終了したゲーム */}
+        <section className="bg-white/30 backdrop-blur-md rounded-xl p-6 shadow-xl border border-white/20">
+          <h2 className="text-2xl font-bold text-white mb-4 flex items-center gap-2 drop-shadow-md">
+            <History className="w-6 h-6" />
+            {t.archives}
+          </h2>
+          {dashboard.archives.length === 0 ? (
+            <p className="text-white/80">{t.noArchives}</p>
+          ) : (
+            <ul className="space-y-3">
+              {dashboard.archives.map(archive => (
+                <li
+                  key={`${archive.sessionId}-${archive.finishedAt}`}
+                  className="flex flex-wrap items-center justify-between gap-3 p-4 bg-white/20 rounded-lg border border-white/30"
+                >
+                  <div>
+                    <p className="text-lg font-bold text-white">{archive.gameName}</p>
+                    <p className="text-sm text-white/80">
+                      {formatMessage(t.finishedAt, { time: formatTime(archive.finishedAt) })}
+                      {' ・ '}{formatMessage(t.players, { count: archive.playerCount })}
+                      {archive.roundCount > 1 && <>{' ・ '}{formatMessage(t.rounds, { count: archive.roundCount })}</>}
+                    </p>
+                    {archive.winnerNames.length > 0 && (
+                      <p className="text-sm text-yellow-200 flex items-center gap-1">
+                        <Trophy className="w-4 h-4" />
+                        {formatMessage(t.winners, { names: archive.winnerNames.join(messages.common.listSeparator) })}
+                      </p>
+                    )}
+                  </div>
+                  <Link
+                    href={getResultUrl(archive)}
+                    className="px-4 py-2 bg-white/20 text-white font-semibold rounded-lg hover:bg-white/30 transition-colors border border-white/30"
+                  >
+                    {t.viewResult}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -4,18 +4,56 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { usePusherConnection } from '@/hooks/usePusherConnection';
+import { useAutoDrawCountdown } from '@/hooks/useAutoDrawCountdown';
+import { useSpeechCaller } from '@/hooks/useSpeechCaller';
 import { 
   Player,
   NumberDrawnEventData,
   PlayerBingoEventData,
+  PlayerReachEventData,
   SessionUpdatedEventData,
   DrawNumberResponse,
-  HostGameState
+  HostGameState,
+  GameType,
+  BingoClaim,
+  ClaimResultEventData,
+  ClaimReviewAction,
+  ClaimStatus,
+  BingoPattern,
+  StartRoundResponse,
+  PrizeWonEventData,
+  AutoDrawAction,
+  AutoDrawResponse,
+  AutoDrawState,
+  NumberVoidedEventData,
+  VoidDrawResponse,
+  SpectatorSettingsResponse,
+  CheckPaperCardResponse,
+  ErrorCode,
+  GAME_CONSTANTS
 } from '@/types';
 import { 
-  getSession,
+  getHostSession,
   normalizeErrorMessage 
 } from '@/utils/api';
+import { resolvePatterns, ALL_BINGO_PATTERNS } from '@/utils/patterns';
+import { getMaxNumber, formatBingoNumber, getNinetyBallPrize } from '@/utils/gameUtils';
+import { formatPaperCardSerial } from '@/utils/paperCards';
+import { getTermLabel } from '@/utils/terms';
+import { resolveDaubMode, resolveHostAdjudication } from '@/utils/claims';
+import { parseCalledNumber, resolveDrawMode } from '@/utils/ballMachine';
+import { isLateJoiner } from '@/utils/lateJoin';
+import { calculateStandings, getAllRounds, getCurrentRoundNumber } from '@/utils/rounds';
+import { findCoHost, getActorIdFromCredential, getHostRole, hasHostPermission } from '@/utils/hostPermissions';
+import { formatMessage, LOCALE_TAGS } from '@/utils/i18n';
+import { useLocale } from '@/hooks/useLocale';
+import BingoCard from '../../../components/BingoCard';
+import ClaimQueue from '../../../components/ClaimQueue';
+import CoHostPanel from '../../../components/CoHostPanel';
+import KickPlayerModal from '../../../components/KickPlayerModal';
+import LocaleSwitcher from '../../../components/LocaleSwitcher';
+import PrizeWinners from '../../../components/PrizeWinners';
+import SpeechSettingsPanel from '../../../components/SpeechSettingsPanel';
 import { 
   Sparkles, 
   Users, 
@@ -25,46 +63,84 @@ import {
   RefreshCw,
   Crown,
   AlertCircle,
-  XCircle
+  XCircle,
+  SkipForward,
+  ListOrdered,
+  Award,
+  Pause,
+  Square,
+  Clock,
+  Undo2,
+  History,
+  Eye,
+  Monitor,
+  Printer,
+  Volume2,
+  UserCog,
+  UserX
 } from 'lucide-react';
 
 // 通知の型定義
 interface Notification {
   id: string;
-  type: 'bingo' | 'reach';
+  type: 'bingo' | 'reach' | 'prize';
   playerNames: string[];
+  prizeLabel?: string; // 賞の確定通知のみ
   timestamp: number;
 }
 
-// リーチイベントの型定義
-interface PlayerReachEventData {
-  playerId: string;
-  playerName: string;
-  reachCount: number;
-  reachLines: string[];
-}
-
 // 番号履歴表示コンポーネント
 interface NumberHistoryProps {
   numbers: number[];
+  gameType?: GameType;
+  terms?: string[];
 }
 
-const NumberHistory: React.FC<NumberHistoryProps> = ({ numbers }) => {
+const NumberHistory: React.FC<NumberHistoryProps> = ({ numbers, gameType, terms }) => {
+  // ワードビンゴはコール順に用語を表示
+  if (gameType === 'words') {
+    return (
+      <div className="flex flex-wrap gap-1">
+        {numbers.length > 0 ? (
+          numbers.map(num => (
+            <span
+              key={num}
+              className="bg-white/30 text-white text-xs px-2 py-1 rounded border border-white/40"
+            >
+              {getTermLabel(terms, num)}
+            </span>
+          ))
+        ) : (
+          <span className="text-white/50 text-xs">-</span>
+        )}
+      </div>
+    );
+  }
+
   const sortedNumbers = [...numbers].sort((a, b) => a - b);
   
-  const categorizedNumbers = {
-    B: sortedNumbers.filter(n => n >= 1 && n <= 15),
-    I: sortedNumbers.filter(n => n >= 16 && n <= 30),
-    N: sortedNumbers.filter(n => n >= 31 && n <= 45),
-    G: sortedNumbers.filter(n => n >= 46 && n <= 60),
-    O: sortedNumbers.filter(n => n >= 61 && n <= 75),
-  };
+  // 90ボールはチケットの列（1-9, 10-19 … 80-90）ごとに表示
+  const categorizedNumbers: Record<string, number[]> = gameType === '90ball'
+    ? Object.fromEntries(
+        Array.from({ length: 9 }, (_, col) => {
+          const min = col === 0 ? 1 : col * 10;
+          const max = col === 8 ? 90 : col * 10 + 9;
+          return [`${min}-${max}`, sortedNumbers.filter(n => n >= min && n <= max)];
+        })
+      )
+    : {
+        B: sortedNumbers.filter(n => n >= 1 && n <= 15),
+        I: sortedNumbers.filter(n => n >= 16 && n <= 30),
+        N: sortedNumbers.filter(n => n >= 31 && n <= 45),
+        G: sortedNumbers.filter(n => n >= 46 && n <= 60),
+        O: sortedNumbers.filter(n => n >= 61 && n <= 75),
+      };
   
   return (
     <div className="space-y-2">
       {Object.entries(categorizedNumbers).map(([letter, nums]) => (
         <div key={letter} className="flex items-center gap-2">
-          <span className="text-yellow-300 font-bold w-6">{letter}:</span>
+          <span className={`text-yellow-300 font-bold ${gameType === '90ball' ? 'w-14' : 'w-6'}`}>{letter}:</span>
           <div className="flex flex-wrap gap-1">
             {nums.length > 0 ? (
               nums.map(num => (
@@ -85,13 +161,61 @@ const NumberHistory: React.FC<NumberHistoryProps> = ({ numbers }) => {
   );
 };
 
+// ビンゴ申告履歴（手動マーク・ホスト確認時）
+interface ClaimHistoryProps {
+  claims: BingoClaim[];
+}
+
+const CLAIM_STATUS_STYLES: Record<ClaimStatus, { card: string; badge: string }> = {
+  pending: { card: 'bg-yellow-400/20 border-yellow-300/50', badge: 'bg-yellow-300 text-yellow-900' },
+  accepted: { card: 'bg-green-400/20 border-green-300/50', badge: 'bg-green-400 text-green-900' },
+  rejected: { card: 'bg-red-400/20 border-red-300/50', badge: 'bg-red-400 text-red-900' },
+  voided: { card: 'bg-gray-400/20 border-gray-300/50', badge: 'bg-gray-300 text-gray-800' }
+};
+
+const ClaimHistory: React.FC<ClaimHistoryProps> = ({ claims }) => {
+  const { locale, messages } = useLocale();
+
+  if (claims.length === 0) {
+    return <p className="text-white/60 text-center py-4">{messages.hostGame.noClaims}</p>;
+  }
+
+  return (
+    <div className="space-y-2 max-h-80 overflow-y-auto">
+      {[...claims].reverse().map(claim => (
+        <div
+          key={claim.id}
+          className={`rounded-lg p-3 border ${CLAIM_STATUS_STYLES[claim.status].card}`}
+        >
+          <div className="flex items-center justify-between">
+            <span className="font-semibold text-white">{claim.playerName}</span>
+            <span className={`text-xs font-bold px-2 py-1 rounded-full ${CLAIM_STATUS_STYLES[claim.status].badge}`}>
+              {messages.hostGame.claimStatuses[claim.status]}
+            </span>
+          </div>
+          <p className="text-xs text-white/80 mt-1">
+            {claim.status === 'rejected' || claim.status === 'voided' ? claim.reason : (claim.lines || []).join(', ')}
+          </p>
+          <p className="text-xs text-white/60 mt-1">
+            {formatMessage(messages.claimQueue.afterDraw, { count: claim.drawCount })} ・ {new Date(claim.claimedAt).toLocaleTimeString(LOCALE_TAGS[locale])}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
 // プレイヤーカード
 interface PlayerCardProps {
   player: Player;
   rank?: number;
+  onKick?: (player: Player) => void; // 指定時は退出ボタンを表示（プレイヤー管理の権限がある場合）
 }
 
-const PlayerCard: React.FC<PlayerCardProps> = ({ player, rank }) => {
+const PlayerCard: React.FC<PlayerCardProps> = ({ player, rank, onKick }) => {
+  const { messages } = useLocale();
+  const t = messages.hostGame;
+
   return (
     <div className="bg-white/20 backdrop-blur-sm rounded-lg p-3 border border-white/30">
       <div className="flex items-center justify-between">
@@ -118,17 +242,37 @@ const PlayerCard: React.FC<PlayerCardProps> = ({ player, rank }) => {
             <p className="font-semibold text-white drop-shadow-sm">{player.name}</p>
             <div className="flex items-center gap-1 text-xs text-white/80">
               <div className={`w-2 h-2 rounded-full ${player.isConnected ? 'bg-green-400' : 'bg-red-400'}`} />
-              {player.isConnected ? 'オンライン' : 'オフライン'}
+              {player.isConnected ? t.online : t.offline}
+              {isLateJoiner(player) && (
+                <span
+                  className="ml-1 px-1.5 py-0.5 rounded bg-sky-400/80 text-sky-950 font-semibold"
+                  title={`${formatMessage(t.lateJoinedTitle, { count: player.lateJoinedAtDraw ?? 0 })}${player.waitingForNextRound ? t.winsFromNextRoundTitle : ''}`}
+                >
+                  {t.lateJoined}{player.waitingForNextRound && t.fromNextRound}
+                </span>
+              )}
             </div>
           </div>
         </div>
         
-        {player.bingoCount > 0 && (
-          <div className="flex items-center gap-1 bg-yellow-400/90 px-2 py-1 rounded-full">
-            <Trophy className="w-4 h-4 text-yellow-900" />
-            <span className="text-yellow-900 font-bold">{player.bingoCount}</span>
-          </div>
-        )}
+        <div className="flex items-center gap-2">
+          {player.bingoCount > 0 && (
+            <div className="flex items-center gap-1 bg-yellow-400/90 px-2 py-1 rounded-full">
+              <Trophy className="w-4 h-4 text-yellow-900" />
+              <span className="text-yellow-900 font-bold">{player.bingoCount}</span>
+            </div>
+          )}
+          {onKick && (
+            <button
+              onClick={() => onKick(player)}
+              aria-label={formatMessage(messages.playerList.kickLabel, { name: player.name })}
+              title={formatMessage(messages.playerList.kickLabel, { name: player.name })}
+              className="p-1.5 rounded-lg text-white/70 hover:text-white hover:bg-red-500/60 transition-colors"
+            >
+              <UserX className="w-4 h-4" />
+            </button>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -141,6 +285,9 @@ interface NotificationDisplayProps {
 }
 
 const NotificationDisplay: React.FC<NotificationDisplayProps> = ({ notifications, onDismiss }) => {
+  const { messages } = useLocale();
+  const t = messages.hostGame;
+
   if (notifications.length === 0) return null;
 
   return (
@@ -153,19 +300,28 @@ const NotificationDisplay: React.FC<NotificationDisplayProps> = ({ notifications
             flex items-center justify-between gap-4
             ${notification.type === 'bingo' 
               ? 'bg-gradient-to-r from-yellow-400 to-orange-500 border-yellow-300' 
-              : 'bg-gradient-to-r from-orange-400 to-pink-500 border-orange-300'}
+              : notification.type === 'prize'
+                ? 'bg-gradient-to-r from-purple-500 to-pink-500 border-purple-300'
+                : 'bg-gradient-to-r from-orange-400 to-pink-500 border-orange-300'}
           `}
         >
           <div className="flex items-center gap-3">
             <span className="text-2xl">
-              {notification.type === 'bingo' ? '🎉' : '🎯'}
+              {notification.type === 'bingo' ? '🎉' : notification.type === 'prize' ? '🏅' : '🎯'}
             </span>
             <div>
               <p className="font-bold text-white text-lg">
-                {notification.playerNames.join('、')}さん
+                {formatMessage(t.playerNames, { names: notification.playerNames.join(messages.common.listSeparator) })}
               </p>
               <p className="text-white/90 text-sm">
-                {notification.type === 'bingo' ? 'ビンゴ達成！' : 'リーチ！'}
+                {notification.type === 'bingo'
+                  ? t.bingoAchieved
+                  : notification.type === 'prize'
+                    ? formatMessage(t.prizeWon, {
+                        label: notification.prizeLabel ?? '',
+                        tie: notification.playerNames.length > 1 ? messages.game.tie : ''
+                      })
+                    : t.reach}
               </p>
             </div>
           </div>
@@ -201,6 +357,8 @@ const ConfirmModal: React.FC<ConfirmModalProps> = ({
   confirmText,
   confirmColor
 }) => {
+  const { messages } = useLocale();
+
   if (!isOpen) return null;
 
   return (
@@ -233,7 +391,7 @@ const ConfirmModal: React.FC<ConfirmModalProps> = ({
             onClick={onClose}
             className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors font-medium"
           >
-            キャンセル
+            {messages.common.cancel}
           </button>
           <button
             onClick={() => {
@@ -254,6 +412,405 @@ const ConfirmModal: React.FC<ConfirmModalProps> = ({
   );
 };
 
+// 次のラウンド開始モーダル（当たりパターンをラウンドごとに変更できる）
+// 開いている間だけ描画し、開いた時点のパターンを初期値にする
+interface NextRoundModalProps {
+  onClose: () => void;
+  onConfirm: (patterns: BingoPattern[]) => void;
+  nextRoundNumber: number;
+  currentPatterns: BingoPattern[];
+  canChangePatterns: boolean;
+}
+
+const NextRoundModal: React.FC<NextRoundModalProps> = ({
+  onClose,
+  onConfirm,
+  nextRoundNumber,
+  currentPatterns,
+  canChangePatterns
+}) => {
+  const { messages } = useLocale();
+  const t = messages.hostGame;
+  const [patterns, setPatterns] = useState<BingoPattern[]>(currentPatterns);
+
+  const togglePattern = (pattern: BingoPattern) => {
+    setPatterns(prev =>
+      prev.includes(pattern) ? prev.filter(p => p !== pattern) : [...prev, pattern]
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* オーバーレイ */}
+      <div 
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+      
+      {/* モーダル本体 */}
+      <div className="relative bg-white rounded-2xl shadow-2xl p-6 m-4 max-w-sm w-full">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <XCircle className="w-6 h-6" />
+        </button>
+        
+        <h3 className="text-xl font-bold text-gray-800 mb-2 pr-8">{formatMessage(t.nextRoundTitle, { round: nextRoundNumber })}</h3>
+        
+        <p className="text-gray-600 mb-4">
+          {t.nextRoundDescription}
+        </p>
+
+        {canChangePatterns && (
+          <div className="mb-6">
+            <p className="text-sm font-medium text-gray-700 mb-2">{t.winningPatterns}</p>
+            <div className="grid grid-cols-2 gap-2">
+              {ALL_BINGO_PATTERNS.map(pattern => (
+                <label
+                  key={pattern}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer text-sm transition-all ${
+                    patterns.includes(pattern) ? 'bg-purple-100 text-purple-800 font-semibold' : 'bg-gray-100 text-gray-600'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={patterns.includes(pattern)}
+                    onChange={() => togglePattern(pattern)}
+                    className="accent-purple-600"
+                  />
+                  {messages.labels.patterns[pattern]}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+          >
+            {messages.common.cancel}
+          </button>
+          <button
+            onClick={() => {
+              onConfirm(patterns);
+              onClose();
+            }}
+            disabled={canChangePatterns && patterns.length === 0}
+            className="flex-1 px-4 py-2 text-white rounded-lg transition-colors font-medium bg-purple-500 hover:bg-purple-600 disabled:opacity-50"
+          >
+            {t.start}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 抽選機モード: 抽選機で出た番号を入力し、確認してから確定する
+interface MachineNumberEntryProps {
+  gameType?: GameType;
+  drawnNumbers: number[];
+  isDrawing: boolean;
+  onSubmit: (number: number) => void;
+}
+
+const MachineNumberEntry: React.FC<MachineNumberEntryProps> = ({
+  gameType = '75ball',
+  drawnNumbers,
+  isDrawing,
+  onSubmit
+}) => {
+  const { locale, messages } = useLocale();
+  const t = messages.hostGame;
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [pendingNumber, setPendingNumber] = useState<number | null>(null);
+
+  const handleCheck = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = parseCalledNumber(input, gameType, drawnNumbers, locale);
+
+    if ('error' in result) {
+      setError(result.error);
+      return;
+    }
+
+    setError(null);
+    setPendingNumber(result.number);
+  };
+
+  const handleConfirm = () => {
+    if (pendingNumber === null) return;
+    onSubmit(pendingNumber);
+    setPendingNumber(null);
+    setInput('');
+  };
+
+  if (pendingNumber !== null) {
+    return (
+      <div className="mt-8 bg-white/20 rounded-xl p-4 border border-white/30 text-center">
+        <p className="text-white/80 text-sm mb-1">{t.confirmMachineNumber}</p>
+        <p className="text-6xl font-bold text-white drop-shadow-lg mb-4">{formatBingoNumber(pendingNumber, gameType)}</p>
+        <div className="flex gap-3">
+          <button
+            onClick={() => setPendingNumber(null)}
+            className="flex-1 py-3 bg-white/20 text-white rounded-lg font-semibold hover:bg-white/30 transition-all border border-white/30"
+          >
+            {t.fixNumber}
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={isDrawing}
+            className="flex-1 py-3 bg-gradient-to-r from-yellow-400 to-orange-500 text-white rounded-lg font-bold hover:from-yellow-500 hover:to-orange-600 shadow-lg transition-all disabled:opacity-50"
+          >
+            {t.confirmAndAnnounce}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleCheck} className="mt-8">
+      <label htmlFor="machineNumber" className="block text-white/80 text-sm mb-2">
+        {t.enterMachineNumber}
+      </label>
+      <div className="flex gap-2">
+        <input
+          id="machineNumber"
+          type="text"
+          inputMode={gameType === '75ball' ? 'text' : 'numeric'}
+          autoComplete="off"
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setError(null);
+          }}
+          placeholder={gameType === '75ball' ? t.machinePlaceholder75 : t.machinePlaceholder}
+          disabled={isDrawing}
+          className="flex-1 px-4 py-3 rounded-xl bg-white/90 text-gray-900 text-2xl font-bold text-center focus:ring-2 focus:ring-yellow-400 focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={isDrawing || !input.trim()}
+          className="px-6 py-3 bg-gradient-to-r from-yellow-400 to-orange-500 text-white rounded-xl font-bold hover:from-yellow-500 hover:to-orange-600 shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t.check}
+        </button>
+      </div>
+      {error && <p className="mt-2 text-sm text-red-200">{error}</p>}
+    </form>
+  );
+};
+
+// 紙のカードの確認: 参加者が伝えたシリアル番号のカードを抽選済みの番号で判定する
+interface PaperCardCheckProps {
+  sessionId: string;
+  accessToken: string;
+  hostId: string;
+  gameType?: GameType;
+  terms?: string[];
+}
+
+const PaperCardCheck: React.FC<PaperCardCheckProps> = ({
+  sessionId,
+  accessToken,
+  hostId,
+  gameType = '75ball',
+  terms
+}) => {
+  const { messages } = useLocale();
+  const t = messages.paperCards;
+  const [serial, setSerial] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<CheckPaperCardResponse | null>(null);
+
+  const handleCheck = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isChecking || !serial.trim()) return;
+
+    setIsChecking(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/paper-cards/check`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ accessToken, hostId, serial })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t.verifyFailed);
+      }
+
+      setResult(await response.json());
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : t.verifyFailed);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const ninetyBallPrize = result?.isBingo && gameType === '90ball'
+    ? getNinetyBallPrize(result.lines.length)
+    : null;
+
+  return (
+    <div>
+      <form onSubmit={handleCheck} className="flex gap-2">
+        <input
+          type="text"
+          autoComplete="off"
+          value={serial}
+          onChange={e => {
+            setSerial(e.target.value);
+            setError(null);
+          }}
+          placeholder={t.serialPlaceholder}
+          aria-label={t.serial}
+          className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-white/90 text-gray-900 font-mono font-bold uppercase focus:ring-2 focus:ring-yellow-400 focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={isChecking || !serial.trim()}
+          className="px-4 py-2 bg-yellow-300/90 text-purple-900 rounded-lg text-sm font-semibold hover:bg-yellow-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isChecking ? t.verifying : t.verify}
+        </button>
+      </form>
+      <p className="mt-2 text-xs text-white/60">{t.verifyHint}</p>
+      {error && <p role="alert" className="mt-2 text-sm text-red-200">{error}</p>}
+
+      {result && (
+        <div role="status" className="mt-4 space-y-2">
+          <p className={`text-lg font-bold ${result.isBingo ? 'text-yellow-200' : 'text-white/80'}`}>
+            {formatPaperCardSerial(result.paperCard.serial)}: {result.isBingo ? t.bingo : t.notBingo}
+          </p>
+          {ninetyBallPrize && (
+            <p className="text-sm text-yellow-100">
+              {formatMessage(t.prize, { prize: messages.labels.ninetyBallPrizes[ninetyBallPrize] })}
+            </p>
+          )}
+          <p className="text-sm text-white/80">
+            {formatMessage(t.markedCount, { count: result.markedNumbers.length, draws: result.drawCount })}
+          </p>
+          <BingoCard
+            board={result.paperCard.card.map(row => row.map(number => ({
+              number,
+              marked: number === 0 || result.markedNumbers.includes(number)
+            })))}
+            gameType={gameType}
+            terms={terms}
+            isInteractive={false}
+            bingoLines={result.lines}
+            showNumbers={false}
+            size="small"
+            label={formatMessage(t.cardLabel, { serial: formatPaperCardSerial(result.paperCard.serial) })}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+// 自動抽選の操作パネル
+interface AutoDrawControlsProps {
+  autoDraw: AutoDrawState | null;
+  remainingSeconds: number | null;
+  isUpdating: boolean;
+  onAction: (action: AutoDrawAction, intervalSeconds?: number) => void;
+}
+
+const AutoDrawControls: React.FC<AutoDrawControlsProps> = ({
+  autoDraw,
+  remainingSeconds,
+  isUpdating,
+  onAction
+}) => {
+  const { messages } = useLocale();
+  const t = messages.hostGame;
+  const [intervalSeconds, setIntervalSeconds] = useState<number>(GAME_CONSTANTS.AUTO_DRAW_DEFAULT_INTERVAL);
+  const isValidInterval = Number.isInteger(intervalSeconds) &&
+    intervalSeconds >= GAME_CONSTANTS.AUTO_DRAW_MIN_INTERVAL &&
+    intervalSeconds <= GAME_CONSTANTS.AUTO_DRAW_MAX_INTERVAL;
+
+  const buttonClass = 'px-3 py-2 rounded-lg text-sm font-semibold text-white transition-all flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center justify-center gap-3 text-white">
+      {!autoDraw ? (
+        <>
+          <label className="flex items-center gap-2 text-sm">
+            <Clock className="w-4 h-4" />
+            {t.autoDraw}
+            <input
+              type="number"
+              min={GAME_CONSTANTS.AUTO_DRAW_MIN_INTERVAL}
+              max={GAME_CONSTANTS.AUTO_DRAW_MAX_INTERVAL}
+              value={Number.isNaN(intervalSeconds) ? '' : intervalSeconds}
+              onChange={(e) => setIntervalSeconds(parseInt(e.target.value, 10))}
+              className="w-16 px-2 py-1 rounded bg-white/20 border border-white/30 text-white text-center"
+            />
+            {t.secondsEach}
+          </label>
+          <button
+            onClick={() => onAction('start', intervalSeconds)}
+            disabled={isUpdating || !isValidInterval}
+            className={`${buttonClass} bg-green-500/80 hover:bg-green-600/80`}
+          >
+            <Play className="w-4 h-4" />
+            {t.startAutoDraw}
+          </button>
+        </>
+      ) : (
+        <>
+          <span className="text-sm">
+            {autoDraw.status === 'running'
+              ? <>{t.nextDrawIn} <span className="text-2xl font-bold tabular-nums">{remainingSeconds ?? '-'}</span> {t.seconds}</>
+              : <>{formatMessage(t.autoDrawPaused, { seconds: Math.ceil((autoDraw.remainingMs ?? 0) / 1000) })}</>}
+            <span className="ml-2 text-white/70">{formatMessage(t.intervalSeconds, { seconds: autoDraw.intervalSeconds })}</span>
+          </span>
+          {autoDraw.status === 'running' ? (
+            <button
+              onClick={() => onAction('pause')}
+              disabled={isUpdating}
+              className={`${buttonClass} bg-yellow-500/80 hover:bg-yellow-600/80`}
+            >
+              <Pause className="w-4 h-4" />
+              {t.pause}
+            </button>
+          ) : (
+            <button
+              onClick={() => onAction('resume')}
+              disabled={isUpdating}
+              className={`${buttonClass} bg-green-500/80 hover:bg-green-600/80`}
+            >
+              <Play className="w-4 h-4" />
+              {t.resume}
+            </button>
+          )}
+          <button
+            onClick={() => onAction('stop')}
+            disabled={isUpdating}
+            className={`${buttonClass} bg-red-500/80 hover:bg-red-600/80`}
+          >
+            <Square className="w-4 h-4" />
+            {t.stop}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
 // Next.js 15対応のためのパラメータ解決
 interface HostGamePageProps {
   params: Promise<{ sessionId: string }>;
@@ -275,6 +832,8 @@ const formatTime = (seconds: number | null): string => {
 
 export default function HostGamePage({ params, searchParams }: HostGamePageProps) {
   const router = useRouter();
+  const { locale, messages } = useLocale();
+  const t = messages.hostGame;
   
   // パラメータとクエリパラメータを解決
   const [sessionId, setSessionId] = useState<string>('');
@@ -300,6 +859,18 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
   // モーダル表示用の状態
   const [showResetModal, setShowResetModal] = useState(false);
   const [showEndModal, setShowEndModal] = useState(false);
+  const [showNextRoundModal, setShowNextRoundModal] = useState(false);
+  const [showVoidModal, setShowVoidModal] = useState(false);
+  const [kickTarget, setKickTarget] = useState<Player | null>(null);
+
+  // 自動抽選の操作中
+  const [isUpdatingAutoDraw, setIsUpdatingAutoDraw] = useState(false);
+
+  // 観戦の設定を変更中
+  const [isUpdatingSpectators, setIsUpdatingSpectators] = useState(false);
+
+  // 確認中のビンゴ申告
+  const [reviewingClaimId, setReviewingClaimId] = useState<string | null>(null);
 
   // 通知用の状態
   const [notifications, setNotifications] = useState<Notification[]>([]);
@@ -322,15 +893,16 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
   }, [params, searchParams]);
 
   // タイマー更新（useGameTimerの代替実装）
+  const expiresAt = state.session?.expiresAt;
   useEffect(() => {
-    if (!state.session?.expiresAt) {
+    if (!expiresAt) {
       setTimeRemaining(null);
       return;
     }
 
     const updateTimer = () => {
       const now = new Date().getTime();
-      const expires = new Date(state.session!.expiresAt).getTime();
+      const expires = new Date(expiresAt).getTime();
       const remaining = Math.max(0, Math.floor((expires - now) / 1000));
       setTimeRemaining(remaining);
     };
@@ -339,10 +911,32 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
     const interval = setInterval(updateTimer, 1000);
 
     return () => clearInterval(interval);
-  }, [state.session?.expiresAt]);
+  }, [expiresAt]);
 
   // Pusher接続
-  const { isConnected, on, off, emit } = usePusherConnection(sessionId || null);
+  const { isConnected, on, off, emit, members } = usePusherConnection(sessionId || null);
+
+  // 自動抽選（予定時刻はサーバーが管理し、このタブがスリープしてもゲストの依頼で抽選される）
+  const { autoDraw, remainingSeconds, applyAutoDraw } = useAutoDrawCountdown({
+    sessionId: sessionId || null,
+    accessToken: accessToken || null,
+    participantId: hostId || null,
+    sessionAutoDraw: state.session?.autoDraw,
+    isConnected,
+    on,
+    off
+  });
+
+  // 番号の読み上げ（大画面表示と二重にならないよう、この画面の設定は別に保存する）
+  const speech = useSpeechCaller({
+    storageKey: 'host',
+    gameType: state.session?.gameType,
+    terms: state.session?.terms,
+    currentNumber: state.currentNumber,
+    isConnected,
+    on,
+    off
+  });
 
   // 通知を追加（バッファリング処理）
   const addNotification = useCallback((type: 'bingo' | 'reach', playerName: string) => {
@@ -405,18 +999,18 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
 
   // 初回ロード
   useEffect(() => {
-    if (!sessionId || !accessToken) return;
+    if (!sessionId || !accessToken || !hostId) return;
 
     const loadSession = async () => {
       try {
-        const data = await getSession(sessionId, accessToken);
+        const data = await getHostSession(sessionId, accessToken, hostId);
         
         setState(prev => ({
           ...prev,
           session: data,
           drawnNumbers: data.numbers || [],
           currentNumber: data.currentNumber,
-          remainingNumbers: Array.from({ length: 75 }, (_, i) => i + 1)
+          remainingNumbers: Array.from({ length: getMaxNumber(data.gameType, data.terms?.length) }, (_, i) => i + 1)
             .filter(n => !(data.numbers || []).includes(n)),
           isLoading: false,
           isExpired: false
@@ -434,13 +1028,13 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
         // 404エラーの場合は期限切れと判定
         const errorMessage = normalizeErrorMessage(error);
         const isExpired = errorMessage.includes('404') || 
-                          errorMessage.includes('見つかりません') ||
-                          errorMessage.includes('not found');
+                          errorMessage === messages.errors[ErrorCode.INVALID_SESSION] ||
+                          errorMessage === messages.errors[ErrorCode.SESSION_EXPIRED];
         
         setState(prev => ({
           ...prev,
           error: isExpired 
-            ? 'セッションが見つかりません。制限時間（2時間）が経過してデータが削除された可能性があります。'
+            ? messages.game.sessionExpired
             : errorMessage,
           isLoading: false,
           isExpired
@@ -449,12 +1043,22 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
     };
 
     loadSession();
-  }, [sessionId, accessToken]);
+  }, [sessionId, accessToken, hostId, messages]);
 
   // Pusherイベントリスナー設定
   useEffect(() => {
     if (!isConnected) return;
 
+    // 申告・操作履歴は配信されないため、それらが変わる操作の後はホスト用のセッションを取得し直す
+    const refreshHostSession = async () => {
+      try {
+        const data = await getHostSession(sessionId, accessToken, hostId);
+        setState(prev => ({ ...prev, session: data }));
+      } catch (error) {
+        console.error('セッション情報の再取得に失敗:', error);
+      }
+    };
+
     const handleNumberDrawn = (data: NumberDrawnEventData) => {
       setState(prev => ({
         ...prev,
@@ -467,7 +1071,7 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
 
     const handlePlayerBingo = (data: PlayerBingoEventData) => {
       const playerId = data.player?.id;
-      const playerName = data.player?.name || '不明';
+      const playerName = data.player?.name || t.unknownPlayer;
 
       // 初めてビンゴ通知するプレイヤーのみ通知
       if (playerId && !notifiedBingoPlayersRef.current.has(playerId)) {
@@ -498,28 +1102,109 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
       }
     };
 
+    // 配信されるセッションにはホスト用の項目が含まれないため、取得済みのセッションに重ねる
     const handleSessionUpdated = (data: SessionUpdatedEventData) => {
       setState(prev => ({
         ...prev,
-        session: data.session
+        session: prev.session && { ...prev.session, ...data.session }
+      }));
+    };
+
+    // 申告結果を履歴に反映（ホストが確認した申告は同じIDで置き換える）
+    const handleClaimResult = (data: ClaimResultEventData) => {
+      setState(prev => {
+        if (!prev.session) return prev;
+        const claims = prev.session.claims || [];
+        const exists = claims.some(c => c.id === data.claim.id);
+
+        return {
+          ...prev,
+          session: {
+            ...prev.session,
+            claims: exists
+              ? claims.map(c => (c.id === data.claim.id ? data.claim : c))
+              : [...claims, data.claim],
+            players: prev.session.players.map(p =>
+              p.id === data.claim.playerId && data.lockedUntilDraw !== undefined
+                ? { ...p, lockedUntilDraw: data.lockedUntilDraw }
+                : p
+            )
+          }
+        };
+      });
+    };
+
+    // 賞の確定（同着の追加時も同じ賞が再送される）
+    const handlePrizeWon = (data: PrizeWonEventData) => {
+      const { award } = data;
+
+      setNotifications(prev => [
+        ...prev.filter(n => n.id !== `prize-${award.tierId}`),
+        {
+          id: `prize-${award.tierId}`,
+          type: 'prize',
+          playerNames: award.winners.map(w => w.playerName),
+          prizeLabel: award.label,
+          timestamp: Date.now()
+        }
+      ]);
+
+      setState(prev => {
+        if (!prev.session) return prev;
+        const awards = prev.session.prizeAwards || [];
+
+        return {
+          ...prev,
+          session: {
+            ...prev.session,
+            prizeAwards: awards.some(a => a.tierId === award.tierId)
+              ? awards.map(a => (a.tierId === award.tierId ? award : a))
+              : [...awards, award]
+          }
+        };
+      });
+    };
+
+    // 抽選の取り消し（ビンゴ・賞は訂正済みのセッションに、申告は取得し直したセッションで置き換える）
+    const handleNumberVoided = (data: NumberVoidedEventData) => {
+      // ビンゴが取り消されたプレイヤーは、再びビンゴした時に通知する
+      data.cancelledPlayerIds.forEach(id => notifiedBingoPlayersRef.current.delete(id));
+
+      setState(prev => ({
+        ...prev,
+        session: prev.session && { ...prev.session, ...data.session },
+        drawnNumbers: data.drawnNumbers,
+        currentNumber: data.currentNumber,
+        remainingNumbers: prev.remainingNumbers.includes(data.number)
+          ? prev.remainingNumbers
+          : [...prev.remainingNumbers, data.number].sort((a, b) => a - b)
       }));
+      refreshHostSession();
     };
 
     on('number-drawn', handleNumberDrawn);
+    on('number-voided', handleNumberVoided);
+    on('player-kicked', refreshHostSession);
     on('player-bingo', handlePlayerBingo);
     on('player-reach', handlePlayerReach);
     on('session-updated', handleSessionUpdated);
+    on('claim-result', handleClaimResult);
+    on('prize-won', handlePrizeWon);
 
     return () => {
       off('number-drawn', handleNumberDrawn);
+      off('number-voided', handleNumberVoided);
+      off('player-kicked', refreshHostSession);
       off('player-bingo', handlePlayerBingo);
       off('player-reach', handlePlayerReach);
       off('session-updated', handleSessionUpdated);
+      off('claim-result', handleClaimResult);
+      off('prize-won', handlePrizeWon);
     };
-  }, [isConnected, on, off, addNotification]);
+  }, [isConnected, sessionId, accessToken, hostId, on, off, addNotification, t]);
 
-  // 番号を引く
-  const handleDrawNumber = useCallback(async () => {
+  // 番号を引く（ワードビンゴではコールする用語のインデックスを指定）
+  const handleDrawNumber = useCallback(async (number?: number) => {
     if (state.remainingNumbers.length === 0 || state.isDrawing || !sessionId || !accessToken) return;
     
     setState(prev => ({ ...prev, isDrawing: true }));
@@ -532,28 +1217,182 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
         },
         body: JSON.stringify({
           accessToken,
-          hostId
+          hostId,
+          ...(number !== undefined && { number })
         })
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || '番号の抽選に失敗しました');
+        throw new Error(errorData.error || t.drawFailed);
       }
 
       const data: DrawNumberResponse = await response.json();
       
       if (!data.success) {
-        throw new Error(data.message || '番号の抽選に失敗しました');
+        throw new Error(data.message || t.drawFailed);
       }
     } catch (error) {
       setState(prev => ({
         ...prev,
         isDrawing: false,
-        error: error instanceof Error ? error.message : '番号の抽選に失敗しました'
+        error: error instanceof Error ? error.message : t.drawFailed
+      }));
+    }
+  }, [state.remainingNumbers.length, state.isDrawing, sessionId, accessToken, hostId, t]);
+
+  // 自動抽選の開始・一時停止・再開・停止
+  const handleAutoDraw = useCallback(async (action: AutoDrawAction, intervalSeconds?: number) => {
+    if (!sessionId || !accessToken || isUpdatingAutoDraw) return;
+
+    setIsUpdatingAutoDraw(true);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/auto-draw`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          accessToken,
+          hostId,
+          action,
+          ...(intervalSeconds !== undefined && { intervalSeconds })
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t.autoDrawFailed);
+      }
+
+      const data: AutoDrawResponse = await response.json();
+      applyAutoDraw(data.autoDraw, data.serverTime);
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : t.autoDrawFailed
       }));
+    } finally {
+      setIsUpdatingAutoDraw(false);
     }
-  }, [state.remainingNumbers.length, state.isDrawing, sessionId, accessToken, hostId]);
+  }, [sessionId, accessToken, hostId, isUpdatingAutoDraw, applyAutoDraw, t]);
+
+  // 観戦の許可・停止
+  const handleToggleSpectators = useCallback(async (enabled: boolean) => {
+    if (!sessionId || !accessToken || isUpdatingSpectators) return;
+
+    setIsUpdatingSpectators(true);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/spectators`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ accessToken, hostId, enabled })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t.spectatorsFailed);
+      }
+
+      const data: SpectatorSettingsResponse = await response.json();
+      setState(prev => ({
+        ...prev,
+        session: prev.session?.rules ? {
+          ...prev.session,
+          rules: { ...prev.session.rules, allowSpectators: data.allowSpectators }
+        } : prev.session
+      }));
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : t.spectatorsFailed
+      }));
+    } finally {
+      setIsUpdatingSpectators(false);
+    }
+  }, [sessionId, accessToken, hostId, isUpdatingSpectators, t]);
+
+  // 直前の抽選を取り消す
+  const handleVoidLastDraw = useCallback(async () => {
+    const lastNumber = state.drawnNumbers[state.drawnNumbers.length - 1];
+    if (lastNumber === undefined || state.isDrawing || !sessionId || !accessToken) return;
+
+    setState(prev => ({ ...prev, isDrawing: true }));
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/draw/void`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          accessToken,
+          hostId,
+          number: lastNumber
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t.voidFailed);
+      }
+
+      const data: VoidDrawResponse = await response.json();
+
+      setState(prev => ({
+        ...prev,
+        isDrawing: false,
+        drawnNumbers: data.drawnNumbers,
+        currentNumber: data.currentNumber,
+        remainingNumbers: prev.remainingNumbers.includes(data.number)
+          ? prev.remainingNumbers
+          : [...prev.remainingNumbers, data.number].sort((a, b) => a - b)
+      }));
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        isDrawing: false,
+        error: error instanceof Error ? error.message : t.voidFailed
+      }));
+    }
+  }, [state.drawnNumbers, state.isDrawing, sessionId, accessToken, hostId, t]);
+
+  // ビンゴ申告の承認・却下
+  const handleReviewClaim = useCallback(async (claimId: string, action: ClaimReviewAction) => {
+    if (!sessionId || !accessToken || reviewingClaimId) return;
+
+    setReviewingClaimId(claimId);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/claims/${claimId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          accessToken,
+          hostId,
+          action
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t.reviewFailed);
+      }
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : t.reviewFailed
+      }));
+    } finally {
+      setReviewingClaimId(null);
+    }
+  }, [sessionId, accessToken, hostId, reviewingClaimId, t]);
 
   // ゲームリセット
   const handleResetGame = useCallback(async () => {
@@ -572,7 +1411,7 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
       });
 
       if (!response.ok) {
-        throw new Error('ゲームリセットに失敗しました');
+        throw new Error(t.resetFailed);
       }
 
       // 通知と通知済みプレイヤーをクリア
@@ -580,27 +1419,85 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
       notifiedBingoPlayersRef.current.clear();
       notifiedReachPlayersRef.current.clear();
 
-      const allNumbers = Array.from({ length: 75 }, (_, i) => i + 1);
       setState(prev => ({
         ...prev,
         drawnNumbers: [],
         currentNumber: null,
-        remainingNumbers: allNumbers,
+        remainingNumbers: Array.from(
+          { length: getMaxNumber(prev.session?.gameType, prev.session?.terms?.length) },
+          (_, i) => i + 1
+        ),
         session: prev.session ? {
           ...prev.session,
           status: 'playing',
           numbers: [],
           currentNumber: null,
-          players: prev.session.players.map(p => ({ ...p, bingoCount: 0, bingoAchievedAt: undefined }))
+          claims: [],
+          prizeAwards: [],
+          autoDraw: undefined,
+          players: prev.session.players.map(p => ({
+            ...p,
+            bingoCount: 0,
+            bingoAchievedAt: undefined,
+            falseClaimCount: 0,
+            lockedUntilDraw: undefined
+          }))
         } : null
       }));
     } catch {
       setState(prev => ({
         ...prev,
-        error: 'ゲームリセットに失敗しました'
+        error: t.resetFailed
       }));
     }
-  }, [isConnected, sessionId, accessToken, hostId]);
+  }, [isConnected, sessionId, accessToken, hostId, t]);
+
+  // 次のラウンドを開始（同じ参加者に新しいカードを配る）
+  const handleStartNextRound = useCallback(async (patterns: BingoPattern[]) => {
+    if (!isConnected || !sessionId) return;
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/rounds`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          accessToken,
+          hostId,
+          ...(state.session?.gameType !== '90ball' && { patterns })
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t.nextRoundFailed);
+      }
+
+      const data: StartRoundResponse = await response.json();
+
+      // 通知と通知済みプレイヤーをクリア
+      setNotifications([]);
+      notifiedBingoPlayersRef.current.clear();
+      notifiedReachPlayersRef.current.clear();
+
+      setState(prev => ({
+        ...prev,
+        session: data.session,
+        drawnNumbers: [],
+        currentNumber: null,
+        remainingNumbers: Array.from(
+          { length: getMaxNumber(data.session.gameType, data.session.terms?.length) },
+          (_, i) => i + 1
+        )
+      }));
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : t.nextRoundFailed
+      }));
+    }
+  }, [isConnected, sessionId, accessToken, hostId, state.session?.gameType, t]);
 
   // ゲーム終了
   const handleEndGame = useCallback(async () => {
@@ -612,15 +1509,15 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
     } catch {
       setState(prev => ({
         ...prev,
-        error: 'ゲーム終了処理に失敗しました'
+        error: t.endFailed
       }));
     }
-  }, [isConnected, sessionId, emit, router]);
+  }, [isConnected, sessionId, emit, router, t]);
 
   if (state.isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-pink-500 via-purple-500 to-indigo-600">
-        <div className="text-white text-2xl animate-pulse">ゲーム情報を読み込み中...</div>
+        <div className="text-white text-2xl animate-pulse">{t.loading}</div>
       </div>
     );
   }
@@ -632,9 +1529,9 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
           {state.isExpired ? (
             <>
               <Timer className="w-12 h-12 text-orange-500 mx-auto mb-4" />
-              <h2 className="text-xl font-bold text-gray-800 text-center mb-2">セッション期限切れ</h2>
+              <h2 className="text-xl font-bold text-gray-800 text-center mb-2">{messages.game.sessionExpiredTitle}</h2>
               <p className="text-gray-600 text-center mb-6">
-                制限時間（2時間）が経過したため、ゲームデータが削除されました。
+                {messages.game.sessionExpiredDescription}
               </p>
             </>
           ) : (
@@ -647,7 +1544,7 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
             onClick={() => router.push('/')}
             className="w-full px-6 py-3 bg-gradient-to-r from-purple-600 to-pink-600 text-white rounded-lg font-semibold hover:opacity-90 transition-all"
           >
-            トップページへ戻る
+            {messages.common.backToTop}
           </button>
         </div>
       </div>
@@ -664,6 +1561,38 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
   // 全参加者リスト
   const allPlayers = state.session?.players || [];
 
+  // 接続中の観戦者（プレゼンスチャンネルのobserver）
+  const spectatorCount = Array.from(members.values()).filter(member => member.role === 'observer').length;
+  const allowSpectators = state.session?.rules?.allowSpectators === true;
+
+  // ワードビンゴはホストが出た用語を選んでコールする
+  const isWords = state.session?.gameType === 'words';
+
+  // 抽選機モードはホストが抽選機で出た番号を入力する
+  const isMachine = resolveDrawMode(state.session?.rules, state.session?.gameType) === 'machine';
+
+  // 取り消し確認用の直前の番号
+  const lastDrawn = state.drawnNumbers[state.drawnNumbers.length - 1];
+  const lastDrawnLabel = lastDrawn === undefined
+    ? ''
+    : isWords
+      ? formatMessage(messages.game.quotedTerm, { term: getTermLabel(state.session?.terms, lastDrawn) })
+      : formatMessage(t.numberLabel, { number: formatBingoNumber(lastDrawn, state.session?.gameType) });
+
+  // 複数ラウンドの通算順位（2ラウンド目以降に表示）
+  const currentRound = state.session ? getCurrentRoundNumber(state.session) : 1;
+  const standings = state.session && currentRound > 1
+    ? calculateStandings(getAllRounds(state.session), allPlayers)
+    : [];
+
+  // 共同ホストは権限のある操作だけを表示する（外された場合はすべて操作できない）
+  const actorId = getActorIdFromCredential(hostId);
+  const hostRole = getHostRole(state.session, actorId);
+  const coHost = findCoHost(state.session, actorId);
+  const canDraw = hasHostPermission(state.session, actorId, 'draw');
+  const canManageGame = hasHostPermission(state.session, actorId, 'manage-game');
+  const canModeratePlayers = hasHostPermission(state.session, actorId, 'moderate-players');
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-pink-500 via-purple-500 to-indigo-600 p-4">
       {/* 通知表示 */}
@@ -679,34 +1608,96 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
             <div>
               <h1 className="text-3xl font-bold text-white drop-shadow-lg mb-2">
                 {state.session?.gameName}
+                {currentRound > 1 && (
+                  <span className="ml-3 align-middle px-3 py-1 bg-purple-400/40 text-white rounded-full text-base font-semibold">
+                    {formatMessage(messages.common.roundNumber, { round: currentRound })}
+                  </span>
+                )}
+                {coHost && (
+                  <span className="ml-3 align-middle px-3 py-1 bg-white/20 text-white rounded-full text-base font-semibold">
+                    {t.coHost}: {coHost.name}
+                  </span>
+                )}
               </h1>
+              {!hostRole && (
+                <p role="alert" className="mb-2 px-3 py-2 bg-red-500/40 text-white rounded-lg text-sm">
+                  {t.coHostRemoved}
+                </p>
+              )}
               <div className="flex items-center gap-4 text-white/90">
                 <div className="flex items-center gap-2">
                   <Users className="w-5 h-5" />
-                  <span>{state.session?.players.length || 0}名参加中</span>
+                  <span>{formatMessage(messages.game.playersJoined, { count: state.session?.players.length || 0 })}</span>
                 </div>
                 <div className="flex items-center gap-2">
                   <Timer className="w-5 h-5" />
                   <span>{formatTime(timeRemaining)}</span>
                 </div>
               </div>
+              <div className="flex flex-wrap gap-2 mt-2">
+                {(state.session?.gameType === '90ball'
+                  ? Object.values(messages.labels.ninetyBallPrizes)
+                  : resolvePatterns(state.session?.rules).map(pattern => messages.labels.patterns[pattern])
+                ).map(label => (
+                  <span
+                    key={label}
+                    className="px-2 py-1 bg-yellow-400/30 text-yellow-100 rounded-full text-xs font-medium"
+                  >
+                    {label}
+                  </span>
+                ))}
+              </div>
             </div>
             
-            <div className="flex gap-2">
-              <button
-                onClick={() => setShowResetModal(true)}
+            <div className="flex items-center gap-2">
+              <LocaleSwitcher />
+              {/* プロジェクター用の表示を別タブで開く（このタブで操作を続けられる） */}
+              <a
+                href={`/host/present/${sessionId}?token=${accessToken}&hostId=${hostId}`}
+                target="_blank"
+                rel="noopener noreferrer"
                 className="px-3 py-2 bg-white/20 backdrop-blur-sm text-white rounded-lg hover:bg-white/30 transition-all flex items-center gap-1 border border-white/30"
               >
-                <RefreshCw className="w-5 h-5" />
-                <span className="hidden sm:inline text-sm">リセット</span>
-              </button>
-              <button
-                onClick={() => setShowEndModal(true)}
-                className="px-3 py-2 bg-red-500/80 backdrop-blur-sm text-white rounded-lg hover:bg-red-600/80 transition-all flex items-center gap-1"
-              >
-                <XCircle className="w-5 h-5" />
-                <span className="hidden sm:inline text-sm">終了</span>
-              </button>
+                <Monitor className="w-5 h-5" />
+                <span className="hidden sm:inline text-sm">{t.presentation}</span>
+              </a>
+              {canModeratePlayers && (
+                <a
+                  href={`/host/print/${sessionId}?token=${accessToken}&hostId=${hostId}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="px-3 py-2 bg-white/20 backdrop-blur-sm text-white rounded-lg hover:bg-white/30 transition-all flex items-center gap-1 border border-white/30"
+                >
+                  <Printer className="w-5 h-5" />
+                  <span className="hidden sm:inline text-sm">{t.paperCards}</span>
+                </a>
+              )}
+              {canManageGame && (
+                <>
+                  <button
+                    onClick={() => setShowNextRoundModal(true)}
+                    disabled={state.drawnNumbers.length === 0}
+                    className="px-3 py-2 bg-purple-500/80 backdrop-blur-sm text-white rounded-lg hover:bg-purple-600/80 transition-all flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <SkipForward className="w-5 h-5" />
+                    <span className="hidden sm:inline text-sm">{t.nextRound}</span>
+                  </button>
+                  <button
+                    onClick={() => setShowResetModal(true)}
+                    className="px-3 py-2 bg-white/20 backdrop-blur-sm text-white rounded-lg hover:bg-white/30 transition-all flex items-center gap-1 border border-white/30"
+                  >
+                    <RefreshCw className="w-5 h-5" />
+                    <span className="hidden sm:inline text-sm">{t.reset}</span>
+                  </button>
+                  <button
+                    onClick={() => setShowEndModal(true)}
+                    className="px-3 py-2 bg-red-500/80 backdrop-blur-sm text-white rounded-lg hover:bg-red-600/80 transition-all flex items-center gap-1"
+                  >
+                    <XCircle className="w-5 h-5" />
+                    <span className="hidden sm:inline text-sm">{t.end}</span>
+                  </button>
+                </>
+              )}
             </div>
           </div>
         </div>
@@ -719,59 +1710,138 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
               <div className="text-center">
                 {state.currentNumber ? (
                   <>
-                    <p className="text-white/80 text-lg mb-2">現在の番号</p>
-                    <div className="text-8xl font-bold text-white drop-shadow-lg">
-                      {state.currentNumber}
+                    <p className="text-white/80 text-lg mb-2">{isWords ? messages.game.currentTerm : messages.game.currentNumber}</p>
+                    <div className={`font-bold text-white drop-shadow-lg ${isWords ? 'text-5xl break-all' : 'text-8xl'}`}>
+                      {isWords ? getTermLabel(state.session?.terms, state.currentNumber) : state.currentNumber}
                     </div>
                   </>
                 ) : (
-                  <p className="text-white/60 text-xl">まだ番号が引かれていません</p>
+                  <p className="text-white/60 text-xl">{isWords ? messages.game.noTermsYet : messages.game.noNumbersYet}</p>
                 )}
               </div>
+
+              {/* ワードビンゴ: 未コールの用語一覧 */}
+              {canDraw && isWords && state.remainingNumbers.length > 0 && (
+                <div className="mt-6">
+                  <p className="text-white/80 text-sm mb-2">{t.tapTermToCall}</p>
+                  <div className="flex flex-wrap gap-2 max-h-64 overflow-y-auto">
+                    {state.remainingNumbers.map(num => (
+                      <button
+                        key={num}
+                        onClick={() => handleDrawNumber(num)}
+                        disabled={state.isDrawing}
+                        className="px-3 py-1 bg-white/20 text-white text-sm rounded-full border border-white/30 hover:bg-yellow-400/40 transition-all disabled:opacity-50"
+                      >
+                        {getTermLabel(state.session?.terms, num)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
               
-              <button
-                onClick={handleDrawNumber}
-                disabled={state.isDrawing || state.remainingNumbers.length === 0}
-                className={`
-                  w-full mt-8 py-4 px-8 rounded-xl font-bold text-lg transition-all transform hover:scale-105
-                  ${state.isDrawing || state.remainingNumbers.length === 0
-                    ? 'bg-gray-500 text-gray-300 cursor-not-allowed'
-                    : 'bg-gradient-to-r from-yellow-400 to-orange-500 text-white hover:from-yellow-500 hover:to-orange-600 shadow-lg'
-                  }
-                `}
-              >
-                {state.isDrawing ? (
-                  <span className="flex items-center justify-center gap-2">
-                    <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent" />
-                    抽選中...
-                  </span>
-                ) : state.remainingNumbers.length === 0 ? (
-                  'すべての番号を引きました'
+              {!canDraw ? null : isMachine ? (
+                state.remainingNumbers.length > 0 ? (
+                  <MachineNumberEntry
+                    gameType={state.session?.gameType}
+                    drawnNumbers={state.drawnNumbers}
+                    isDrawing={state.isDrawing}
+                    onSubmit={handleDrawNumber}
+                  />
                 ) : (
-                  <span className="flex items-center justify-center gap-2">
-                    <Sparkles className="w-5 h-5" />
-                    番号を引く（残り {state.remainingNumbers.length} 個）
-                  </span>
-                )}
-              </button>
+                  <p className="mt-8 text-center text-white/80">{t.allNumbersDrawn}</p>
+                )
+              ) : (
+                <button
+                  onClick={() => handleDrawNumber()}
+                  disabled={state.isDrawing || state.remainingNumbers.length === 0}
+                  className={`
+                    w-full mt-8 py-4 px-8 rounded-xl font-bold text-lg transition-all transform hover:scale-105
+                    ${state.isDrawing || state.remainingNumbers.length === 0
+                      ? 'bg-gray-500 text-gray-300 cursor-not-allowed'
+                      : 'bg-gradient-to-r from-yellow-400 to-orange-500 text-white hover:from-yellow-500 hover:to-orange-600 shadow-lg'
+                    }
+                  `}
+                >
+                  {state.isDrawing ? (
+                    <span className="flex items-center justify-center gap-2">
+                      <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent" />
+                      {t.drawing}
+                    </span>
+                  ) : state.remainingNumbers.length === 0 ? (
+                    isWords ? t.allTermsCalled : t.allNumbersDrawn
+                  ) : (
+                    <span className="flex items-center justify-center gap-2">
+                      <Sparkles className="w-5 h-5" />
+                      {isWords
+                        ? formatMessage(t.callRandomTerm, { count: state.remainingNumbers.length })
+                        : formatMessage(t.drawNumber, { count: state.remainingNumbers.length })}
+                    </span>
+                  )}
+                </button>
+              )}
+
+              {canDraw && !isMachine && state.remainingNumbers.length > 0 && (
+                <AutoDrawControls
+                  autoDraw={autoDraw}
+                  remainingSeconds={remainingSeconds}
+                  isUpdating={isUpdatingAutoDraw}
+                  onAction={handleAutoDraw}
+                />
+              )}
             </div>
 
             {/* 番号履歴 */}
             <div className="bg-white/10 backdrop-blur-md rounded-2xl shadow-2xl p-6 border border-white/20">
-              <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
-                <Play className="w-5 h-5" />
-                抽選済み番号 ({state.drawnNumbers.length}/75)
-              </h3>
-              <NumberHistory numbers={state.drawnNumbers} />
+              <div className="flex items-center justify-between gap-2 mb-4">
+                <h3 className="text-xl font-bold text-white flex items-center gap-2">
+                  <Play className="w-5 h-5" />
+                  {isWords ? t.calledTerms : t.drawnNumbers} ({state.drawnNumbers.length}/{getMaxNumber(state.session?.gameType, state.session?.terms?.length)})
+                </h3>
+                {canDraw && (
+                  <button
+                    onClick={() => setShowVoidModal(true)}
+                    disabled={state.drawnNumbers.length === 0 || state.isDrawing}
+                    className="px-3 py-1 bg-white/20 text-white rounded-lg text-sm hover:bg-white/30 transition-all flex items-center gap-1 border border-white/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Undo2 className="w-4 h-4" />
+                    {t.voidLastDraw}
+                  </button>
+                )}
+              </div>
+              <NumberHistory
+                numbers={state.drawnNumbers}
+                gameType={state.session?.gameType}
+                terms={state.session?.terms}
+              />
             </div>
           </div>
 
           {/* サイドバー（ランキング） */}
           <div className="space-y-6">
+            {/* 確認待ちのビンゴ申告（ホスト確認時） */}
+            {canModeratePlayers && resolveHostAdjudication(state.session?.rules) && (
+              <div className="bg-white/10 backdrop-blur-md rounded-2xl shadow-2xl p-6 border border-white/20">
+                <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+                  <Trophy className="w-5 h-5 text-yellow-400" />
+                  {t.bingoCheck}
+                </h3>
+                <ClaimQueue
+                  claims={state.session?.claims || []}
+                  players={state.session?.players || []}
+                  drawnNumbers={state.drawnNumbers}
+                  gameType={state.session?.gameType}
+                  terms={state.session?.terms}
+                  patterns={resolvePatterns(state.session?.rules)}
+                  reviewingClaimId={reviewingClaimId}
+                  onReview={handleReviewClaim}
+                />
+              </div>
+            )}
+
             <div className="bg-white/10 backdrop-blur-md rounded-2xl shadow-2xl p-6 border border-white/20">
               <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
                 <Crown className="w-5 h-5 text-yellow-400" />
-                ビンゴ達成者
+                {messages.game.bingoWinners}
               </h3>
               <div className="space-y-3">
                 {rankedPlayers.length > 0 ? (
@@ -783,16 +1853,165 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
                     />
                   ))
                 ) : (
-                  <p className="text-white/60 text-center py-4">まだビンゴ達成者はいません</p>
+                  <p className="text-white/60 text-center py-4">{messages.game.noBingoWinners}</p>
                 )}
               </div>
             </div>
 
+            {/* 番号の読み上げ */}
+            <div className="bg-white/10 backdrop-blur-md rounded-2xl shadow-2xl p-6 border border-white/20">
+              <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+                <Volume2 className="w-5 h-5" />
+                {t.speech}
+              </h3>
+              <SpeechSettingsPanel
+                settings={speech.settings}
+                onChange={speech.updateSettings}
+                onRepeat={speech.repeat}
+                canRepeat={state.currentNumber !== null}
+                isSupported={speech.isSupported}
+                gameType={state.session?.gameType}
+              />
+            </div>
+
+            {/* 観戦 */}
+            <div className="bg-white/10 backdrop-blur-md rounded-2xl shadow-2xl p-6 border border-white/20">
+              <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+                <Eye className="w-5 h-5" />
+                {t.spectators}
+              </h3>
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-white">
+                  {allowSpectators ? (
+                    <>{t.spectatorsWatching} <span className="font-bold text-yellow-200">{spectatorCount}</span>{t.spectatorsUnit}</>
+                  ) : (
+                    <span className="text-white/70">{t.spectatorsClosed}</span>
+                  )}
+                </p>
+                {canManageGame && (
+                  <button
+                    onClick={() => handleToggleSpectators(!allowSpectators)}
+                    disabled={isUpdatingSpectators}
+                    className={`px-4 py-2 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50 ${
+                      allowSpectators
+                        ? 'bg-white/20 text-white hover:bg-white/30 border border-white/30'
+                        : 'bg-yellow-300/90 text-purple-900 hover:bg-yellow-300'
+                    }`}
+                  >
+                    {allowSpectators ? t.stopSpectators : t.allowSpectators}
+                  </button>
+                )}
+              </div>
+              {allowSpectators && (
+                <p className="mt-2 text-xs text-white/60">{t.spectateHint}</p>
+              )}
+            </div>
+
+            {/* 紙のカードの確認 */}
+            {canModeratePlayers && (
+              <div className="bg-white/10 backdrop-blur-md rounded-2xl shadow-2xl p-6 border border-white/20">
+                <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+                  <Printer className="w-5 h-5" />
+                  {messages.paperCards.verifyTitle}
+                </h3>
+                <PaperCardCheck
+                  sessionId={sessionId}
+                  accessToken={accessToken}
+                  hostId={hostId}
+                  gameType={state.session?.gameType}
+                  terms={state.session?.terms}
+                />
+              </div>
+            )}
+
+            {/* 共同ホスト（招待・削除はメインのホストのみ） */}
+            {hostRole === 'host' && state.session && (
+              <div className="bg-white/10 backdrop-blur-md rounded-2xl shadow-2xl p-6 border border-white/20">
+                <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+                  <UserCog className="w-5 h-5" />
+                  {messages.coHosts.title}
+                </h3>
+                <CoHostPanel
+                  sessionId={sessionId}
+                  accessToken={accessToken}
+                  hostId={hostId}
+                  coHosts={state.session.coHosts || []}
+                />
+              </div>
+            )}
+
+            {/* 段階ごとの賞 */}
+            {(state.session?.rules?.prizeTiers?.length ?? 0) > 0 && (
+              <div className="bg-white/10 backdrop-blur-md rounded-2xl shadow-2xl p-6 border border-white/20">
+                <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+                  <Award className="w-5 h-5 text-yellow-400" />
+                  {t.prizes}
+                </h3>
+                <PrizeWinners
+                  tiers={state.session?.rules?.prizeTiers || []}
+                  awards={state.session?.prizeAwards || []}
+                  terms={state.session?.terms}
+                  gameType={state.session?.gameType}
+                  inProgress
+                />
+              </div>
+            )}
+
+            {/* 通算順位（2ラウンド目以降） */}
+            {standings.length > 0 && (
+              <div className="bg-white/10 backdrop-blur-md rounded-2xl shadow-2xl p-6 border border-white/20">
+                <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+                  <ListOrdered className="w-5 h-5 text-yellow-400" />
+                  {t.totalPoints}
+                </h3>
+                <div className="space-y-2">
+                  {standings.slice(0, 10).map(entry => (
+                    <div key={entry.playerId} className="flex items-center justify-between bg-white/20 rounded-lg px-3 py-2 text-white">
+                      <span className="truncate">
+                        <span className="font-bold mr-2">{formatMessage(messages.common.rank, { rank: entry.rank })}</span>
+                        {entry.playerName}
+                      </span>
+                      <span className="font-bold text-yellow-200">{entry.totalPoints}pt</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* 申告履歴（手動マーク・ホスト確認時） */}
+            {(resolveDaubMode(state.session?.rules) === 'manual' || resolveHostAdjudication(state.session?.rules)) && (
+              <div className="bg-white/10 backdrop-blur-md rounded-2xl shadow-2xl p-6 border border-white/20">
+                <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+                  <AlertCircle className="w-5 h-5" />
+                  {t.claims}
+                </h3>
+                <ClaimHistory claims={state.session?.claims || []} />
+              </div>
+            )}
+
+            {/* 操作履歴（抽選の取り消しなど） */}
+            {(state.session?.auditLog?.length ?? 0) > 0 && (
+              <div className="bg-white/10 backdrop-blur-md rounded-2xl shadow-2xl p-6 border border-white/20">
+                <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+                  <History className="w-5 h-5" />
+                  {t.auditLog}
+                </h3>
+                <ul className="space-y-2 max-h-60 overflow-y-auto text-sm">
+                  {[...state.session!.auditLog!].reverse().map(entry => (
+                    <li key={entry.id} className="bg-white/20 rounded-lg px-3 py-2 text-white">
+                      <p>{entry.message}</p>
+                      <p className="text-xs text-white/60 mt-1">{new Date(entry.createdAt).toLocaleTimeString(LOCALE_TAGS[locale])}</p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* 参加者一覧 */}
             <div className="bg-white/10 backdrop-blur-md rounded-2xl shadow-2xl p-6 border border-white/20">
               <h3 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
                 <Users className="w-5 h-5" />
-                参加者
+                {t.players}
               </h3>
               <div className="space-y-3">
                 {allPlayers.length > 0 ? (
@@ -800,10 +2019,11 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
                     <PlayerCard
                       key={player.id}
                       player={player}
+                      onKick={canModeratePlayers ? setKickTarget : undefined}
                     />
                   ))
                 ) : (
-                  <p className="text-white/60 text-center py-4">参加者がいません</p>
+                  <p className="text-white/60 text-center py-4">{t.noPlayers}</p>
                 )}
               </div>
             </div>
@@ -816,9 +2036,9 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
         isOpen={showResetModal}
         onClose={() => setShowResetModal(false)}
         onConfirm={handleResetGame}
-        title="ゲームをリセット"
-        message="抽選済みの番号とビンゴカードがすべてリセットされます。この操作は取り消せません。"
-        confirmText="リセットする"
+        title={t.resetTitle}
+        message={t.resetMessage}
+        confirmText={t.resetConfirm}
         confirmColor="orange"
       />
       
@@ -826,12 +2046,42 @@ export default function HostGamePage({ params, searchParams }: HostGamePageProps
         isOpen={showEndModal}
         onClose={() => setShowEndModal(false)}
         onConfirm={handleEndGame}
-        title="ゲームを終了"
-        message="ゲームを終了して結果画面に移動します。よろしいですか？"
-        confirmText="終了する"
+        title={t.endTitle}
+        message={t.endMessage}
+        confirmText={t.endConfirm}
         confirmColor="red"
       />
 
+      <ConfirmModal
+        isOpen={showVoidModal}
+        onClose={() => setShowVoidModal(false)}
+        onConfirm={handleVoidLastDraw}
+        title={t.voidLastDraw}
+        message={formatMessage(t.voidMessage, { label: lastDrawnLabel })}
+        confirmText={t.voidConfirm}
+        confirmColor="orange"
+      />
+
+      {kickTarget && (
+        <KickPlayerModal
+          sessionId={sessionId}
+          accessToken={accessToken}
+          hostId={hostId}
+          player={kickTarget}
+          onClose={() => setKickTarget(null)}
+        />
+      )}
+
+      {showNextRoundModal && (
+        <NextRoundModal
+          onClose={() => setShowNextRoundModal(false)}
+          onConfirm={handleStartNextRound}
+          nextRoundNumber={currentRound + 1}
+          currentPatterns={resolvePatterns(state.session?.rules)}
+          canChangePatterns={state.session?.gameType !== '90ball'}
+        />
+      )}
+
       {/* アニメーション用のスタイル */}
       <style jsx>{`
         @keyframes slide-down {
@@ -0,0 +1,484 @@
+// app/host/present/[sessionId]/page.tsx
+// プロジェクター・大画面用の表示（操作ボタンなし）
+//
+// 抽選はホストのスマートフォンや別のタブで行い、この画面はPusherでセッションに追従する
+// 番号の読み上げはキーボード（S: オン・オフ / R: もう一度）、表示テーマは T で切り替える
+'use client';
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import Image from 'next/image';
+import QRCode from 'qrcode';
+import { Users, Volume2 } from 'lucide-react';
+import { usePusherConnection } from '@/hooks/usePusherConnection';
+import { useSpeechCaller } from '@/hooks/useSpeechCaller';
+import { useCardTheme } from '@/hooks/useCardTheme';
+import type {
+  CardTheme,
+  PublicGameSession,
+  NumberDrawnEventData,
+  NumberVoidedEventData,
+  PlayerBingoEventData,
+  PlayerReachEventData,
+  PrizeWonEventData,
+  RoundStartedEventData,
+  SessionUpdatedEventData
+} from '@/types';
+import { getSession, normalizeErrorMessage } from '@/utils/api';
+import { getBingoLetter, getCallBoardGroups } from '@/utils/gameUtils';
+import { getTermLabel } from '@/utils/terms';
+import { getCurrentRoundNumber } from '@/utils/rounds';
+import { CARD_THEME_STYLES, getNextCardTheme } from '@/utils/cardThemes';
+import { getClientBaseUrl, createParticipationUrl } from '@/utils/url';
+import { formatMessage } from '@/utils/i18n';
+import { useLocale } from '@/hooks/useLocale';
+
+// 発表を表示しておく時間（ms）
+const ANNOUNCEMENT_DURATION_MS = 6000;
+
+interface HostPresentPageProps {
+  params: Promise<{ sessionId: string }>;
+  searchParams: Promise<{ token?: string; hostId?: string }>;
+}
+
+interface Announcement {
+  id: string;
+  type: 'reach' | 'bingo' | 'prize';
+  text: string;
+}
+
+const ANNOUNCEMENT_STYLES: Record<Announcement['type'], string> = {
+  reach: 'from-orange-400 to-pink-500 text-white',
+  bingo: 'from-yellow-300 to-yellow-500 text-purple-900',
+  prize: 'from-yellow-400 to-orange-500 text-white'
+};
+
+// 抽選済み番号の一覧
+interface CallBoardProps {
+  session: PublicGameSession;
+  theme: CardTheme;
+}
+
+const CallBoard: React.FC<CallBoardProps> = ({ session, theme }) => {
+  const styles = CARD_THEME_STYLES[theme];
+  const gameType = session.gameType || '75ball';
+  const isWords = gameType === 'words';
+  const drawn = new Set(session.numbers || []);
+  const groups = getCallBoardGroups(gameType, session.terms?.length);
+  // 90ボールの80-90は11個あるため、最も多いグループに列数を合わせる
+  const columns = Math.max(...groups.map(group => group.numbers.length));
+
+  return (
+    <div className="space-y-2">
+      {groups.map((group, index) => (
+        <div key={group.label || index} className="flex items-center gap-2">
+          {group.label && (
+            <div className={`shrink-0 text-center font-black text-yellow-300 ${gameType === '75ball' ? 'w-12 text-4xl' : 'w-16 text-sm'}`}>
+              {group.label}
+            </div>
+          )}
+          <div className="flex-1 grid gap-1.5" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+            {group.numbers.map(num => (
+              <div
+                key={num}
+                className={`
+                  rounded-md flex items-center justify-center font-bold transition-all duration-500
+                  ${isWords ? 'min-h-10 px-1 text-xs break-all' : 'aspect-square text-xl lg:text-2xl'}
+                  ${num === session.currentNumber
+                    ? styles.callCurrent
+                    : drawn.has(num)
+                      ? styles.callDrawn
+                      : styles.callUndrawn}
+                `}
+              >
+                {isWords ? getTermLabel(session.terms, num) : num}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default function HostPresentPage({ params, searchParams }: HostPresentPageProps) {
+  const [sessionId, setSessionId] = useState('');
+  const [accessToken, setAccessToken] = useState('');
+  const [session, setSession] = useState<PublicGameSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string | null>(null);
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const { messages } = useLocale();
+  const t = messages.present;
+
+  // 同じプレイヤーのビンゴを何度も発表しない（ラウンド・リセットで解除）
+  const announcedBingoPlayersRef = useRef<Set<string>>(new Set());
+
+  // Promise形式のパラメータを解決し、Pusher認証用のreconnectionDataを保存
+  useEffect(() => {
+    Promise.all([params, searchParams]).then(([resolvedParams, resolvedSearchParams]) => {
+      const token = resolvedSearchParams.token || localStorage.getItem('hostAccessToken') || '';
+      const hid = resolvedSearchParams.hostId || localStorage.getItem('hostId') || '';
+
+      if (token && hid) {
+        localStorage.setItem('reconnectionData', JSON.stringify({
+          sessionId: resolvedParams.sessionId,
+          accessToken: token,
+          playerId: hid,
+          lastActiveAt: new Date().toISOString(),
+          expiresAt: new Date(Date.now() + 30 * 60 * 1000).toISOString()
+        }));
+      }
+
+      setAccessToken(token);
+      setSessionId(resolvedParams.sessionId);
+    });
+  }, [params, searchParams]);
+
+  const { isConnected, on, off } = usePusherConnection(sessionId || null);
+
+  // 番号の読み上げ（会場のスピーカーにつないだ端末で使う）
+  const speech = useSpeechCaller({
+    storageKey: 'present',
+    gameType: session?.gameType,
+    terms: session?.terms,
+    currentNumber: session?.currentNumber ?? null,
+    isConnected,
+    on,
+    off
+  });
+  const { settings: speechSettings, updateSettings: updateSpeechSettings, repeat: repeatCall } = speech;
+
+  // 抽選済み番号一覧の配色テーマ（会場の見やすさに合わせて切り替える）
+  const { theme: cardTheme, setTheme: setCardTheme } = useCardTheme();
+
+  // セッション情報の取得（ゲーム開始・リセット・終了時も取り直す）
+  const loadSession = useCallback(async () => {
+    if (!sessionId || !accessToken) return;
+
+    try {
+      const data = await getSession(sessionId, accessToken);
+      setSession(data);
+      setError(null);
+    } catch (err) {
+      setError(normalizeErrorMessage(err));
+    }
+  }, [sessionId, accessToken]);
+
+  useEffect(() => {
+    loadSession();
+  }, [loadSession]);
+
+  // 参加用QRコード
+  useEffect(() => {
+    if (!sessionId || !accessToken) return;
+
+    QRCode.toDataURL(createParticipationUrl(getClientBaseUrl(), sessionId, accessToken), {
+      errorCorrectionLevel: 'M',
+      margin: 1,
+      width: 256,
+    })
+      .then(setQrCodeDataUrl)
+      .catch(err => console.error('QRコード生成エラー:', err));
+  }, [sessionId, accessToken]);
+
+  // 発表を追加し、一定時間後に消す
+  const announce = useCallback((type: Announcement['type'], text: string) => {
+    const id = `${type}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+    setAnnouncements(prev => [...prev, { id, type, text }]);
+    setTimeout(() => {
+      setAnnouncements(prev => prev.filter(a => a.id !== id));
+    }, ANNOUNCEMENT_DURATION_MS);
+  }, []);
+
+  // Pusherイベントリスナー
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const handleNumberDrawn = (data: NumberDrawnEventData) => {
+      setSession(prev => prev && {
+        ...prev,
+        numbers: data.drawnNumbers,
+        currentNumber: data.number
+      });
+    };
+
+    const handleNumberVoided = (data: NumberVoidedEventData) => {
+      data.cancelledPlayerIds.forEach(id => announcedBingoPlayersRef.current.delete(id));
+      setSession({
+        ...data.session,
+        numbers: data.drawnNumbers,
+        currentNumber: data.currentNumber
+      });
+    };
+
+    const handlePlayerReach = (data: PlayerReachEventData) => {
+      announce('reach', formatMessage(t.reach, { name: data.playerName }));
+    };
+
+    const handlePlayerBingo = (data: PlayerBingoEventData) => {
+      setSession(prev => prev && {
+        ...prev,
+        players: prev.players.map(p =>
+          p.id === data.player.id
+            ? { ...p, bingoCount: data.bingoCount, bingoAchievedAt: data.achievedAt || p.bingoAchievedAt }
+            : p
+        )
+      });
+
+      if (!announcedBingoPlayersRef.current.has(data.player.id)) {
+        announcedBingoPlayersRef.current.add(data.player.id);
+        announce('bingo', formatMessage(t.bingo, { name: data.player.name }));
+      }
+    };
+
+    const handlePrizeWon = (data: PrizeWonEventData) => {
+      const { award } = data;
+      setSession(prev => {
+        if (!prev) return prev;
+        const awards = prev.prizeAwards || [];
+        return {
+          ...prev,
+          prizeAwards: awards.some(a => a.tierId === award.tierId)
+            ? awards.map(a => (a.tierId === award.tierId ? award : a))
+            : [...awards, award]
+        };
+      });
+      announce('prize', formatMessage(t.prize, {
+        label: award.label,
+        names: award.winners.map(w => w.playerName).join(t.nameSeparator)
+      }));
+    };
+
+    const handleSessionUpdated = (data: SessionUpdatedEventData) => {
+      if (data.session) setSession(data.session);
+    };
+
+    const handleRoundStarted = (data: RoundStartedEventData) => {
+      announcedBingoPlayersRef.current.clear();
+      setSession(data.session);
+    };
+
+    const handleGameReset = () => {
+      announcedBingoPlayersRef.current.clear();
+      loadSession();
+    };
+
+    on('number-drawn', handleNumberDrawn);
+    on('number-voided', handleNumberVoided);
+    on('player-reach', handlePlayerReach);
+    on('player-bingo', handlePlayerBingo);
+    on('prize-won', handlePrizeWon);
+    on('session-updated', handleSessionUpdated);
+    on('round-started', handleRoundStarted);
+    on('game-reset', handleGameReset);
+    on('game-started', loadSession);
+    on('game-ended', loadSession);
+
+    return () => {
+      off('number-drawn', handleNumberDrawn);
+      off('number-voided', handleNumberVoided);
+      off('player-reach', handlePlayerReach);
+      off('player-bingo', handlePlayerBingo);
+      off('prize-won', handlePrizeWon);
+      off('session-updated', handleSessionUpdated);
+      off('round-started', handleRoundStarted);
+      off('game-reset', handleGameReset);
+      off('game-started', loadSession);
+      off('game-ended', loadSession);
+    };
+  }, [isConnected, on, off, loadSession, announce, t]);
+
+  // 全画面表示の状態を追従（Escキーでの解除にも対応）
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(document.fullscreenElement !== null);
+    document.addEventListener('fullscreenchange', handleChange);
+    return () => document.removeEventListener('fullscreenchange', handleChange);
+  }, []);
+
+  // 読み上げ・表示テーマのキーボード操作
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key === 's') {
+        updateSpeechSettings({ enabled: !speechSettings.enabled });
+      } else if (key === 'r') {
+        repeatCall();
+      } else if (key === 't') {
+        setCardTheme(getNextCardTheme(cardTheme));
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [speechSettings.enabled, updateSpeechSettings, repeatCall, cardTheme, setCardTheme]);
+
+  // 画面のどこかをクリックすると全画面表示
+  const handleRequestFullscreen = () => {
+    if (!document.fullscreenElement) {
+      document.documentElement.requestFullscreen().catch(() => {
+        // ブラウザが許可しない場合はそのまま表示
+      });
+    }
+  };
+
+  if (error || !session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-indigo-900 via-purple-900 to-pink-900">
+        <p className="text-white/80 text-2xl">{error || t.loading}</p>
+      </div>
+    );
+  }
+
+  const gameType = session.gameType || '75ball';
+  const isWords = gameType === 'words';
+  const currentNumber = session.currentNumber;
+  const letter = currentNumber ? getBingoLetter(currentNumber, gameType) : '';
+  const recentNumbers = (session.numbers || []).slice(-6, -1).reverse();
+  const currentRound = getCurrentRoundNumber(session);
+
+  return (
+    <div
+      onClick={handleRequestFullscreen}
+      className="min-h-screen bg-gradient-to-br from-indigo-900 via-purple-900 to-pink-900 p-6 lg:p-10 flex flex-col gap-6 cursor-default select-none"
+    >
+      {/* リーチ・ビンゴ・賞の発表 */}
+      <div className="fixed top-8 left-1/2 -translate-x-1/2 z-50 flex flex-col items-center gap-3 w-full max-w-4xl px-6 pointer-events-none">
+        {announcements.map(announcement => (
+          <div
+            key={announcement.id}
+            className={`announcement-pop w-full rounded-3xl px-10 py-6 text-center shadow-2xl border-4 border-white/60 bg-gradient-to-r ${ANNOUNCEMENT_STYLES[announcement.type]}`}
+          >
+            <p className="text-4xl lg:text-6xl font-black drop-shadow">{announcement.text}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* ヘッダー */}
+      <div className="flex items-center justify-between text-white">
+        <h1 className="text-3xl lg:text-5xl font-black drop-shadow-lg">
+          {session.gameName}
+          {currentRound > 1 && (
+            <span className="ml-4 text-2xl lg:text-3xl font-bold text-yellow-300">
+              {formatMessage(messages.common.roundNumber, { round: currentRound })}
+            </span>
+          )}
+        </h1>
+        <div className="flex items-center gap-6 text-xl lg:text-2xl text-white/80">
+          <span className="flex items-center gap-2">
+            <Users className="w-7 h-7" />
+            {formatMessage(t.playerCount, { count: session.players.length })}
+          </span>
+          <span>{formatMessage(t.drawCount, { count: (session.numbers || []).length })}</span>
+          {!isConnected && <span className="text-red-300 text-base">{t.reconnecting}</span>}
+        </div>
+      </div>
+
+      <div className="flex-1 grid grid-cols-1 lg:grid-cols-3 gap-6 items-center">
+        {/* 現在の番号 */}
+        <div className="lg:col-span-2 flex flex-col items-center justify-center">
+          {session.status === 'finished' ? (
+            <p className="text-6xl lg:text-8xl font-black text-yellow-300 drop-shadow-lg">{t.finished}</p>
+          ) : currentNumber ? (
+            <>
+              <div
+                key={currentNumber}
+                className={`number-pop rounded-full bg-gradient-to-br from-yellow-200 to-yellow-500 shadow-2xl shadow-yellow-500/40 border-8 border-white flex flex-col items-center justify-center text-purple-900 ${
+                  isWords ? 'w-[28rem] h-[28rem] px-10' : 'w-80 h-80 lg:w-[26rem] lg:h-[26rem]'
+                }`}
+              >
+                {letter && <span className="text-6xl lg:text-8xl font-black leading-none">{letter}</span>}
+                <span className={`font-black leading-none ${isWords ? 'text-5xl text-center break-all' : 'text-[8rem] lg:text-[11rem]'}`}>
+                  {isWords ? getTermLabel(session.terms, currentNumber) : currentNumber}
+                </span>
+              </div>
+              {recentNumbers.length > 0 && (
+                <div className="mt-8 flex items-center gap-3">
+                  <span className="text-white/60 text-xl">{t.previous}</span>
+                  {recentNumbers.map(num => (
+                    <span key={num} className="px-4 py-2 rounded-full bg-white/20 text-white text-2xl font-bold">
+                      {isWords ? getTermLabel(session.terms, num) : `${getBingoLetter(num, gameType)}${num}`}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-5xl lg:text-7xl font-black text-white/80 drop-shadow-lg">
+              {session.status === 'waiting' ? t.startingSoon : t.drawingSoon}
+            </p>
+          )}
+        </div>
+
+        {/* 参加用QRコード */}
+        <div className="flex flex-col items-center gap-4">
+          {qrCodeDataUrl && (
+            <div className="bg-white p-4 rounded-2xl shadow-2xl">
+              <Image
+                src={qrCodeDataUrl}
+                alt={t.qrAlt}
+                width={256}
+                height={256}
+                unoptimized
+                className="w-48 h-48 lg:w-64 lg:h-64"
+                style={{ imageRendering: 'pixelated' }}
+              />
+            </div>
+          )}
+          <div className="text-center text-white">
+            <p className="text-xl lg:text-2xl font-bold">{t.scanToJoin}</p>
+            <p className="text-lg text-white/70 font-mono tracking-wider">ID: {session.sessionId}</p>
+          </div>
+        </div>
+      </div>
+
+      {/* 抽選済み番号の一覧 */}
+      <div className="bg-black/20 rounded-3xl p-4 lg:p-6 border border-white/10">
+        <CallBoard session={session} theme={cardTheme} />
+      </div>
+
+      {!isFullscreen && (
+        <p className="fixed bottom-2 right-4 text-white/40 text-sm pointer-events-none">
+          {t.shortcuts}
+        </p>
+      )}
+
+      {speech.isSupported && speechSettings.enabled && (
+        <Volume2 className="fixed bottom-3 left-4 w-5 h-5 text-white/40 pointer-events-none" aria-label={t.speaking} />
+      )}
+
+      {/* アニメーション用のスタイル */}
+      <style jsx>{`
+        @keyframes number-pop {
+          0% {
+            opacity: 0;
+            transform: scale(0.3) rotate(-20deg);
+          }
+          60% {
+            opacity: 1;
+            transform: scale(1.1) rotate(5deg);
+          }
+          100% {
+            transform: scale(1) rotate(0);
+          }
+        }
+        .number-pop {
+          animation: number-pop 0.7s cubic-bezier(0.34, 1.56, 0.64, 1);
+        }
+        @keyframes announcement-pop {
+          from {
+            opacity: 0;
+            transform: translateY(-40px) scale(0.9);
+          }
+          to {
+            opacity: 1;
+            transform: translateY(0) scale(1);
+          }
+        }
+        .announcement-pop {
+          animation: announcement-pop 0.4s ease-out;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+// app/host/print/[sessionId]/page.tsx
+// 紙のカードの発行・印刷ページ（ホストのみ）
+//
+// 印刷時は操作部分を隠し、カードだけを1枚ずつページ内で分割されないように並べる
+// ブラウザの印刷ダイアログから「PDFに保存」するとPDFとしてダウンロードできる
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Printer } from 'lucide-react';
+import { GAME_CONSTANTS } from '@/types';
+import type { CreatePaperCardsResponse, GameSession, GameType, PaperCard } from '@/types';
+import { getHostSession, normalizeErrorMessage } from '@/utils/api';
+import { getTermLabel } from '@/utils/terms';
+import { formatPaperCardSerial } from '@/utils/paperCards';
+import { formatMessage } from '@/utils/i18n';
+import { useLocale } from '@/hooks/useLocale';
+import LocaleSwitcher from '../../../components/LocaleSwitcher';
+
+interface HostPrintPageProps {
+  params: Promise<{ sessionId: string }>;
+  searchParams: Promise<{ token?: string; hostId?: string }>;
+}
+
+interface PaperCardSheetProps {
+  paperCard: PaperCard;
+  gameName: string;
+  gameType: GameType;
+  terms?: string[];
+}
+
+// 印刷用のカード1枚（白黒印刷でも読めるよう、色は使わず罫線で区切る）
+const PaperCardSheet: React.FC<PaperCardSheetProps> = ({ paperCard, gameName, gameType, terms }) => {
+  const { messages } = useLocale();
+  const t = messages.paperCards;
+  const isTicket = gameType === '90ball';
+  const isWords = gameType === 'words';
+
+  return (
+    <div className="paper-card bg-white text-gray-900 rounded-xl border-2 border-gray-900 p-4 print:rounded-none">
+      <div className="flex items-baseline justify-between gap-2 mb-3">
+        <h2 className="text-lg font-bold truncate">{gameName}</h2>
+        <p className="text-sm whitespace-nowrap">
+          {t.serial}: <span className="font-mono text-lg font-bold tracking-widest">{formatPaperCardSerial(paperCard.serial)}</span>
+        </p>
+      </div>
+
+      {/* 75ボールのみBINGOヘッダーを付ける */}
+      {!isTicket && !isWords && (
+        <div className="grid grid-cols-5 border-2 border-b-0 border-gray-900 bg-gray-900 text-white">
+          {['B', 'I', 'N', 'G', 'O'].map(letter => (
+            <div key={letter} className="py-1 text-center text-xl font-black">{letter}</div>
+          ))}
+        </div>
+      )}
+
+      <div className={`grid border-2 border-gray-900 ${isTicket ? 'grid-cols-9' : 'grid-cols-5'}`}>
+        {paperCard.card.flatMap((row, rowIdx) =>
+          row.map((num, colIdx) => (
+            <div
+              key={`${rowIdx}-${colIdx}`}
+              className={`flex items-center justify-center border border-gray-400 text-center font-bold ${
+                isTicket ? 'h-10 text-lg' : 'aspect-square'
+              } ${isWords ? 'text-xs leading-tight break-all p-1' : isTicket ? '' : 'text-2xl'} ${
+                num === 0 ? (isTicket ? 'bg-gray-200' : 'text-sm') : ''
+              }`}
+            >
+              {num === 0
+                ? (isTicket ? '' : `★ ${t.free}`)
+                : isWords ? getTermLabel(terms, num) : num}
+            </div>
+          ))
+        )}
+      </div>
+
+      <p className="mt-2 text-xs text-gray-600">{t.instructions}</p>
+    </div>
+  );
+};
+
+export default function HostPrintPage({ params, searchParams }: HostPrintPageProps) {
+  const [sessionId, setSessionId] = useState('');
+  const [accessToken, setAccessToken] = useState('');
+  const [hostId, setHostId] = useState('');
+  const [session, setSession] = useState<GameSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [count, setCount] = useState(10);
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [issueMessage, setIssueMessage] = useState<string | null>(null);
+  const [latestSerials, setLatestSerials] = useState<string[]>([]);
+  const [showLatestOnly, setShowLatestOnly] = useState(false);
+  const { messages } = useLocale();
+  const t = messages.paperCards;
+
+  // Promise形式のパラメータを解決
+  useEffect(() => {
+    Promise.all([params, searchParams]).then(([resolvedParams, resolvedSearchParams]) => {
+      const token = resolvedSearchParams.token || localStorage.getItem('hostAccessToken') || '';
+      const hid = resolvedSearchParams.hostId || localStorage.getItem('hostId') || '';
+
+      if (!token || !hid) {
+        setError(t.missingAuth);
+        return;
+      }
+
+      setAccessToken(token);
+      setHostId(hid);
+      setSessionId(resolvedParams.sessionId);
+    });
+  }, [params, searchParams, t]);
+
+  // 発行済みのカードはセッション情報から取得する
+  const loadSession = useCallback(async () => {
+    if (!sessionId || !accessToken || !hostId) return;
+
+    try {
+      const data = await getHostSession(sessionId, accessToken, hostId);
+      setSession(data);
+      setError(null);
+    } catch (err) {
+      setError(normalizeErrorMessage(err));
+    }
+  }, [sessionId, accessToken, hostId]);
+
+  useEffect(() => {
+    loadSession();
+  }, [loadSession]);
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isIssuing) return;
+
+    setIsIssuing(true);
+    setIssueMessage(null);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/paper-cards`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ accessToken, hostId, count })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || t.issueFailed);
+      }
+
+      const data: CreatePaperCardsResponse = await response.json();
+      setSession(prev => prev && {
+        ...prev,
+        paperCards: [...(prev.paperCards || []), ...data.paperCards]
+      });
+      setLatestSerials(data.paperCards.map(paperCard => paperCard.serial));
+      setShowLatestOnly(true);
+      setIssueMessage(formatMessage(t.issued, { count: data.paperCards.length }));
+    } catch (err) {
+      setIssueMessage(err instanceof Error ? err.message : t.issueFailed);
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  if (error || !session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-pink-500 via-red-500 to-orange-500">
+        <p className="text-white text-lg">{error || messages.common.loading}</p>
+      </div>
+    );
+  }
+
+  const paperCards = session.paperCards || [];
+  const visibleCards = showLatestOnly
+    ? paperCards.filter(paperCard => latestSerials.includes(paperCard.serial))
+    : paperCards;
+  const gameName = session.gameName || t.defaultGameName;
+  const gameType = session.gameType || '75ball';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 p-4 sm:p-8 print:bg-none print:bg-white print:p-0">
+      {/* 操作部分（印刷しない） */}
+      <div className="max-w-5xl mx-auto mb-6 bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20 shadow-xl text-white space-y-4 print:hidden">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">{t.title}</h1>
+            <p className="mt-1 text-sm text-white/80">{t.description}</p>
+          </div>
+          <LocaleSwitcher />
+        </div>
+
+        <form onSubmit={handleIssue} className="flex flex-wrap items-end gap-3">
+          <label className="text-sm">
+            <span className="block mb-1 text-white/80">
+              {formatMessage(t.countLabel, { max: GAME_CONSTANTS.MAX_PAPER_CARDS_PER_BATCH })}
+            </span>
+            <input
+              type="number"
+              min={1}
+              max={GAME_CONSTANTS.MAX_PAPER_CARDS_PER_BATCH}
+              value={count}
+              onChange={e => setCount(Number(e.target.value))}
+              className="w-32 px-3 py-2 rounded-lg bg-white/20 border border-white/30 text-white"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={isIssuing || count < 1}
+            className="px-4 py-2 bg-yellow-400 text-gray-900 font-bold rounded-lg hover:bg-yellow-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isIssuing ? t.issuing : t.issue}
+          </button>
+          <button
+            type="button"
+            onClick={() => window.print()}
+            disabled={visibleCards.length === 0}
+            className="px-4 py-2 bg-white/20 text-white rounded-lg hover:bg-white/30 transition-all flex items-center gap-2 border border-white/30 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Printer className="w-5 h-5" />
+            {t.print}
+          </button>
+        </form>
+
+        {issueMessage && <p role="status" className="text-sm text-yellow-200">{issueMessage}</p>}
+
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-white/80">
+          <span>{formatMessage(t.total, { count: paperCards.length, max: GAME_CONSTANTS.MAX_PAPER_CARDS })}</span>
+          {latestSerials.length > 0 && (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={showLatestOnly}
+                onChange={e => setShowLatestOnly(e.target.checked)}
+              />
+              {t.latestOnly}
+            </label>
+          )}
+        </div>
+        <p className="text-xs text-white/60">{t.printHint}</p>
+      </div>
+
+      {/* カード一覧 */}
+      {visibleCards.length === 0 ? (
+        <p className="text-center text-white/80 print:hidden">{t.empty}</p>
+      ) : (
+        <div className="max-w-5xl mx-auto grid grid-cols-1 md:grid-cols-2 gap-6 print:max-w-none print:grid-cols-2 print:gap-4">
+          {visibleCards.map(paperCard => (
+            <PaperCardSheet
+              key={paperCard.serial}
+              paperCard={paperCard}
+              gameName={gameName}
+              gameType={gameType}
+              terms={session.terms}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* 印刷時の用紙設定（カードがページをまたがないようにする） */}
+      <style jsx global>{`
+        @page {
+          size: A4;
+          margin: 10mm;
+        }
+        @media print {
+          .paper-card {
+            break-inside: avoid;
+            page-break-inside: avoid;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -2,11 +2,19 @@
 
 import React, { useState, useEffect, use } from 'react';
 import { useRouter } from 'next/navigation';
+import FairnessPanel from '../../../components/FairnessPanel';
+import RoundStandings from '../../../components/RoundStandings';
+import PrizeWinners from '../../../components/PrizeWinners';
+import LocaleSwitcher from '../../../components/LocaleSwitcher';
 import { 
   Player, 
-  GameSession, 
+  PublicGameSession, 
   HostResultPageProps 
 } from '@/types';
+import { getResultSession } from '@/utils/api';
+import { calculateStandings, getAllRounds, getCurrentRoundNumber } from '@/utils/rounds';
+import { LOCALE_TAGS, formatMessage } from '@/utils/i18n';
+import { useLocale } from '@/hooks/useLocale';
 
 // メダルアイコンを返す関数
 const getMedalIcon = (rank: number): string => {
@@ -22,37 +30,34 @@ export default function HostResultPage({ params: paramsPromise, searchParams: se
   const router = useRouter();
   const params = use(paramsPromise);
   const searchParams = use(searchParamsPromise);
-  const [session, setSession] = useState<GameSession | null>(null);
+  const [session, setSession] = useState<PublicGameSession | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showShareModal, setShowShareModal] = useState(false);
   const [copiedUrl, setCopiedUrl] = useState(false);
+  const { locale, messages } = useLocale();
+  const t = messages.hostResult;
 
   // セッション情報の取得
   useEffect(() => {
     const fetchSession = async () => {
       try {
-        const res = await fetch(`/api/sessions/${params.sessionId}`, {
-          headers: {
-            'Authorization': `Bearer ${searchParams.token}`
-          }
-        });
-
-        if (!res.ok) {
-          throw new Error('セッション情報の取得に失敗しました');
-        }
-
-        const data = await res.json();
+        // セッションが有効期限で削除された後は、ゲームの記録から表示する
+        const data = await getResultSession(params.sessionId, searchParams.token || '');
         setSession(data);
         setLoading(false);
       } catch (err) {
-        setError(err instanceof Error ? err.message : '予期しないエラーが発生しました');
+        setError(err instanceof Error ? err.message : messages.api.unexpectedError);
         setLoading(false);
       }
     };
 
     fetchSession();
-  }, [params.sessionId, searchParams.token]);
+  }, [params.sessionId, searchParams.token, messages]);
+
+  // 全ラウンドの記録（最終ラウンドを含む）
+  const rounds = session ? getAllRounds(session) : [];
+  const currentRound = session ? getCurrentRoundNumber(session) : 1;
 
   // ランキングを作成（最初にビンゴした順）
   const getRanking = (): Player[] => {
@@ -71,10 +76,28 @@ export default function HostResultPage({ params: paramsPromise, searchParams: se
   // 結果をシェア用テキストとして生成
   const generateShareText = (): string => {
     const ranking = getRanking();
-    let text = `🎉 ビンゴ大会「${session?.gameName}」結果発表！\n\n`;
+    let text = `${formatMessage(t.shareTitle, { name: session?.gameName ?? '' })}\n\n`;
+
+    // 複数ラウンドの場合は通算順位をシェアする
+    if (rounds.length > 1 && session) {
+      calculateStandings(rounds, session.players).slice(0, 3).forEach(entry => {
+        text += `${formatMessage(t.shareStanding, {
+          medal: getMedalIcon(entry.rank),
+          rank: entry.rank,
+          name: entry.playerName,
+          points: entry.totalPoints
+        })}\n`;
+      });
+      return text;
+    }
     
     ranking.slice(0, 3).forEach((player, index) => {
-      text += `${getMedalIcon(index + 1)} ${index + 1}位: ${player.name} (${player.bingoCount}列)\n`;
+      text += `${formatMessage(t.shareRanking, {
+        medal: getMedalIcon(index + 1),
+        rank: index + 1,
+        name: player.name,
+        count: player.bingoCount
+      })}\n`;
     });
 
     return text;
@@ -91,7 +114,7 @@ export default function HostResultPage({ params: paramsPromise, searchParams: se
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 flex items-center justify-center">
-        <div className="text-white text-2xl">結果を集計中...</div>
+        <div className="text-white text-2xl">{t.loading}</div>
       </div>
     );
   }
@@ -100,13 +123,13 @@ export default function HostResultPage({ params: paramsPromise, searchParams: se
     return (
       <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 flex items-center justify-center">
         <div className="bg-white/30 backdrop-blur-md rounded-xl p-8 max-w-md border border-white/20 shadow-xl">
-          <h2 className="text-2xl font-bold text-red-700 mb-4">エラー</h2>
+          <h2 className="text-2xl font-bold text-red-700 mb-4">{messages.result.errorTitle}</h2>
           <p className="text-gray-800">{error}</p>
           <button
             onClick={() => router.push('/host')}
             className="mt-4 w-full bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white font-bold py-3 rounded-lg shadow-lg"
           >
-            ホーム画面に戻る
+            {t.backToHost}
           </button>
         </div>
       </div>
@@ -119,16 +142,41 @@ export default function HostResultPage({ params: paramsPromise, searchParams: se
     <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 p-4">
       <div className="max-w-6xl mx-auto">
         {/* ヘッダー */}
+        <div className="flex justify-end mb-4">
+          <LocaleSwitcher />
+        </div>
         <div className="text-center mb-8">
-          <h1 className="text-5xl font-bold text-white mb-2 drop-shadow-lg">🎊 ゲーム終了！</h1>
+          <h1 className="text-5xl font-bold text-white mb-2 drop-shadow-lg">{t.title}</h1>
           <p className="text-2xl text-yellow-300 drop-shadow-md">{session?.gameName}</p>
         </div>
 
         <div className="grid lg:grid-cols-3 gap-6">
           {/* ランキング */}
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-6">
+            {/* 複数ラウンドの通算順位 */}
+            {rounds.length > 1 && session && (
+              <RoundStandings rounds={rounds} players={session.players} />
+            )}
+
+            {/* 段階ごとの賞 */}
+            {session && (session.rules?.prizeTiers?.length ?? 0) > 0 && (
+              <div className="bg-white/30 backdrop-blur-md rounded-xl p-6 shadow-xl border border-white/20">
+                <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-300 to-yellow-500 mb-6 drop-shadow-md">
+                  {currentRound > 1 ? formatMessage(t.roundPrizes, { round: currentRound }) : messages.result.prizeWinners}
+                </h2>
+                <PrizeWinners
+                  tiers={session.rules?.prizeTiers || []}
+                  awards={session.prizeAwards || []}
+                  terms={session.terms}
+                  gameType={session.gameType}
+                />
+              </div>
+            )}
+
             <div className="bg-white/30 backdrop-blur-md rounded-xl p-6 shadow-xl border border-white/20">
-              <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-300 to-yellow-500 mb-6 drop-shadow-md">🏆 最終ランキング</h2>
+              <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-300 to-yellow-500 mb-6 drop-shadow-md">
+                {currentRound > 1 ? formatMessage(t.roundRanking, { round: currentRound }) : t.finalRanking}
+              </h2>
               
               {ranking.length > 0 ? (
                 <div className="space-y-3">
@@ -148,12 +196,12 @@ export default function HostResultPage({ params: paramsPromise, searchParams: se
                           <span className="text-3xl">{getMedalIcon(index + 1)}</span>
                           <div>
                             <p className="text-xl font-bold text-white drop-shadow-md">
-                              {index + 1}位: {player.name}
+                              {formatMessage(messages.result.rankName, { rank: index + 1, name: player.name })}
                             </p>
                             <p className="text-sm text-white/90">
-                              {player.bingoCount}列達成
+                              {formatMessage(messages.result.linesAchieved, { count: player.bingoCount })}
                               {player.bingoAchievedAt && 
-                                ` - ${new Date(player.bingoAchievedAt).toLocaleTimeString('ja-JP')}`
+                                ` - ${new Date(player.bingoAchievedAt).toLocaleTimeString(LOCALE_TAGS[locale])}`
                               }
                             </p>
                           </div>
@@ -167,15 +215,15 @@ export default function HostResultPage({ params: paramsPromise, searchParams: se
                 </div>
               ) : (
                 <div className="text-center py-8 text-white">
-                  <p className="text-xl">ビンゴ達成者はいませんでした</p>
-                  <p className="mt-2">次回はもっと頑張りましょう！</p>
+                  <p className="text-xl">{messages.result.noBingoWinners}</p>
+                  <p className="mt-2">{t.tryAgain}</p>
                 </div>
               )}
 
               {/* 参加者一覧（ビンゴ未達成） */}
               {session && session.players.filter(p => p.bingoCount === 0).length > 0 && (
                 <div className="mt-8">
-                  <h3 className="text-lg font-semibold text-white mb-3">参加者</h3>
+                  <h3 className="text-lg font-semibold text-white mb-3">{t.players}</h3>
                   <div className="flex flex-wrap gap-2">
                     {session.players
                       .filter(p => p.bingoCount === 0)
@@ -194,40 +242,43 @@ export default function HostResultPage({ params: paramsPromise, searchParams: se
           </div>
 
           {/* アクション */}
-          <div className="lg:col-span-1">
+          <div className="lg:col-span-1 space-y-6">
             <div className="bg-white/30 backdrop-blur-md rounded-xl p-6 shadow-xl border border-white/20">
-              <h3 className="text-xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-300 to-yellow-500 mb-4 drop-shadow-md">🎮 次のアクション</h3>
+              <h3 className="text-xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-300 to-yellow-500 mb-4 drop-shadow-md">{messages.result.nextActions}</h3>
               
               <div className="space-y-3">
                 <button
                   onClick={() => router.push('/host/create')}
                   className="w-full bg-gradient-to-r from-yellow-500 to-yellow-600 hover:from-yellow-600 hover:to-yellow-700 text-red-800 font-bold py-3 rounded-lg shadow-lg transform transition hover:scale-105"
                 >
-                  新しいゲームを作成
+                  {t.createGame}
                 </button>
                 
                 <button
                   onClick={() => setShowShareModal(true)}
                   className="w-full bg-gradient-to-r from-pink-600 to-orange-500 hover:from-pink-700 hover:to-orange-600 text-white font-bold py-3 rounded-lg shadow-lg transform transition hover:scale-105"
                 >
-                  結果をシェア
+                  {messages.result.share}
                 </button>
                 
                 <button
                   onClick={copyResultUrl}
                   className="w-full bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white font-bold py-3 rounded-lg shadow-lg"
                 >
-                  {copiedUrl ? '✓ コピーしました' : 'URLをコピー'}
+                  {copiedUrl ? t.urlCopied : t.copyUrl}
                 </button>
                 
                 <button
                   onClick={() => router.push('/')}
                   className="w-full border-2 border-white/30 text-white rounded-lg py-3 font-semibold hover:bg-white/10 transition-colors backdrop-blur-sm"
                 >
-                  トップページへ
+                  {messages.result.toTopPage}
                 </button>
               </div>
             </div>
+
+            {/* 抽選の公平性 */}
+            <FairnessPanel sessionId={params.sessionId} />
           </div>
         </div>
 
@@ -235,7 +286,7 @@ export default function HostResultPage({ params: paramsPromise, searchParams: se
         {showShareModal && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
             <div className="bg-white/90 backdrop-blur-md rounded-xl p-6 max-w-md w-full border border-white/20 shadow-xl">
-              <h3 className="text-xl font-bold text-red-700 mb-4">結果をシェア</h3>
+              <h3 className="text-xl font-bold text-red-700 mb-4">{messages.result.share}</h3>
               
               <textarea
                 className="w-full h-48 p-3 border-2 border-red-300 rounded-lg resize-none bg-white/50 backdrop-blur-sm"
@@ -251,13 +302,13 @@ export default function HostResultPage({ params: paramsPromise, searchParams: se
                   }}
                   className="flex-1 bg-gradient-to-r from-pink-600 to-orange-500 hover:from-pink-700 hover:to-orange-600 text-white font-bold py-2 rounded-lg shadow-lg"
                 >
-                  コピーして閉じる
+                  {messages.result.copyAndClose}
                 </button>
                 <button
                   onClick={() => setShowShareModal(false)}
                   className="flex-1 border-2 border-red-300 text-red-700 rounded-lg py-2 font-semibold hover:bg-red-50"
                 >
-                  閉じる
+                  {messages.common.close}
                 </button>
               </div>
             </div>
@@ -2,12 +2,19 @@
 
 import { Suspense, useEffect, useState, useCallback } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { Users, Copy, CheckCircle, Wifi, WifiOff, AlertCircle, RefreshCw, MoreVertical } from 'lucide-react';
+import { Users, Copy, CheckCircle, Wifi, WifiOff, AlertCircle, RefreshCw, MoreVertical, UserCog, UserX } from 'lucide-react';
 import QRCode from 'qrcode';
 import { getClientBaseUrl, createParticipationUrl } from '@/utils/url';
 import { usePusherConnection } from '@/hooks/usePusherConnection';
-import { getSession, normalizeErrorMessage } from '@/utils/api';
-import type { GameSession } from '@/types';
+import { getHostSession, normalizeErrorMessage } from '@/utils/api';
+import { getActorIdFromCredential, getHostRole, hasHostPermission } from '@/utils/hostPermissions';
+import { formatMessage } from '@/utils/i18n';
+import { useLocale } from '@/hooks/useLocale';
+import LocaleSwitcher from '../../components/LocaleSwitcher';
+import CoHostPanel from '../../components/CoHostPanel';
+import KickPlayerModal from '../../components/KickPlayerModal';
+import { ErrorCode } from '@/types';
+import type { GameSession, Player, SessionUpdatedEventData } from '@/types';
 
 interface SessionInfo {
   sessionId: string;
@@ -22,6 +29,8 @@ interface SessionInfo {
 function WaitingContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const { messages } = useLocale();
+  const t = messages.hostWaiting;
   
   // URLパラメータの取得（LocalStorageフォールバック付き）
   const urlSessionId = searchParams.get('sessionId');
@@ -42,6 +51,7 @@ function WaitingContent() {
   
   // 退出メニューの状態管理
   const [menuState, setMenuState] = useState<'closed' | 'open' | 'confirming'>('closed');
+  const [kickTarget, setKickTarget] = useState<Player | null>(null);
 
   // パラメータの初期化とLocalStorage管理
   useEffect(() => {
@@ -112,13 +122,13 @@ function WaitingContent() {
         setIsInitializing(false);
       } else {
         console.error('必要な情報が取得できません。作成画面へリダイレクトします。');
-        setError('セッション情報が見つかりません。新しくゲームを作成してください。');
+        setError(t.sessionMissing);
         setTimeout(() => {
           router.push('/host/create');
         }, 3000);
       }
     }
-  }, [urlSessionId, urlAccessToken, urlHostId, router]);
+  }, [urlSessionId, urlAccessToken, urlHostId, router, t]);
 
   // Pusher接続前に認証情報を保存
   useEffect(() => {
@@ -139,26 +149,29 @@ function WaitingContent() {
   }, [sessionId, accessToken, hostId]);
 
   // Pusher接続（sessionIdが確定してから）
-  const { isConnected, emit, on, off, members } = usePusherConnection(sessionId || null);
+  const { isConnected, on, off, members } = usePusherConnection(sessionId || null);
 
   // APIから参加者リストを取得する関数
   const fetchSessionData = useCallback(async () => {
-    if (!sessionId || !accessToken) return;
+    if (!sessionId || !accessToken || !hostId) return;
     
     try {
       console.log('APIからセッション情報を取得中...');
-      const sessionData = await getSession(sessionId, accessToken);
+      const sessionData = await getHostSession(sessionId, accessToken, hostId);
       console.log('セッション情報取得完了:', sessionData);
       setSession(sessionData);
       setError(null);
     } catch (err) {
       console.error('セッション情報の取得に失敗:', err);
       const errorMessage = normalizeErrorMessage(err);
-      if (errorMessage.includes('見つかりません') || errorMessage.includes('期限切れ')) {
-        setError('セッションが終了しました');
+      if (
+        errorMessage === messages.errors[ErrorCode.INVALID_SESSION] ||
+        errorMessage === messages.errors[ErrorCode.SESSION_EXPIRED]
+      ) {
+        setError(t.sessionEnded);
       }
     }
-  }, [sessionId, accessToken]);
+  }, [sessionId, accessToken, hostId, messages, t]);
 
   // 初期データ読み込み
   useEffect(() => {
@@ -204,7 +217,7 @@ function WaitingContent() {
     // LocalStorageからゲーム名を取得
     const storedSessionKey = `session_${sessionId}`;
     const storedSession = localStorage.getItem(storedSessionKey);
-    let gameName = 'ビンゴ大会';
+    let gameName = t.defaultGameName;
     let maxPlayers = 25;
     
     if (storedSession) {
@@ -255,9 +268,9 @@ function WaitingContent() {
       setError(null);
     }).catch(err => {
       console.error('QRコード生成エラー:', err);
-      setError('QRコードの生成に失敗しました');
+      setError(t.qrCodeFailed);
     });
-  }, [sessionId, accessToken, hostId]);
+  }, [sessionId, accessToken, hostId, t]);
 
   // Pusherイベントリスナー設定（参加者追加/離脱時にAPIから再取得）
   useEffect(() => {
@@ -282,15 +295,37 @@ function WaitingContent() {
       fetchSessionData();
     };
 
+    // 共同ホストの参加・削除はセッション更新で受け取る
+    // 配信されるセッションにはホスト用の項目が含まれないため、取得済みのセッションに重ねる
+    const handleSessionUpdated = (data: SessionUpdatedEventData) => {
+      if (data.session) {
+        setSession(prev => prev && { ...prev, ...data.session });
+      }
+    };
+
     on('player_joined', handlePlayerJoined);
     on('player_left', handlePlayerLeft);
+    on('session-updated', handleSessionUpdated);
 
     return () => {
       off('player_joined', handlePlayerJoined);
       off('player_left', handlePlayerLeft);
+      off('session-updated', handleSessionUpdated);
     };
   }, [isConnected, sessionId, members, on, off, fetchSessionData]);
 
+  // 別のホスト（メインのホスト・共同ホスト）がゲームを開始した場合もゲーム画面へ移動する
+  useEffect(() => {
+    if (!isConnected || !sessionId || !accessToken || !hostId) return;
+
+    const handleGameStarted = () => {
+      router.push(`/host/game/${sessionId}?token=${accessToken}&hostId=${hostId}`);
+    };
+
+    on('game-started', handleGameStarted);
+    return () => off('game-started', handleGameStarted);
+  }, [isConnected, sessionId, accessToken, hostId, router, on, off]);
+
   // デバッグ情報の定期出力
   useEffect(() => {
     const interval = setInterval(() => {
@@ -346,15 +381,12 @@ function WaitingContent() {
 
       if (!triggerResponse.ok) {
         const errorData = await triggerResponse.json();
-        throw new Error(errorData.error || 'ゲーム開始イベントの送信に失敗しました');
+        throw new Error(errorData.error || t.startEventFailed);
       }
 
       console.log('start_gameイベント送信完了（Pusher API経由）');
       
-      // 2. 既存のemitも念のため実行
-      await emit('start_game', { sessionId: sessionInfo.sessionId });
-      
-      // 3. ゲーム画面へ遷移
+      // 2. ゲーム画面へ遷移
       setTimeout(() => {
         const gameUrl = `/host/game/${sessionInfo.sessionId}?token=${sessionInfo.accessToken}&hostId=${sessionInfo.hostId}`;
         console.log('ゲーム画面へ遷移:', gameUrl);
@@ -363,7 +395,7 @@ function WaitingContent() {
       
     } catch (error) {
       console.error('ゲーム開始エラー:', error);
-      setError(error instanceof Error ? error.message : 'ゲームの開始に失敗しました');
+      setError(error instanceof Error ? error.message : t.startFailed);
     }
   };
 
@@ -400,7 +432,7 @@ function WaitingContent() {
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-pink-500 via-red-500 to-orange-500">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-yellow-400 mx-auto mb-4"></div>
-          <p className="text-white text-lg">初期化中...</p>
+          <p className="text-white text-lg">{t.initializing}</p>
         </div>
       </div>
     );
@@ -414,7 +446,7 @@ function WaitingContent() {
           <div className="flex items-center justify-center w-16 h-16 bg-red-500/20 rounded-full mx-auto mb-4">
             <AlertCircle className="w-8 h-8 text-red-300" />
           </div>
-          <h2 className="text-2xl font-bold text-white text-center mb-4">エラーが発生しました</h2>
+          <h2 className="text-2xl font-bold text-white text-center mb-4">{t.errorTitle}</h2>
           <p className="text-white/80 text-center mb-6">{error}</p>
           <div className="space-y-3">
             <button
@@ -422,13 +454,13 @@ function WaitingContent() {
               className="w-full py-3 bg-white/20 hover:bg-white/30 backdrop-blur-sm rounded-lg text-white font-medium transition-colors flex items-center justify-center gap-2"
             >
               <RefreshCw className="w-5 h-5" />
-              再試行
+              {messages.common.retry}
             </button>
             <button
               onClick={() => router.push('/host/create')}
               className="w-full py-3 bg-gradient-to-r from-pink-600 to-orange-500 hover:from-pink-700 hover:to-orange-600 rounded-lg text-white font-medium transition-all"
             >
-              新しくゲームを作成
+              {t.createNew}
             </button>
           </div>
         </div>
@@ -442,11 +474,11 @@ function WaitingContent() {
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-pink-500 via-red-500 to-orange-500">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-yellow-400 mx-auto mb-4"></div>
-          <p className="text-white text-lg mb-2">ゲーム情報を読み込み中...</p>
+          <p className="text-white text-lg mb-2">{t.loadingGame}</p>
           <p className="text-white/60 text-sm">
-            SessionId: {sessionId || '取得中...'}<br />
-            AccessToken: {accessToken ? '設定済み' : '取得中...'}<br />
-            HostId: {hostId || '取得中...'}
+            SessionId: {sessionId || t.pending}<br />
+            AccessToken: {accessToken ? t.tokenSet : t.pending}<br />
+            HostId: {hostId || t.pending}
           </p>
         </div>
       </div>
@@ -456,16 +488,26 @@ function WaitingContent() {
   // 参加者リストはsession.playersを使用
   const players = session?.players || [];
 
+  // 共同ホストは権限のある操作だけを表示する
+  const actorId = getActorIdFromCredential(hostId);
+  const hostRole = getHostRole(session, actorId);
+  const canStartGame = hasHostPermission(session, actorId, 'manage-game');
+  const canModeratePlayers = hasHostPermission(session, actorId, 'moderate-players');
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 p-4">
       <div className="max-w-6xl mx-auto">
+        <div className="flex justify-end">
+          <LocaleSwitcher />
+        </div>
+
         {/* ヘッダー */}
         <div className="text-center mb-8 pt-8">
           <div className="inline-flex items-center justify-center w-20 h-20 bg-white/20 backdrop-blur-sm rounded-full mb-4">
             <Users className="w-12 h-12 text-yellow-400" />
           </div>
           <h1 className="text-4xl font-bold text-white mb-2 drop-shadow-md">
-            参加者を待っています
+            {t.title}
           </h1>
           <p className="text-white/90 text-xl font-medium">
             {sessionInfo.gameName}
@@ -477,14 +519,14 @@ function WaitingContent() {
           <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6 space-y-6 border border-white/20 shadow-xl relative">
             {/* ヘッダーと三点メニュー */}
             <div className="flex justify-between items-start">
-              <h2 className="text-2xl font-bold text-white">📱 参加用QRコード</h2>
+              <h2 className="text-2xl font-bold text-white">{t.qrTitle}</h2>
               
               {/* 三点メニュー */}
               <div className="relative">
                 <button
                   onClick={() => setMenuState(menuState === 'closed' ? 'open' : 'closed')}
                   className="p-2 hover:bg-white/20 rounded-lg transition-colors"
-                  aria-label="メニュー"
+                  aria-label={t.menu}
                 >
                   <MoreVertical className="w-6 h-6 text-white" />
                 </button>
@@ -492,6 +534,18 @@ function WaitingContent() {
                 {/* ドロップダウンメニュー */}
                 {(menuState === 'open' || menuState === 'confirming') && (
                   <div className="absolute right-0 mt-2 w-48 bg-red-900 rounded-lg shadow-lg z-50 overflow-hidden">
+                    {/* 紙のカードの印刷は別タブで開く（待機画面の接続を切らない） */}
+                    {canModeratePlayers && (
+                      <a
+                        href={`/host/print/${sessionId}?token=${accessToken}&hostId=${hostId}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        onClick={() => setMenuState('closed')}
+                        className="block w-full px-4 py-3 text-left text-white hover:bg-red-800 transition-colors border-b border-red-800"
+                      >
+                        {t.printPaperCards}
+                      </a>
+                    )}
                     <button
                       onClick={() => {
                         if (menuState === 'open') {
@@ -503,9 +557,9 @@ function WaitingContent() {
                       className="w-full px-4 py-3 text-left text-white hover:bg-red-800 transition-colors"
                     >
                       {menuState === 'open' ? (
-                        '大会を終了'
+                        t.endGame
                       ) : (
-                        <span className="text-red-400">本当に終了しますか？</span>
+                        <span className="text-red-400">{t.confirmEnd}</span>
                       )}
                     </button>
                   </div>
@@ -526,7 +580,7 @@ function WaitingContent() {
               <div className="bg-white p-4 rounded-xl">
                 <img 
                   src={sessionInfo.qrCodeDataUrl} 
-                  alt="参加用QRコード" 
+                  alt={t.qrAlt}
                   className="w-64 h-64"
                   style={{ imageRendering: 'pixelated' }}
                 />
@@ -538,8 +592,8 @@ function WaitingContent() {
               {/* セッションID */}
               <div className="space-y-2">
                 <label className="text-white font-medium flex items-center">
-                  セッションID
-                  <span className="ml-2 text-xs text-yellow-300">（参加者に共有）</span>
+                  {t.sessionId}
+                  <span className="ml-2 text-xs text-yellow-300">{t.shareWithPlayers}</span>
                 </label>
                 <div className="flex items-center gap-2">
                   <div className="flex-1 bg-yellow-400/20 backdrop-blur-sm rounded-lg px-4 py-3 border border-yellow-400/40">
@@ -550,7 +604,7 @@ function WaitingContent() {
                   <button
                     onClick={() => handleCopy(sessionInfo.sessionId, 'sessionId')}
                     className="p-3 bg-white/20 backdrop-blur-sm rounded-lg hover:bg-white/30 transition-colors"
-                    title="コピー"
+                    title={t.copy}
                   >
                     {copied === 'sessionId' ? (
                       <CheckCircle className="w-5 h-5 text-green-300" />
@@ -560,15 +614,15 @@ function WaitingContent() {
                   </button>
                 </div>
                 {copied === 'sessionId' && (
-                  <p className="text-green-300 text-sm">コピーしました！</p>
+                  <p className="text-green-300 text-sm">{t.copied}</p>
                 )}
               </div>
 
               {/* アクセストークン */}
               <div className="space-y-2">
                 <label className="text-white font-medium flex items-center">
-                  アクセストークン
-                  <span className="ml-2 text-xs text-yellow-300">（参加者に共有）</span>
+                  {t.accessToken}
+                  <span className="ml-2 text-xs text-yellow-300">{t.shareWithPlayers}</span>
                 </label>
                 <div className="flex items-center gap-2">
                   <div className="flex-1 bg-yellow-400/20 backdrop-blur-sm rounded-lg px-4 py-3 border border-yellow-400/40">
@@ -579,7 +633,7 @@ function WaitingContent() {
                   <button
                     onClick={() => handleCopy(sessionInfo.accessToken, 'accessToken')}
                     className="p-3 bg-white/20 backdrop-blur-sm rounded-lg hover:bg-white/30 transition-colors"
-                    title="コピー"
+                    title={t.copy}
                   >
                     {copied === 'accessToken' ? (
                       <CheckCircle className="w-5 h-5 text-green-300" />
@@ -589,13 +643,13 @@ function WaitingContent() {
                   </button>
                 </div>
                 {copied === 'accessToken' && (
-                  <p className="text-green-300 text-sm">コピーしました！</p>
+                  <p className="text-green-300 text-sm">{t.copied}</p>
                 )}
               </div>
 
               {/* 参加URL */}
               <div className="space-y-2">
-                <label className="text-white font-medium">🔗 参加URL</label>
+                <label className="text-white font-medium">{t.participationUrl}</label>
                 <div className="flex items-center gap-2">
                   <div className="flex-1 bg-white/20 backdrop-blur-sm rounded-lg px-4 py-3">
                     <p className="text-xs text-yellow-200 font-mono break-all">
@@ -605,7 +659,7 @@ function WaitingContent() {
                   <button
                     onClick={() => handleCopy(sessionInfo.participationUrl, 'url')}
                     className="p-3 bg-white/20 backdrop-blur-sm rounded-lg hover:bg-white/30 transition-colors"
-                    title="URLをコピー"
+                    title={t.copyUrl}
                   >
                     {copied === 'url' ? (
                       <CheckCircle className="w-5 h-5 text-green-300" />
@@ -615,7 +669,7 @@ function WaitingContent() {
                   </button>
                 </div>
                 {copied === 'url' && (
-                  <p className="text-green-300 text-sm">URLをコピーしました！</p>
+                  <p className="text-green-300 text-sm">{t.urlCopied}</p>
                 )}
               </div>
             </div>
@@ -624,7 +678,7 @@ function WaitingContent() {
           {/* 右側: 参加者リスト */}
           <div className="bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20 shadow-xl">
             <div className="flex justify-between items-center mb-6">
-              <h2 className="text-2xl font-bold text-white">👥 参加者リスト</h2>
+              <h2 className="text-2xl font-bold text-white">{t.playerList}</h2>
               <div className="flex items-center gap-3">
                 <div className="flex items-center gap-2">
                   {isConnected ? (
@@ -633,12 +687,12 @@ function WaitingContent() {
                     <WifiOff className="w-5 h-5 text-red-300" />
                   )}
                   <span className="text-white/80 text-sm">
-                    {isConnected ? '接続中' : '接続待機中'}
+                    {isConnected ? t.connected : t.connecting}
                   </span>
                 </div>
                 <div className="bg-white/20 backdrop-blur-sm rounded-lg px-4 py-2">
                   <span className="text-3xl font-bold text-yellow-300">{players.length}</span>
-                  <span className="text-white/90 text-lg ml-1">/ {sessionInfo.maxPlayers}人</span>
+                  <span className="text-white/90 text-lg ml-1">{formatMessage(t.maxPlayers, { max: sessionInfo.maxPlayers })}</span>
                 </div>
               </div>
             </div>
@@ -650,10 +704,10 @@ function WaitingContent() {
                   <div className="w-24 h-24 bg-white/20 rounded-full flex items-center justify-center mb-4">
                     <Users className="w-12 h-12 text-white/60" />
                   </div>
-                  <p className="text-white/60 text-lg mb-2">参加者を待っています...</p>
+                  <p className="text-white/60 text-lg mb-2">{t.waitingForPlayers}</p>
                   <p className="text-white/40 text-sm">
-                    QRコードを読み取るか<br />
-                    セッションIDとアクセストークンで参加できます
+                    {t.joinHintLine1}<br />
+                    {t.joinHintLine2}
                   </p>
                 </div>
               ) : (
@@ -674,14 +728,24 @@ function WaitingContent() {
                         <div className="flex items-center gap-2">
                           {player.id === hostId && (
                             <span className="px-3 py-1 bg-yellow-400/30 backdrop-blur-sm rounded-full text-yellow-200 text-sm font-medium">
-                              ホスト
+                              {t.host}
                             </span>
                           )}
                           {/* 控えめなオンラインインジケーター */}
                           <div 
                             className={`w-2 h-2 rounded-full ${online ? 'bg-green-400' : 'bg-gray-400'}`}
-                            title={online ? '画面を見ています' : '他のアプリを見ています'}
+                            title={online ? t.online : t.away}
                           />
+                          {canModeratePlayers && (
+                            <button
+                              onClick={() => setKickTarget(player)}
+                              aria-label={formatMessage(messages.playerList.kickLabel, { name: player.name })}
+                              title={formatMessage(messages.playerList.kickLabel, { name: player.name })}
+                              className="p-1.5 rounded-lg text-white/70 hover:text-white hover:bg-red-500/60 transition-colors"
+                            >
+                              <UserX className="w-4 h-4" />
+                            </button>
+                          )}
                         </div>
                       </div>
                     );
@@ -693,40 +757,72 @@ function WaitingContent() {
             {/* バックグラウンドでも大丈夫という説明 */}
             <div className="mt-4 p-3 bg-blue-500/20 backdrop-blur-sm rounded-lg border border-blue-400/30">
               <p className="text-white/90 text-sm text-center">
-                💡 参加者が裏画面でもゲーム開始すると自動でゲーム画面に移動します
+                {t.backgroundHint}
               </p>
             </div>
 
-            {/* ゲーム開始ボタン */}
-            <div className="mt-4">
-              <button
-                onClick={handleStartGame}
-                disabled={players.length < 2}
-                className={`w-full py-4 rounded-lg font-bold text-lg transition-all transform ${
-                  players.length >= 2
-                    ? 'bg-gradient-to-r from-pink-600 to-orange-500 hover:from-pink-700 hover:to-orange-600 text-white shadow-lg hover:scale-105'
-                    : 'bg-white/20 text-white/50 cursor-not-allowed'
-                }`}
-              >
-                {players.length < 2 
-                  ? `あと${2 - players.length}人必要です` 
-                  : '🎮 ゲームを開始する'}
-              </button>
-              <p className="text-center text-white/60 text-sm mt-2">
-                ※ ホスト以外に1人以上でゲームを開始できます
+            {/* ゲーム開始ボタン（開始の権限がない共同ホストには案内を表示） */}
+            {hostRole === 'co-host' && !canStartGame ? (
+              <p className="mt-4 p-3 bg-white/20 rounded-lg text-white text-center">
+                {t.coHostWaiting}
               </p>
-            </div>
+            ) : (
+              <div className="mt-4">
+                <button
+                  onClick={handleStartGame}
+                  disabled={players.length < 2}
+                  className={`w-full py-4 rounded-lg font-bold text-lg transition-all transform ${
+                    players.length >= 2
+                      ? 'bg-gradient-to-r from-pink-600 to-orange-500 hover:from-pink-700 hover:to-orange-600 text-white shadow-lg hover:scale-105'
+                      : 'bg-white/20 text-white/50 cursor-not-allowed'
+                  }`}
+                >
+                  {players.length < 2 
+                    ? formatMessage(t.playersNeeded, { count: 2 - players.length })
+                    : t.start}
+                </button>
+                <p className="text-center text-white/60 text-sm mt-2">
+                  {t.startHint}
+                </p>
+              </div>
+            )}
           </div>
         </div>
 
+        {/* 共同ホストの招待（メインのホストのみ） */}
+        {hostRole === 'host' && session && (
+          <div className="mt-6 bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20 shadow-xl">
+            <h2 className="text-2xl font-bold text-white mb-4 flex items-center gap-2">
+              <UserCog className="w-6 h-6" />
+              {messages.coHosts.title}
+            </h2>
+            <CoHostPanel
+              sessionId={sessionId}
+              accessToken={accessToken}
+              hostId={hostId}
+              coHosts={session.coHosts || []}
+            />
+          </div>
+        )}
+
+        {kickTarget && (
+          <KickPlayerModal
+            sessionId={sessionId}
+            accessToken={accessToken}
+            hostId={hostId}
+            player={kickTarget}
+            onClose={() => setKickTarget(null)}
+          />
+        )}
+
         {/* 注意事項 */}
         <div className="mt-8 text-center">
           <div className="inline-flex flex-col items-center p-4 bg-yellow-400/20 backdrop-blur-sm rounded-lg border border-yellow-400/40">
             <p className="text-white/90 text-sm">
-              💡 参加者はQRコードを読み取るか、セッションIDとアクセストークンを入力して参加できます
+              {t.joinHint}
             </p>
             <p className="text-white/70 text-sm mt-1">
-              ※ セッションは作成から2時間で自動的に削除されます
+              {t.expiryHint}
             </p>
           </div>
         </div>
@@ -736,12 +832,14 @@ function WaitingContent() {
 }
 
 export default function HostWaitingPage() {
+  const { messages } = useLocale();
+
   return (
     <Suspense fallback={
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-pink-500 via-red-500 to-orange-500">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-yellow-400 mx-auto mb-4"></div>
-          <p className="text-white text-lg">読み込み中...</p>
+          <p className="text-white text-lg">{messages.common.loading}</p>
         </div>
       </div>
     }>
@@ -1,7 +1,10 @@
 import type { Metadata } from "next";
+import { cookies } from "next/headers";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { Analytics } from "@vercel/analytics/next"
+import LocaleProvider from "./components/LocaleProvider";
+import { LOCALE_COOKIE, getMessages, resolveLocale } from "@/utils/i18n";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -13,22 +16,35 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: "Online Bingo",
-  description: "みんなで楽しめるオンラインビンゴゲーム",
-};
+// 表示言語はCookieで保持する（未設定は日本語）
+async function getLocale() {
+  const cookieStore = await cookies();
+  return resolveLocale(cookieStore.get(LOCALE_COOKIE)?.value);
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  const messages = getMessages(await getLocale());
+  return {
+    title: "Online Bingo",
+    description: messages.common.appDescription,
+  };
+}
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getLocale();
+
   return (
-    <html lang="ja">
+    <html lang={locale}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <LocaleProvider initialLocale={locale}>
+          {children}
+        </LocaleProvider>
         <Analytics />
       </body>
     </html>
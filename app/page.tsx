@@ -1,6 +1,9 @@
 'use client'
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import { useLocale } from '@/hooks/useLocale';
+import { formatMessage } from '@/utils/i18n';
+import LocaleSwitcher from './components/LocaleSwitcher';
 
 // ビンゴボードを生成する関数
 const generateBingoBoard = () => {
@@ -52,12 +55,13 @@ const checkBingo = (board: number[][], calledNumbers: number[]) => {
 
 const CreateGame = () => {
   const router = useRouter();
+  const { messages } = useLocale();
 
   return (
     <div className="w-full max-w-2xl mx-auto">
       <div className="bg-gradient-to-r from-pink-500/70 to-orange-400/70 p-4 rounded-t-lg backdrop-blur-sm border-t border-l border-r border-white/20">
         <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-300 to-yellow-500 drop-shadow-md">
-          みんなとビンゴをプレイ
+          {messages.home.playTogether}
         </h2>
       </div>
       
@@ -67,7 +71,7 @@ const CreateGame = () => {
             onClick={() => router.push('/host/create/')}
             className="w-full bg-gradient-to-r from-pink-600 to-orange-500 hover:from-pink-700 hover:to-orange-600 text-white font-bold py-3 rounded-lg shadow-lg transform transition hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            ゲームを主催
+            {messages.home.host}
           </button>
         </div>
         
@@ -76,9 +80,17 @@ const CreateGame = () => {
             onClick={() => router.push('/guest/join')}
             className="w-full bg-gradient-to-r from-pink-600 to-orange-500 hover:from-pink-700 hover:to-orange-600 text-white font-bold py-3 rounded-lg shadow-lg transform transition hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            ゲームに参加
+            {messages.home.join}
           </button>
         </div>
+
+        {/* ログインは任意（作成したゲームを別の端末から再開したいホスト向け） */}
+        <button
+          onClick={() => router.push('/host/dashboard')}
+          className="text-sm text-white/90 underline hover:text-white"
+        >
+          {messages.home.hostAccount}
+        </button>
       </div>
     </div>
   );
@@ -139,6 +151,7 @@ export default function BingoTopPage() {
   const [latestNumber, setLatestNumber] = useState<number | null>(null);
   const [remainingNumbers, setRemainingNumbers] = useState<number[]>([]);
   const [isBingo, setIsBingo] = useState(false);
+  const { messages } = useLocale();
 
   // クライアントサイドでのみ初期化
   useEffect(() => {
@@ -185,8 +198,9 @@ export default function BingoTopPage() {
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-pink-500 via-red-500 to-orange-500 p-8 flex flex-col items-center justify-center">
+      <LocaleSwitcher className="absolute top-4 right-4" />
       <h1 className="text-5xl font-bold text-white mb-10 drop-shadow-lg">
-        オンライン<span className="text-yellow-300">BINGO</span>
+        {messages.home.titlePrefix}<span className="text-yellow-300">BINGO</span>
       </h1>
 
       <div className="w-full max-w-md mb-8">
@@ -204,7 +218,7 @@ export default function BingoTopPage() {
             <div className="bg-gradient-to-r from-pink-500/70 to-orange-400/70 p-4 backdrop-blur-sm border-t border-l border-r border-white/20">
           {/* <div className="bg-gradient-to-r from-pink-500/70 to-orange-400/70 p-4 rounded-t-lg backdrop-blur-sm border-t border-l border-r border-white/20"> */}
             <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-yellow-300 to-yellow-500 drop-shadow-md">
-              一人でビンゴをプレイ
+              {messages.home.playSolo}
             </h2>
           </div>
           
@@ -223,12 +237,12 @@ export default function BingoTopPage() {
         )}
         <div className="flex flex-col sm:flex-row gap-4 justify-between">
           <div className="bg-white/30 backdrop-blur-md rounded-xl p-4 shadow-lg border border-white/20 flex-1">
-            <h2 className="text-xl font-bold text-white mb-3 text-center drop-shadow-md">最新の番号</h2>
+            <h2 className="text-xl font-bold text-white mb-3 text-center drop-shadow-md">{messages.home.latestNumber}</h2>
             <div className="aspect-square w-20 h-20 mx-auto flex items-center justify-center rounded-full bg-gradient-to-br from-yellow-400 to-yellow-600 border-4 border-red-600 shadow-lg">
               <span className="text-3xl font-bold text-red-700">{latestNumber || '-'}</span>
             </div>
             <p className="text-center mt-2 text-white">
-              残り: {remainingNumbers.length}個
+              {formatMessage(messages.home.remaining, { count: remainingNumbers.length })}
             </p>
           </div>
           
@@ -238,14 +252,14 @@ export default function BingoTopPage() {
               disabled={remainingNumbers.length === 0}
               className="bg-gradient-to-r from-yellow-500 to-yellow-600 hover:from-yellow-600 hover:to-yellow-700 text-red-800 font-bold py-4 px-6 rounded-lg shadow-lg transform transition hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              番号を引く
+              {messages.home.draw}
             </button>
             
             <button
               onClick={resetGame}
               className="bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white font-bold py-3 px-6 rounded-lg shadow-lg"
             >
-              リセット
+              {messages.home.reset}
             </button>
           </div>
         </div>
@@ -0,0 +1,136 @@
+// hooks/useAutoDrawCountdown.ts
+// 自動抽選のカウントダウンHook（ホスト・ゲスト共通）
+//
+// 次の抽選予定時刻はサーバーが管理し、auto-draw-updated イベントで配信される。
+// 端末の時計のずれはイベントに含まれるサーバー時刻で補正し、
+// カウントダウンが0になったら draw/tick に抽選を依頼する
+
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { errorLog } from '@/utils/validation';
+import type {
+  AutoDrawState,
+  AutoDrawUpdatedEventData,
+  DrawTickResponse,
+  UsePusherConnectionReturn
+} from '@/types';
+
+// 抽選依頼の応答がないまま予定が更新されない場合に再度依頼するまでの時間
+const TICK_RETRY_MS = 3000;
+
+interface UseAutoDrawCountdownOptions {
+  sessionId: string | null;
+  accessToken: string | null;
+  participantId: string | null; // ホストIDまたはプレイヤーID
+  sessionAutoDraw?: AutoDrawState | null; // セッション取得・更新時の状態
+  isConnected: boolean;
+  on: UsePusherConnectionReturn['on'];
+  off: UsePusherConnectionReturn['off'];
+  maxJitterMs?: number; // 抽選依頼を遅らせる最大時間（ゲストの依頼が一斉に届かないようにする）
+}
+
+interface UseAutoDrawCountdownReturn {
+  autoDraw: AutoDrawState | null;
+  remainingSeconds: number | null; // running時のみ
+  applyAutoDraw: (autoDraw: AutoDrawState | null, serverTime: string) => void;
+}
+
+export const useAutoDrawCountdown = ({
+  sessionId,
+  accessToken,
+  participantId,
+  sessionAutoDraw,
+  isConnected,
+  on,
+  off,
+  maxJitterMs = 0
+}: UseAutoDrawCountdownOptions): UseAutoDrawCountdownReturn => {
+  const [autoDraw, setAutoDraw] = useState<AutoDrawState | null>(sessionAutoDraw ?? null);
+  const [remainingSeconds, setRemainingSeconds] = useState<number | null>(null);
+  const clockOffsetRef = useRef(0); // サーバー時刻 - 端末時刻（ms）
+  const lastTickRef = useRef<{ nextDrawAt: string; requestedAt: number } | null>(null);
+
+  const applyAutoDraw = useCallback((next: AutoDrawState | null, serverTime: string) => {
+    clockOffsetRef.current = new Date(serverTime).getTime() - Date.now();
+    setAutoDraw(next);
+  }, []);
+
+  // セッションの再取得・リセット・次のラウンドで状態が変わった場合に反映
+  useEffect(() => {
+    setAutoDraw(sessionAutoDraw ?? null);
+  }, [sessionAutoDraw]);
+
+  // 自動抽選の状態の変更を受信
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const handleAutoDrawUpdated = (data: AutoDrawUpdatedEventData) => {
+      applyAutoDraw(data.autoDraw, data.serverTime);
+    };
+
+    on('auto-draw-updated', handleAutoDrawUpdated);
+    return () => off('auto-draw-updated', handleAutoDrawUpdated);
+  }, [isConnected, on, off, applyAutoDraw]);
+
+  // 抽選を依頼（予定前・他の参加者が抽選済みの場合は最新の状態が返る）
+  const requestTick = useCallback(async () => {
+    if (!sessionId || !accessToken || !participantId) return;
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/draw/tick`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ accessToken, participantId })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || '自動抽選の依頼に失敗しました');
+      }
+
+      const data: DrawTickResponse = await response.json();
+      applyAutoDraw(data.autoDraw, data.serverTime);
+    } catch (error) {
+      errorLog(`自動抽選の依頼エラー: ${(error as Error).message}`);
+    }
+  }, [sessionId, accessToken, participantId, applyAutoDraw]);
+
+  // カウントダウン
+  const nextDrawAt = autoDraw?.status === 'running' ? autoDraw.nextDrawAt : undefined;
+
+  useEffect(() => {
+    if (!nextDrawAt) {
+      setRemainingSeconds(null);
+      return;
+    }
+
+    let jitterTimer: NodeJS.Timeout | null = null;
+
+    const update = () => {
+      const remainingMs = new Date(nextDrawAt).getTime() - (Date.now() + clockOffsetRef.current);
+      setRemainingSeconds(Math.max(0, Math.ceil(remainingMs / 1000)));
+
+      if (remainingMs > 0) return;
+
+      // 同じ予定に対しては一定時間ごとに1回だけ依頼する
+      const lastTick = lastTickRef.current;
+      if (lastTick?.nextDrawAt === nextDrawAt && Date.now() - lastTick.requestedAt < TICK_RETRY_MS) return;
+
+      lastTickRef.current = { nextDrawAt, requestedAt: Date.now() };
+      jitterTimer = setTimeout(requestTick, Math.random() * maxJitterMs);
+    };
+
+    update();
+    const interval = setInterval(update, 250);
+
+    return () => {
+      clearInterval(interval);
+      if (jitterTimer) clearTimeout(jitterTimer);
+    };
+  }, [nextDrawAt, requestTick, maxJitterMs]);
+
+  return { autoDraw, remainingSeconds, applyAutoDraw };
+};
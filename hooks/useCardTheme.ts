@@ -0,0 +1,33 @@
+// hooks/useCardTheme.ts
+// ビンゴカードと抽選済み番号一覧の配色テーマを端末ごとに保存するHook
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { DEFAULT_CARD_THEME, sanitizeCardTheme } from '@/utils/cardThemes';
+import type { CardTheme } from '@/types';
+
+// 見やすさの設定なので画面ごとに分けず、端末で共通にする
+const CARD_THEME_KEY = 'cardTheme';
+
+interface UseCardThemeReturn {
+  theme: CardTheme;
+  setTheme: (theme: CardTheme) => void;
+}
+
+export const useCardTheme = (): UseCardThemeReturn => {
+  const [theme, setThemeState] = useState<CardTheme>(DEFAULT_CARD_THEME);
+
+  // 保存済みのテーマを読み込み
+  useEffect(() => {
+    setThemeState(sanitizeCardTheme(localStorage.getItem(CARD_THEME_KEY)));
+  }, []);
+
+  const setTheme = useCallback((next: CardTheme) => {
+    const value = sanitizeCardTheme(next);
+    localStorage.setItem(CARD_THEME_KEY, value);
+    setThemeState(value);
+  }, []);
+
+  return { theme, setTheme };
+};
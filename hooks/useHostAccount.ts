@@ -0,0 +1,41 @@
+// hooks/useHostAccount.ts
+// ログイン中のホストアカウントを取得するHook（ログインは任意なので、未ログインはnull）
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { AccountResponse, HostAccountSummary } from '@/types';
+
+interface UseHostAccountReturn {
+  account: HostAccountSummary | null;
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+}
+
+export const useHostAccount = (): UseHostAccountReturn => {
+  const [account, setAccount] = useState<HostAccountSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/accounts/me');
+      if (!response.ok) {
+        setAccount(null);
+        return;
+      }
+      const data: AccountResponse = await response.json();
+      setAccount(data.account);
+    } catch (error) {
+      console.error('アカウント情報の取得エラー:', error);
+      setAccount(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { account, isLoading, refresh };
+};
@@ -0,0 +1,16 @@
+// hooks/useLocale.ts
+// 表示言語とメッセージを取得するHook（LocaleProviderの中で使う）
+
+'use client';
+
+import { createContext, useContext } from 'react';
+import type { LocaleContextValue } from '@/types';
+import { DEFAULT_LOCALE, getMessages } from '@/utils/i18n';
+
+export const LocaleContext = createContext<LocaleContextValue>({
+  locale: DEFAULT_LOCALE,
+  messages: getMessages(DEFAULT_LOCALE),
+  setLocale: () => {}
+});
+
+export const useLocale = (): LocaleContextValue => useContext(LocaleContext);
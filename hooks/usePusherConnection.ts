@@ -27,7 +27,6 @@ const EVENT_MAPPING = {
   joinGame: 'client-join-game',
   start_game: 'client-start-game',
   draw_number: 'client-draw-number',
-  reset_game: 'client-reset-game',
 } as const;
 
 // 再接続データを取得（ローカルストレージから）
@@ -152,10 +151,13 @@ export const usePusherConnection = (sessionId: string | null): UsePusherConnecti
         // 認証エンドポイントの設定（古いバージョン互換）
         authEndpoint: '/api/pusher/auth',
         auth: {
+          // 観戦者はplayerIdの代わりにspectatorIdで認証する（未定義の値は送らない）
           params: {
             sessionId: reconnectionData.sessionId,
             accessToken: reconnectionData.accessToken,
-            playerId: reconnectionData.playerId,
+            ...(reconnectionData.playerId
+              ? { playerId: reconnectionData.playerId }
+              : { spectatorId: reconnectionData.spectatorId }),
           },
           headers: {
             'Content-Type': 'application/json',
@@ -5,6 +5,7 @@
 
 import { useState, useCallback } from 'react';
 import { QRCodeOptions } from '@/types';
+import { useLocale } from '@/hooks/useLocale';
 
 interface UseQRCodeReturn {
   qrCodeUrl: string | null;
@@ -18,6 +19,7 @@ export const useQRCode = (): UseQRCodeReturn => {
   const [qrCodeUrl, setQrCodeUrl] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { messages } = useLocale();
 
   const generateQRCode = useCallback(async (text: string, options: QRCodeOptions = {}) => {
     setIsLoading(true);
@@ -45,11 +47,11 @@ export const useQRCode = (): UseQRCodeReturn => {
       setQrCodeUrl(url);
     } catch (err) {
       console.error('QRコード生成エラー:', err);
-      setError('QRコードの生成に失敗しました');
+      setError(messages.qrCode.generateFailed);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [messages]);
 
   const clearQRCode = useCallback(() => {
     setQrCodeUrl(null);
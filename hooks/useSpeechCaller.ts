@@ -0,0 +1,160 @@
+// hooks/useSpeechCaller.ts
+// 抽選された番号を音声で読み上げるHook（ホスト・大画面・ゲスト共通）
+//
+// number-drawn イベントを受け取るたびにブラウザの音声合成で読み上げる。
+// 設定は端末ごとにlocalStorageへ保存し、画面ごとに別のキーを使うため
+// 同じ端末でホスト画面と大画面を開いても二重に読み上げないよう個別に切り替えられる
+
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { errorLog } from '@/utils/validation';
+import {
+  DEFAULT_SPEECH_SETTINGS,
+  SPEECH_LANG_CODES,
+  buildCallText,
+  sanitizeSpeechSettings
+} from '@/utils/speech';
+import { getClientLocale } from '@/utils/i18n';
+import type {
+  GameType,
+  NumberDrawnEventData,
+  SpeechLanguage,
+  SpeechSettings,
+  UsePusherConnectionReturn
+} from '@/types';
+
+interface UseSpeechCallerOptions {
+  storageKey: string; // 画面ごとの設定の保存先（'host' | 'present' | 'guest' など）
+  gameType?: GameType;
+  terms?: string[];
+  currentNumber: number | null; // もう一度読み上げる番号
+  isConnected: boolean;
+  on: UsePusherConnectionReturn['on'];
+  off: UsePusherConnectionReturn['off'];
+}
+
+interface UseSpeechCallerReturn {
+  settings: SpeechSettings;
+  updateSettings: (settings: Partial<SpeechSettings>) => void;
+  isSupported: boolean;
+  repeat: () => void;
+}
+
+const getSettingsKey = (storageKey: string) => `speechSettings_${storageKey}`;
+
+/**
+ * 言語に合う音声を選択（地域まで一致するものを優先）
+ */
+function pickVoice(voices: SpeechSynthesisVoice[], language: SpeechLanguage): SpeechSynthesisVoice | null {
+  const langCode = SPEECH_LANG_CODES[language];
+  return (
+    voices.find(voice => voice.lang === langCode) ||
+    voices.find(voice => voice.lang.toLowerCase().startsWith(language)) ||
+    null
+  );
+}
+
+export const useSpeechCaller = ({
+  storageKey,
+  gameType = '75ball',
+  terms,
+  currentNumber,
+  isConnected,
+  on,
+  off
+}: UseSpeechCallerOptions): UseSpeechCallerReturn => {
+  const [settings, setSettings] = useState<SpeechSettings>(DEFAULT_SPEECH_SETTINGS);
+  const [isSupported, setIsSupported] = useState(false);
+  const settingsRef = useRef(settings); // イベントハンドラから最新の設定を参照する
+  const voicesRef = useRef<SpeechSynthesisVoice[]>([]);
+
+  // 保存済みの設定を読み込み
+  useEffect(() => {
+    setIsSupported(typeof window !== 'undefined' && 'speechSynthesis' in window);
+    // 未保存の場合は表示言語で読み上げる
+    const defaults: SpeechSettings = { ...DEFAULT_SPEECH_SETTINGS, language: getClientLocale() };
+    try {
+      const saved = localStorage.getItem(getSettingsKey(storageKey));
+      setSettings(saved ? sanitizeSpeechSettings(JSON.parse(saved)) : defaults);
+    } catch {
+      setSettings(defaults);
+    }
+
+  }, [storageKey]);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  // 音声の一覧は非同期に読み込まれるため、変更のたびに取り直す
+  useEffect(() => {
+    if (!isSupported) return;
+    const synth = window.speechSynthesis;
+    const updateVoices = () => {
+      voicesRef.current = synth.getVoices();
+    };
+    updateVoices();
+    synth.addEventListener('voiceschanged', updateVoices);
+    return () => {
+      synth.removeEventListener('voiceschanged', updateVoices);
+      synth.cancel();
+    };
+  }, [isSupported]);
+
+  const speakNumber = useCallback((number: number) => {
+    if (!isSupported) return;
+    const current = settingsRef.current;
+
+    try {
+      const synth = window.speechSynthesis;
+      // 前の読み上げが残っていれば打ち切り、最新の番号を優先する
+      synth.cancel();
+
+      const utterance = new SpeechSynthesisUtterance(buildCallText(number, current, gameType, terms));
+      utterance.lang = SPEECH_LANG_CODES[current.language];
+      utterance.rate = current.rate;
+      const voice = pickVoice(voicesRef.current, current.language);
+      if (voice) utterance.voice = voice;
+
+      synth.speak(utterance);
+    } catch (error) {
+      errorLog(`読み上げエラー: ${(error as Error).message}`);
+    }
+  }, [isSupported, gameType, terms]);
+
+  const updateSettings = useCallback((partial: Partial<SpeechSettings>) => {
+    setSettings(prev => {
+      const next = sanitizeSpeechSettings({ ...prev, ...partial });
+      localStorage.setItem(getSettingsKey(storageKey), JSON.stringify(next));
+      return next;
+    });
+    if (partial.enabled === false && isSupported) {
+      window.speechSynthesis.cancel();
+    }
+  }, [storageKey, isSupported]);
+
+  const repeat = useCallback(() => {
+    if (currentNumber !== null) {
+      speakNumber(currentNumber);
+    }
+  }, [currentNumber, speakNumber]);
+
+  // 番号が抽選されたら読み上げる
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const handleNumberDrawn = (data: NumberDrawnEventData) => {
+      if (settingsRef.current.enabled) {
+        speakNumber(data.number);
+      }
+    };
+
+    on('number-drawn', handleNumberDrawn);
+    return () => {
+      off('number-drawn', handleNumberDrawn);
+    };
+  }, [isConnected, on, off, speakNumber]);
+
+  return { settings, updateSettings, isSupported, repeat };
+};
@@ -0,0 +1,228 @@
+// lib/accounts.ts
+// ホストアカウント（ログイン状態・パスワード・マジックリンク）
+//
+// ログイン状態はランダムなトークンをHttpOnlyのCookieに保存し、DBにはハッシュだけを残す
+// マジックリンクのトークンも同様にハッシュで保存し、一度使ったら削除する
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { nanoid } from 'nanoid';
+import type { NextRequest, NextResponse } from 'next/server';
+import { getDatabase } from '@/lib/database';
+import { normalizeEmail } from '@/utils/accounts';
+import { GAME_CONSTANTS } from '@/types';
+import type { HostAccount, HostAccountSummary } from '@/types';
+
+export const ACCOUNT_COOKIE = 'hostAccount';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const PASSWORD_KEY_LENGTH = 64;
+
+interface AccountLoginDocument {
+  tokenHash: string;
+  accountId: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+interface MagicLinkDocument {
+  tokenHash: string;
+  email: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface AccountLogin {
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * Cookie・メールで渡すランダムなトークン
+ */
+function generateToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * トークンのハッシュ（DBに保存する値）
+ */
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * パスワードをハッシュ化（scrypt、"scrypt$ソルト$ハッシュ" の形式）
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+/**
+ * パスワードを照合
+ */
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [algorithm, saltHex, hashHex] = passwordHash.split('$');
+  if (algorithm !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * 画面に返すアカウント情報
+ */
+export function toAccountSummary(account: HostAccount): HostAccountSummary {
+  return { accountId: account.accountId, email: account.email };
+}
+
+/**
+ * メールアドレスからアカウントを取得
+ */
+export async function findAccountByEmail(email: string): Promise<HostAccount | null> {
+  const db = await getDatabase();
+  return db.collection<HostAccount>('accounts').findOne({ email: normalizeEmail(email) });
+}
+
+/**
+ * アカウントを作成（同じメールアドレスが同時に登録された場合はnull）
+ */
+export async function createAccount(email: string, passwordHash?: string): Promise<HostAccount | null> {
+  const db = await getDatabase();
+  const account: HostAccount = {
+    accountId: nanoid(),
+    email: normalizeEmail(email),
+    ...(passwordHash && { passwordHash }),
+    createdAt: new Date()
+  };
+
+  try {
+    await db.collection<HostAccount>('accounts').insertOne(account);
+    return account;
+  } catch (error) {
+    // メールアドレスのユニークインデックス違反
+    if ((error as { code?: number }).code === 11000) return null;
+    throw error;
+  }
+}
+
+/**
+ * メールアドレスのアカウントを取得し、なければ作成（マジックリンクでのログイン用）
+ */
+export async function findOrCreateAccount(email: string): Promise<HostAccount> {
+  const existing = await findAccountByEmail(email);
+  if (existing) return existing;
+
+  // 同時に作成された場合は先に作成されたアカウントを使う
+  const created = await createAccount(email);
+  const account = created ?? await findAccountByEmail(email);
+  if (!account) {
+    throw new Error('アカウントを作成できませんでした');
+  }
+  return account;
+}
+
+/**
+ * ログイン状態を作成
+ */
+export async function startAccountLogin(accountId: string): Promise<AccountLogin> {
+  const db = await getDatabase();
+  const token = generateToken();
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + GAME_CONSTANTS.ACCOUNT_SESSION_DAYS * 24 * 60 * 60 * 1000);
+
+  await db.collection<AccountLoginDocument>('account_logins').insertOne({
+    tokenHash: hashToken(token),
+    accountId,
+    createdAt: now,
+    expiresAt
+  });
+  await db.collection<HostAccount>('accounts').updateOne(
+    { accountId },
+    { $set: { lastLoginAt: now } }
+  );
+
+  return { token, expiresAt };
+}
+
+/**
+ * リクエストのCookieからログイン中のアカウントを取得（未ログインはnull）
+ */
+export async function getRequestAccount(request: NextRequest): Promise<HostAccount | null> {
+  const token = request.cookies.get(ACCOUNT_COOKIE)?.value;
+  if (!token) return null;
+
+  const db = await getDatabase();
+  const login = await db.collection<AccountLoginDocument>('account_logins').findOne({
+    tokenHash: hashToken(token),
+    expiresAt: { $gt: new Date() }
+  });
+  if (!login) return null;
+
+  return db.collection<HostAccount>('accounts').findOne({ accountId: login.accountId });
+}
+
+/**
+ * ログイン状態を削除（ログアウト）
+ */
+export async function endAccountLogin(request: NextRequest): Promise<void> {
+  const token = request.cookies.get(ACCOUNT_COOKIE)?.value;
+  if (!token) return;
+
+  const db = await getDatabase();
+  await db.collection<AccountLoginDocument>('account_logins').deleteOne({ tokenHash: hashToken(token) });
+}
+
+/**
+ * ログイン状態のCookieを設定
+ */
+export function setAccountCookie(response: NextResponse, login: AccountLogin): void {
+  response.cookies.set(ACCOUNT_COOKIE, login.token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: login.expiresAt
+  });
+}
+
+/**
+ * ログイン状態のCookieを削除
+ */
+export function clearAccountCookie(response: NextResponse): void {
+  response.cookies.delete(ACCOUNT_COOKIE);
+}
+
+/**
+ * マジックリンクのトークンを作成
+ */
+export async function createMagicLinkToken(email: string): Promise<string> {
+  const db = await getDatabase();
+  const token = generateToken();
+  const now = new Date();
+
+  await db.collection<MagicLinkDocument>('magic_links').insertOne({
+    tokenHash: hashToken(token),
+    email: normalizeEmail(email),
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + GAME_CONSTANTS.MAGIC_LINK_EXPIRY_MINUTES * 60 * 1000)
+  });
+
+  return token;
+}
+
+/**
+ * マジックリンクのトークンを使用し、メールアドレスを返す（無効・期限切れ・使用済みはnull）
+ */
+export async function consumeMagicLinkToken(token: string): Promise<string | null> {
+  const db = await getDatabase();
+  const link = await db.collection<MagicLinkDocument>('magic_links').findOneAndDelete({
+    tokenHash: hashToken(token),
+    expiresAt: { $gt: new Date() }
+  });
+
+  return link?.email ?? null;
+}
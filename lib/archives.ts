@@ -0,0 +1,43 @@
+// lib/archives.ts
+// ゲームの記録の保存・取得
+//
+// セッションは有効期限（TTLインデックス）で自動削除されるため、
+// 終了したゲームは archives コレクションに有効期限なしで残す
+
+import { getDatabase } from '@/lib/database';
+import { buildGameArchive } from '@/utils/archives';
+import type { GameArchive, GameSession } from '@/types';
+
+/**
+ * 終了したセッションの記録を保存（同じゲームを再度終了した場合は上書き）
+ */
+export async function saveGameArchive(session: GameSession): Promise<GameArchive> {
+  const db = await getDatabase();
+  const archive = buildGameArchive(session);
+
+  await db.collection('archives').updateOne(
+    { sessionId: archive.sessionId, accessToken: archive.accessToken },
+    { $set: archive, $unset: { hostId: '' } },
+    { upsert: true }
+  );
+
+  return archive;
+}
+
+// 以前の記録に保存されているホストIDは返さない
+const ARCHIVE_PROJECTION = { hostId: 0 };
+
+/**
+ * ゲームの記録を取得
+ * セッションIDは期限切れ後に再利用されることがあるため、トークンがない場合は最新の記録を返す
+ */
+export async function findGameArchive(sessionId: string, accessToken?: string): Promise<GameArchive | null> {
+  const db = await getDatabase();
+  const archives = db.collection<GameArchive>('archives');
+
+  if (accessToken) {
+    return archives.findOne({ sessionId, accessToken }, { projection: ARCHIVE_PROJECTION });
+  }
+
+  return archives.findOne({ sessionId }, { sort: { archivedAt: -1 }, projection: ARCHIVE_PROJECTION });
+}
@@ -0,0 +1,54 @@
+// lib/bans.ts
+// 参加禁止（退出させたプレイヤーが同じ端末から別の名前で参加し直せないようにする）
+//
+// 端末のトークンはサーバーが参加時に発行してHttpOnlyのCookieに保存する（画面のスクリプトからは消せない）
+// セッションドキュメントは session-updated で配信されるため、トークンはハッシュだけを保存する
+
+import { createHash, randomBytes } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import type { GameSession } from '@/types';
+
+export const DEVICE_COOKIE = 'bingoDevice';
+
+// Cookieを保つ日数（セッションより十分長ければよい）
+const DEVICE_COOKIE_DAYS = 365;
+
+/**
+ * リクエストのCookieから端末のトークンを取得（なければ新しく作成）
+ *
+ * @returns isNew: 新しく作成した場合はtrue（レスポンスでCookieを設定する）
+ */
+export function getDeviceToken(request: NextRequest): { token: string; isNew: boolean } {
+  const token = request.cookies.get(DEVICE_COOKIE)?.value;
+  if (token && /^[A-Za-z0-9_-]{32}$/.test(token)) {
+    return { token, isNew: false };
+  }
+  return { token: randomBytes(24).toString('base64url'), isNew: true };
+}
+
+/**
+ * 端末のトークンのCookieを設定
+ */
+export function setDeviceCookie(response: NextResponse, token: string): void {
+  response.cookies.set(DEVICE_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: DEVICE_COOKIE_DAYS * 24 * 60 * 60
+  });
+}
+
+/**
+ * 端末のトークンのハッシュ（DBに保存する値）
+ */
+export function hashDeviceToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * 参加を禁止された端末かどうか
+ */
+export function isDeviceBanned(session: GameSession, deviceTokenHash: string): boolean {
+  return (session.bannedPlayers || []).some(banned => banned.deviceTokenHash === deviceTokenHash);
+}
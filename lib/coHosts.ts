@@ -0,0 +1,102 @@
+// lib/coHosts.ts
+// 共同ホストの招待
+//
+// 招待のトークンはセッションドキュメントに入れると session-updated で配信されてしまうため、
+// 別コレクション（co_host_invites）にハッシュだけを保存し、一度使ったら削除する
+//
+// 参加した共同ホストのトークンも同じ理由で、セッションドキュメントにはハッシュだけを保存する
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { getDatabase } from '@/lib/database';
+import { GAME_CONSTANTS } from '@/types';
+import type { CoHostPermission, GameSession } from '@/types';
+
+interface CoHostInviteDocument {
+  tokenHash: string;
+  sessionId: string;
+  permissions: CoHostPermission[];
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface CoHostInvite {
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * トークンのハッシュ（DBに保存する値）
+ */
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * 招待を作成（有効期限はセッションの有効期限を超えない）
+ */
+export async function createCoHostInvite(
+  sessionId: string,
+  permissions: CoHostPermission[],
+  sessionExpiresAt: Date
+): Promise<CoHostInvite> {
+  const db = await getDatabase();
+  const token = randomBytes(24).toString('base64url');
+  const now = new Date();
+  const expiresAt = new Date(Math.min(
+    now.getTime() + GAME_CONSTANTS.CO_HOST_INVITE_EXPIRY_MINUTES * 60 * 1000,
+    new Date(sessionExpiresAt).getTime()
+  ));
+
+  await db.collection<CoHostInviteDocument>('co_host_invites').insertOne({
+    tokenHash: hashToken(token),
+    sessionId,
+    permissions,
+    createdAt: now,
+    expiresAt
+  });
+
+  return { token, expiresAt };
+}
+
+/**
+ * 招待を使用し、付与する権限を返す（無効・期限切れ・使用済み・別のセッションの招待はnull）
+ */
+export async function consumeCoHostInvite(sessionId: string, token: string): Promise<CoHostPermission[] | null> {
+  const db = await getDatabase();
+  const invite = await db.collection<CoHostInviteDocument>('co_host_invites').findOneAndDelete({
+    tokenHash: hashToken(token),
+    sessionId,
+    expiresAt: { $gt: new Date() }
+  });
+
+  return invite?.permissions ?? null;
+}
+
+/**
+ * 共同ホストのトークンを作成（"共同ホストのID.秘密の値"。IDは画面で役割を判定するために使う）
+ */
+export function createCoHostToken(coHostId: string): { token: string; tokenHash: string } {
+  const token = `${coHostId}.${randomBytes(24).toString('base64url')}`;
+  return { token, tokenHash: hashToken(token) };
+}
+
+/**
+ * リクエストで受け取ったホストID・共同ホストのトークンを操作者のIDに変換
+ *
+ * @returns メインのホストはホストID、共同ホストは公開しているID、どちらでもない場合はnull
+ */
+export function resolveHostActorId(
+  session: Pick<GameSession, 'hostId' | 'coHosts'>,
+  credential: string | null | undefined
+): string | null {
+  if (!credential) return null;
+  if (credential === session.hostId) return session.hostId;
+
+  const coHostId = credential.split('.')[0];
+  const coHost = session.coHosts?.find(c => c.id === coHostId);
+  if (!coHost?.tokenHash) return null;
+
+  const expected = Buffer.from(coHost.tokenHash, 'hex');
+  const actual = Buffer.from(hashToken(credential), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? coHost.id : null;
+}
@@ -71,6 +71,42 @@ export async function createIndexes(): Promise<void> {
   
   // ステータスでの検索を高速化
   await sessions.createIndex({ status: 1 });
+
+  // 抽選シード（公開前のコミット・リビール用）
+  const drawSeeds = db.collection('draw_seeds');
+  await drawSeeds.createIndex({ sessionId: 1 }, { unique: true });
+  await drawSeeds.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+  // ゲームの記録（有効期限なし。セッションIDは期限切れ後に再利用されうるためトークンと組み合わせる）
+  const archives = db.collection('archives');
+  await archives.createIndex({ sessionId: 1, accessToken: 1 }, { unique: true });
+  await archives.createIndex({ archivedAt: -1 });
+  await archives.createIndex({ accountId: 1, archivedAt: -1 });
+
+  // ホストアカウントとログイン状態・ログイン用リンク（有効期限切れは自動削除）
+  const accounts = db.collection('accounts');
+  await accounts.createIndex({ email: 1 }, { unique: true });
+  await accounts.createIndex({ accountId: 1 }, { unique: true });
+  await sessions.createIndex({ accountId: 1 });
+  const accountLogins = db.collection('account_logins');
+  await accountLogins.createIndex({ tokenHash: 1 }, { unique: true });
+  await accountLogins.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+  const magicLinks = db.collection('magic_links');
+  await magicLinks.createIndex({ tokenHash: 1 }, { unique: true });
+  await magicLinks.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+  // 開発用の受信箱（開発環境で送信したメール）
+  await db.collection('dev_mails').createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+  // 共同ホストの招待（一度使うと削除、有効期限切れは自動削除）
+  const coHostInvites = db.collection('co_host_invites');
+  await coHostInvites.createIndex({ tokenHash: 1 }, { unique: true });
+  await coHostInvites.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+  // ログイン・ログイン用リンクの回数制限
+  const rateLimits = db.collection('rate_limits');
+  await rateLimits.createIndex({ key: 1 });
+  await rateLimits.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
   
   console.log('✅ インデックスを作成しました:');
   console.log('  - sessionId (unique)');
@@ -78,6 +114,13 @@ export async function createIndexes(): Promise<void> {
   console.log('  - expiresAt (TTL)');
   console.log('  - hostId');
   console.log('  - status');
+  console.log('  - draw_seeds.sessionId (unique) / draw_seeds.expiresAt (TTL)');
+  console.log('  - archives.sessionId + accessToken (unique) / archives.archivedAt / archives.accountId');
+  console.log('  - accounts.email (unique) / accounts.accountId (unique) / sessions.accountId');
+  console.log('  - account_logins.tokenHash (unique) / magic_links.tokenHash (unique) / expiresAt (TTL)');
+  console.log('  - dev_mails.expiresAt (TTL)');
+  console.log('  - co_host_invites.tokenHash (unique) / co_host_invites.expiresAt (TTL)');
+  console.log('  - rate_limits.key / rate_limits.expiresAt (TTL)');
 }
 
 /**
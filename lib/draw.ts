@@ -0,0 +1,176 @@
+// lib/draw.ts
+// 番号抽選の共通処理（ホストの手動抽選と自動抽選で共有）
+//
+// 同時に複数の抽選リクエストが届いても同じ番号を二重に記録しないよう、
+// 抽選済みの個数が読み込み時と変わっていない場合のみ更新する
+
+import { getDatabase } from '@/lib/database';
+import { getDrawSeed } from '@/lib/fairness';
+import { deriveDrawOrder } from '@/utils/fairness';
+import { recordPrizeAwards } from '@/lib/prizes';
+import { getBingoLetter, getMaxNumber, formatBingoNumber } from '@/utils/gameUtils';
+import { getTermLabel } from '@/utils/terms';
+import { findPrizeAwards } from '@/utils/prizes';
+import { resolveDaubMode, resolveHostAdjudication } from '@/utils/claims';
+import { resolveDrawMode } from '@/utils/ballMachine';
+import { formatMessage, getMessages } from '@/utils/i18n';
+import { ErrorCode } from '@/types';
+import type { AutoDrawState, GameSession, Locale, MessageParams, NumberDrawnEventData, PrizeAward } from '@/types';
+
+interface DrawOptions {
+  calledNumber?: number; // ワードビンゴでホストがコールした用語・抽選機モードで入力した番号
+  expectedNextDrawAt?: string; // 自動抽選: この予定時刻の抽選がまだ行われていない場合のみ抽選する
+  locale?: Locale; // 応答メッセージの言語
+}
+
+export type DrawResult =
+  | {
+      ok: true;
+      eventData: NumberDrawnEventData;
+      message: string;
+      prizeAwards: PrizeAward[];
+      autoDraw: AutoDrawState | null;
+    }
+  | { ok: false; code: ErrorCode; params?: MessageParams; status: number };
+
+/**
+ * 自動抽選の次の予定を設定した状態を作成
+ */
+export function scheduleNextAutoDraw(intervalSeconds: number, now: Date = new Date()): AutoDrawState {
+  return {
+    status: 'running',
+    intervalSeconds,
+    nextDrawAt: new Date(now.getTime() + intervalSeconds * 1000).toISOString(),
+    updatedAt: now.toISOString()
+  };
+}
+
+/**
+ * 次の番号を抽選してセッションに記録する（Pusherの送信は呼び出し側で行う）
+ * 自動抽選中なら次の予定時刻を更新し、全ての番号を抽選したら自動抽選を止める
+ */
+export async function drawNextNumber(session: GameSession, options: DrawOptions = {}): Promise<DrawResult> {
+  const { sessionId } = session;
+
+  if (session.status !== 'playing') {
+    return { ok: false, code: ErrorCode.GAME_NOT_STARTED, status: 400 };
+  }
+
+  // 全ての番号が抽選済みかチェック（75ボール: 1-75 / 90ボール: 1-90 / ワード: 用語数）
+  const gameType = session.gameType || '75ball';
+  const maxNumber = getMaxNumber(gameType, session.terms?.length);
+  const drawnNumbers = session.numbers || [];
+  if (drawnNumbers.length >= maxNumber) {
+    return { ok: false, code: ErrorCode.ALL_NUMBERS_DRAWN, status: 400 };
+  }
+
+  // 未抽選の番号から1つ選択
+  const allNumbers = Array.from({ length: maxNumber }, (_, i) => i + 1);
+  const availableNumbers = allNumbers.filter(n => !drawnNumbers.includes(n));
+  let drawnNumber: number;
+
+  const isMachine = resolveDrawMode(session.rules, gameType) === 'machine';
+
+  if (gameType === 'words' && options.calledNumber !== undefined) {
+    // ワードビンゴはホストが実際に出た用語をコールする
+    if (!availableNumbers.includes(options.calledNumber)) {
+      return { ok: false, code: ErrorCode.TERM_NOT_CALLABLE, status: 400 };
+    }
+    drawnNumber = options.calledNumber;
+  } else if (isMachine) {
+    // 抽選機モードはホストが入力した番号をそのまま記録する
+    const calledNumber = options.calledNumber;
+    if (calledNumber === undefined) {
+      return { ok: false, code: ErrorCode.CALLED_NUMBER_REQUIRED, status: 400 };
+    }
+    if (!Number.isInteger(calledNumber) || calledNumber < 1 || calledNumber > maxNumber) {
+      return { ok: false, code: ErrorCode.CALLED_NUMBER_OUT_OF_RANGE, params: { max: maxNumber }, status: 400 };
+    }
+    if (drawnNumbers.includes(calledNumber)) {
+      return {
+        ok: false,
+        code: ErrorCode.NUMBER_ALREADY_DRAWN,
+        params: { number: formatBingoNumber(calledNumber, gameType) },
+        status: 409
+      };
+    }
+    drawnNumber = calledNumber;
+  } else {
+    // コミット済みのシードがあれば、そこから導いた順序で次の番号を決める
+    const seed = session.fairness ? await getDrawSeed(sessionId) : null;
+
+    if (seed) {
+      drawnNumber = deriveDrawOrder(seed, maxNumber).find(n => !drawnNumbers.includes(n))!;
+    } else {
+      const randomIndex = Math.floor(Math.random() * availableNumbers.length);
+      drawnNumber = availableNumbers[randomIndex];
+    }
+  }
+
+  const newDrawnNumbers = [...drawnNumbers, drawnNumber];
+  const now = new Date();
+
+  // 自動抽選中は抽選のたびにカウントダウンをやり直す（最後の番号なら自動抽選を終了）
+  let autoDraw: AutoDrawState | null = session.autoDraw ?? null;
+  if (newDrawnNumbers.length >= maxNumber) {
+    autoDraw = null;
+  } else if (autoDraw?.status === 'running') {
+    autoDraw = scheduleNextAutoDraw(autoDraw.intervalSeconds, now);
+  }
+
+  const filter: Record<string, unknown> = {
+    sessionId,
+    status: 'playing',
+    numbers: { $size: drawnNumbers.length }
+  };
+  if (options.expectedNextDrawAt) {
+    filter['autoDraw.status'] = 'running';
+    filter['autoDraw.nextDrawAt'] = options.expectedNextDrawAt;
+  }
+
+  const db = await getDatabase();
+  const updateResult = await db.collection<GameSession>('sessions').updateOne(
+    filter,
+    {
+      $push: { numbers: drawnNumber },
+      $set: {
+        currentNumber: drawnNumber,
+        updatedAt: now,
+        ...(autoDraw ? { autoDraw } : {})
+      },
+      ...(autoDraw ? {} : { $unset: { autoDraw: '' as const } })
+    }
+  );
+
+  if (updateResult.matchedCount === 0) {
+    return { ok: false, code: ErrorCode.DRAW_CONFLICT, status: 409 };
+  }
+
+  // 自動マークでは抽選のたびにサーバー側で賞を判定する
+  // （手動マーク・ホスト確認ありの場合は申告が承認された時に判定する）
+  const prizeAwards = resolveDaubMode(session.rules) === 'auto' && !resolveHostAdjudication(session.rules)
+    ? await recordPrizeAwards(
+        sessionId,
+        findPrizeAwards({ ...session, numbers: newDrawnNumbers }, now.toISOString())
+      )
+    : [];
+
+  const term = gameType === 'words' ? getTermLabel(session.terms, drawnNumber) : undefined;
+  const messages = getMessages(options.locale).server;
+
+  return {
+    ok: true,
+    eventData: {
+      number: drawnNumber,
+      bingoLetter: getBingoLetter(drawnNumber, gameType),
+      term,
+      drawnNumbers: newDrawnNumbers,
+      drawnAt: now.toISOString()
+    },
+    message: term
+      ? formatMessage(messages.termCalled, { term })
+      : formatMessage(messages.numberDrawn, { number: formatBingoNumber(drawnNumber, gameType) }),
+    prizeAwards,
+    autoDraw
+  };
+}
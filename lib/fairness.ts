@@ -0,0 +1,58 @@
+// lib/fairness.ts
+// 抽選の公平性（コミット・リビール方式）
+//
+// 1. ゲーム開始時にランダムなシードを生成し、sha256(seed) だけを公開する
+// 2. 抽選順はシードから決定的に導く（誰でも再計算できる）
+// 3. ゲーム終了時にシードを公開し、ハッシュと抽選済み番号の両方を検証できるようにする
+//
+// シードはセッションドキュメントに入れると session-updated で配信されてしまうため、
+// 公開までは別コレクション（draw_seeds）に保存する
+
+import { randomBytes } from 'crypto';
+import { getDatabase } from '@/lib/database';
+import { FAIRNESS_ALGORITHM, hashSeed } from '@/utils/fairness';
+import type { DrawFairness } from '@/types';
+
+interface DrawSeedDocument {
+  sessionId: string;
+  seed: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * 32バイトのランダムなシードを生成（16進文字列）
+ */
+export function generateSeed(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * 新しいシードを生成して保存し、公開用のコミットメントを返す
+ * リセット時にも呼び出して、ゲームごとに別のシードを使う
+ */
+export async function createDrawCommitment(sessionId: string, expiresAt: Date): Promise<DrawFairness> {
+  const seed = generateSeed();
+  const db = await getDatabase();
+
+  await db.collection<DrawSeedDocument>('draw_seeds').updateOne(
+    { sessionId },
+    { $set: { seed, createdAt: new Date(), expiresAt } },
+    { upsert: true }
+  );
+
+  return {
+    algorithm: FAIRNESS_ALGORITHM,
+    commitment: hashSeed(seed),
+    committedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * 保存済みのシードを取得（未コミットの場合はnull）
+ */
+export async function getDrawSeed(sessionId: string): Promise<string | null> {
+  const db = await getDatabase();
+  const doc = await db.collection<DrawSeedDocument>('draw_seeds').findOne({ sessionId });
+  return doc?.seed ?? null;
+}
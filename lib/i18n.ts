@@ -0,0 +1,22 @@
+// lib/i18n.ts
+// APIルートの表示言語の判定とエラーレスポンスの作成
+//
+// 言語はクライアントが保存したCookieで判定する（未設定は日本語）
+
+import type { NextRequest } from 'next/server';
+import { LOCALE_COOKIE, getErrorMessage, resolveLocale } from '@/utils/i18n';
+import type { APIError, ErrorCode, Locale, MessageParams } from '@/types';
+
+/**
+ * リクエストの表示言語を取得
+ */
+export function getRequestLocale(request: NextRequest): Locale {
+  return resolveLocale(request.cookies.get(LOCALE_COOKIE)?.value);
+}
+
+/**
+ * エラーコードからレスポンスの本文を作成
+ */
+export function errorBody(locale: Locale, code: ErrorCode, params?: MessageParams): APIError {
+  return { error: getErrorMessage(code, locale, params), code };
+}
@@ -0,0 +1,85 @@
+// lib/mail.ts
+// メール送信（マジックリンク用）
+//
+// 開発環境では実際には送信せず、dev_mails コレクションに保存する（/dev/mail で確認できる）
+// 本番環境では MAIL_WEBHOOK_URL に送信内容をPOSTし、メール配信サービス側から送る
+
+import { getDatabase } from '@/lib/database';
+import { debugLog } from '@/utils/validation';
+import type { DevMail, MailMessage } from '@/types';
+
+// 開発用の受信箱に残す時間（ms）
+const DEV_MAIL_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+interface DevMailDocument extends MailMessage {
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * 開発用の受信箱に保存するか（本番以外）
+ */
+export function isDevMailSink(): boolean {
+  return process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * メールを送信できる設定か
+ */
+export function canSendMail(): boolean {
+  return isDevMailSink() || Boolean(process.env.MAIL_WEBHOOK_URL);
+}
+
+/**
+ * メールを送信
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (isDevMailSink()) {
+    const db = await getDatabase();
+    const now = new Date();
+    await db.collection<DevMailDocument>('dev_mails').insertOne({
+      ...message,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + DEV_MAIL_RETENTION_MS)
+    });
+    debugLog('開発用の受信箱にメールを保存', { to: message.to, subject: message.subject });
+    return;
+  }
+
+  const webhookUrl = process.env.MAIL_WEBHOOK_URL;
+  if (!webhookUrl) {
+    throw new Error('MAIL_WEBHOOK_URL環境変数が設定されていません');
+  }
+
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(process.env.MAIL_WEBHOOK_TOKEN && { 'Authorization': `Bearer ${process.env.MAIL_WEBHOOK_TOKEN}` })
+    },
+    body: JSON.stringify(message)
+  });
+
+  if (!response.ok) {
+    throw new Error(`メールの送信に失敗しました: HTTP ${response.status}`);
+  }
+}
+
+/**
+ * 開発用の受信箱のメール（新しい順）
+ */
+export async function getDevMails(limit = 20): Promise<DevMail[]> {
+  const db = await getDatabase();
+  const mails = await db.collection<DevMailDocument>('dev_mails')
+    .find()
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .toArray();
+
+  return mails.map(mail => ({
+    to: mail.to,
+    subject: mail.subject,
+    text: mail.text,
+    createdAt: mail.createdAt.toISOString()
+  }));
+}
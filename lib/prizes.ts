@@ -0,0 +1,50 @@
+// lib/prizes.ts
+// 確定した賞をセッションに記録する
+//
+// 同じ賞を複数のリクエストが同時に確定しようとしても二重に記録しないよう、
+// 賞ごとに条件付きの更新を行う
+
+import { getDatabase } from '@/lib/database';
+import type { GameSession, PrizeAward } from '@/types';
+
+/**
+ * 賞を記録し、記録・更新された賞を返す（Pusherで配信する用）
+ *
+ * - 未確定の賞はそのまま追加する
+ * - 同じ抽選数で確定済みの賞には獲得者を同着として加える
+ * - 別の抽選で確定済みの賞は記録しない
+ */
+export async function recordPrizeAwards(sessionId: string, candidates: PrizeAward[]): Promise<PrizeAward[]> {
+  if (candidates.length === 0) return [];
+
+  const db = await getDatabase();
+  const sessions = db.collection<GameSession>('sessions');
+  const changedTierIds: string[] = [];
+
+  for (const award of candidates) {
+    const inserted = await sessions.updateOne(
+      { sessionId, 'prizeAwards.tierId': { $ne: award.tierId } },
+      { $push: { prizeAwards: award } }
+    );
+
+    if (inserted.modifiedCount > 0) {
+      changedTierIds.push(award.tierId);
+      continue;
+    }
+
+    const joined = await sessions.updateOne(
+      { sessionId },
+      { $addToSet: { 'prizeAwards.$[a].winners': { $each: award.winners } } },
+      { arrayFilters: [{ 'a.tierId': award.tierId, 'a.drawCount': award.drawCount }] }
+    );
+
+    if (joined.modifiedCount > 0) {
+      changedTierIds.push(award.tierId);
+    }
+  }
+
+  if (changedTierIds.length === 0) return [];
+
+  const updated = await sessions.findOne({ sessionId }, { projection: { prizeAwards: 1 } });
+  return (updated?.prizeAwards || []).filter(award => changedTierIds.includes(award.tierId));
+}
@@ -0,0 +1,47 @@
+// lib/rateLimit.ts
+// ログイン・ログイン用リンクの送信回数の制限（パスワードの総当たりとメールの大量送信を防ぐ）
+//
+// サーバーレス環境ではプロセスのメモリを共有できないため、回数はDB（rate_limits）に記録する
+// 時間枠ごとにドキュメントを分け、枠の終了後はTTLで削除する
+
+import { getDatabase } from '@/lib/database';
+
+interface RateLimitDocument {
+  key: string;
+  count: number;
+  expiresAt: Date;
+}
+
+/**
+ * 1回分を記録し、時間枠内の回数が上限以内かを返す
+ *
+ * @param key 制限の対象（例: "login:email:host@example.com"）
+ * @returns 上限を超えた場合はfalse
+ */
+export async function consumeRateLimit(key: string, limit: number, windowMinutes: number): Promise<boolean> {
+  const db = await getDatabase();
+  const windowMs = windowMinutes * 60 * 1000;
+  const windowStart = Math.floor(Date.now() / windowMs) * windowMs;
+
+  const record = await db.collection<RateLimitDocument>('rate_limits').findOneAndUpdate(
+    { key: `${key}:${windowStart}` },
+    {
+      $inc: { count: 1 },
+      $setOnInsert: { expiresAt: new Date(windowStart + windowMs) }
+    },
+    { upsert: true, returnDocument: 'after' }
+  );
+
+  return (record?.count ?? 1) <= limit;
+}
+
+/**
+ * リクエスト元のIPアドレス（プロキシ経由の場合は最初のアドレス、取得できない場合は'unknown'）
+ */
+export function getClientIp(request: Request): string {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim();
+  }
+  return request.headers.get('x-real-ip') || 'unknown';
+}
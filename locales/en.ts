@@ -0,0 +1,946 @@
+// locales/en.ts
+// 英語のメッセージ（日本語の辞書と同じ構造。型で全ての項目の翻訳を必須にしている）
+
+import { ErrorCode } from '@/types';
+import type { Messages } from '@/types';
+
+export const en: Messages = {
+  errors: {
+    [ErrorCode.INVALID_SESSION]: 'Session not found',
+    [ErrorCode.INVALID_ACCESS_TOKEN]: 'Invalid access token',
+    [ErrorCode.SESSION_FULL]: 'This session is full',
+    [ErrorCode.DUPLICATE_NAME]: 'A player with the same name already exists',
+    [ErrorCode.GAME_ALREADY_STARTED]: 'The game in this session has already started',
+    [ErrorCode.PLAYER_NOT_FOUND]: 'Player not found',
+    [ErrorCode.UNAUTHORIZED]: 'You do not have permission',
+    [ErrorCode.VALIDATION_ERROR]: 'Some of the input is invalid',
+    [ErrorCode.RATE_LIMIT_EXCEEDED]: 'Too many requests. Please wait a moment',
+    [ErrorCode.INTERNAL_ERROR]: 'A server error occurred',
+    [ErrorCode.ACCESS_TOKEN_EXPIRED]: 'The access token has expired',
+    [ErrorCode.AUTHENTICATION_FAILED]: 'Authentication failed',
+    [ErrorCode.MISSING_PARAMETERS]: 'Required parameters are missing',
+    [ErrorCode.INVALID_REQUEST_BODY]: 'The request format is invalid',
+    [ErrorCode.INVALID_ACTION]: 'Invalid action',
+    [ErrorCode.EVENT_NOT_ALLOWED]: 'This event cannot be sent',
+    [ErrorCode.SERVER_CONFIGURATION_ERROR]: 'The server is misconfigured',
+    [ErrorCode.DATABASE_ERROR]: 'Could not connect to the database',
+    [ErrorCode.INVALID_SESSION_ID]: 'Invalid session ID',
+    [ErrorCode.SESSION_AUTH_FAILED]: 'Session not found or authentication failed',
+    [ErrorCode.SESSION_EXPIRED]: 'This session has expired',
+    [ErrorCode.SESSION_STATE_CHANGED]: 'The game state has changed. Please try again',
+    [ErrorCode.SESSION_ID_GENERATION_FAILED]: 'Could not generate a session ID. Please try again',
+    [ErrorCode.SESSION_CREATE_FAILED]: 'Could not create the session',
+    [ErrorCode.SESSION_FETCH_FAILED]: 'Could not load the session',
+    [ErrorCode.SESSION_LIST_FAILED]: 'Could not load the session list',
+    [ErrorCode.HOST_ONLY]: 'Only the host can do this',
+    [ErrorCode.NOT_SESSION_PLAYER]: 'You are not a player in this session',
+    [ErrorCode.JOIN_FAILED]: 'Could not join the game',
+    [ErrorCode.SPECTATING_DISABLED]: 'This session does not allow spectators',
+    [ErrorCode.INVALID_CHANNEL]: 'Invalid channel',
+    [ErrorCode.GAME_NAME_REQUIRED]: 'A game name is required',
+    [ErrorCode.INVALID_GAME_NAME]: 'The game name must be 1–{max} characters',
+    [ErrorCode.INVALID_MAX_PLAYERS]: 'Maximum players must be between {min} and {max}',
+    [ErrorCode.INVALID_GAME_TYPE]: 'Invalid game type',
+    [ErrorCode.INVALID_LOCALE]: 'Invalid language',
+    [ErrorCode.INVALID_PATTERNS]: 'Invalid winning patterns',
+    [ErrorCode.INVALID_DAUB_SETTINGS]: 'Invalid marking mode or penalty',
+    [ErrorCode.INVALID_HOST_ADJUDICATION]: 'Invalid host confirmation setting',
+    [ErrorCode.INVALID_DRAW_MODE]: 'Invalid draw mode',
+    [ErrorCode.INVALID_LATE_JOIN]: 'Invalid late joining setting',
+    [ErrorCode.INVALID_CARD_LIMIT]: 'The card limit must be between 1 and {max}',
+    [ErrorCode.INVALID_PLACEMENT_POINTS]: 'Placement points can be set for up to {maxRanks} places, as whole numbers from 0 to {maxPoints}',
+    [ErrorCode.INVALID_PRIZE_TIERS]: 'Set up to {maxTiers} prizes, each with a name (up to {maxLength} characters) and a condition',
+    [ErrorCode.INVALID_TERMS]: 'Invalid term list',
+    [ErrorCode.TERMS_TOO_FEW]: 'At least {min} terms are required ({count} without duplicates)',
+    [ErrorCode.TERMS_TOO_MANY]: 'Use no more than {max} terms',
+    [ErrorCode.TERM_TOO_LONG]: 'Each term must be {max} characters or fewer',
+    [ErrorCode.NAME_REQUIRED]: 'Please enter your name',
+    [ErrorCode.NAME_TOO_LONG]: 'Names must be {max} characters or fewer',
+    [ErrorCode.INVALID_CARD_COUNT]: 'Choose between 1 and {max} cards',
+    [ErrorCode.GAME_NOT_STARTED]: 'The game has not started',
+    [ErrorCode.GAME_NOT_PLAYING]: 'This can only be done while the game is in progress',
+    [ErrorCode.ALL_NUMBERS_DRAWN]: 'All numbers have been drawn',
+    [ErrorCode.DRAW_CONFLICT]: 'Another draw happened at the same time. Please try again',
+    [ErrorCode.TERM_NOT_CALLABLE]: 'This term cannot be called',
+    [ErrorCode.CALLED_NUMBER_REQUIRED]: 'Enter the number from the ball machine',
+    [ErrorCode.CALLED_NUMBER_OUT_OF_RANGE]: 'Enter a number from 1 to {max}',
+    [ErrorCode.NUMBER_ALREADY_DRAWN]: '{number} has already been drawn',
+    [ErrorCode.NOTHING_TO_VOID]: 'There is no draw to void',
+    [ErrorCode.ONLY_LAST_DRAW_VOIDABLE]: 'Only the most recently drawn number can be voided',
+    [ErrorCode.NO_FAIRNESS_COMMITMENT]: 'This session has no draw commitment',
+    [ErrorCode.INVALID_AUTO_DRAW_INTERVAL]: 'The draw interval must be {min}–{max} seconds',
+    [ErrorCode.AUTO_DRAW_NOT_AVAILABLE]: 'Auto draw is not available in ball machine mode',
+    [ErrorCode.AUTO_DRAW_NOT_STARTED]: 'Auto draw has not been started',
+    [ErrorCode.AUTO_DRAW_INVALID_STATE]: 'This action is not possible in the current auto draw state',
+    [ErrorCode.AUTO_DRAW_CONFLICT]: 'The auto draw state has changed. Please try again',
+    [ErrorCode.ROUND_ALREADY_STARTED]: 'The next round has already started',
+    [ErrorCode.ROUND_HAS_NO_DRAWS]: 'No numbers have been drawn in this round yet',
+    [ErrorCode.CLAIM_NOT_FOUND]: 'Claim not found',
+    [ErrorCode.CLAIM_ALREADY_REVIEWED]: 'This claim has already been reviewed',
+    [ErrorCode.CLAIM_NOT_REQUIRED]: 'This session marks numbers automatically, so no claim is needed',
+    [ErrorCode.CLAIM_PENDING]: 'You have a claim waiting for the host',
+    [ErrorCode.CLAIM_ALREADY_ACCEPTED]: 'These lines on this card have already been accepted',
+    [ErrorCode.CLAIM_LOCKED_OUT]: 'You are under a penalty (you can claim again after {draws} more draws)',
+    [ErrorCode.CLAIM_REQUIRED]: 'In manual marking sessions, claim with the numbers you marked',
+    [ErrorCode.INVALID_CARD_INDEX]: 'Invalid card',
+    [ErrorCode.INVALID_MARKS]: 'Invalid marks',
+    [ErrorCode.BINGO_NOT_VERIFIED]: 'The bingo could not be verified',
+    [ErrorCode.HOST_APPROVAL_REQUIRED]: 'Bingo must be approved by the host',
+    [ErrorCode.LATE_JOINER_CANNOT_WIN]: 'You joined late, so you cannot claim in this round (you can from the next round)',
+    [ErrorCode.INVALID_PAPER_CARD_COUNT]: 'You can print between 1 and {max} paper cards at a time',
+    [ErrorCode.PAPER_CARD_LIMIT_REACHED]: 'A session can have up to {max} paper cards ({remaining} more can be printed)',
+    [ErrorCode.PAPER_CARD_NOT_FOUND]: 'No card with serial "{serial}" was found',
+    [ErrorCode.ARCHIVE_NOT_FOUND]: 'No record of this game was found',
+    [ErrorCode.INVALID_EMAIL]: 'Invalid email address',
+    [ErrorCode.INVALID_PASSWORD]: 'Password must be {min}-{max} characters',
+    [ErrorCode.EMAIL_ALREADY_REGISTERED]: 'This email address is already registered',
+    [ErrorCode.INVALID_CREDENTIALS]: 'Incorrect email address or password',
+    [ErrorCode.LOGIN_REQUIRED]: 'Please log in',
+    [ErrorCode.MAIL_NOT_CONFIGURED]: 'Login links are unavailable because email cannot be sent',
+    [ErrorCode.BASE_URL_NOT_CONFIGURED]: 'Login links are unavailable because the site URL is not configured',
+    [ErrorCode.TOO_MANY_ATTEMPTS]: 'Too many attempts. Please wait about {minutes} minutes and try again',
+    [ErrorCode.HOST_PERMISSION_REQUIRED]: 'You do not have permission to do this',
+    [ErrorCode.INVALID_CO_HOST_PERMISSIONS]: 'Choose at least one task for the co-host',
+    [ErrorCode.CO_HOST_INVITE_INVALID]: 'This invite link is invalid, expired or already used. Ask the host for a new link',
+    [ErrorCode.CO_HOST_LIMIT_REACHED]: 'You can have up to {max} co-hosts',
+    [ErrorCode.CO_HOST_NOT_FOUND]: 'Co-host not found',
+    [ErrorCode.PLAYER_BANNED]: 'The host has blocked you from joining this session',
+    [ErrorCode.PLAYER_NOT_BANNABLE]: 'This player cannot be blocked because their device cannot be identified. Remove them without blocking instead'
+  },
+
+  server: {
+    leftSession: 'You left the session',
+    sessionCreated: 'Session created',
+    gameReset: 'The game has been reset',
+    realtimeWarning: 'Some real-time notifications could not be sent',
+    termCalled: '"{term}" was called',
+    numberDrawn: 'Number {number} was drawn',
+    claimUndrawnMarks: 'Numbers that have not been drawn are marked',
+    claimNoLine: 'No line is complete',
+    claimRejectedByHost: 'Rejected by the host',
+    claimVoidedByCorrection: 'Voided because a draw was cancelled',
+    drawVoided: 'Voided draw #{count} ({label})',
+    drawVoidedBingoCancelled: ' (bingo cancelled for {players} players)',
+    playerKicked: 'Removed {name}',
+    playerBanned: 'Removed {name} and blocked them from rejoining',
+    claimVoidedByKick: 'Voided because the player was removed',
+    presenceHostName: 'Host',
+    presenceObserverName: 'Spectator',
+    magicLinkSubject: 'Online Bingo login link',
+    magicLinkText: 'Open the link below to log in to your host account (valid for {minutes} minutes).\n\n{url}\n\nIf you did not request this, you can ignore this email.'
+  },
+
+  common: {
+    appDescription: 'An online bingo game everyone can play together',
+    language: 'Language',
+    close: 'Close',
+    cancel: 'Cancel',
+    backToTop: 'Back to top page',
+    loading: 'Loading...',
+    retry: 'Retry',
+    listSeparator: ', ',
+    cardNumber: 'Card {number}',
+    rank: '#{rank}',
+    missingSessionInfo: 'Session details are missing',
+    sessionNotFound: 'Session not found',
+    roundNumber: 'Round {round}'
+  },
+
+  labels: {
+    patterns: {
+      line: 'Line (across, down or diagonal)',
+      four_corners: 'Four corners',
+      x: 'X',
+      t: 'T',
+      frame: 'Frame',
+      blackout: 'Blackout (all squares)'
+    },
+    ninetyBallPrizes: {
+      one_line: 'One line',
+      two_lines: 'Two lines',
+      full_house: 'Full house'
+    },
+    daubModes: {
+      auto: 'Automatic marking',
+      manual: 'Manual marking (players claim)'
+    },
+    drawModes: {
+      server: 'Draw in the app',
+      machine: 'Enter numbers from a ball machine'
+    },
+    lateJoinModes: {
+      off: 'No late joining',
+      current: 'Late joining allowed (can win right away)',
+      'next-round': 'Late joining allowed (can win from the next round)'
+    },
+    speechLanguages: {
+      ja: 'Japanese',
+      en: 'English'
+    },
+    speechCallStyles: {
+      simple: 'Number only (B-12)',
+      repeat: 'Repeated (B… 12… B-12)'
+    }
+  },
+
+  shapes: {
+    row: 'Row {row}',
+    fullHouse: 'Full house',
+    horizontal: 'Row {row}',
+    vertical: 'Column {column}',
+    diagonalDown: 'Diagonal (top left → bottom right)',
+    diagonalUp: 'Diagonal (top right → bottom left)'
+  },
+
+  authForm: {
+    sessionId: 'Session ID',
+    sessionIdPlaceholder: 'e.g. ABC123',
+    accessToken: 'Access token',
+    accessTokenPlaceholder: '8 letters and numbers',
+    authenticating: 'Signing in...',
+    submit: 'Join game',
+    joinWithQR: 'Join with a QR code',
+    qrScannerComingSoon: 'The QR code scanner is coming soon'
+  },
+
+  nameAdjustment: {
+    title: 'Your name was adjusted',
+    description: 'Your name was adjusted because {reason}.',
+    reasonDuplicate: 'another player already uses it',
+    reasonInvalid: 'it contained characters that cannot be used',
+    reasonLength: 'it was too long',
+    reasonOther: 'it needed to be adjusted',
+    before: 'Before:',
+    after: 'After:'
+  },
+
+  bingoCard: {
+    blank: 'Blank',
+    completedLines: 'Completed:',
+    marked: 'Marked',
+    remaining: 'Left',
+    bingoCount: 'Bingos',
+    card: 'Bingo card',
+    free: 'FREE',
+    cellMarked: '{cell}, marked',
+    cellUnmarked: '{cell}, not marked',
+    latest: ', latest number',
+    keyboardHint: 'Use the arrow keys to move between squares and Enter or Space to toggle a mark'
+  },
+  cardTheme: {
+    label: 'Display theme',
+    themes: {
+      default: 'Standard',
+      'high-contrast': 'High contrast',
+      colorblind: 'Colour-blind safe (blue/orange)'
+    }
+  },
+
+  playerList: {
+    connected: 'Connected',
+    disconnected: 'Disconnected',
+    first: '1st place',
+    empty: 'No players yet',
+    you: '(you)',
+    lateJoined: 'Joined late (after draw #{draws})',
+    winsFromNextRound: ' · can win from the next round',
+    originalName: 'Original name:',
+    kick: 'Remove',
+    kickLabel: 'Remove {name}'
+  },
+
+  claimQueue: {
+    empty: 'No claims waiting for review',
+    afterDraw: 'After draw #{count}',
+    approve: 'Approve',
+    reject: 'Reject'
+  },
+
+  fairness: {
+    title: 'Draw fairness',
+    notRevealed: 'The seed is published when the game ends so the draw order can be verified',
+    verified: 'The {count} numbers drawn match the order derived from the seed whose hash was published at the start',
+    mismatch: 'The draw results did not match the commitment',
+    commitment: 'Commitment (sha256)',
+    seed: 'Seed',
+    algorithm: 'Algorithm',
+    openJson: 'Open verification data (JSON)'
+  },
+
+  prizes: {
+    oneLine: 'One line',
+    twoLines: 'Two lines',
+    fullHouse: 'Full house',
+    blackout: 'Blackout',
+    linesOrMore: '{lines}+ lines'
+  },
+
+  prizeWinners: {
+    tied: '{count}-way tie',
+    drawCount: 'Draw #{count}',
+    drawnNumber: ' ({number})',
+    noWinnersYet: 'No winners yet',
+    noWinners: 'No winner'
+  },
+
+  roundStandings: {
+    title: 'Overall standings ({count} rounds)',
+    rank: 'Rank',
+    name: 'Name',
+    total: 'Total',
+    byRound: 'Results by round',
+    drawnCount: '{count} drawn',
+    noWinners: 'No bingo this round',
+    tied: ' (tie)'
+  },
+
+  speech: {
+    notSupported: 'This browser does not support speech',
+    on: 'Calling on',
+    off: 'Calling off',
+    repeat: 'Repeat',
+    repeatTitle: 'Call the current number again',
+    rate: 'Speed (×{rate})',
+    callStyle: 'Call style',
+    useNicknames: 'Add traditional bingo calls',
+    useNicknamesHint: 'English only (e.g. two little ducks, 22)'
+  },
+
+  ballMachine: {
+    required: 'Enter a number',
+    invalidFormat: 'Enter it as "G-52" or "52"',
+    numberOnly: 'Enter the number only',
+    outOfRange: 'Enter a number from 1 to {max}',
+    invalidLetter: 'The column letter must be B, I, N, G or O',
+    wrongLetter: '{number} is in the {letter} column ({call})',
+    alreadyDrawn: '{number} has already been drawn'
+  },
+
+  api: {
+    endpointNotFound: 'The API endpoint was not found. Please contact the administrator.',
+    systemError: 'A system error occurred. Please try again later.',
+    apiError: 'An API error occurred',
+    authenticationFailed: 'Authentication failed',
+    authenticationError: 'An authentication error occurred',
+    unexpectedError: 'An unexpected error occurred'
+  },
+
+  validation: {
+    invalidRequest: 'Invalid request data',
+    invalidAuthData: 'Invalid authentication data',
+    accessTokenRequired: 'An access token is required',
+    accessTokenInvalid: 'The access token format is invalid',
+    playerNameRequired: 'A player name is required',
+    playerNameEmpty: 'Please enter a player name',
+    playerNameTooLong: 'Player names must be {max} characters or fewer',
+    sessionIdRequired: 'A session ID is required',
+    sessionIdInvalid: 'The session ID format is invalid'
+  },
+
+  qrCode: {
+    generateFailed: 'Could not generate the QR code'
+  },
+
+  home: {
+    titlePrefix: 'Online ',
+    playTogether: 'Play bingo with friends',
+    host: 'Host a game',
+    join: 'Join a game',
+    playSolo: 'Play bingo on your own',
+    latestNumber: 'Latest number',
+    remaining: '{count} left',
+    draw: 'Draw a number',
+    reset: 'Reset',
+    hostAccount: 'Host account & dashboard'
+  },
+
+  guestJoin: {
+    titlePrefix: 'Join the ',
+    titleHighlight: 'bingo',
+    titleSuffix: ' game',
+    appTitle: 'Online Bingo',
+    tagline: 'Join the game!',
+    enterDetails: 'Enter your details',
+    enterSession: 'Enter session details',
+    enterSessionHint: 'Enter the session ID and access token',
+    invalidSessionId: 'Enter a valid session ID (6 letters and numbers)',
+    invalidAccessTokenFormat: 'Enter a valid access token (8 letters and numbers)',
+    invalidAccessToken: 'Enter a valid access token',
+    invalidName: 'Enter a name of 1–{max} characters',
+    genericError: 'Something went wrong',
+    statusError: 'Error: {status}',
+    nameAdjustedAlert: 'That name was taken, so you have been registered as "{name}".',
+    sessionIdHint: '6 letters and numbers',
+    sessionIdExample: 'e.g. M9CFU4',
+    accessTokenHint: '8 letters and numbers (shared by the host)',
+    accessTokenExample: 'e.g. 1R2SGFHX',
+    yourName: 'Your name',
+    namePlaceholder: 'Jane Smith',
+    displayNamePlaceholder: 'Enter a display name',
+    nameHint: 'The name other players see (up to {max} characters)',
+    duplicateNameHint: '* If another player has the same name, a number is added automatically',
+    cardCount: 'Number of cards',
+    cards: '{count}',
+    cardLimitHint: '* In this session each player can play up to {max} cards at once',
+    joining: 'Joining...',
+    submit: 'Join the game',
+    spectate: 'Watch without a card',
+    qrHint: 'Tip: If you scanned a QR code, the session ID and access token are filled in for you. Just enter your name.',
+    hostShareHint: 'Tip: The host shares the session ID and access token',
+    nameAdjustedTitle: 'Your name was adjusted',
+    nameAdjustedPrefix: 'Another player already uses that name, so your name is now',
+    quotedName: '"{name}"',
+    nameAdjustedSuffix: '.',
+    acknowledge: 'OK'
+  },
+
+  guestWaiting: {
+    you: 'You',
+    sessionEnded: 'The session has ended',
+    endedByHost: 'The host ended the game',
+    loadingSession: 'Loading session...',
+    loadingPage: 'Loading the waiting room...',
+    errorTitle: 'Something went wrong',
+    backToJoin: 'Back to the join page',
+    sessionIdLabel: 'Session ID:',
+    players: 'Players',
+    timeLeft: 'Time left',
+    connected: 'Connected',
+    reconnecting: 'Reconnecting',
+    connection: 'Connection',
+    reconnect: 'Reconnect',
+    waitingTitle: 'Waiting for the game to start...',
+    waitingDescription: 'Please wait until the host starts the game',
+    backgroundHint: 'You can switch to other apps. The game screen opens automatically when the game starts',
+    playerList: 'Players',
+    leave: 'Leave the waiting room'
+  },
+
+  game: {
+    defaultTitle: 'Bingo Game',
+    connected: '✅ Connected',
+    disconnected: '❌ Disconnected',
+    currentNumber: 'Current number',
+    currentTerm: 'Current term',
+    drawHistory: 'Draw history',
+    sessionExpired: 'Session not found. The 2-hour time limit may have passed and the data been deleted.',
+    sessionExpiredTitle: 'Session expired',
+    sessionExpiredDescription: 'The 2-hour time limit has passed, so the game data has been deleted.',
+    menu: 'Menu',
+    bingoWinners: 'Bingo winners',
+    noBingoWinners: 'No bingo winners yet',
+    playersJoined: '{count} playing',
+    noNumbersYet: 'No numbers drawn yet',
+    noTermsYet: 'No terms called yet',
+    tie: ' (tie)',
+    quotedTerm: '"{term}"'
+  },
+
+  spectate: {
+    closed: 'The host has stopped accepting spectators',
+    watching: 'Spectating ({count} playing)',
+    waitingForStart: 'Waiting for the game to start...',
+    finished: 'The game has ended',
+    waitingForFirstDraw: 'Waiting for the first draw...',
+    drawHistory: 'Draw history ({count})',
+    noDraws: 'Nothing has been drawn yet',
+    ranking: 'Ranking',
+    prizes: 'Prizes'
+  },
+
+  present: {
+    reach: '{name} has a reach!',
+    bingo: '{name} got BINGO!',
+    prize: '{label}: {names}',
+    nameSeparator: ', ',
+    loading: 'Loading...',
+    playerCount: '{count} players',
+    drawCount: 'Draw #{count}',
+    reconnecting: 'Reconnecting...',
+    finished: 'Game Over',
+    previous: 'Previous:',
+    startingSoon: 'Starting soon',
+    drawingSoon: 'First draw coming up',
+    qrAlt: 'QR code to join',
+    scanToJoin: 'Scan with your phone to join',
+    shortcuts: 'Click for full screen / S: toggle calls / R: repeat call / T: display theme',
+    speaking: 'Calling numbers aloud'
+  },
+
+  result: {
+    errorTitle: 'Error',
+    rankName: '#{rank}: {name}',
+    linesAchieved: '{count} lines completed',
+    noBingoWinners: 'Nobody got a bingo',
+    prizeWinners: '🏅 Prize winners',
+    nextActions: '🎮 What next?',
+    share: 'Share results',
+    copyAndClose: 'Copy and close',
+    toTopPage: 'Go to top page'
+  },
+
+  hostResult: {
+    shareTitle: '🎉 Results of the bingo game "{name}"!',
+    shareStanding: '{medal} #{rank}: {name} ({points}pt)',
+    shareRanking: '{medal} #{rank}: {name} ({count} lines)',
+    loading: 'Tallying results...',
+    backToHost: 'Back to host home',
+    title: '🎊 Game Over!',
+    roundPrizes: '🏅 Round {round} prizes',
+    roundRanking: '🏆 Round {round} ranking',
+    finalRanking: '🏆 Final ranking',
+    tryAgain: 'Better luck next time!',
+    players: 'Players',
+    createGame: 'Create a new game',
+    copyUrl: 'Copy URL',
+    urlCopied: '✓ Copied'
+  },
+
+  guestResult: {
+    playerNotFound: 'Player not found',
+    noRank: 'Unranked',
+    top10: 'Top 10%!',
+    top30: 'Top 30%!',
+    top50: 'Top 50%!',
+    champion: '🎊 Congratulations! You won!',
+    podium: '🎉 Great job! You made the podium!',
+    bingo: '✨ Congratulations on your bingo!',
+    almost: '👏 So close to a bingo! Good luck next time!',
+    goodTry: '💪 Nice run! Next time could be yours!',
+    thanks: '😊 Thanks for playing! Maybe luck will be on your side next time!',
+    shareTitle: '🎯 I played in the bingo game "{name}"!',
+    shareStanding: '🏅 Overall: #{rank} ({points}pt over {rounds} rounds)',
+    shareRank: '{medal} Result: #{rank} of {total}',
+    shareBingo: '📊 Bingo: {count} lines',
+    shareMarked: '📊 Marked: {count}',
+    sharePlayers: 'Players: {count}',
+    shareHashtags: '#OnlineBingo #Bingo',
+    loading: 'Loading results...',
+    title: 'Game Over!',
+    podiumTitle: 'You placed #{rank}!',
+    yourCards: 'Your bingo cards',
+    yourStats: '📊 Your stats',
+    rankLabel: 'Rank',
+    outOf: 'of {count}',
+    bingoLabel: 'Bingos',
+    lines: '{count} lines',
+    achieved: 'Achieved!',
+    notAchieved: 'Not achieved',
+    markedLabel: 'Marked',
+    percentileLabel: 'Top',
+    top3: '🏆 Top 3',
+    you: '(you)',
+    screenshot: 'Screenshot',
+    joinAnother: 'Join another game',
+    shareOnX: 'Share on X',
+    shareOnLine: 'Share on LINE'
+  },
+
+  createGame: {
+    accountLinked: 'Logged in ({email}): games you create are saved to your dashboard',
+    accountHint: 'Log in to resume your games from another device',
+    gameTypes: {
+      '75ball': { label: '75-ball', description: '5×5 card, 1–75' },
+      '90ball': { label: '90-ball', description: '3×9 ticket, 1–90' },
+      words: { label: 'Word bingo', description: 'Use your own terms' }
+    },
+    fileReadFailed: 'Failed to read the file',
+    nameRequired: 'Please enter a game name',
+    maxPlayersRange: 'Set the number of players between 2 and 99',
+    cardLimitRange: 'Set the card limit between 1 and {max}',
+    penaltyRange: 'Set the penalty between 0 and {max} draws',
+    placementPointsInvalid: 'Enter placement points for up to {ranks} places as whole numbers from 0 to {max}',
+    prizeTiersInvalid: 'Give each prize a name (up to {max} characters) and a condition this game type supports',
+    termsTooFew: 'Enter at least {min} terms',
+    patternsRequired: 'Select at least one winning pattern',
+    requestFailed: 'An error occurred',
+    statusError: 'Error: {status}',
+    titlePrefix: 'Create a ',
+    titleHighlight: 'Bingo',
+    titleSuffix: ' Game',
+    formTitle: 'Game details',
+    name: 'Game name',
+    namePlaceholder: 'e.g. New Year Party Bingo',
+    maxPlayers: 'Maximum players',
+    maxPlayersHint: '* Between 2 and 99 players',
+    maxCards: 'Cards per player (maximum)',
+    maxCardsHint: '* With 2 or more, players choose how many cards they want when joining',
+    placementPoints: 'Placement points',
+    placementPointsHint: '* Comma-separated, starting from 1st place. Points from each round add up to the overall standings',
+    sessionLocale: 'Game language',
+    sessionLocaleHint: '* Used as the default language on player screens and for recorded text. Players can switch their own display language',
+    gameType: 'Game type',
+    terms: 'Terms',
+    termsPlaceholder: 'Synergy\nAgile\nDX\n...',
+    loadTermsFile: 'Load a text file',
+    termsCount: '{count} / at least {min}',
+    termsHint: '* One per line (commas also work). Each player card is built randomly from this list',
+    ninetyBallWins: 'Prizes',
+    ninetyBallWinsDescription: 'Prizes are won in order: one line → two lines → full house',
+    patterns: 'Winning patterns',
+    patternsHint: '* A bingo is completed by any of the selected shapes',
+    prizeTiers: 'Prizes (optional)',
+    prizeNamePlaceholder: 'Prize name',
+    prizeNameLabel: 'Name of prize {number}',
+    prizeConditionLabel: 'Condition for prize {number}',
+    prizeRemoveLabel: 'Remove prize {number}',
+    addPrize: '+ Add prize',
+    prizePresets: 'Use standard prizes',
+    prizeTiersHint: '* Each prize goes to the first player who meets its condition. Players who meet it on the same draw share it',
+    drawMode: 'Draw method',
+    drawModeHint: '* In ball machine mode the host enters the numbers drawn by the machine at the venue (auto draw and fairness verification are unavailable)',
+    lateJoin: 'Late joining',
+    lateJoinHint: '* Numbers drawn before a late player joins are marked on their card automatically',
+    daubMode: 'Marking',
+    penaltyLabel: 'False claim penalty:',
+    penaltySuffix: 'draws without claiming',
+    daubModeHint: '* With manual marking, players tap numbers themselves and claim with the "BINGO!" button',
+    hostAdjudication: 'Host confirms bingos before they are announced',
+    hostAdjudicationHint: '* Claimed bingos are not announced or ranked until the host approves them',
+    allowSpectators: 'Allow spectators without cards',
+    allowSpectatorsHint: '* Spectators do not count toward the player limit. You can also toggle this from the host screen during the game',
+    creating: 'Creating...',
+    submit: 'Create game',
+    tipPrefix: '💡 Tip: after creating the game, share the ',
+    tipQrCode: 'QR code',
+    tipOr: ' or ',
+    tipUrl: 'URL',
+    tipSuffix: ' with your players.'
+  },
+
+  hostWaiting: {
+    sessionMissing: 'Session details were not found. Please create a new game.',
+    sessionEnded: 'The session has ended',
+    defaultGameName: 'Bingo Game',
+    qrCodeFailed: 'Failed to generate the QR code',
+    startEventFailed: 'Failed to send the game start event',
+    startFailed: 'Failed to start the game',
+    initializing: 'Initializing...',
+    errorTitle: 'Something went wrong',
+    createNew: 'Create a new game',
+    loadingGame: 'Loading game details...',
+    pending: 'Loading...',
+    tokenSet: 'Set',
+    title: 'Waiting for players',
+    qrTitle: '📱 QR code to join',
+    menu: 'Menu',
+    endGame: 'End game',
+    confirmEnd: 'End the game?',
+    printPaperCards: '🖨 Print paper cards',
+    qrAlt: 'QR code to join',
+    sessionId: 'Session ID',
+    accessToken: 'Access token',
+    shareWithPlayers: '(share with players)',
+    copy: 'Copy',
+    copied: 'Copied!',
+    participationUrl: '🔗 Join URL',
+    copyUrl: 'Copy URL',
+    urlCopied: 'URL copied!',
+    playerList: '👥 Players',
+    connected: 'Connected',
+    connecting: 'Connecting',
+    maxPlayers: '/ {max}',
+    waitingForPlayers: 'Waiting for players...',
+    joinHintLine1: 'Players can scan the QR code',
+    joinHintLine2: 'or join with the session ID and access token',
+    host: 'Host',
+    coHostWaiting: 'You will move to the game screen automatically when the host starts the game',
+    online: 'Viewing the screen',
+    away: 'In another app',
+    backgroundHint: '💡 Players are moved to the game screen automatically when it starts, even if the app is in the background',
+    playersNeeded: '{count} more player(s) needed',
+    start: '🎮 Start game',
+    startHint: '* You can start once at least one player besides the host has joined',
+    joinHint: '💡 Players can join by scanning the QR code or entering the session ID and access token',
+    expiryHint: '* Sessions are deleted automatically 2 hours after creation'
+  },
+
+  guestGame: {
+    youSuffix: ' (you)',
+    fetchFailed: 'Failed to load the session',
+    invalidSessionData: 'The session data is invalid',
+    playerNotFound: 'Player not found',
+    cardNotFound: 'Bingo card not found',
+    errorOccurred: 'An error occurred',
+    voidedWithBingo: 'The draw of {label} was voided, so your bingo was cancelled',
+    voided: 'The draw of {label} was voided',
+    claimPending: 'Waiting for the host to confirm',
+    claimApprovedByHost: 'The host approved your bingo!',
+    claimRejectedByHost: 'Your bingo was not accepted: {reason}',
+    prizeWon: 'You won {label}!{tie}',
+    prizeWonBy: '{names} won {label}',
+    nameSeparator: ', ',
+    claimFailed: 'Failed to submit the claim',
+    claimAccepted: 'Your bingo was accepted!',
+    claimRejected: 'Your claim was not accepted: {reason}',
+    noCompletedLine: 'No completed line',
+    errorPrefix: 'Error: {error}',
+    preparingCard: 'Preparing your bingo card...',
+    linesAchieved: '{count} lines completed!',
+    reach: '🎯 Reach!',
+    speechSettings: 'Calling settings',
+    closeSpeechSettings: 'Close calling settings',
+    displaySettings: 'Display settings',
+    closeDisplaySettings: 'Close display settings',
+    announceNumber: '{number} called',
+    announceTerm: '"{term}" called',
+    announceReach: 'One to go',
+    announceBingo: 'Bingo! {count} lines complete',
+    leave: 'Leave game',
+    confirmLeave: 'Really leave?',
+    player: 'Player: {name}',
+    wins: 'Wins: {patterns}',
+    prizeAchieved: '{prize}!',
+    bingoAchieved: '{count} bingo!',
+    reachCount: '{count} reach!',
+    speechTitle: '🔊 Number calling (this device only)',
+    nextNumberIn: 'Next number in',
+    nextTermIn: 'Next term in',
+    seconds: 's',
+    autoDrawPaused: '⏸ Auto draw is paused',
+    manualDaubHint: 'Tap the called numbers yourself to mark them',
+    swipeHint: '← Swipe to switch between your {count} cards →',
+    cardOf: 'Card {number} / {total}',
+    cardBingo: '{count} bingo!',
+    judging: 'Checking...',
+    lateJoinNotEligible: 'You joined late, so you cannot win prizes this round (you will be eligible from the next round)',
+    lockout: 'Penalty: you can claim again after {count} more draw(s)',
+    winnersCount: '({count})',
+    collapse: '▲ Hide',
+    expand: '▼ Show'
+  },
+
+  hostGame: {
+    claimStatuses: {
+      pending: 'Pending',
+      accepted: 'Accepted',
+      rejected: 'Rejected',
+      voided: 'Voided'
+    },
+    noClaims: 'No claims yet',
+    online: 'Online',
+    offline: 'Offline',
+    lateJoinedTitle: 'Joined after draw {count}',
+    winsFromNextRoundTitle: ' (eligible to win from the next round)',
+    lateJoined: 'Late join',
+    fromNextRound: ' · next round',
+    playerNames: '{names}',
+    bingoAchieved: 'Bingo!',
+    prizeWon: '{label} won!{tie}',
+    reach: 'One to go!',
+    nextRoundTitle: 'Start round {round}',
+    nextRoundDescription: 'Records the results of the current round and deals new cards to every player.',
+    winningPatterns: 'Winning patterns',
+    start: 'Start',
+    confirmMachineNumber: 'Confirm this number?',
+    fixNumber: 'Edit',
+    confirmAndAnnounce: 'Confirm and announce',
+    enterMachineNumber: 'Enter the number from the ball machine',
+    machinePlaceholder75: 'e.g. G-52',
+    machinePlaceholder: 'e.g. 52',
+    check: 'Check',
+    autoDraw: 'Auto draw',
+    secondsEach: 'sec interval',
+    startAutoDraw: 'Start',
+    nextDrawIn: 'Next draw in',
+    seconds: 'sec',
+    autoDrawPaused: 'Paused ({seconds} sec left)',
+    intervalSeconds: ' (every {seconds} sec)',
+    pause: 'Pause',
+    resume: 'Resume',
+    stop: 'Stop',
+    unknownPlayer: 'Unknown',
+    drawFailed: 'Failed to draw a number',
+    autoDrawFailed: 'Failed to update auto draw',
+    spectatorsFailed: 'Failed to update spectator settings',
+    voidFailed: 'Failed to void the draw',
+    reviewFailed: 'Failed to review the claim',
+    resetFailed: 'Failed to reset the game',
+    nextRoundFailed: 'Failed to start the next round',
+    endFailed: 'Failed to end the game',
+    loading: 'Loading game...',
+    numberLabel: 'number {number}',
+    presentation: 'Big screen',
+    paperCards: 'Paper cards',
+    nextRound: 'Next round',
+    reset: 'Reset',
+    end: 'End',
+    tapTermToCall: 'Tap a term to call it',
+    allNumbersDrawn: 'All numbers have been drawn',
+    allTermsCalled: 'All terms have been called',
+    drawing: 'Drawing...',
+    callRandomTerm: 'Call at random ({count} left)',
+    drawNumber: 'Draw a number ({count} left)',
+    calledTerms: 'Called terms',
+    drawnNumbers: 'Drawn numbers',
+    voidLastDraw: 'Void last draw',
+    bingoCheck: 'Bingo check',
+    speech: 'Speech',
+    spectators: 'Spectators',
+    spectatorsWatching: 'Watching:',
+    spectatorsUnit: '',
+    spectatorsClosed: 'Spectating is closed',
+    stopSpectators: 'Stop spectating',
+    allowSpectators: 'Allow spectating',
+    spectateHint: 'Spectators can join from “Watch without a card” on the join screen',
+    prizes: 'Prizes',
+    totalPoints: 'Total points',
+    claims: 'Bingo claims',
+    auditLog: 'Activity log',
+    players: 'Players',
+    noPlayers: 'No players',
+    resetTitle: 'Reset game',
+    resetMessage: 'All drawn numbers and bingo cards will be reset. This cannot be undone.',
+    resetConfirm: 'Reset',
+    endTitle: 'End game',
+    endMessage: 'End the game and go to the results screen?',
+    endConfirm: 'End game',
+    voidMessage: 'Restores {label} to before it was drawn. Bingos and prizes from this number are cancelled and recorded in the activity log.',
+    voidConfirm: 'Void',
+    coHost: 'Co-host',
+    coHostRemoved: 'The host removed you as a co-host, so you can no longer make changes'
+  },
+
+  paperCards: {
+    title: 'Print paper cards',
+    description: 'Print serial-numbered cards for players without a smartphone. When someone calls bingo, enter the serial number on the host game screen to verify it.',
+    missingAuth: 'Host credentials were not found. Please reopen this page from the host screen.',
+    countLabel: 'Number of cards (up to {max} at a time)',
+    issue: 'Create cards',
+    issuing: 'Creating...',
+    issueFailed: 'Failed to create cards',
+    issued: 'Created {count} cards',
+    total: 'Created: {count} / {max}',
+    latestOnly: 'Show only the cards just created',
+    print: 'Print',
+    printHint: 'Choose "Save as PDF" in the print dialog to download a PDF',
+    empty: 'No cards have been created yet',
+    serial: 'Serial',
+    free: 'FREE',
+    defaultGameName: 'Bingo',
+    instructions: 'Mark each square as it is called. When you get bingo, tell the host your serial number.',
+    verifyTitle: 'Check paper card',
+    verifyHint: 'Enter the serial number the player reads out to check the card against the drawn numbers',
+    serialPlaceholder: 'Serial (e.g. ABC-DEF)',
+    verify: 'Check',
+    verifying: 'Checking...',
+    verifyFailed: 'Failed to check the card',
+    bingo: '🎉 Bingo!',
+    notBingo: 'Not a bingo yet',
+    prize: 'Prize: {prize}',
+    markedCount: 'Drawn squares: {count} ({draws} draws)',
+    cardLabel: 'Paper card {serial}'
+  },
+
+  account: {
+    title: 'Host account',
+    description: 'Log in to save the games you create to your account, resume them from another device and browse past results. You can still create games without logging in.',
+    modes: {
+      login: 'Log in',
+      register: 'Sign up',
+      'magic-link': 'Email me a link'
+    },
+    email: 'Email address',
+    password: 'Password',
+    passwordHint: 'At least {min} characters',
+    submit: {
+      login: 'Log in',
+      register: 'Sign up and log in',
+      'magic-link': 'Send login link'
+    },
+    submitting: 'Sending...',
+    failed: 'Failed to log in',
+    magicLinkHint: 'Log in without a password using a link sent to your email (an account is created if you do not have one)',
+    magicLinkSent: 'We sent a login link to {email}. Open the link in the email (valid for {minutes} minutes).',
+    devMailbox: 'In development, emails are delivered to the development mailbox',
+    openDevMailbox: 'Open development mailbox',
+    invalidLink: 'The login link is invalid or has expired. Please send a new one.'
+  },
+
+  dashboard: {
+    title: 'Dashboard',
+    loggedInAs: 'Logged in as {email}',
+    logout: 'Log out',
+    loadFailed: 'Failed to load the dashboard',
+    createGame: 'Create a new game',
+    activeSessions: 'Active games',
+    noActiveSessions: 'No active games',
+    archives: 'Finished games',
+    noArchives: 'No finished games yet',
+    statuses: {
+      waiting: 'Open for players',
+      playing: 'In progress',
+      finished: 'Finished',
+      expired: 'Expired'
+    },
+    players: '{count} players',
+    draws: '{count} draws',
+    rounds: '{count} rounds',
+    expiresAt: 'Until {time}',
+    finishedAt: 'Finished: {time}',
+    winners: 'Winner: {names}',
+    resume: 'Resume',
+    viewResult: 'View results'
+  },
+
+  devMail: {
+    title: 'Development mailbox',
+    description: 'Emails sent in development are stored here (deleted after 24 hours)',
+    unavailable: 'The development mailbox is only available in development',
+    empty: 'No emails yet',
+    to: 'To',
+    reload: 'Reload'
+  },
+
+  coHosts: {
+    title: 'Co-hosts',
+    description: 'Invite people to help with drawing or the door. Each invite link works once.',
+    permissionsLabel: 'Tasks to share',
+    permissions: {
+      draw: 'Draw numbers',
+      'manage-game': 'Start, reset and end the game',
+      'moderate-players': 'Review claims, paper cards and remove players'
+    },
+    invite: 'Create invite link',
+    inviting: 'Creating...',
+    inviteFailed: 'Failed to create the invite link',
+    inviteExpires: 'Valid until {time} · works once',
+    qrAlt: 'Co-host invite QR code',
+    copyLink: 'Copy link',
+    linkCopied: 'Copied!',
+    count: '{count} / {max}',
+    empty: 'No co-hosts yet',
+    remove: 'Remove',
+    removeLabel: 'Remove {name} as a co-host',
+    removeFailed: 'Failed to remove the co-host'
+  },
+
+  coHostJoin: {
+    title: 'Join as a co-host',
+    description: 'The host invited you to be a co-host. Enter the name the other hosts will see.',
+    invalidLink: 'This invite link is not valid. Ask the host to send it again.',
+    nameLabel: 'Your name',
+    namePlaceholder: 'e.g. Sam at the door',
+    submit: 'Join',
+    submitting: 'Joining...',
+    failed: 'Could not join as a co-host'
+  },
+
+  kickPlayer: {
+    title: 'Remove player',
+    confirm: '{name} will be removed from the session. Their cards and pending claims will be discarded.',
+    ban: 'Block from rejoining',
+    banDescription: 'They will not be able to join this session again from the same device, even under another name.',
+    submit: 'Remove',
+    submitting: 'Removing...',
+    failed: 'Could not remove the player'
+  },
+
+  kicked: {
+    title: 'You left the session',
+    description: 'The host removed you from the session.',
+    rejoin: 'If you want to join again, please ask the host.',
+    banned: 'You cannot join this session again.',
+    joinAnother: 'Join another session'
+  }
+};
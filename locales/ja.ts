@@ -0,0 +1,989 @@
+// locales/ja.ts
+// 日本語のメッセージ（他の言語はこの辞書と同じ構造で用意する）
+//
+// {name} の部分は formatMessage で値に置き換える
+
+import { ErrorCode } from '@/types';
+
+export const ja = {
+  // APIのエラーメッセージ
+  errors: {
+    [ErrorCode.INVALID_SESSION]: 'セッションが見つかりません',
+    [ErrorCode.INVALID_ACCESS_TOKEN]: 'アクセストークンが無効です',
+    [ErrorCode.SESSION_FULL]: 'このセッションは満員です',
+    [ErrorCode.DUPLICATE_NAME]: '同じ名前のプレイヤーが既に存在します',
+    [ErrorCode.GAME_ALREADY_STARTED]: 'このセッションはすでにゲームが開始されています',
+    [ErrorCode.PLAYER_NOT_FOUND]: 'プレイヤーが見つかりません',
+    [ErrorCode.UNAUTHORIZED]: '権限がありません',
+    [ErrorCode.VALIDATION_ERROR]: '入力内容に誤りがあります',
+    [ErrorCode.RATE_LIMIT_EXCEEDED]: 'アクセスが集中しています。しばらくお待ちください',
+    [ErrorCode.INTERNAL_ERROR]: 'サーバーエラーが発生しました',
+    [ErrorCode.ACCESS_TOKEN_EXPIRED]: 'アクセストークンの有効期限が切れました',
+    [ErrorCode.AUTHENTICATION_FAILED]: '認証に失敗しました',
+    [ErrorCode.MISSING_PARAMETERS]: '必須パラメータが不足しています',
+    [ErrorCode.INVALID_REQUEST_BODY]: 'リクエストの形式が正しくありません',
+    [ErrorCode.INVALID_ACTION]: '操作の指定が正しくありません',
+    [ErrorCode.EVENT_NOT_ALLOWED]: 'このイベントは送信できません',
+    [ErrorCode.SERVER_CONFIGURATION_ERROR]: 'サーバーの設定に誤りがあります',
+    [ErrorCode.DATABASE_ERROR]: 'データベースに接続できませんでした',
+    [ErrorCode.INVALID_SESSION_ID]: '無効なセッションIDです',
+    [ErrorCode.SESSION_AUTH_FAILED]: 'セッションが見つからないか、認証に失敗しました',
+    [ErrorCode.SESSION_EXPIRED]: 'セッションの有効期限が切れています',
+    [ErrorCode.SESSION_STATE_CHANGED]: 'ゲームの状態が変更されました。もう一度お試しください',
+    [ErrorCode.SESSION_ID_GENERATION_FAILED]: 'セッションIDの生成に失敗しました。もう一度お試しください',
+    [ErrorCode.SESSION_CREATE_FAILED]: 'セッションの作成に失敗しました',
+    [ErrorCode.SESSION_FETCH_FAILED]: 'セッション情報の取得に失敗しました',
+    [ErrorCode.SESSION_LIST_FAILED]: 'セッション一覧の取得に失敗しました',
+    [ErrorCode.HOST_ONLY]: 'この操作はホストのみ行えます',
+    [ErrorCode.NOT_SESSION_PLAYER]: 'このセッションの参加者ではありません',
+    [ErrorCode.JOIN_FAILED]: 'ゲームへの参加に失敗しました',
+    [ErrorCode.SPECTATING_DISABLED]: 'このセッションは観戦を受け付けていません',
+    [ErrorCode.INVALID_CHANNEL]: 'チャンネルの指定が正しくありません',
+    [ErrorCode.GAME_NAME_REQUIRED]: 'ゲーム名は必須です',
+    [ErrorCode.INVALID_GAME_NAME]: 'ゲーム名は1〜{max}文字で入力してください',
+    [ErrorCode.INVALID_MAX_PLAYERS]: '最大参加人数は{min}〜{max}人の間で設定してください',
+    [ErrorCode.INVALID_GAME_TYPE]: 'ゲーム形式の指定が正しくありません',
+    [ErrorCode.INVALID_LOCALE]: '言語の指定が正しくありません',
+    [ErrorCode.INVALID_PATTERNS]: '当たりパターンの指定が正しくありません',
+    [ErrorCode.INVALID_DAUB_SETTINGS]: 'マーク方式またはペナルティの指定が正しくありません',
+    [ErrorCode.INVALID_HOST_ADJUDICATION]: 'ホスト確認の指定が正しくありません',
+    [ErrorCode.INVALID_DRAW_MODE]: '抽選方式の指定が正しくありません',
+    [ErrorCode.INVALID_LATE_JOIN]: '途中参加の指定が正しくありません',
+    [ErrorCode.INVALID_CARD_LIMIT]: 'カードの上限は1〜{max}枚で指定してください',
+    [ErrorCode.INVALID_PLACEMENT_POINTS]: '順位ポイントは{maxRanks}位まで、0〜{maxPoints}の整数で指定してください',
+    [ErrorCode.INVALID_PRIZE_TIERS]: '賞は{maxTiers}個まで、名前（{maxLength}文字以内）と達成条件を指定してください',
+    [ErrorCode.INVALID_TERMS]: '用語リストの指定が正しくありません',
+    [ErrorCode.TERMS_TOO_FEW]: '用語は{min}個以上必要です（重複を除いて{count}個）',
+    [ErrorCode.TERMS_TOO_MANY]: '用語は{max}個以内にしてください',
+    [ErrorCode.TERM_TOO_LONG]: '用語は1つ{max}文字以内にしてください',
+    [ErrorCode.NAME_REQUIRED]: '名前を入力してください',
+    [ErrorCode.NAME_TOO_LONG]: '名前は{max}文字以内で入力してください',
+    [ErrorCode.INVALID_CARD_COUNT]: 'カードは1〜{max}枚で選択してください',
+    [ErrorCode.GAME_NOT_STARTED]: 'ゲームが開始されていません',
+    [ErrorCode.GAME_NOT_PLAYING]: 'この操作はゲーム進行中のみ行えます',
+    [ErrorCode.ALL_NUMBERS_DRAWN]: '全ての番号が抽選済みです',
+    [ErrorCode.DRAW_CONFLICT]: '他の抽選と重なりました。もう一度お試しください',
+    [ErrorCode.TERM_NOT_CALLABLE]: 'この用語はコールできません',
+    [ErrorCode.CALLED_NUMBER_REQUIRED]: '抽選機で出た番号を入力してください',
+    [ErrorCode.CALLED_NUMBER_OUT_OF_RANGE]: '番号は1〜{max}で入力してください',
+    [ErrorCode.NUMBER_ALREADY_DRAWN]: '{number}は既に抽選済みです',
+    [ErrorCode.NOTHING_TO_VOID]: '取り消せる抽選がありません',
+    [ErrorCode.ONLY_LAST_DRAW_VOIDABLE]: '取り消せるのは最後に抽選した番号のみです',
+    [ErrorCode.NO_FAIRNESS_COMMITMENT]: 'このセッションには抽選のコミットメントがありません',
+    [ErrorCode.INVALID_AUTO_DRAW_INTERVAL]: '抽選間隔は{min}〜{max}秒で指定してください',
+    [ErrorCode.AUTO_DRAW_NOT_AVAILABLE]: '抽選機モードでは自動抽選は使えません',
+    [ErrorCode.AUTO_DRAW_NOT_STARTED]: '自動抽選は開始されていません',
+    [ErrorCode.AUTO_DRAW_INVALID_STATE]: 'この操作は現在の自動抽選の状態では行えません',
+    [ErrorCode.AUTO_DRAW_CONFLICT]: '自動抽選の状態が変更されました。もう一度お試しください',
+    [ErrorCode.ROUND_ALREADY_STARTED]: '次のラウンドは既に開始されています',
+    [ErrorCode.ROUND_HAS_NO_DRAWS]: 'このラウンドはまだ番号が抽選されていません',
+    [ErrorCode.CLAIM_NOT_FOUND]: '申告が見つかりません',
+    [ErrorCode.CLAIM_ALREADY_REVIEWED]: 'この申告は既に確認済みです',
+    [ErrorCode.CLAIM_NOT_REQUIRED]: 'このセッションは自動マークのため申告は不要です',
+    [ErrorCode.CLAIM_PENDING]: 'ホストの確認待ちの申告があります',
+    [ErrorCode.CLAIM_ALREADY_ACCEPTED]: 'このカードのラインは既に認められています',
+    [ErrorCode.CLAIM_LOCKED_OUT]: 'ペナルティ中です（あと{draws}回の抽選後に申告できます）',
+    [ErrorCode.CLAIM_REQUIRED]: '手動マークのセッションではマークした番号を添えて申告してください',
+    [ErrorCode.INVALID_CARD_INDEX]: 'カードの指定が正しくありません',
+    [ErrorCode.INVALID_MARKS]: 'マークの指定が正しくありません',
+    [ErrorCode.BINGO_NOT_VERIFIED]: 'ビンゴを確認できませんでした',
+    [ErrorCode.HOST_APPROVAL_REQUIRED]: 'ビンゴはホストの承認が必要です',
+    [ErrorCode.LATE_JOINER_CANNOT_WIN]: '途中参加のため、このラウンドでは申告できません（次のラウンドから参加できます）',
+    [ErrorCode.INVALID_PAPER_CARD_COUNT]: '紙のカードは1回に1〜{max}枚まで発行できます',
+    [ErrorCode.PAPER_CARD_LIMIT_REACHED]: '紙のカードは1セッションにつき{max}枚までです（あと{remaining}枚発行できます）',
+    [ErrorCode.PAPER_CARD_NOT_FOUND]: 'シリアル番号「{serial}」のカードは見つかりません',
+    [ErrorCode.ARCHIVE_NOT_FOUND]: 'このゲームの記録は見つかりません',
+    [ErrorCode.INVALID_EMAIL]: 'メールアドレスの形式が正しくありません',
+    [ErrorCode.INVALID_PASSWORD]: 'パスワードは{min}〜{max}文字で入力してください',
+    [ErrorCode.EMAIL_ALREADY_REGISTERED]: 'このメールアドレスは登録済みです',
+    [ErrorCode.INVALID_CREDENTIALS]: 'メールアドレスまたはパスワードが正しくありません',
+    [ErrorCode.LOGIN_REQUIRED]: 'ログインしてください',
+    [ErrorCode.MAIL_NOT_CONFIGURED]: 'メールを送信できないため、ログイン用のリンクは利用できません',
+    [ErrorCode.BASE_URL_NOT_CONFIGURED]: 'サイトのURLが設定されていないため、ログイン用のリンクは利用できません',
+    [ErrorCode.TOO_MANY_ATTEMPTS]: '試行回数が多すぎます。{minutes}分ほど待ってからもう一度お試しください',
+    [ErrorCode.HOST_PERMISSION_REQUIRED]: 'この操作を行う権限がありません',
+    [ErrorCode.INVALID_CO_HOST_PERMISSIONS]: '共同ホストに任せる操作を1つ以上選んでください',
+    [ErrorCode.CO_HOST_INVITE_INVALID]: '招待リンクが無効か、期限切れ・使用済みです。ホストに新しいリンクを作成してもらってください',
+    [ErrorCode.CO_HOST_LIMIT_REACHED]: '共同ホストは{max}人までです',
+    [ErrorCode.CO_HOST_NOT_FOUND]: '共同ホストが見つかりません',
+    [ErrorCode.PLAYER_BANNED]: 'このセッションへの参加はホストにより禁止されています',
+    [ErrorCode.PLAYER_NOT_BANNABLE]: 'このプレイヤーは端末を識別できないため、参加禁止にできません。参加禁止にせずに退出させてください'
+  },
+
+  // APIの成功メッセージ・サーバーで作成して保存する文言（保存する文言はセッションの言語で作る）
+  server: {
+    leftSession: 'セッションから退出しました',
+    sessionCreated: 'セッションが作成されました',
+    gameReset: 'ゲームがリセットされました',
+    realtimeWarning: 'リアルタイム通知の送信に一部問題が発生しました',
+    termCalled: '「{term}」がコールされました',
+    numberDrawn: '番号 {number} が抽選されました',
+    claimUndrawnMarks: 'まだ抽選されていない番号がマークされています',
+    claimNoLine: '揃っている列がありません',
+    claimRejectedByHost: 'ホストが却下しました',
+    claimVoidedByCorrection: '抽選の取り消しにより無効になりました',
+    drawVoided: '{count}個目の抽選（{label}）を取り消しました',
+    drawVoidedBingoCancelled: '（ビンゴ取り消し: {players}名）',
+    playerKicked: '{name}さんを退出させました',
+    playerBanned: '{name}さんを退出させ、参加を禁止しました',
+    claimVoidedByKick: 'プレイヤーの退出により無効になりました',
+    presenceHostName: 'ホスト',
+    presenceObserverName: '観戦者',
+    magicLinkSubject: 'オンラインビンゴ ログイン用リンク',
+    magicLinkText: '以下のリンクを開くと、ホストアカウントにログインできます（{minutes}分間有効）。\n\n{url}\n\n心当たりがない場合は、このメールを破棄してください。'
+  },
+
+  // 共通の表示
+  common: {
+    appDescription: 'みんなで楽しめるオンラインビンゴゲーム',
+    language: '言語',
+    close: '閉じる',
+    cancel: 'キャンセル',
+    backToTop: 'トップページに戻る',
+    loading: '読み込み中...',
+    retry: '再試行',
+    listSeparator: '、',
+    cardNumber: 'カード{number}',
+    rank: '{rank}位',
+    missingSessionInfo: 'セッション情報が不足しています',
+    sessionNotFound: 'セッションが見つかりません',
+    roundNumber: 'ラウンド{round}'
+  },
+
+  // 当たりパターンなどの選択肢の表示名
+  labels: {
+    patterns: {
+      line: 'ライン（縦・横・斜め）',
+      four_corners: '四隅',
+      x: 'X（バツ）',
+      t: 'T字',
+      frame: '額縁',
+      blackout: 'ブラックアウト（全マス）'
+    },
+    ninetyBallPrizes: {
+      one_line: '1ライン',
+      two_lines: '2ライン',
+      full_house: 'フルハウス'
+    },
+    daubModes: {
+      auto: '自動マーク',
+      manual: '手動マーク（申告制）'
+    },
+    drawModes: {
+      server: 'アプリで抽選',
+      machine: '抽選機の番号を入力'
+    },
+    lateJoinModes: {
+      off: '途中参加なし',
+      current: '途中参加OK（すぐに入賞対象）',
+      'next-round': '途中参加OK（入賞は次のラウンドから）'
+    },
+    speechLanguages: {
+      ja: '日本語',
+      en: '英語'
+    },
+    speechCallStyles: {
+      simple: '番号のみ（B-12）',
+      repeat: '繰り返し（B… 12… B-12）'
+    }
+  },
+
+  // 当たりの形の表示名
+  shapes: {
+    row: '{row}行目',
+    fullHouse: 'フルハウス',
+    horizontal: '横{row}列目',
+    vertical: '縦{column}列',
+    diagonalDown: '斜め（左上→右下）',
+    diagonalUp: '斜め（右上→左下）'
+  },
+
+  // 認証フォーム
+  authForm: {
+    sessionId: 'セッションID',
+    sessionIdPlaceholder: '例: ABC123',
+    accessToken: 'アクセストークン',
+    accessTokenPlaceholder: '8桁の英数字',
+    authenticating: '認証中...',
+    submit: 'ゲームに参加',
+    joinWithQR: 'QRコードで参加',
+    qrScannerComingSoon: 'QRコードスキャナーは開発中です'
+  },
+
+  // 名前の自動調整の通知
+  nameAdjustment: {
+    title: '名前が自動調整されました',
+    description: '{reason}、名前が調整されました。',
+    reasonDuplicate: '同じ名前の参加者がいたため',
+    reasonInvalid: '使用できない文字が含まれていたため',
+    reasonLength: '名前が長すぎたため',
+    reasonOther: '名前の調整が必要だったため',
+    before: '変更前:',
+    after: '変更後:'
+  },
+
+  // ビンゴカード
+  bingoCard: {
+    blank: '空白',
+    completedLines: '達成ライン:',
+    marked: 'マーク済み',
+    remaining: '残り',
+    bingoCount: 'ビンゴ数',
+    card: 'ビンゴカード',
+    free: 'FREE',
+    cellMarked: '{cell}、マーク済み',
+    cellUnmarked: '{cell}、未マーク',
+    latest: '、直前の番号',
+    keyboardHint: '矢印キーでマスを移動し、EnterキーまたはSpaceキーでマークを切り替えます'
+  },
+
+  // ビンゴカードの配色テーマ
+  cardTheme: {
+    label: '表示テーマ',
+    themes: {
+      default: '標準',
+      'high-contrast': 'ハイコントラスト',
+      colorblind: '色覚サポート（青・オレンジ）'
+    }
+  },
+
+  // 参加者一覧
+  playerList: {
+    connected: '接続中',
+    disconnected: '切断中',
+    first: '1位',
+    empty: 'まだ参加者がいません',
+    you: '(あなた)',
+    lateJoined: '途中参加（{draws}個目の抽選後）',
+    winsFromNextRound: '・入賞は次のラウンドから',
+    originalName: '元の名前:',
+    kick: '退出',
+    kickLabel: '{name}を退出させる'
+  },
+
+  // ホスト確認待ちの申告
+  claimQueue: {
+    empty: '確認待ちの申告はありません',
+    afterDraw: '{count}個目の抽選後',
+    approve: '承認',
+    reject: '却下'
+  },
+
+  // 抽選の公平性
+  fairness: {
+    title: '抽選の公平性',
+    notRevealed: 'ゲーム終了後にシードが公開され、抽選順を検証できます',
+    verified: '抽選された{count}個の番号は、開始時に公開したハッシュのシードから導いた順序と一致しました',
+    mismatch: '抽選結果がコミットメントと一致しませんでした',
+    commitment: 'コミットメント（sha256）',
+    seed: 'シード',
+    algorithm: 'アルゴリズム',
+    openJson: '検証データ（JSON）を開く'
+  },
+
+  // 段階ごとの賞
+  prizes: {
+    oneLine: '1ライン',
+    twoLines: '2ライン',
+    fullHouse: 'フルハウス',
+    blackout: 'ブラックアウト',
+    linesOrMore: '{lines}ライン以上'
+  },
+
+  // 賞の獲得者一覧
+  prizeWinners: {
+    tied: '同着{count}名',
+    drawCount: '{count}個目の抽選',
+    drawnNumber: '（{number}）',
+    noWinnersYet: 'まだ獲得者はいません',
+    noWinners: '該当者なし'
+  },
+
+  // 通算順位
+  roundStandings: {
+    title: '通算順位（全{count}ラウンド）',
+    rank: '順位',
+    name: '名前',
+    total: '合計',
+    byRound: 'ラウンド別の結果',
+    drawnCount: '{count}個抽選',
+    noWinners: 'ビンゴ達成者なし',
+    tied: '（同着）'
+  },
+
+  // 番号の読み上げ
+  speech: {
+    notSupported: 'このブラウザは読み上げに対応していません',
+    on: '読み上げ オン',
+    off: '読み上げ オフ',
+    repeat: 'もう一度',
+    repeatTitle: '現在の番号をもう一度読み上げる',
+    rate: '速度（×{rate}）',
+    callStyle: '読み上げ方',
+    useNicknames: '伝統的な呼び名を添える',
+    useNicknamesHint: '英語のみ（例: two little ducks, 22）'
+  },
+
+  // 抽選機の番号入力
+  ballMachine: {
+    required: '番号を入力してください',
+    invalidFormat: '「G-52」または「52」の形式で入力してください',
+    numberOnly: '番号のみ入力してください',
+    outOfRange: '番号は1〜{max}で入力してください',
+    invalidLetter: '列の文字はB・I・N・G・Oのいずれかです',
+    wrongLetter: '{number}は{letter}列の番号です（{call}）',
+    alreadyDrawn: '{number}は既に抽選済みです'
+  },
+
+  // API呼び出しのエラー
+  api: {
+    endpointNotFound: 'APIエンドポイントが見つかりません。システム管理者にお問い合わせください。',
+    systemError: 'システムエラーが発生しました。しばらくしてから再度お試しください。',
+    apiError: 'APIエラーが発生しました',
+    authenticationFailed: '認証に失敗しました',
+    authenticationError: '認証エラーが発生しました',
+    unexpectedError: '予期しないエラーが発生しました'
+  },
+
+  // 入力の検証
+  validation: {
+    invalidRequest: '無効なリクエストデータです',
+    invalidAuthData: '無効な認証データです',
+    accessTokenRequired: 'アクセストークンが必要です',
+    accessTokenInvalid: 'アクセストークンの形式が正しくありません',
+    playerNameRequired: 'プレイヤー名が必要です',
+    playerNameEmpty: 'プレイヤー名を入力してください',
+    playerNameTooLong: 'プレイヤー名は{max}文字以内で入力してください',
+    sessionIdRequired: 'セッションIDが必要です',
+    sessionIdInvalid: 'セッションIDの形式が正しくありません'
+  },
+
+  // QRコード
+  qrCode: {
+    generateFailed: 'QRコードの生成に失敗しました'
+  },
+
+  // トップページ
+  home: {
+    titlePrefix: 'オンライン',
+    playTogether: 'みんなとビンゴをプレイ',
+    host: 'ゲームを主催',
+    join: 'ゲームに参加',
+    playSolo: '一人でビンゴをプレイ',
+    latestNumber: '最新の番号',
+    remaining: '残り: {count}個',
+    draw: '番号を引く',
+    reset: 'リセット',
+    hostAccount: 'ホストアカウント・ダッシュボード'
+  },
+
+  // 参加画面
+  guestJoin: {
+    titlePrefix: 'ビンゴ',
+    titleHighlight: '大会',
+    titleSuffix: 'に参加',
+    appTitle: 'オンラインビンゴ',
+    tagline: '大会に参加しましょう！',
+    enterDetails: '参加情報を入力',
+    enterSession: 'セッション情報を入力',
+    enterSessionHint: 'セッションIDとアクセストークンを入力してください',
+    invalidSessionId: '有効なセッションIDを入力してください（6桁の英数字）',
+    invalidAccessTokenFormat: '有効なアクセストークンを入力してください（8桁の英数字）',
+    invalidAccessToken: '有効なアクセストークンを入力してください',
+    invalidName: '名前を1〜{max}文字で入力してください',
+    genericError: 'エラーが発生しました',
+    statusError: 'エラー: {status}',
+    nameAdjustedAlert: '名前が重複していたため「{name}」として登録されました。',
+    sessionIdHint: '6桁の英数字',
+    sessionIdExample: '例：M9CFU4',
+    accessTokenHint: '8桁の英数字（ホストから共有）',
+    accessTokenExample: '例：1R2SGFHX',
+    yourName: 'あなたの名前',
+    namePlaceholder: '山田太郎',
+    displayNamePlaceholder: '表示名を入力',
+    nameHint: '他の参加者に表示される名前（最大{max}文字）',
+    duplicateNameHint: '※同じ名前のプレイヤーがいる場合、自動的に番号が付けられます',
+    cardCount: 'カードの枚数',
+    cards: '{count}枚',
+    cardLimitHint: '※このセッションでは1人{max}枚まで同時にプレイできます',
+    joining: '参加中...',
+    submit: '大会に参加する',
+    spectate: 'カードなしで観戦する',
+    qrHint: 'ヒント：QRコードを読み取った場合、セッションIDとアクセストークンは自動入力されます。名前だけ入力してください。',
+    hostShareHint: 'ヒント：セッションIDとアクセストークンは、大会のホストから共有されます',
+    nameAdjustedTitle: '名前が調整されました',
+    nameAdjustedPrefix: '同じ名前のプレイヤーが既に存在するため、あなたの名前は',
+    quotedName: '「{name}」',
+    nameAdjustedSuffix: 'になりました。',
+    acknowledge: '了解しました'
+  },
+
+  // 参加者の待機画面
+  guestWaiting: {
+    you: 'あなた',
+    sessionEnded: 'セッションが終了しました',
+    endedByHost: 'ホストによってゲームが終了されました',
+    loadingSession: 'セッション情報を読み込み中...',
+    loadingPage: '待機ページを読み込み中...',
+    errorTitle: 'エラーが発生しました',
+    backToJoin: '参加ページに戻る',
+    sessionIdLabel: 'セッションID:',
+    players: '参加者',
+    timeLeft: '残り時間',
+    connected: '接続中',
+    reconnecting: '再接続中',
+    connection: '接続状態',
+    reconnect: '再接続',
+    waitingTitle: 'ゲーム開始を待機中...',
+    waitingDescription: 'ホストがゲームを開始するまでお待ちください',
+    backgroundHint: '他のアプリを見ていても大丈夫です。ゲームが始まると自動でゲーム画面に移動します',
+    playerList: '参加者一覧',
+    leave: '待機室から離脱'
+  },
+
+  // ゲーム中の画面で共通の表示
+  game: {
+    defaultTitle: 'ビンゴゲーム',
+    connected: '✅ 接続中',
+    disconnected: '❌ 切断',
+    currentNumber: '現在の番号',
+    currentTerm: '現在の用語',
+    drawHistory: '抽選履歴',
+    sessionExpired: 'セッションが見つかりません。制限時間（2時間）が経過してデータが削除された可能性があります。',
+    sessionExpiredTitle: 'セッション期限切れ',
+    sessionExpiredDescription: '制限時間（2時間）が経過したため、ゲームデータが削除されました。',
+    menu: 'メニュー',
+    bingoWinners: 'ビンゴ達成者',
+    noBingoWinners: 'まだビンゴ達成者はいません',
+    playersJoined: '{count}名が参加中',
+    noNumbersYet: 'まだ番号が引かれていません',
+    noTermsYet: 'まだ用語がコールされていません',
+    tie: '（同着）',
+    quotedTerm: '「{term}」'
+  },
+
+  // 観戦画面
+  spectate: {
+    closed: 'ホストが観戦の受付を終了しました',
+    watching: '観戦中（{count}名がプレイ中）',
+    waitingForStart: 'ゲームの開始を待っています...',
+    finished: 'ゲームは終了しました',
+    waitingForFirstDraw: '最初の抽選を待っています...',
+    drawHistory: '抽選履歴（{count}個）',
+    noDraws: 'まだ抽選されていません',
+    ranking: 'ランキング',
+    prizes: '賞'
+  },
+
+  // プロジェクター用の表示
+  present: {
+    reach: '{name} さんがリーチ！',
+    bingo: '{name} さんがビンゴ！',
+    prize: '{label}: {names} さん',
+    nameSeparator: '・',
+    loading: '読み込み中...',
+    playerCount: '{count}名',
+    drawCount: '{count}個目',
+    reconnecting: '再接続中...',
+    finished: 'ゲーム終了',
+    previous: '直前:',
+    startingSoon: 'まもなく開始',
+    drawingSoon: 'まもなく抽選',
+    qrAlt: '参加用QRコード',
+    scanToJoin: 'スマホで読み取って参加',
+    shortcuts: 'クリックで全画面表示 ／ S: 読み上げ オン・オフ ／ R: もう一度読み上げ ／ T: 表示テーマ',
+    speaking: '読み上げ中'
+  },
+
+  // 結果画面で共通の表示
+  result: {
+    errorTitle: 'エラー',
+    rankName: '{rank}位: {name}',
+    linesAchieved: '{count}列達成',
+    noBingoWinners: 'ビンゴ達成者はいませんでした',
+    prizeWinners: '🏅 賞の獲得者',
+    nextActions: '🎮 次のアクション',
+    share: '結果をシェア',
+    copyAndClose: 'コピーして閉じる',
+    toTopPage: 'トップページへ'
+  },
+
+  // ホストの結果画面
+  hostResult: {
+    shareTitle: '🎉 ビンゴ大会「{name}」結果発表！',
+    shareStanding: '{medal} {rank}位: {name} ({points}pt)',
+    shareRanking: '{medal} {rank}位: {name} ({count}列)',
+    loading: '結果を集計中...',
+    backToHost: 'ホーム画面に戻る',
+    title: '🎊 ゲーム終了！',
+    roundPrizes: '🏅 ラウンド{round}の賞',
+    roundRanking: '🏆 ラウンド{round}のランキング',
+    finalRanking: '🏆 最終ランキング',
+    tryAgain: '次回はもっと頑張りましょう！',
+    players: '参加者',
+    createGame: '新しいゲームを作成',
+    copyUrl: 'URLをコピー',
+    urlCopied: '✓ コピーしました'
+  },
+
+  // 参加者の結果画面
+  guestResult: {
+    playerNotFound: 'プレイヤー情報が見つかりません',
+    noRank: '順位なし',
+    top10: 'トップ10%！',
+    top30: 'トップ30%！',
+    top50: 'トップ50%！',
+    champion: '🎊 おめでとうございます！見事な優勝です！',
+    podium: '🎉 素晴らしい！入賞おめでとうございます！',
+    bingo: '✨ ビンゴ達成おめでとうございます！',
+    almost: '👏 もう少しでビンゴでした！次回も頑張りましょう！',
+    goodTry: '💪 なかなか良い調子でした！次回に期待！',
+    thanks: '😊 参加ありがとうございました！次回は運が向くかも！',
+    shareTitle: '🎯 ビンゴ大会「{name}」に参加しました！',
+    shareStanding: '🏅 通算: {rank}位（{points}pt・全{rounds}ラウンド）',
+    shareRank: '{medal} 結果: {rank}位 / {total}人中',
+    shareBingo: '📊 ビンゴ: {count}列達成',
+    shareMarked: '📊 マーク数: {count}個',
+    sharePlayers: '参加者: {count}名',
+    shareHashtags: '#オンラインビンゴ #ビンゴ大会',
+    loading: '結果を読み込み中...',
+    title: 'ゲーム終了！',
+    podiumTitle: '{rank}位入賞！',
+    yourCards: 'あなたのビンゴカード',
+    yourStats: '📊 あなたの成績',
+    rankLabel: '順位',
+    outOf: '{count}人中',
+    bingoLabel: 'ビンゴ数',
+    lines: '{count}列',
+    achieved: '達成！',
+    notAchieved: '未達成',
+    markedLabel: 'マーク数',
+    percentileLabel: '上位',
+    top3: '🏆 トップ3',
+    you: '(あなた)',
+    screenshot: 'スクリーンショット',
+    joinAnother: '別のゲームに参加',
+    shareOnX: 'Xでシェア',
+    shareOnLine: 'LINEでシェア'
+  },
+
+  // 大会の作成画面
+  createGame: {
+    accountLinked: 'ログイン中（{email}）: 作成したゲームはダッシュボードに保存されます',
+    accountHint: 'ログインすると、作成したゲームを別の端末から再開できます',
+    gameTypes: {
+      '75ball': { label: '75ボール', description: '5×5カード・1〜75' },
+      '90ball': { label: '90ボール', description: '3×9チケット・1〜90' },
+      words: { label: 'ワードビンゴ', description: '用語を自由に設定' }
+    },
+    fileReadFailed: 'ファイルの読み込みに失敗しました',
+    nameRequired: '大会名を入力してください',
+    maxPlayersRange: '参加人数は2〜99人の範囲で設定してください',
+    cardLimitRange: 'カードの上限は1〜{max}枚で設定してください',
+    penaltyRange: 'ペナルティは0〜{max}回で設定してください',
+    placementPointsInvalid: '順位ポイントは{ranks}位まで、0〜{max}の整数で入力してください',
+    prizeTiersInvalid: '賞には名前（{max}文字以内）と、このゲーム形式で使える達成条件を設定してください',
+    termsTooFew: '用語を{min}個以上入力してください',
+    patternsRequired: '当たりパターンを1つ以上選択してください',
+    requestFailed: 'エラーが発生しました',
+    statusError: 'エラー: {status}',
+    titlePrefix: 'ビンゴ',
+    titleHighlight: '大会',
+    titleSuffix: 'を作成',
+    formTitle: '大会情報を入力',
+    name: '大会名',
+    namePlaceholder: '例: 新年会ビンゴ大会',
+    maxPlayers: '最大参加人数',
+    maxPlayersHint: '※ 2〜99人の範囲で設定してください',
+    maxCards: '1人あたりのカード枚数（上限）',
+    maxCardsHint: '※ 2枚以上にすると、参加者が参加時に枚数を選べます',
+    placementPoints: '順位ポイント',
+    placementPointsHint: '※ 1位から順にカンマ区切りで入力します。ラウンドごとのポイントを合計して通算順位を決めます',
+    sessionLocale: '大会の言語',
+    sessionLocaleHint: '※ 参加者の画面の初期表示と、記録に残る文言に使います。参加者は自分で表示言語を切り替えられます',
+    gameType: 'ゲーム形式',
+    terms: '用語リスト',
+    termsPlaceholder: 'シナジー\nアジャイル\nDX\n...',
+    loadTermsFile: 'テキストファイルを読み込む',
+    termsCount: '{count}個 / {min}個以上',
+    termsHint: '※ 1行に1つ（カンマ区切りも可）。各プレイヤーのカードはこのリストからランダムに作られます',
+    ninetyBallWins: '当たり',
+    ninetyBallWinsDescription: '1ライン → 2ライン → フルハウス の順に賞が決まります',
+    patterns: '当たりパターン',
+    patternsHint: '※ 選択したいずれかの形が揃うとビンゴになります',
+    prizeTiers: '賞（任意）',
+    prizeNamePlaceholder: '賞の名前',
+    prizeNameLabel: '賞{number}の名前',
+    prizeConditionLabel: '賞{number}の達成条件',
+    prizeRemoveLabel: '賞{number}を削除',
+    addPrize: '＋ 賞を追加',
+    prizePresets: '定番の賞を設定',
+    prizeTiersHint: '※ 賞ごとに最初に条件を満たした人が獲得します。同じ抽選で複数人が達成した場合は同着です',
+    drawMode: '抽選方式',
+    drawModeHint: '※ 抽選機モードでは、会場の抽選機で出た番号をホストが入力します（自動抽選・抽選の公平性の検証は使えません）',
+    lateJoin: '途中参加',
+    lateJoinHint: '※ 途中参加者のカードには、それまでに抽選された番号が自動でマークされます',
+    daubMode: 'マーク方式',
+    penaltyLabel: '誤申告のペナルティ:',
+    penaltySuffix: '回の抽選の間、申告できない',
+    daubModeHint: '※ 手動マークでは、参加者が自分で番号をタップし「BINGO!」ボタンで申告します',
+    hostAdjudication: 'ビンゴをホストが確認してから発表する',
+    hostAdjudicationHint: '※ 申告されたビンゴはホスト画面で承認するまで発表・ランキングに反映されません',
+    allowSpectators: 'カードなしの観戦を許可する',
+    allowSpectatorsHint: '※ 観戦者は参加人数に含まれません。ゲーム中もホスト画面で切り替えられます',
+    creating: '作成中...',
+    submit: '大会を作成する',
+    tipPrefix: '💡 ヒント：作成後、参加者に',
+    tipQrCode: 'QRコード',
+    tipOr: 'または',
+    tipUrl: 'URL',
+    tipSuffix: 'を共有してください。'
+  },
+
+  // ホストの待機画面
+  hostWaiting: {
+    sessionMissing: 'セッション情報が見つかりません。新しくゲームを作成してください。',
+    sessionEnded: 'セッションが終了しました',
+    defaultGameName: 'ビンゴ大会',
+    qrCodeFailed: 'QRコードの生成に失敗しました',
+    startEventFailed: 'ゲーム開始イベントの送信に失敗しました',
+    startFailed: 'ゲームの開始に失敗しました',
+    initializing: '初期化中...',
+    errorTitle: 'エラーが発生しました',
+    createNew: '新しくゲームを作成',
+    loadingGame: 'ゲーム情報を読み込み中...',
+    pending: '取得中...',
+    tokenSet: '設定済み',
+    title: '参加者を待っています',
+    qrTitle: '📱 参加用QRコード',
+    menu: 'メニュー',
+    endGame: '大会を終了',
+    confirmEnd: '本当に終了しますか？',
+    printPaperCards: '🖨 紙のカードを印刷',
+    qrAlt: '参加用QRコード',
+    sessionId: 'セッションID',
+    accessToken: 'アクセストークン',
+    shareWithPlayers: '（参加者に共有）',
+    copy: 'コピー',
+    copied: 'コピーしました！',
+    participationUrl: '🔗 参加URL',
+    copyUrl: 'URLをコピー',
+    urlCopied: 'URLをコピーしました！',
+    playerList: '👥 参加者リスト',
+    connected: '接続中',
+    connecting: '接続待機中',
+    maxPlayers: '/ {max}人',
+    waitingForPlayers: '参加者を待っています...',
+    joinHintLine1: 'QRコードを読み取るか',
+    joinHintLine2: 'セッションIDとアクセストークンで参加できます',
+    host: 'ホスト',
+    coHostWaiting: 'ホストがゲームを開始すると、自動でゲーム画面に移動します',
+    online: '画面を見ています',
+    away: '他のアプリを見ています',
+    backgroundHint: '💡 参加者が裏画面でもゲーム開始すると自動でゲーム画面に移動します',
+    playersNeeded: 'あと{count}人必要です',
+    start: '🎮 ゲームを開始する',
+    startHint: '※ ホスト以外に1人以上でゲームを開始できます',
+    joinHint: '💡 参加者はQRコードを読み取るか、セッションIDとアクセストークンを入力して参加できます',
+    expiryHint: '※ セッションは作成から2時間で自動的に削除されます'
+  },
+
+  // 参加者のゲーム画面
+  guestGame: {
+    youSuffix: ' (あなた)',
+    fetchFailed: 'セッションの取得に失敗しました',
+    invalidSessionData: 'セッションデータが不正です',
+    playerNotFound: 'プレイヤーが見つかりません',
+    cardNotFound: 'ビンゴカードが見つかりません',
+    errorOccurred: 'エラーが発生しました',
+    voidedWithBingo: '{label}の抽選が取り消されたため、ビンゴが取り消されました',
+    voided: '{label}の抽選が取り消されました',
+    claimPending: 'ホストの確認待ちです',
+    claimApprovedByHost: 'ホストがビンゴを承認しました！',
+    claimRejectedByHost: 'ビンゴは認められませんでした: {reason}',
+    prizeWon: '{label}を獲得しました！{tie}',
+    prizeWonBy: '{names}さんが{label}を獲得',
+    nameSeparator: '、',
+    claimFailed: '申告に失敗しました',
+    claimAccepted: 'ビンゴが認められました！',
+    claimRejected: '申告は認められませんでした: {reason}',
+    noCompletedLine: '揃っている列がありません',
+    errorPrefix: 'エラー: {error}',
+    preparingCard: 'ビンゴカードを準備中...',
+    linesAchieved: '{count}ライン達成！',
+    reach: '🎯 リーチ！',
+    speechSettings: '読み上げ設定',
+    closeSpeechSettings: '読み上げ設定を閉じる',
+    displaySettings: '表示設定',
+    closeDisplaySettings: '表示設定を閉じる',
+    announceNumber: '{number}が呼ばれました',
+    announceTerm: '「{term}」がコールされました',
+    announceReach: 'リーチです',
+    announceBingo: 'ビンゴです！{count}ライン達成',
+    leave: 'ゲームを退出',
+    confirmLeave: '本当に退出しますか？',
+    player: 'プレイヤー: {name}',
+    wins: '当たり: {patterns}',
+    prizeAchieved: '{prize}達成！',
+    bingoAchieved: '{count}ビンゴ達成！',
+    reachCount: '{count}リーチ！',
+    speechTitle: '🔊 番号の読み上げ（この端末のみ）',
+    nextNumberIn: '次の番号まで',
+    nextTermIn: '次の用語まで',
+    seconds: '秒',
+    autoDrawPaused: '⏸ 自動抽選は一時停止中です',
+    manualDaubHint: '呼ばれた番号を自分でタップしてマークしてください',
+    swipeHint: '← スワイプで{count}枚のカードを切り替え →',
+    cardOf: 'カード {number} / {total}',
+    cardBingo: '{count}ビンゴ！',
+    judging: '判定中...',
+    lateJoinNotEligible: '途中参加のため、このラウンドは入賞の対象外です（次のラウンドから対象になります）',
+    lockout: 'ペナルティ中: あと{count}回の抽選後に申告できます',
+    winnersCount: '({count}名)',
+    collapse: '▲ 閉じる',
+    expand: '▼ 開く'
+  },
+
+  // ホストのゲーム画面
+  hostGame: {
+    claimStatuses: {
+      pending: '確認待ち',
+      accepted: '承認',
+      rejected: '却下',
+      voided: '無効'
+    },
+    noClaims: 'まだ申告はありません',
+    online: 'オンライン',
+    offline: 'オフライン',
+    lateJoinedTitle: '{count}個目の抽選後に参加',
+    winsFromNextRoundTitle: '（入賞は次のラウンドから）',
+    lateJoined: '途中参加',
+    fromNextRound: '・次ラウンドから',
+    playerNames: '{names}さん',
+    bingoAchieved: 'ビンゴ達成！',
+    prizeWon: '{label}獲得！{tie}',
+    reach: 'リーチ！',
+    nextRoundTitle: 'ラウンド{round}を開始',
+    nextRoundDescription: '現在のラウンドの結果を記録し、参加者全員に新しいカードを配ります。',
+    winningPatterns: '当たりパターン',
+    start: '開始する',
+    confirmMachineNumber: 'この番号で確定しますか？',
+    fixNumber: '修正する',
+    confirmAndAnnounce: '確定して発表',
+    enterMachineNumber: '抽選機で出た番号を入力',
+    machinePlaceholder75: '例: G-52',
+    machinePlaceholder: '例: 52',
+    check: '確認',
+    autoDraw: '自動抽選',
+    secondsEach: '秒ごと',
+    startAutoDraw: '開始',
+    nextDrawIn: '次の抽選まで',
+    seconds: '秒',
+    autoDrawPaused: '一時停止中（残り {seconds} 秒）',
+    intervalSeconds: '（{seconds}秒ごと）',
+    pause: '一時停止',
+    resume: '再開',
+    stop: '停止',
+    unknownPlayer: '不明',
+    drawFailed: '番号の抽選に失敗しました',
+    autoDrawFailed: '自動抽選の操作に失敗しました',
+    spectatorsFailed: '観戦の設定に失敗しました',
+    voidFailed: '抽選の取り消しに失敗しました',
+    reviewFailed: '申告の確認に失敗しました',
+    resetFailed: 'ゲームリセットに失敗しました',
+    nextRoundFailed: '次のラウンドの開始に失敗しました',
+    endFailed: 'ゲーム終了処理に失敗しました',
+    loading: 'ゲーム情報を読み込み中...',
+    numberLabel: '番号 {number}',
+    presentation: '大画面表示',
+    paperCards: '紙のカード',
+    nextRound: '次のラウンド',
+    reset: 'リセット',
+    end: '終了',
+    tapTermToCall: '出た用語をタップしてコール',
+    allNumbersDrawn: 'すべての番号を引きました',
+    allTermsCalled: 'すべての用語をコールしました',
+    drawing: '抽選中...',
+    callRandomTerm: 'ランダムにコール（残り {count} 個）',
+    drawNumber: '番号を引く（残り {count} 個）',
+    calledTerms: 'コール済み用語',
+    drawnNumbers: '抽選済み番号',
+    voidLastDraw: '直前の抽選を取り消す',
+    bingoCheck: 'ビンゴ確認',
+    speech: '読み上げ',
+    spectators: '観戦',
+    spectatorsWatching: '観戦中:',
+    spectatorsUnit: '名',
+    spectatorsClosed: '観戦は受け付けていません',
+    stopSpectators: '観戦を停止',
+    allowSpectators: '観戦を許可',
+    spectateHint: '※ 参加画面の「カードなしで観戦する」から観戦できます',
+    prizes: '賞',
+    totalPoints: '通算ポイント',
+    claims: 'ビンゴ申告',
+    auditLog: '操作履歴',
+    players: '参加者',
+    noPlayers: '参加者がいません',
+    resetTitle: 'ゲームをリセット',
+    resetMessage: '抽選済みの番号とビンゴカードがすべてリセットされます。この操作は取り消せません。',
+    resetConfirm: 'リセットする',
+    endTitle: 'ゲームを終了',
+    endMessage: 'ゲームを終了して結果画面に移動します。よろしいですか？',
+    endConfirm: '終了する',
+    voidMessage: '{label}を抽選前の状態に戻します。この番号で成立したビンゴと賞は取り消され、操作履歴に記録されます。',
+    voidConfirm: '取り消す',
+    coHost: '共同ホスト',
+    coHostRemoved: 'ホストにより共同ホストから外されたため、操作できません'
+  },
+
+  // 紙のカード（印刷ページ・ホストのゲーム画面での確認）
+  paperCards: {
+    title: '紙のカードの印刷',
+    description: 'スマートフォンを持っていない参加者向けに、シリアル番号付きのカードを印刷できます。ビンゴの申告があったら、ホストのゲーム画面でシリアル番号を入力して確認します。',
+    missingAuth: 'ホストの認証情報が見つかりません。ホストの画面から開き直してください。',
+    countLabel: '発行する枚数（1回 {max}枚まで）',
+    issue: 'カードを発行',
+    issuing: '発行中...',
+    issueFailed: 'カードの発行に失敗しました',
+    issued: '{count}枚のカードを発行しました',
+    total: '発行済み: {count} / {max}枚',
+    latestOnly: '今回発行したカードだけを表示',
+    print: '印刷する',
+    printHint: '印刷ダイアログで「PDFに保存」を選ぶと、PDFとしてダウンロードできます',
+    empty: 'まだカードを発行していません',
+    serial: 'シリアル番号',
+    free: 'FREE',
+    defaultGameName: 'ビンゴ大会',
+    instructions: '読み上げられたマスに印を付け、ビンゴになったらシリアル番号を係の人に伝えてください',
+    verifyTitle: '紙のカードの確認',
+    verifyHint: '参加者が伝えたシリアル番号を入力すると、抽選済みの番号でカードを判定します',
+    serialPlaceholder: 'シリアル番号（例: ABC-DEF）',
+    verify: '確認',
+    verifying: '確認中...',
+    verifyFailed: 'カードの確認に失敗しました',
+    bingo: '🎉 ビンゴです！',
+    notBingo: 'まだビンゴではありません',
+    prize: '賞: {prize}',
+    markedCount: '抽選済みのマス: {count}（抽選 {draws}回）',
+    cardLabel: '紙のカード {serial}'
+  },
+
+  // ホストアカウントのログイン・登録画面
+  account: {
+    title: 'ホストアカウント',
+    description: 'ログインすると作成したゲームがアカウントに保存され、別の端末から操作を再開したり、過去の結果を見たりできます。ログインしなくてもゲームは作成できます。',
+    modes: {
+      login: 'ログイン',
+      register: '新規登録',
+      'magic-link': 'メールで受け取る'
+    },
+    email: 'メールアドレス',
+    password: 'パスワード',
+    passwordHint: '{min}文字以上',
+    submit: {
+      login: 'ログイン',
+      register: '登録してログイン',
+      'magic-link': 'ログイン用リンクを送信'
+    },
+    submitting: '送信中...',
+    failed: 'ログインに失敗しました',
+    magicLinkHint: 'パスワードなしで、メールに届くリンクからログインできます（アカウントがなければ作成されます）',
+    magicLinkSent: '{email} にログイン用のリンクを送信しました。メールのリンクを開いてください（{minutes}分間有効）。',
+    devMailbox: '開発環境では、メールは開発用の受信箱で確認できます',
+    openDevMailbox: '開発用の受信箱を開く',
+    invalidLink: 'ログイン用のリンクが無効か、期限が切れています。もう一度送信してください。'
+  },
+
+  // ホストのダッシュボード
+  dashboard: {
+    title: 'ダッシュボード',
+    loggedInAs: 'ログイン中: {email}',
+    logout: 'ログアウト',
+    loadFailed: 'ダッシュボードの取得に失敗しました',
+    createGame: '新しくゲームを作成',
+    activeSessions: '進行中のゲーム',
+    noActiveSessions: '進行中のゲームはありません',
+    archives: '終了したゲーム',
+    noArchives: '終了したゲームはまだありません',
+    statuses: {
+      waiting: '参加受付中',
+      playing: 'プレイ中',
+      finished: '終了',
+      expired: '期限切れ'
+    },
+    players: '参加者 {count}人',
+    draws: '抽選 {count}回',
+    rounds: '{count}ラウンド',
+    expiresAt: '{time}まで',
+    finishedAt: '終了: {time}',
+    winners: '優勝: {names}',
+    resume: '操作を再開',
+    viewResult: '結果を見る'
+  },
+
+  // 開発用の受信箱
+  devMail: {
+    title: '開発用の受信箱',
+    description: '開発環境で送信したメールはここに保存されます（24時間で削除）',
+    unavailable: '開発用の受信箱は開発環境でのみ利用できます',
+    empty: 'メールはまだありません',
+    to: '宛先',
+    reload: '再読み込み'
+  },
+
+  // 共同ホスト（招待・一覧）
+  coHosts: {
+    title: '共同ホスト',
+    description: '抽選や受付を手伝ってもらう人を招待できます。招待リンクは1回だけ使えます。',
+    permissionsLabel: '任せる操作',
+    permissions: {
+      draw: '抽選',
+      'manage-game': 'ゲームの開始・リセット・終了',
+      'moderate-players': '申告の確認・紙のカード・プレイヤーの退出'
+    },
+    invite: '招待リンクを作成',
+    inviting: '作成中...',
+    inviteFailed: '招待リンクの作成に失敗しました',
+    inviteExpires: '{time}まで有効・1回だけ使えます',
+    qrAlt: '共同ホストの招待用QRコード',
+    copyLink: 'リンクをコピー',
+    linkCopied: 'コピーしました！',
+    count: '{count} / {max}人',
+    empty: 'まだ共同ホストはいません',
+    remove: '外す',
+    removeLabel: '{name}さんを共同ホストから外す',
+    removeFailed: '共同ホストを外せませんでした'
+  },
+
+  // 共同ホストとして参加
+  coHostJoin: {
+    title: '共同ホストとして参加',
+    description: 'ホストから共同ホストに招待されました。ほかのホストに表示する名前を入力してください。',
+    invalidLink: '招待リンクが正しくありません。ホストにもう一度送ってもらってください。',
+    nameLabel: 'あなたの名前',
+    namePlaceholder: '例: 受付の山田',
+    submit: '参加する',
+    submitting: '参加中...',
+    failed: '共同ホストとして参加できませんでした'
+  },
+
+  // プレイヤーを退出させる確認ダイアログ
+  kickPlayer: {
+    title: 'プレイヤーを退出させる',
+    confirm: '{name}さんをセッションから退出させます。カードと確認待ちの申告は削除されます。',
+    ban: '再参加を禁止する',
+    banDescription: '同じ端末からは、別の名前でもこのセッションに参加できなくなります。',
+    submit: '退出させる',
+    submitting: '退出させています...',
+    failed: 'プレイヤーを退出させられませんでした'
+  },
+
+  // 退出させられたプレイヤーの説明画面
+  kicked: {
+    title: 'セッションから退出しました',
+    description: 'ホストによりセッションから退出させられました。',
+    rejoin: 'もう一度参加したい場合は、ホストに相談してください。',
+    banned: 'このセッションには再び参加できません。',
+    joinAnother: '別のセッションに参加'
+  }
+};
@@ -11,11 +11,18 @@ export interface Player {
   originalName?: string;
   nameAdjusted?: boolean;
   board: number[][];
+  boards?: number[][][]; // 複数カードを購入した場合の全カード（boardは1枚目と同じ）
   joinedAt: string;
   isConnected: boolean;
   bingoCount: number;
   lastActiveAt?: string;
   bingoAchievedAt?: string;
+  falseClaimCount?: number; // 手動マーク時の誤申告回数
+  lockedUntilDraw?: number; // 抽選数がこの値に達するまで申告不可（誤申告ペナルティ）
+  lateJoinedAtDraw?: number; // ゲーム途中に参加した時点の抽選数（途中参加の目印・次のラウンドで解除）
+  waitingForNextRound?: boolean; // 途中参加のため、次のラウンドまで入賞の対象外
+  locale?: Locale; // プレイヤーが選んだ表示言語
+  deviceTokenHash?: string; // 参加した端末のトークン（HttpOnlyのCookie）のハッシュ（参加禁止の照合用）
 }
 
 // ゲームセッション
@@ -34,6 +41,243 @@ export interface GameSession {
   expiresAt: Date;
   startedAt?: Date;
   finishedAt?: Date;
+  gameType?: GameType;
+  terms?: string[]; // ワードビンゴの用語一覧（カードと抽選は1始まりのインデックスで扱う）
+  rules?: GameRules;
+  fairness?: DrawFairness;
+  claims?: BingoClaim[]; // ビンゴ申告履歴（手動マーク・ホスト確認時）
+  prizeAwards?: PrizeAward[]; // 進行中のラウンドで確定した賞（達成した順）
+  rounds?: RoundResult[]; // 終了したラウンドの記録（進行中のラウンドは含まない）
+  discardedDraws?: DiscardedDraws[]; // リセットで破棄した抽選の記録（シードは公開済み）
+  roundStartedAt?: Date; // 進行中のラウンドの開始時刻（1ラウンド目はstartedAt）
+  autoDraw?: AutoDrawState; // 自動抽選（未設定はホストが手動で抽選）
+  auditLog?: AuditLogEntry[]; // ホストによる訂正などの操作履歴
+  locale?: Locale; // セッションの言語（参加者の既定の表示言語・記録する説明文の言語。未設定は日本語）
+  paperCards?: PaperCard[]; // 印刷した紙のカード（ラウンドをまたいで同じカードを使う）
+  accountId?: string; // 作成したホストのアカウント（ログインせずに作成した場合は未設定）
+  coHosts?: CoHost[]; // 招待を受けて参加した共同ホスト
+  bannedPlayers?: BannedPlayer[]; // 退出させ、参加を禁止したプレイヤー
+}
+
+// 参加を禁止したプレイヤー（同じ端末からは別の名前でも参加できない）
+export interface BannedPlayer {
+  name: string; // 禁止した時点の名前（表示用）
+  deviceTokenHash: string;
+  bannedAt: string;
+}
+
+// 共同ホストの権限（メインのホストは常に全ての権限を持つ）
+// draw: 抽選（自動抽選・抽選の取り消しを含む）
+// manage-game: ゲームの開始・リセット・次のラウンド・終了と観戦の設定
+// moderate-players: ビンゴ申告の確認と紙のカードの発行・確認
+export type CoHostPermission = 'draw' | 'manage-game' | 'moderate-players';
+
+// 共同ホスト（ホスト用の画面・APIではホストIDの代わりにidを使う）
+// id は公開してよい識別子（プレゼンス・一覧・削除に使う）。ホスト用のAPIには参加時に本人にだけ返す
+// トークン（"id.秘密の値"）を送り、サーバーはハッシュ（tokenHash）と照合する
+export interface CoHost {
+  id: string;
+  name: string;
+  permissions: CoHostPermission[];
+  joinedAt: string;
+  tokenHash: string;
+}
+
+// プレゼンスチャンネル・画面での操作者の役割
+export type HostRole = 'host' | 'co-host';
+
+// ホストアカウント（任意。ログインして作成したセッションはアカウントに紐付き、別の端末からも操作を再開できる）
+export interface HostAccount {
+  accountId: string;
+  email: string; // 小文字に正規化して保存
+  passwordHash?: string; // マジックリンクだけで登録した場合は未設定
+  createdAt: Date;
+  lastLoginAt?: Date;
+}
+
+// 画面に返すアカウント情報
+export type HostAccountSummary = Pick<HostAccount, 'accountId' | 'email'>;
+
+// 紙のカード（スマートフォンのない参加者向けに印刷し、シリアル番号でホストが確認する）
+export interface PaperCard {
+  serial: string;
+  card: number[][];
+  createdAt: string;
+}
+
+// ゲームの記録（ゲーム終了時に archives コレクションへ保存し、セッションと違い有効期限で削除しない）
+// セッションが削除された後も結果ページを表示できるよう、順位と抽選順・時刻だけを残す
+export interface GameArchive {
+  sessionId: string;
+  accessToken: string; // 結果ページの閲覧にセッションと同じトークンを使う
+  gameName: string;
+  gameType?: GameType;
+  terms?: string[];
+  rules?: GameRules;
+  locale?: Locale;
+  accountId?: string;
+  players: ArchivedPlayer[];
+  rankings: StandingEntry[]; // 全ラウンドの通算順位
+  rounds: RoundResult[]; // 最終ラウンドを含む全ラウンドの記録（抽選順・入賞者・賞）
+  discardedDraws?: DiscardedDraws[];
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt: Date;
+  archivedAt: Date;
+}
+
+// 記録に残すプレイヤー情報（結果ページで使う項目のみ）
+export type ArchivedPlayer = Pick<Player, 'id' | 'name' | 'board' | 'boards' | 'joinedAt' | 'bingoCount' | 'bingoAchievedAt'>;
+
+// 表示言語
+export type Locale = 'ja' | 'en';
+
+// 操作履歴に記録する操作の種類
+export type AuditAction = 'draw-voided' | 'player-kicked';
+
+// 操作履歴（抽選の取り消しなど、ゲームの結果に影響する訂正を記録する）
+export interface AuditLogEntry {
+  id: string;
+  action: AuditAction;
+  actorId: string; // 操作したホストのID
+  message: string; // 表示用の説明
+  number?: number; // 対象の番号
+  drawCount?: number; // 対象の抽選が何個目だったか
+  playerIds?: string[]; // 影響を受けたプレイヤー
+  createdAt: string;
+}
+
+// 自動抽選の状態（running: nextDrawAtに抽選 / paused: 一時停止中）
+export type AutoDrawStatus = 'running' | 'paused';
+
+// 自動抽選の設定と次の抽選予定
+// サーバーレス環境では常駐プロセスがないため、予定時刻をセッションに保存し、
+// 接続中のクライアント（ホスト・ゲスト）が時刻になったら抽選を依頼する
+export interface AutoDrawState {
+  status: AutoDrawStatus;
+  intervalSeconds: number;
+  nextDrawAt?: string; // running時の次の抽選予定時刻
+  remainingMs?: number; // paused時、一時停止した時点での次の抽選までの残り時間
+  updatedAt: string;
+}
+
+// 抽選の公平性（コミット・リビール方式）
+// ゲーム開始時にシードのハッシュだけを公開し、終了時にシードを公開する
+export interface DrawFairness {
+  algorithm: string;
+  commitment: string; // sha256(seed)
+  committedAt: string;
+  seed?: string; // ゲーム終了まで未公開
+  revealedAt?: string;
+}
+
+// 参加者・観戦者に渡すセッション（ホスト操作の認証に使う値と、ホスト用の申告・操作履歴・紙のカードを除く）
+export type PublicGameSession = Omit<GameSession, '_id' | 'hostId' | 'accessToken' | 'claims' | 'auditLog' | 'paperCards'>;
+
+// リセットで破棄した抽選（リセットのたびにシードを公開し、都合のよい抽選順が出るまでやり直していないか検証できるようにする）
+export interface DiscardedDraws {
+  numbers: number[];
+  fairness: DrawFairness;
+  discardedAt: string;
+}
+
+// ゲーム形式（75ボール: 5×5カード / 90ボール: 3×9チケット / ワード: ホストが用意した用語の5×5カード）
+export type GameType = '75ball' | '90ball' | 'words';
+
+// 90ボールの賞（1ライン・2ライン・フルハウス）
+export type NinetyBallPrize = 'one_line' | 'two_lines' | 'full_house';
+
+// 当たりパターン
+export type BingoPattern = 'line' | 'four_corners' | 'x' | 't' | 'frame' | 'blackout';
+
+// マーク方式（auto: 抽選番号を自動マーク / manual: プレイヤーが自分でマークして申告）
+export type DaubMode = 'auto' | 'manual';
+
+// 抽選方式（server: サーバーが抽選 / machine: ホストが抽選機で出た番号を入力）
+export type DrawMode = 'server' | 'machine';
+
+// 途中参加（off: 不可 / current: 今のラウンドから入賞対象 / next-round: 入賞は次のラウンドから）
+export type LateJoinMode = 'off' | 'current' | 'next-round';
+
+// セッションごとのゲームルール
+export interface GameRules {
+  patterns: BingoPattern[];
+  daubMode?: DaubMode;
+  falseClaimPenaltyDraws?: number; // 誤申告時に申告できなくなる抽選回数（0でペナルティなし）
+  hostAdjudication?: boolean; // ビンゴをホストが承認してから発表する
+  maxCardsPerPlayer?: number; // 1人が購入できるカードの上限（未設定は1枚）
+  placementPoints?: number[]; // ラウンドの順位ごとの獲得ポイント（1位から順に）
+  prizeTiers?: PrizeTier[]; // 段階ごとの賞（1ライン・2ライン・ブラックアウトなど）
+  drawMode?: DrawMode; // 未設定はサーバーが抽選（ワードビンゴはホストがコールするため対象外）
+  lateJoin?: LateJoinMode; // 未設定は途中参加不可
+  allowSpectators?: boolean; // 観戦を許可する（ゲーム中もホストが切り替えられる）
+}
+
+// 賞の設定（linesとpatternのどちらか一方を指定）
+export interface PrizeTier {
+  id: string;
+  label: string;
+  lines?: number; // 1枚のカードで揃ったライン数がこの値以上
+  pattern?: BingoPattern; // 1枚のカードで指定パターンが完成
+}
+
+// 賞の獲得者
+export interface PrizeWinner {
+  playerId: string;
+  playerName: string;
+  cardIndex: number;
+}
+
+// 確定した賞（同じ抽選で達成した全員を同着として記録する）
+export interface PrizeAward {
+  tierId: string;
+  label: string;
+  winners: PrizeWinner[];
+  drawCount: number; // 達成時点の抽選済み個数
+  number: number | null; // 達成した抽選番号
+  awardedAt: string;
+}
+
+// ビンゴ申告の判定結果（pending: ホストの確認待ち / voided: 抽選の取り消しで無効）
+export type ClaimStatus = 'pending' | 'accepted' | 'rejected' | 'voided';
+
+// ビンゴ申告（手動マーク・ホスト確認時）
+export interface BingoClaim {
+  id: string;
+  playerId: string;
+  playerName: string;
+  cardIndex?: number; // 申告したカード（複数カード時、0始まり）
+  marks: number[]; // 申告時にプレイヤーがマークしていた番号
+  status: ClaimStatus;
+  reason?: string; // 却下理由
+  lines?: string[];
+  bingoCount?: number; // 申告時点で揃っていたライン数
+  completedPatterns?: BingoPattern[];
+  drawCount: number; // 申告時点の抽選済み個数
+  claimedAt: string;
+  reviewedAt?: string; // ホストが承認・却下した時刻
+}
+
+// ラウンドの入賞者（ビンゴした順）
+export interface RoundWinner {
+  playerId: string;
+  playerName: string;
+  placement: number; // 1始まり
+  bingoCount: number;
+  achievedAt: string;
+  points: number;
+}
+
+// ラウンドの記録
+export interface RoundResult {
+  roundNumber: number; // 1始まり
+  patterns: BingoPattern[];
+  numbers: number[];
+  winners: RoundWinner[];
+  startedAt?: string;
+  finishedAt?: string; // 進行中のラウンドは未設定
+  fairness?: DrawFairness; // 次のラウンドへ進む時にシードを公開する
+  prizeAwards?: PrizeAward[];
 }
 
 // セッション状態
@@ -53,7 +297,7 @@ export type RealtimeEventHandler<T = unknown> = (data: T) => void;
 export interface RealtimeMemberInfo {
   id: string;
   name: string;
-  role: 'host' | 'player' | 'observer';
+  role: HostRole | 'player' | 'observer';
   isHost?: boolean;
   board?: number[][];
   bingoCount?: number;
@@ -106,7 +350,7 @@ export interface SocketEvents {
   game_started: (data?: { sessionId: string }) => void;
   player_joined: (player: Player) => void;
   player_left: (playerId: string) => void;
-  session_updated: (session: GameSession) => void;
+  session_updated: (session: PublicGameSession) => void;
   connection_error: (error: string) => void;
   session_cancelled: (data: { sessionId: string }) => void;
   
@@ -129,7 +373,108 @@ export enum ErrorCode {
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
   INTERNAL_ERROR = 'INTERNAL_ERROR',
   ACCESS_TOKEN_EXPIRED = 'ACCESS_TOKEN_EXPIRED',
-  AUTHENTICATION_FAILED = 'AUTHENTICATION_FAILED'
+  AUTHENTICATION_FAILED = 'AUTHENTICATION_FAILED',
+  // リクエスト
+  MISSING_PARAMETERS = 'MISSING_PARAMETERS',
+  INVALID_REQUEST_BODY = 'INVALID_REQUEST_BODY',
+  INVALID_ACTION = 'INVALID_ACTION',
+  EVENT_NOT_ALLOWED = 'EVENT_NOT_ALLOWED',
+  SERVER_CONFIGURATION_ERROR = 'SERVER_CONFIGURATION_ERROR',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  // セッション
+  INVALID_SESSION_ID = 'INVALID_SESSION_ID',
+  SESSION_AUTH_FAILED = 'SESSION_AUTH_FAILED',
+  SESSION_EXPIRED = 'SESSION_EXPIRED',
+  SESSION_STATE_CHANGED = 'SESSION_STATE_CHANGED',
+  SESSION_ID_GENERATION_FAILED = 'SESSION_ID_GENERATION_FAILED',
+  SESSION_CREATE_FAILED = 'SESSION_CREATE_FAILED',
+  SESSION_FETCH_FAILED = 'SESSION_FETCH_FAILED',
+  SESSION_LIST_FAILED = 'SESSION_LIST_FAILED',
+  HOST_ONLY = 'HOST_ONLY',
+  NOT_SESSION_PLAYER = 'NOT_SESSION_PLAYER',
+  JOIN_FAILED = 'JOIN_FAILED',
+  SPECTATING_DISABLED = 'SPECTATING_DISABLED',
+  INVALID_CHANNEL = 'INVALID_CHANNEL',
+  // セッション作成の入力
+  GAME_NAME_REQUIRED = 'GAME_NAME_REQUIRED',
+  INVALID_GAME_NAME = 'INVALID_GAME_NAME',
+  INVALID_MAX_PLAYERS = 'INVALID_MAX_PLAYERS',
+  INVALID_GAME_TYPE = 'INVALID_GAME_TYPE',
+  INVALID_LOCALE = 'INVALID_LOCALE',
+  INVALID_PATTERNS = 'INVALID_PATTERNS',
+  INVALID_DAUB_SETTINGS = 'INVALID_DAUB_SETTINGS',
+  INVALID_HOST_ADJUDICATION = 'INVALID_HOST_ADJUDICATION',
+  INVALID_DRAW_MODE = 'INVALID_DRAW_MODE',
+  INVALID_LATE_JOIN = 'INVALID_LATE_JOIN',
+  INVALID_CARD_LIMIT = 'INVALID_CARD_LIMIT',
+  INVALID_PLACEMENT_POINTS = 'INVALID_PLACEMENT_POINTS',
+  INVALID_PRIZE_TIERS = 'INVALID_PRIZE_TIERS',
+  INVALID_TERMS = 'INVALID_TERMS',
+  TERMS_TOO_FEW = 'TERMS_TOO_FEW',
+  TERMS_TOO_MANY = 'TERMS_TOO_MANY',
+  TERM_TOO_LONG = 'TERM_TOO_LONG',
+  // 参加
+  NAME_REQUIRED = 'NAME_REQUIRED',
+  NAME_TOO_LONG = 'NAME_TOO_LONG',
+  INVALID_CARD_COUNT = 'INVALID_CARD_COUNT',
+  // 抽選
+  GAME_NOT_STARTED = 'GAME_NOT_STARTED',
+  GAME_NOT_PLAYING = 'GAME_NOT_PLAYING',
+  ALL_NUMBERS_DRAWN = 'ALL_NUMBERS_DRAWN',
+  DRAW_CONFLICT = 'DRAW_CONFLICT',
+  TERM_NOT_CALLABLE = 'TERM_NOT_CALLABLE',
+  CALLED_NUMBER_REQUIRED = 'CALLED_NUMBER_REQUIRED',
+  CALLED_NUMBER_OUT_OF_RANGE = 'CALLED_NUMBER_OUT_OF_RANGE',
+  NUMBER_ALREADY_DRAWN = 'NUMBER_ALREADY_DRAWN',
+  NOTHING_TO_VOID = 'NOTHING_TO_VOID',
+  ONLY_LAST_DRAW_VOIDABLE = 'ONLY_LAST_DRAW_VOIDABLE',
+  NO_FAIRNESS_COMMITMENT = 'NO_FAIRNESS_COMMITMENT',
+  // 自動抽選
+  INVALID_AUTO_DRAW_INTERVAL = 'INVALID_AUTO_DRAW_INTERVAL',
+  AUTO_DRAW_NOT_AVAILABLE = 'AUTO_DRAW_NOT_AVAILABLE',
+  AUTO_DRAW_NOT_STARTED = 'AUTO_DRAW_NOT_STARTED',
+  AUTO_DRAW_INVALID_STATE = 'AUTO_DRAW_INVALID_STATE',
+  AUTO_DRAW_CONFLICT = 'AUTO_DRAW_CONFLICT',
+  // ラウンド
+  ROUND_ALREADY_STARTED = 'ROUND_ALREADY_STARTED',
+  ROUND_HAS_NO_DRAWS = 'ROUND_HAS_NO_DRAWS',
+  // ビンゴ申告
+  CLAIM_NOT_FOUND = 'CLAIM_NOT_FOUND',
+  CLAIM_ALREADY_REVIEWED = 'CLAIM_ALREADY_REVIEWED',
+  CLAIM_NOT_REQUIRED = 'CLAIM_NOT_REQUIRED',
+  CLAIM_PENDING = 'CLAIM_PENDING',
+  CLAIM_ALREADY_ACCEPTED = 'CLAIM_ALREADY_ACCEPTED',
+  CLAIM_LOCKED_OUT = 'CLAIM_LOCKED_OUT',
+  CLAIM_REQUIRED = 'CLAIM_REQUIRED',
+  INVALID_CARD_INDEX = 'INVALID_CARD_INDEX',
+  INVALID_MARKS = 'INVALID_MARKS',
+  BINGO_NOT_VERIFIED = 'BINGO_NOT_VERIFIED',
+  HOST_APPROVAL_REQUIRED = 'HOST_APPROVAL_REQUIRED',
+  LATE_JOINER_CANNOT_WIN = 'LATE_JOINER_CANNOT_WIN',
+  // 紙のカード
+  INVALID_PAPER_CARD_COUNT = 'INVALID_PAPER_CARD_COUNT',
+  PAPER_CARD_LIMIT_REACHED = 'PAPER_CARD_LIMIT_REACHED',
+  PAPER_CARD_NOT_FOUND = 'PAPER_CARD_NOT_FOUND',
+  // ゲームの記録
+  ARCHIVE_NOT_FOUND = 'ARCHIVE_NOT_FOUND',
+  // ホストアカウント
+  INVALID_EMAIL = 'INVALID_EMAIL',
+  INVALID_PASSWORD = 'INVALID_PASSWORD',
+  EMAIL_ALREADY_REGISTERED = 'EMAIL_ALREADY_REGISTERED',
+  INVALID_CREDENTIALS = 'INVALID_CREDENTIALS',
+  LOGIN_REQUIRED = 'LOGIN_REQUIRED',
+  MAIL_NOT_CONFIGURED = 'MAIL_NOT_CONFIGURED',
+  BASE_URL_NOT_CONFIGURED = 'BASE_URL_NOT_CONFIGURED',
+  TOO_MANY_ATTEMPTS = 'TOO_MANY_ATTEMPTS',
+  // 共同ホスト
+  HOST_PERMISSION_REQUIRED = 'HOST_PERMISSION_REQUIRED',
+  INVALID_CO_HOST_PERMISSIONS = 'INVALID_CO_HOST_PERMISSIONS',
+  CO_HOST_INVITE_INVALID = 'CO_HOST_INVITE_INVALID',
+  CO_HOST_LIMIT_REACHED = 'CO_HOST_LIMIT_REACHED',
+  CO_HOST_NOT_FOUND = 'CO_HOST_NOT_FOUND',
+  // 退出・参加禁止
+  PLAYER_BANNED = 'PLAYER_BANNED',
+  PLAYER_NOT_BANNABLE = 'PLAYER_NOT_BANNABLE'
 }
 
 // ========================================
@@ -140,6 +485,10 @@ export enum ErrorCode {
 export interface CreateSessionRequest {
   gameName: string;
   maxPlayers?: number;
+  gameType?: GameType;
+  terms?: string[];
+  rules?: Partial<GameRules>;
+  locale?: Locale;
 }
 
 // セッション作成レスポンス
@@ -155,12 +504,15 @@ export interface CreateSessionResponse {
 export interface JoinSessionRequest {
   accessToken: string;
   playerName: string;
+  cardCount?: number;
+  locale?: Locale;
 }
 
 // ゲーム参加レスポンス
 export interface JoinSessionResponse {
   playerId: string;
   board: number[][];
+  boards: number[][][];
   nameAdjustment?: NameAdjustmentResult;
   adjustedName?: string;
 }
@@ -175,7 +527,7 @@ export interface LeaveSessionRequest {
 export interface LeaveSessionResponse {
   success: boolean;
   message: string;
-  session?: GameSession;
+  session?: PublicGameSession;
 }
 
 // 認証データ
@@ -232,6 +584,15 @@ export interface SessionRouteParams {
   sessionId: string;
 }
 
+// ビンゴ申告のルートパラメータ
+export interface ClaimRouteParams extends SessionRouteParams {
+  claimId: string;
+}
+
+export interface CoHostRouteParams extends SessionRouteParams {
+  coHostId: string;
+}
+
 // ========================================
 // バリデーション
 // ========================================
@@ -259,6 +620,41 @@ export interface ValidationResult {
 export const GAME_CONSTANTS = {
   BINGO_SIZE: 5,
   MAX_NUMBER: 75,
+  MAX_NUMBER_90: 90,
+  TICKET_ROWS: 3,
+  TICKET_COLUMNS: 9,
+  TICKET_NUMBERS_PER_ROW: 5,
+  MIN_TERMS: 24,
+  MAX_TERMS: 200,
+  MAX_TERM_LENGTH: 40,
+  MAX_FALSE_CLAIM_PENALTY_DRAWS: 10,
+  MAX_CARDS_PER_PLAYER: 6,
+  MAX_PLACEMENT_RANKS: 10,
+  MAX_PLACEMENT_POINTS: 1000,
+  MAX_PRIZE_TIERS: 5,
+  PRIZE_LABEL_MAX_LENGTH: 20,
+  AUTO_DRAW_MIN_INTERVAL: 5, // 秒
+  AUTO_DRAW_MAX_INTERVAL: 120, // 秒
+  AUTO_DRAW_DEFAULT_INTERVAL: 15, // 秒
+  SPEECH_MIN_RATE: 0.5,
+  SPEECH_MAX_RATE: 1.5,
+  MAX_PAPER_CARDS_PER_BATCH: 100,
+  MAX_PAPER_CARDS: 500,
+  PAPER_CARD_SERIAL_LENGTH: 6,
+  PAPER_CARD_SERIAL_CHARSET: 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789', // 読み間違えやすい0/O・1/Iを除く
+  EMAIL_MAX_LENGTH: 254,
+  PASSWORD_MIN_LENGTH: 8,
+  PASSWORD_MAX_LENGTH: 128,
+  ACCOUNT_SESSION_DAYS: 30, // ログイン状態を保つ日数
+  MAGIC_LINK_EXPIRY_MINUTES: 15,
+  AUTH_RATE_LIMIT_WINDOW_MINUTES: 15, // ログイン・ログイン用リンクの回数を数える時間枠
+  LOGIN_ATTEMPTS_PER_EMAIL: 10,
+  LOGIN_ATTEMPTS_PER_IP: 30,
+  MAGIC_LINKS_PER_EMAIL: 3,
+  MAGIC_LINKS_PER_IP: 10,
+  DASHBOARD_ARCHIVE_LIMIT: 50,
+  MAX_CO_HOSTS: 10,
+  CO_HOST_INVITE_EXPIRY_MINUTES: 60,
   SESSION_ID_LENGTH: 6,
   ACCESS_TOKEN_LENGTH: 8,
   GAME_DURATION: 7200, // 2時間（秒）
@@ -270,21 +666,6 @@ export const GAME_CONSTANTS = {
   GAME_NAME_MAX_LENGTH: 50
 } as const;
 
-export const ERROR_MESSAGES = {
-  [ErrorCode.INVALID_SESSION]: 'セッションが見つかりません',
-  [ErrorCode.INVALID_ACCESS_TOKEN]: 'アクセストークンが無効です',
-  [ErrorCode.SESSION_FULL]: 'セッションが満員です',
-  [ErrorCode.DUPLICATE_NAME]: '同じ名前のプレイヤーが既に存在します',
-  [ErrorCode.GAME_ALREADY_STARTED]: 'ゲームは既に開始されています',
-  [ErrorCode.PLAYER_NOT_FOUND]: 'プレイヤーが見つかりません',
-  [ErrorCode.UNAUTHORIZED]: '権限がありません',
-  [ErrorCode.VALIDATION_ERROR]: '入力内容に誤りがあります',
-  [ErrorCode.RATE_LIMIT_EXCEEDED]: 'アクセスが集中しています。しばらくお待ちください',
-  [ErrorCode.INTERNAL_ERROR]: 'サーバーエラーが発生しました',
-  [ErrorCode.ACCESS_TOKEN_EXPIRED]: 'アクセストークンの有効期限が切れました',
-  [ErrorCode.AUTHENTICATION_FAILED]: '認証に失敗しました'
-} as const;
-
 // エラーレスポンス型
 export interface APIError {
   error: string;
@@ -292,6 +673,37 @@ export interface APIError {
   details?: string;
 }
 
+// ========================================
+// 多言語化関連の型定義
+// ========================================
+
+import type { ReactNode } from 'react';
+import type { ja } from '@/locales/ja';
+
+// 翻訳メッセージ（日本語の辞書と同じ構造を他の言語でも全て用意する）
+export type Messages = typeof ja;
+
+// メッセージの {name} に埋め込む値
+export type MessageParams = Record<string, string | number>;
+
+// 表示言語のコンテキスト
+export interface LocaleContextValue {
+  locale: Locale;
+  messages: Messages;
+  setLocale: (locale: Locale) => void;
+}
+
+// 表示言語のProviderのProps
+export interface LocaleProviderProps {
+  initialLocale: Locale; // Cookieから読み込んだ言語（サーバー描画と一致させる）
+  children: ReactNode;
+}
+
+// 表示言語の切り替えのProps
+export interface LocaleSwitcherProps {
+  className?: string;
+}
+
 // ========================================
 // コンポーネントのProps型定義
 // ========================================
@@ -354,9 +766,20 @@ export interface PersonalStats {
   totalPlayers: number;
   bingoCount: number;
   markedCells: number;
+  totalCells: number;
   percentile: number;
 }
 
+// 全ラウンド通算の順位
+export interface StandingEntry {
+  playerId: string;
+  playerName: string;
+  rank: number; // 同点は同順位
+  totalPoints: number;
+  wins: number; // 1位になったラウンド数
+  roundPoints: number[]; // ラウンドごとの獲得ポイント
+}
+
 // ビンゴセル
 export interface BingoCell {
   number: number;
@@ -392,6 +815,27 @@ export interface GuestResultPageProps {
   searchParams: Promise<{ playerId?: string; token?: string }>;
 }
 
+// 観戦画面のProps
+export interface SpectatorPageProps {
+  params: Promise<{ sessionId: string }>;
+  searchParams: Promise<{ spectatorId?: string; token?: string }>;
+}
+
+// ホストアカウントのログイン画面のProps（error: ログイン用リンクが無効だった場合）
+export interface HostAccountPageProps {
+  searchParams: Promise<{ error?: string }>;
+}
+
+// 退出させられたプレイヤーの説明画面のProps（banned: 参加を禁止された場合は'1'）
+export interface KickedPageProps {
+  searchParams: Promise<{ banned?: string }>;
+}
+
+// 共同ホストの招待を受ける画面のProps（招待リンクのクエリ）
+export interface CoHostJoinPageProps {
+  searchParams: Promise<{ session?: string; token?: string; invite?: string }>;
+}
+
 // ========================================
 // コンポーネントのProps型定義
 // ========================================
@@ -399,12 +843,116 @@ export interface GuestResultPageProps {
 // ビンゴカードコンポーネントのProps
 export interface BingoCardProps {
   board: BingoCell[][];
+  gameType?: GameType;
+  terms?: string[];
   onCellClick?: (row: number, col: number) => void;
   isInteractive?: boolean;
   bingoLines?: string[];
   showNumbers?: boolean;
   size?: 'small' | 'medium' | 'large';
   className?: string;
+  theme?: CardTheme;
+  label?: string; // スクリーンリーダー向けのカード名（複数カード時に「カード2」など）
+}
+
+// 抽選の公平性表示コンポーネントのProps
+export interface FairnessPanelProps {
+  sessionId: string;
+}
+
+// ホスト確認待ちのビンゴ申告一覧のProps
+export interface ClaimQueueProps {
+  claims: BingoClaim[];
+  players: Player[];
+  drawnNumbers: number[];
+  gameType?: GameType;
+  terms?: string[];
+  patterns?: BingoPattern[];
+  reviewingClaimId?: string | null;
+  onReview: (claimId: string, action: ClaimReviewAction) => void;
+}
+
+// 賞の獲得者一覧のProps
+export interface PrizeWinnersProps {
+  tiers: PrizeTier[];
+  awards: PrizeAward[];
+  terms?: string[];
+  gameType?: GameType;
+  currentPlayerId?: string;
+  inProgress?: boolean; // ゲーム中は未確定の賞を「まだ獲得者なし」と表示する
+}
+
+// ラウンド別・通算順位表のProps
+export interface RoundStandingsProps {
+  rounds: RoundResult[];
+  players: Player[];
+  currentPlayerId?: string; // ゲスト画面で自分の行を強調する
+}
+
+// 番号読み上げの設定パネルのProps
+export interface SpeechSettingsPanelProps {
+  settings: SpeechSettings;
+  onChange: (settings: Partial<SpeechSettings>) => void;
+  onRepeat: () => void;
+  canRepeat: boolean; // 読み上げる番号がまだない場合はfalse
+  isSupported: boolean; // ブラウザが音声合成に対応していない場合はfalse
+  gameType?: GameType;
+}
+
+// 配色テーマの選択のProps
+export interface CardThemeSelectProps {
+  value: CardTheme;
+  onChange: (theme: CardTheme) => void;
+}
+
+// スクリーンリーダーへの読み上げ領域のProps
+export interface LiveAnnouncerProps {
+  message: string;
+  politeness?: 'polite' | 'assertive';
+}
+
+// プレイヤーを退出させる確認ダイアログのProps（退出させるとセッション更新で一覧から消える）
+export interface KickPlayerModalProps {
+  sessionId: string;
+  accessToken: string;
+  hostId: string;
+  player: Player;
+  onClose: () => void;
+}
+
+// 共同ホストの招待・一覧のProps（メインのホストのみ表示）
+export interface CoHostPanelProps {
+  sessionId: string;
+  accessToken: string;
+  hostId: string;
+  coHosts: CoHost[];
+}
+
+// ========================================
+// 表示テーマ関連の型定義
+// ========================================
+
+// ビンゴカードと抽選済み番号一覧の配色（端末ごとにlocalStorageへ保存）
+// high-contrast: 黒地に白の高コントラスト / colorblind: 赤と緑を使わない青・オレンジの配色
+export type CardTheme = 'default' | 'high-contrast' | 'colorblind';
+
+// ========================================
+// 番号読み上げ関連の型定義
+// ========================================
+
+// 読み上げの言語
+export type SpeechLanguage = 'ja' | 'en';
+
+// 読み上げ方（simple: 「B-12」 / repeat: 「B… 12… B-12」）
+export type SpeechCallStyle = 'simple' | 'repeat';
+
+// 番号読み上げの設定（端末ごとにlocalStorageへ保存）
+export interface SpeechSettings {
+  enabled: boolean;
+  language: SpeechLanguage;
+  rate: number; // 読み上げ速度（1が標準）
+  callStyle: SpeechCallStyle;
+  useNicknames: boolean; // 英語の伝統的な呼び名（「two little ducks, 22」）を添える
 }
 
 // ========================================
@@ -451,6 +999,7 @@ export interface PlayerDocument extends Omit<Player, 'joinedAt' | 'lastActiveAt'
 export interface DrawNumberRequest {
   accessToken: string;
   hostId: string;
+  number?: number; // ワードビンゴでコールした用語・抽選機モードで入力した番号
 }
 
 // 番号抽選APIのレスポンス
@@ -458,11 +1007,78 @@ export interface DrawNumberResponse {
   success: boolean;
   number: number;
   bingoLetter: string;
+  term?: string;
   drawnNumbers: number[];
   message: string;
   warning?: string;
 }
 
+// 自動抽選の操作（POST /api/sessions/[sessionId]/auto-draw）
+export type AutoDrawAction = 'start' | 'pause' | 'resume' | 'stop';
+
+export interface AutoDrawRequest {
+  accessToken: string;
+  hostId: string;
+  action: AutoDrawAction;
+  intervalSeconds?: number; // startのみ
+}
+
+export interface AutoDrawResponse {
+  success: boolean;
+  autoDraw: AutoDrawState | null;
+  serverTime: string;
+}
+
+// 自動抽選の抽選依頼（POST /api/sessions/[sessionId]/draw/tick）
+// 予定時刻を過ぎていればホスト・ゲストのどちらからの依頼でも抽選する
+export interface DrawTickRequest {
+  accessToken: string;
+  participantId: string; // ホストIDまたはプレイヤーID
+}
+
+export interface DrawTickResponse {
+  drawn: boolean; // このリクエストで抽選したか（他のクライアントが抽選済み・予定前はfalse）
+  autoDraw: AutoDrawState | null;
+  serverTime: string;
+}
+
+// 直前の抽選の取り消し（POST /api/sessions/[sessionId]/draw/void）
+export interface VoidDrawRequest {
+  accessToken: string;
+  hostId: string;
+  number: number; // 取り消す番号（最後に抽選した番号と一致する場合のみ取り消す）
+}
+
+export interface VoidDrawResponse {
+  success: boolean;
+  number: number;
+  drawnNumbers: number[];
+  currentNumber: number | null;
+  cancelledPlayerIds: string[];
+}
+
+// 観戦として参加（POST /api/sessions/[sessionId]/spectate）
+// 観戦者はプレイヤーとして登録せず、参加人数の上限にも含めない
+export interface SpectateRequest {
+  accessToken: string;
+}
+
+export interface SpectateResponse {
+  spectatorId: string; // Pusherのプレゼンスチャンネルで使うID
+}
+
+// 観戦の許可・停止（POST /api/sessions/[sessionId]/spectators、ホストのみ）
+export interface SpectatorSettingsRequest {
+  accessToken: string;
+  hostId: string;
+  enabled: boolean;
+}
+
+export interface SpectatorSettingsResponse {
+  success: boolean;
+  allowSpectators: boolean;
+}
+
 // 番号抽選状態取得のレスポンス
 export interface DrawStatusResponse {
   drawnNumbers: number[];
@@ -471,6 +1087,203 @@ export interface DrawStatusResponse {
   totalDrawn: number;
 }
 
+// ビンゴ申告のレスポンス（POST /api/sessions/[sessionId]/claims）
+export interface SubmitClaimResponse {
+  success: boolean;
+  claim: BingoClaim;
+  bingoCount?: number;
+  lockedUntilDraw?: number;
+}
+
+// ホストによる申告の承認・却下（POST /api/sessions/[sessionId]/claims/[claimId]）
+export type ClaimReviewAction = 'approve' | 'reject';
+
+export interface ReviewClaimRequest {
+  accessToken: string;
+  hostId: string;
+  action: ClaimReviewAction;
+  reason?: string;
+}
+
+export interface ReviewClaimResponse {
+  success: boolean;
+  claim: BingoClaim;
+}
+
+// 次のラウンドを開始（POST /api/sessions/[sessionId]/rounds）
+export interface StartRoundRequest {
+  accessToken: string;
+  hostId: string;
+  patterns?: BingoPattern[]; // 省略時は前のラウンドと同じ
+}
+
+export interface StartRoundResponse {
+  success: boolean;
+  round: RoundResult; // 終了したラウンド
+  session: GameSession;
+}
+
+// 紙のカードを発行（POST /api/sessions/[sessionId]/paper-cards）
+export interface CreatePaperCardsRequest {
+  accessToken: string;
+  hostId: string;
+  count: number;
+}
+
+export interface CreatePaperCardsResponse {
+  success: boolean;
+  paperCards: PaperCard[]; // 今回発行したカード
+  total: number; // セッション内の紙のカードの枚数
+}
+
+// 紙のカードを抽選済みの番号と照合（POST /api/sessions/[sessionId]/paper-cards/check）
+export interface CheckPaperCardRequest {
+  accessToken: string;
+  hostId: string;
+  serial: string;
+}
+
+export interface CheckPaperCardResponse {
+  success: boolean;
+  paperCard: PaperCard;
+  isBingo: boolean;
+  lines: string[]; // 揃った形の名前
+  markedNumbers: number[]; // カード上の抽選済みの番号
+  drawCount: number;
+}
+
+// 共同ホストの招待リンクを作成（POST /api/sessions/[sessionId]/co-hosts、メインのホストのみ）
+export interface CreateCoHostInviteRequest {
+  accessToken: string;
+  hostId: string;
+  permissions: CoHostPermission[];
+}
+
+export interface CreateCoHostInviteResponse {
+  success: boolean;
+  inviteUrl: string; // 1回だけ使える招待リンク
+  permissions: CoHostPermission[];
+  expiresAt: string;
+}
+
+// 招待を受けて共同ホストとして参加（POST /api/sessions/[sessionId]/co-hosts/join）
+export interface JoinCoHostRequest {
+  accessToken: string;
+  inviteToken: string;
+  name: string;
+}
+
+export interface JoinCoHostResponse {
+  success: boolean;
+  coHost: CoHost;
+  token: string; // ホスト用のAPI・Pusher認証でホストIDの代わりに送る（再発行できないため端末に保存する）
+  status: SessionStatus; // 参加後に開く画面（待機画面・ゲーム画面）の判断に使う
+}
+
+// プレイヤーを退出させる（POST /api/sessions/[sessionId]/kick）
+// ban: 同じ端末からの再参加も禁止する
+export interface KickPlayerRequest {
+  accessToken: string;
+  hostId: string;
+  playerId: string;
+  ban?: boolean;
+}
+
+export interface KickPlayerResponse {
+  success: boolean;
+  playerId: string;
+  banned: boolean;
+}
+
+// 共同ホストを外す（DELETE /api/sessions/[sessionId]/co-hosts/[coHostId]、メインのホストのみ）
+export interface RemoveCoHostRequest {
+  accessToken: string;
+  hostId: string;
+}
+
+// ホストアカウントの登録・ログイン（POST /api/accounts/register, /api/accounts/login）
+export interface AccountCredentialsRequest {
+  email: string;
+  password: string;
+}
+
+// マジックリンクの送信（POST /api/accounts/magic-link）
+export interface MagicLinkRequest {
+  email: string;
+}
+
+// ログイン中のアカウント（GET /api/accounts/me、未ログインはnull）
+export interface AccountResponse {
+  account: HostAccountSummary | null;
+}
+
+// ダッシュボードの進行中のセッション（操作を再開するためトークンとホストIDを含む）
+export interface DashboardSession {
+  sessionId: string;
+  accessToken: string;
+  hostId: string;
+  gameName: string;
+  gameType?: GameType;
+  status: SessionStatus;
+  playerCount: number;
+  drawCount: number;
+  createdAt: string;
+  expiresAt: string;
+}
+
+// ダッシュボードの終了したゲーム（ゲームの記録）
+export interface DashboardArchive {
+  sessionId: string;
+  accessToken: string;
+  gameName: string;
+  gameType?: GameType;
+  playerCount: number;
+  roundCount: number;
+  winnerNames: string[]; // 通算1位のプレイヤー（同点は複数）
+  finishedAt: string;
+}
+
+// ログイン画面の入力方法
+export type AccountFormMode = 'login' | 'register' | 'magic-link';
+
+// ダッシュボード（GET /api/accounts/dashboard）
+export interface DashboardResponse {
+  account: HostAccountSummary;
+  activeSessions: DashboardSession[];
+  archives: DashboardArchive[];
+}
+
+// 送信するメール
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// 開発用の受信箱のメール（GET /api/dev/mails、開発環境のみ）
+export interface DevMail extends MailMessage {
+  createdAt: string;
+}
+
+export interface DevMailsResponse {
+  mails: DevMail[];
+}
+
+// 抽選の検証結果（GET /api/sessions/[sessionId]/verify）
+export interface FairnessVerificationResponse {
+  sessionId: string;
+  status: SessionStatus;
+  algorithm: string;
+  commitment: string;
+  committedAt: string;
+  revealed: boolean;
+  seed?: string;
+  drawnNumbers: number[];
+  commitmentMatches?: boolean; // sha256(seed) === commitment
+  orderMatches?: boolean; // 抽選済み番号がシードから導いた順序と一致するか
+  expectedNumbers?: number[];
+}
+
 // ========================================
 // Pusherイベントのペイロード型定義
 // ========================================
@@ -479,6 +1292,7 @@ export interface DrawStatusResponse {
 export interface NumberDrawnEventData {
   number: number;
   bingoLetter: string;
+  term?: string;
   drawnNumbers: number[];
   drawnAt: string;
 }
@@ -488,6 +1302,19 @@ export interface PlayerBingoEventData {
   player: Player;
   bingoCount: number;
   lines?: string[];
+  completedPatterns?: BingoPattern[];
+  prize?: NinetyBallPrize;
+  cardIndex?: number; // ビンゴしたカード（複数カード時、0始まり）
+  achievedAt?: string;
+}
+
+// プレイヤーが初めてリーチになった時のイベントデータ
+export interface PlayerReachEventData {
+  playerId: string;
+  playerName: string;
+  reachCount: number;
+  reachLines: string[];
+  cardIndex?: number;
   achievedAt?: string;
 }
 
@@ -495,11 +1322,63 @@ export interface PlayerBingoEventData {
 export interface GameStartedEventData {
   sessionId?: string;
   startedAt?: string;
+  fairness?: DrawFairness;
+}
+
+// ビンゴ申告の判定結果イベントデータ
+export interface ClaimResultEventData {
+  claim: BingoClaim;
+  lockedUntilDraw?: number;
+}
+
+// プレイヤーを退出させた時のイベントデータ（退出させられた本人は説明画面へ移動する）
+export interface PlayerKickedEventData {
+  playerId: string;
+  banned: boolean;
+}
+
+// 次のラウンド開始時のイベントデータ
+export interface RoundStartedEventData {
+  sessionId: string;
+  roundNumber: number;
+  previousRound: RoundResult;
+  session: PublicGameSession;
+  startedAt: string;
+}
+
+// 抽選が取り消された時のイベントデータ
+// ビンゴ・申告・賞を訂正した後のセッションを含む
+export interface NumberVoidedEventData {
+  number: number;
+  drawnNumbers: number[];
+  currentNumber: number | null;
+  cancelledPlayerIds: string[]; // ビンゴが取り消されたプレイヤー
+  session: PublicGameSession;
+  voidedAt: string;
+}
+
+// 自動抽選の状態が変わった時のイベントデータ（抽選ごとにも送信）
+// serverTimeはクライアントの時計のずれを補正してカウントダウンを揃えるために使う
+export interface AutoDrawUpdatedEventData {
+  autoDraw: AutoDrawState | null;
+  serverTime: string;
+}
+
+// 賞が確定した時のイベントデータ（同着の追加時は獲得者を追加した賞を再送する）
+export interface PrizeWonEventData {
+  award: PrizeAward;
+}
+
+// ゲーム終了時のイベントデータ
+export interface GameEndedEventData {
+  sessionId: string;
+  finishedAt: string;
+  fairness?: DrawFairness;
 }
 
 // セッション更新時のイベントデータ
 export interface SessionUpdatedEventData {
-  session: GameSession;
+  session: PublicGameSession;
   updateType?: 'player_joined' | 'player_left' | 'status_changed' | 'number_drawn';
 }
 
@@ -539,12 +1418,12 @@ export interface HostGameState {
 
 // ゲストゲーム画面の状態
 export interface GuestGameState {
-  session: GameSession | null;
-  board: BingoCell[][];
+  session: PublicGameSession | null;
+  boards: BingoCell[][][];
   currentNumber: number | null;
   drawnNumbers: number[];
-  bingoLines: string[];
-  bingoCount: number;
+  bingoLines: string[][]; // カードごとの達成ライン
+  bingoCount: number; // 最も多く揃ったカードのライン数
   showBingoAnimation: boolean;
   loading: boolean;
   error: string | null;
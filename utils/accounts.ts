@@ -0,0 +1,29 @@
+// utils/accounts.ts
+// ホストアカウントの入力チェック（登録画面とAPIで共通）
+
+import { GAME_CONSTANTS } from '@/types';
+
+/**
+ * メールアドレスを正規化（前後の空白を除き、小文字に揃える）
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * メールアドレスの形式チェック（送信できる形かどうかだけを確認する）
+ */
+export function isValidEmail(email: unknown): email is string {
+  return typeof email === 'string' &&
+    email.length <= GAME_CONSTANTS.EMAIL_MAX_LENGTH &&
+    /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+}
+
+/**
+ * パスワードの長さチェック
+ */
+export function isValidPassword(password: unknown): password is string {
+  return typeof password === 'string' &&
+    password.length >= GAME_CONSTANTS.PASSWORD_MIN_LENGTH &&
+    password.length <= GAME_CONSTANTS.PASSWORD_MAX_LENGTH;
+}
@@ -1,10 +1,19 @@
 import { 
   JoinSessionRequest, 
   JoinSessionResponse, 
+  SpectateRequest,
+  SpectateResponse,
   AuthenticationData,
+  GameArchive,
   GameSession,
+  PublicGameSession,
   APIError 
 } from '@/types';
+import { getClientLocale, getMessages } from '@/utils/i18n';
+import { restoreSessionFromArchive } from '@/utils/archives';
+
+// 画面の言語のエラーメッセージ（APIのエラーはサーバーがCookieの言語で返す）
+const getApiMessages = () => getMessages(getClientLocale()).api;
 
 // API_BASE_URLの設定を修正
 const getApiBaseUrl = (): string => {
@@ -48,14 +57,14 @@ const handleApiResponse = async (response: Response) => {
     
     // ユーザーフレンドリーなエラーメッセージ
     if (response.status === 404) {
-      throw new Error('APIエンドポイントが見つかりません。システム管理者にお問い合わせください。');
+      throw new Error(getApiMessages().endpointNotFound);
     } else {
-      throw new Error('システムエラーが発生しました。しばらくしてから再度お試しください。');
+      throw new Error(getApiMessages().systemError);
     }
   }
   
   if (!response.ok) {
-    let errorMessage = 'APIエラーが発生しました';
+    let errorMessage = getApiMessages().apiError;
     
     try {
       const errorData: APIError = await response.json();
@@ -67,7 +76,7 @@ const handleApiResponse = async (response: Response) => {
       }
     } catch {
       // JSONパースに失敗した場合はステータステキストを使用
-      errorMessage = `HTTPエラー ${response.status}: ${response.statusText || errorMessage}`;
+      errorMessage = `HTTP ${response.status}: ${response.statusText || errorMessage}`;
     }
     
     throw new Error(errorMessage);
@@ -106,13 +115,32 @@ export const joinSession = async (
   return handleApiResponse(response);
 };
 
+/**
+ * 観戦として参加（プレイヤーとしては登録されない）
+ */
+export const spectateSession = async (
+  sessionId: string,
+  request: SpectateRequest
+): Promise<SpectateResponse> => {
+  const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/spectate`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+    },
+    body: JSON.stringify(request),
+  });
+
+  return handleApiResponse(response);
+};
+
 /**
  * セッション情報を取得
+ * ホストの認証情報や申告・操作履歴、紙のカードは含まれない（それらが必要なホスト画面はgetHostSessionを使う）
  */
 export const getSession = async (
   sessionId: string, 
   accessToken: string
-): Promise<GameSession> => {
+): Promise<PublicGameSession> => {
   const url = `${API_BASE_URL}/sessions/${sessionId}`;
   
   if (process.env.NODE_ENV === 'development') {
@@ -130,6 +158,68 @@ export const getSession = async (
   return handleApiResponse(response);
 };
 
+/**
+ * ホスト画面用にセッション情報を取得（申告・操作履歴、紙のカードを含む）
+ * hostIdにはホストIDか共同ホストの認証トークンを渡す
+ */
+export const getHostSession = async (
+  sessionId: string,
+  accessToken: string,
+  hostId: string
+): Promise<GameSession> => {
+  const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'X-Host-Id': hostId,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  return handleApiResponse(response);
+};
+
+/**
+ * ゲームの記録を取得（セッションが有効期限で削除された後の結果ページ用）
+ */
+export const getGameArchive = async (
+  sessionId: string,
+  accessToken: string
+): Promise<GameArchive> => {
+  const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}/archive`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  return handleApiResponse(response);
+};
+
+/**
+ * 結果ページ用にセッションを取得
+ * セッションが有効期限で削除された後（404・410）は、ゲームの記録から復元する
+ */
+export const getResultSession = async (
+  sessionId: string,
+  accessToken: string
+): Promise<PublicGameSession> => {
+  const response = await fetch(`${API_BASE_URL}/sessions/${sessionId}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (response.status === 404 || response.status === 410) {
+    return restoreSessionFromArchive(await getGameArchive(sessionId, accessToken));
+  }
+
+  return handleApiResponse(response);
+};
+
 /**
  * 認証データの検証
  * エンドポイントが存在しない場合の対処
@@ -167,7 +257,7 @@ export const validateAuthentication = async (
       const errorData: APIError = await response.json();
       return {
         valid: false,
-        error: errorData.error || '認証に失敗しました'
+        error: errorData.error || getApiMessages().authenticationFailed
       };
     }
 
@@ -180,7 +270,7 @@ export const validateAuthentication = async (
     console.error('Authentication validation error:', error);
     
     // エンドポイントが存在しない場合は警告を出すが、処理は続行
-    if (error instanceof Error && error.message.includes('エンドポイントが見つかりません')) {
+    if (error instanceof Error && error.message === getApiMessages().endpointNotFound) {
       console.warn('認証エンドポイントが未実装です。認証をスキップします。');
       return {
         valid: true,
@@ -190,7 +280,7 @@ export const validateAuthentication = async (
     
     return {
       valid: false,
-      error: error instanceof Error ? error.message : '認証エラーが発生しました'
+      error: error instanceof Error ? error.message : getApiMessages().authenticationError
     };
   }
 };
@@ -322,7 +412,7 @@ export const normalizeErrorMessage = (error: unknown): string => {
     return String(errorObj.error);
   }
   
-  return '予期しないエラーが発生しました';
+  return getApiMessages().unexpectedError;
 };
 
 /**
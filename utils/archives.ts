@@ -0,0 +1,75 @@
+// utils/archives.ts
+// ゲームの記録（終了したゲームの順位・抽選順）の作成と、結果ページ用のセッション形式への復元
+
+import type { ArchivedPlayer, GameArchive, GameSession } from '@/types';
+import { calculateStandings, getAllRounds } from '@/utils/rounds';
+
+/**
+ * 終了したセッションからゲームの記録を作成
+ * 申告履歴・操作履歴・紙のカードなどは残さない
+ * ホストIDはホスト操作の認証に使うため、結果ページを閲覧できる参加者に渡らないよう残さない
+ */
+export function buildGameArchive(session: GameSession, archivedAt: Date = new Date()): GameArchive {
+  const rounds = getAllRounds(session);
+  const players: ArchivedPlayer[] = session.players.map(player => ({
+    id: player.id,
+    name: player.name,
+    board: player.board,
+    ...(player.boards && { boards: player.boards }),
+    joinedAt: player.joinedAt,
+    bingoCount: player.bingoCount,
+    ...(player.bingoAchievedAt && { bingoAchievedAt: player.bingoAchievedAt })
+  }));
+
+  return {
+    sessionId: session.sessionId,
+    accessToken: session.accessToken,
+    gameName: session.gameName,
+    gameType: session.gameType,
+    terms: session.terms,
+    rules: session.rules,
+    locale: session.locale,
+    ...(session.accountId && { accountId: session.accountId }),
+    players,
+    rankings: calculateStandings(rounds, session.players),
+    rounds,
+    ...(session.discardedDraws && { discardedDraws: session.discardedDraws }),
+    createdAt: session.createdAt,
+    startedAt: session.startedAt,
+    finishedAt: session.finishedAt ?? archivedAt,
+    archivedAt
+  };
+}
+
+/**
+ * ゲームの記録を終了済みのセッションの形に戻す（結果ページの表示用）
+ * 最後のラウンドを進行中のラウンドとして扱い、それ以前を終了したラウンドの記録にする
+ */
+export function restoreSessionFromArchive(archive: GameArchive): GameSession {
+  const finalRound = archive.rounds[archive.rounds.length - 1];
+  const numbers = finalRound?.numbers ?? [];
+
+  return {
+    sessionId: archive.sessionId,
+    accessToken: archive.accessToken,
+    hostId: '',
+    gameName: archive.gameName,
+    status: 'finished',
+    players: archive.players.map(player => ({ ...player, isConnected: false })),
+    maxPlayers: archive.players.length,
+    numbers,
+    currentNumber: numbers[numbers.length - 1] ?? null,
+    createdAt: archive.createdAt,
+    expiresAt: archive.finishedAt,
+    startedAt: archive.startedAt,
+    finishedAt: archive.finishedAt,
+    gameType: archive.gameType,
+    terms: archive.terms,
+    rules: archive.rules,
+    fairness: finalRound?.fairness,
+    prizeAwards: finalRound?.prizeAwards || [],
+    rounds: archive.rounds.slice(0, -1),
+    ...(finalRound?.startedAt && { roundStartedAt: new Date(finalRound.startedAt) }),
+    locale: archive.locale
+  };
+}
@@ -0,0 +1,19 @@
+// utils/audit.ts
+// 操作履歴（ホストによる訂正など）の記録
+
+import { nanoid } from 'nanoid';
+import type { AuditLogEntry } from '@/types';
+
+/**
+ * 操作履歴のエントリを作成
+ */
+export function createAuditEntry(
+  entry: Omit<AuditLogEntry, 'id' | 'createdAt'>,
+  createdAt: Date = new Date()
+): AuditLogEntry {
+  return {
+    id: nanoid(10),
+    ...entry,
+    createdAt: createdAt.toISOString()
+  };
+}
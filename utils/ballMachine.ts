@@ -0,0 +1,80 @@
+// utils/ballMachine.ts
+// 抽選機モード（会場の抽選機で出た番号をホストが入力する）の設定と入力の解析
+
+import type { DrawMode, GameRules, GameType, Locale } from '@/types';
+import { formatBingoNumber, getBingoLetter, getMaxNumber } from '@/utils/gameUtils';
+import { formatMessage, getMessages } from '@/utils/i18n';
+
+// 未設定時はサーバーが抽選
+export const DEFAULT_DRAW_MODE: DrawMode = 'server';
+
+/**
+ * セッションのルールから抽選方式を取得（ワードビンゴは常にホストがコールするため対象外）
+ */
+export function resolveDrawMode(rules?: Partial<GameRules> | null, gameType: GameType = '75ball'): DrawMode {
+  return rules?.drawMode === 'machine' && gameType !== 'words' ? 'machine' : DEFAULT_DRAW_MODE;
+}
+
+/**
+ * リクエストで受け取った抽選方式を検証
+ *
+ * @returns 抽選方式（未指定はデフォルト）、不正な場合はnull
+ */
+export function sanitizeDrawMode(input: unknown): DrawMode | null {
+  if (input === undefined) return DEFAULT_DRAW_MODE;
+  return input === 'server' || input === 'machine' ? input : null;
+}
+
+/**
+ * ホストが入力した番号を解析・検証
+ *
+ * 75ボールは「G-52」「G52」「52」の形式を受け付け、文字が番号の列と合っているかも確認する。
+ * 全角の英数字も受け付ける
+ *
+ * @param drawnNumbers 抽選済みの番号（重複の確認用）
+ * @param locale エラーメッセージの言語
+ */
+export function parseCalledNumber(
+  input: string,
+  gameType: GameType = '75ball',
+  drawnNumbers: number[] = [],
+  locale?: Locale
+): { number: number } | { error: string } {
+  const messages = getMessages(locale).ballMachine;
+  const normalized = input.normalize('NFKC').trim().toUpperCase();
+  if (!normalized) {
+    return { error: messages.required };
+  }
+
+  const match = normalized.match(/^([A-Z]?)\s*[-ー]?\s*(\d+)$/);
+  if (!match) {
+    return { error: gameType === '75ball' ? messages.invalidFormat : messages.numberOnly };
+  }
+
+  const [, letter, digits] = match;
+  const number = parseInt(digits, 10);
+  const maxNumber = getMaxNumber(gameType);
+
+  if (number < 1 || number > maxNumber) {
+    return { error: formatMessage(messages.outOfRange, { max: maxNumber }) };
+  }
+
+  if (letter) {
+    if (gameType !== '75ball' || !'BINGO'.includes(letter)) {
+      return { error: gameType === '75ball' ? messages.invalidLetter : messages.numberOnly };
+    }
+
+    const expected = getBingoLetter(number, gameType);
+    if (letter !== expected) {
+      return {
+        error: formatMessage(messages.wrongLetter, { number, letter: expected, call: formatBingoNumber(number, gameType) })
+      };
+    }
+  }
+
+  if (drawnNumbers.includes(number)) {
+    return { error: formatMessage(messages.alreadyDrawn, { number: formatBingoNumber(number, gameType) }) };
+  }
+
+  return { number };
+}
@@ -0,0 +1,144 @@
+// utils/bingo.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_SHARED_LINES,
+  checkBingo,
+  countSharedLines,
+  generate90BallTicket,
+  generateBingoCard,
+  generateCardsForGameType,
+  generateWordCard,
+  getCardSignature,
+  getLineSignatures,
+  getPlayerBoards,
+  validate90BallTicket,
+  validateBingoCard
+} from '@/utils/bingo';
+
+// 乱数で生成するため、複数回生成して検証する
+const ITERATIONS = 50;
+
+const CARD = [
+  [1, 16, 31, 46, 61],
+  [2, 17, 32, 47, 62],
+  [3, 18, 0, 48, 63],
+  [4, 19, 33, 49, 64],
+  [5, 20, 34, 50, 65]
+];
+
+describe('75ボールのカード', () => {
+  it('生成したカードは常に妥当', () => {
+    for (let i = 0; i < ITERATIONS; i++) {
+      expect(validateBingoCard(generateBingoCard())).toBe(true);
+    }
+  });
+
+  it('中央がFREEでない・列の範囲外・重複のあるカードは不正', () => {
+    expect(validateBingoCard(CARD)).toBe(true);
+
+    const noFree = CARD.map(row => [...row]);
+    noFree[2][2] = 35;
+    expect(validateBingoCard(noFree)).toBe(false);
+
+    const outOfRange = CARD.map(row => [...row]);
+    outOfRange[0][0] = 16;
+    expect(validateBingoCard(outOfRange)).toBe(false);
+
+    const duplicate = CARD.map(row => [...row]);
+    duplicate[1][0] = 1;
+    expect(validateBingoCard(duplicate)).toBe(false);
+
+    expect(validateBingoCard(CARD.slice(0, 4))).toBe(false);
+  });
+});
+
+describe('90ボールのチケット', () => {
+  it('生成したチケットは常に妥当', () => {
+    for (let i = 0; i < ITERATIONS; i++) {
+      expect(validate90BallTicket(generate90BallTicket())).toBe(true);
+    }
+  });
+
+  it('行の数字が5つでない・列内が昇順でないチケットは不正', () => {
+    const ticket = generate90BallTicket();
+
+    const extraNumber = ticket.map(row => [...row]);
+    const emptyCol = extraNumber[0].indexOf(0);
+    extraNumber[0][emptyCol] = emptyCol === 0 ? 9 : emptyCol * 10 + 9;
+    expect(validate90BallTicket(extraNumber)).toBe(false);
+
+    const column = ticket[0].findIndex((num, col) => num !== 0 && ticket[1][col] !== 0);
+    if (column >= 0) {
+      const descending = ticket.map(row => [...row]);
+      [descending[0][column], descending[1][column]] = [descending[1][column], descending[0][column]];
+      expect(validate90BallTicket(descending)).toBe(false);
+    }
+  });
+});
+
+describe('generateWordCard', () => {
+  it('用語が24未満の場合はエラー', () => {
+    expect(() => generateWordCard(23)).toThrow();
+  });
+
+  it('中央を空けて重複のない用語インデックスを配置する', () => {
+    const card = generateWordCard(30);
+    const indices = card.flat().filter(index => index !== 0);
+
+    expect(card[2][2]).toBe(0);
+    expect(new Set(indices).size).toBe(24);
+    expect(indices.every(index => index >= 1 && index <= 30)).toBe(true);
+  });
+});
+
+describe('generateCardsForGameType', () => {
+  it('既存カードと重複せず、共有ラインが上限以下のカードを生成する', () => {
+    const existing = [CARD];
+    const cards = generateCardsForGameType(10, '75ball', 0, existing);
+    const all = [...existing, ...cards];
+
+    expect(cards).toHaveLength(10);
+    expect(new Set(all.map(getCardSignature)).size).toBe(all.length);
+
+    for (let i = 0; i < all.length; i++) {
+      for (let j = i + 1; j < all.length; j++) {
+        expect(countSharedLines(getLineSignatures(all[i]), getLineSignatures(all[j])))
+          .toBeLessThanOrEqual(MAX_SHARED_LINES);
+      }
+    }
+  });
+
+  it('用語が少なく条件を満たせない場合も、重複しないカードを生成する', () => {
+    const cards = generateCardsForGameType(5, 'words', 24);
+    expect(new Set(cards.map(getCardSignature)).size).toBe(5);
+  });
+});
+
+describe('getLineSignatures', () => {
+  it('並び順に関係なく同じ数字のラインは同じシグネチャになる', () => {
+    const mirrored = CARD.map(row => [...row].reverse());
+    expect(getLineSignatures(CARD).size).toBe(12);
+    expect(countSharedLines(getLineSignatures(CARD), getLineSignatures(mirrored))).toBe(12);
+  });
+});
+
+describe('checkBingo', () => {
+  it('抽選済みの番号で揃ったラインがあればビンゴ', () => {
+    expect(checkBingo(CARD, [1, 16, 31, 46, 61])).toBe(true);
+    expect(checkBingo(CARD, [1, 16, 31, 46])).toBe(false);
+    expect(checkBingo(CARD, [1, 17, 49, 65])).toBe(true);
+  });
+
+  it('有効なパターンのみ判定する', () => {
+    expect(checkBingo(CARD, [1, 5, 61, 65], ['line'])).toBe(false);
+    expect(checkBingo(CARD, [1, 5, 61, 65], ['four_corners'])).toBe(true);
+  });
+});
+
+describe('getPlayerBoards', () => {
+  it('複数カード導入前のデータはboardを1枚として扱う', () => {
+    expect(getPlayerBoards({ board: CARD })).toEqual([CARD]);
+    expect(getPlayerBoards({ board: CARD, boards: [] })).toEqual([CARD]);
+    expect(getPlayerBoards({ board: CARD, boards: [CARD, CARD] })).toHaveLength(2);
+  });
+});
@@ -1,3 +1,13 @@
+import type { BingoPattern, GameType, Player } from '@/types';
+import { evaluatePatterns, getPatternShapes, DEFAULT_PATTERNS } from './patterns';
+
+// 2枚のカードで共有してよいライン（同じ数字の組み合わせ）の上限
+// 共有ラインが多いカード同士は同時にビンゴしやすくなるため制限する
+export const MAX_SHARED_LINES = 1;
+
+// 共有ラインの上限を満たすカードを探す試行回数（超えたら上限を1つ緩める）
+const ATTEMPTS_PER_SHARED_LINE_LIMIT = 200;
+
 /**
  * Fisher-Yatesシャッフルアルゴリズム
  * 配列をランダムにシャッフルする最も効率的なアルゴリズム
@@ -131,6 +141,249 @@ export function validateBingoCard(card: number[][]): boolean {
   return true;
 }
 
+/**
+ * 90ボール（イギリス式）の列ごとの数字範囲
+ * 1列目: 1-9、2〜8列目: 10-19 … 70-79、9列目: 80-90
+ */
+const TICKET_COLUMN_RANGES = Array.from({ length: 9 }, (_, col) => ({
+  min: col === 0 ? 1 : col * 10,
+  max: col === 8 ? 90 : col * 10 + 9,
+}));
+
+/**
+ * 3×9の90ボール用チケットを生成
+ *
+ * イギリス式ビンゴのルール:
+ * - 各行に5つ、合計15個の数字
+ * - 各列に最低1つの数字（列ごとの範囲はTICKET_COLUMN_RANGES）
+ * - 列内の数字は上から昇順
+ *
+ * @returns 3×9の2次元配列（空白マスは0）
+ */
+export function generate90BallTicket(): number[][] {
+  const rows = 3;
+  const columns = 9;
+  const numbersPerRow = 5;
+
+  // 各列に1つずつ配置した上で、残り6つを3未満の列にランダムに割り振る
+  const columnCounts = Array(columns).fill(1);
+  for (let remaining = rows * numbersPerRow - columns; remaining > 0; remaining--) {
+    const candidates = columnCounts
+      .map((count, col) => ({ count, col }))
+      .filter(({ count }) => count < rows);
+    const { col } = candidates[Math.floor(Math.random() * candidates.length)];
+    columnCounts[col]++;
+  }
+
+  // 数字の多い列から順に、空きの多い行へ割り当てる
+  // （各行がちょうど5つになるよう貪欲に決定）
+  const rowCapacity = Array(rows).fill(numbersPerRow);
+  const layout: boolean[][] = Array.from({ length: rows }, () => Array(columns).fill(false));
+  const columnOrder = fisherYatesShuffle(Array.from({ length: columns }, (_, col) => col))
+    .sort((a, b) => columnCounts[b] - columnCounts[a]);
+
+  for (const col of columnOrder) {
+    const targetRows = fisherYatesShuffle(Array.from({ length: rows }, (_, row) => row))
+      .sort((a, b) => rowCapacity[b] - rowCapacity[a])
+      .slice(0, columnCounts[col]);
+
+    for (const row of targetRows) {
+      layout[row][col] = true;
+      rowCapacity[row]--;
+    }
+  }
+
+  const ticket: number[][] = Array.from({ length: rows }, () => Array(columns).fill(0));
+
+  for (let col = 0; col < columns; col++) {
+    const { min, max } = TICKET_COLUMN_RANGES[col];
+    const columnNumbers = selectRandomNumbers(min, max, columnCounts[col]).sort((a, b) => a - b);
+
+    let index = 0;
+    for (let row = 0; row < rows; row++) {
+      if (layout[row][col]) {
+        ticket[row][col] = columnNumbers[index++];
+      }
+    }
+  }
+
+  return ticket;
+}
+
+/**
+ * 90ボール用チケットの妥当性を検証
+ *
+ * @param ticket 検証するチケット
+ * @returns 妥当な場合true
+ */
+export function validate90BallTicket(ticket: number[][]): boolean {
+  // サイズチェック
+  if (ticket.length !== 3) return false;
+  if (!ticket.every(row => row.length === 9)) return false;
+
+  // 各行にちょうど5つの数字
+  if (!ticket.every(row => row.filter(num => num !== 0).length === 5)) return false;
+
+  const seen = new Set<number>();
+
+  for (let col = 0; col < 9; col++) {
+    const { min, max } = TICKET_COLUMN_RANGES[col];
+    const columnNumbers = ticket.map(row => row[col]).filter(num => num !== 0);
+
+    // 各列に最低1つの数字
+    if (columnNumbers.length === 0) return false;
+
+    for (let i = 0; i < columnNumbers.length; i++) {
+      const num = columnNumbers[i];
+
+      // 範囲チェック
+      if (num < min || num > max) return false;
+
+      // 列内は昇順
+      if (i > 0 && columnNumbers[i - 1] >= num) return false;
+
+      // 重複チェック
+      if (seen.has(num)) return false;
+      seen.add(num);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * ワードビンゴ用の5×5カードを生成
+ * 各マスには用語リストのインデックス（1始まり）を入れる
+ *
+ * @param termCount 用語の総数（24以上）
+ * @returns 5×5の2次元配列（中央は0でFREEスペースを表現）
+ */
+export function generateWordCard(termCount: number): number[][] {
+  if (termCount < 24) {
+    throw new Error('At least 24 terms are required to build a word card');
+  }
+
+  const indices = selectRandomNumbers(1, termCount, 24);
+
+  // 中央を空けて左上から順に配置
+  indices.splice(12, 0, 0);
+
+  return Array.from({ length: 5 }, (_, row) => indices.slice(row * 5, row * 5 + 5));
+}
+
+/**
+ * ゲーム形式に応じたカードを生成
+ *
+ * @param gameType ゲーム形式（省略時は75ボール）
+ * @param termCount ワードビンゴの用語数
+ * @returns 75ボールは5×5のカード、90ボールは3×9のチケット、ワードは用語インデックスの5×5カード
+ */
+export function generateCardForGameType(gameType: GameType = '75ball', termCount = 0): number[][] {
+  switch (gameType) {
+    case '90ball':
+      return generate90BallTicket();
+    case 'words':
+      return generateWordCard(termCount);
+    default:
+      return generateBingoCard();
+  }
+}
+
+/**
+ * カードの一意性判定用のシグネチャ（全マスの並び）
+ */
+export function getCardSignature(card: number[][]): string {
+  return card.flat().join(',');
+}
+
+/**
+ * カード上の各ライン（5×5は縦・横・斜め、90ボールは各行）の数字の組み合わせ
+ * 並び順に関係なく同じ数字で揃うラインを比較できるよう、昇順に並べた文字列にする
+ */
+export function getLineSignatures(card: number[][]): Set<string> {
+  const shapes = getPatternShapes(['line'], card.length, card[0]?.length ?? card.length);
+
+  return new Set(
+    shapes.map(shape =>
+      shape.cells
+        .map(([row, col]) => card[row][col])
+        .sort((a, b) => a - b)
+        .join(',')
+    )
+  );
+}
+
+/**
+ * 2枚のカードで共有しているラインの数
+ */
+export function countSharedLines(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  a.forEach(line => {
+    if (b.has(line)) shared++;
+  });
+  return shared;
+}
+
+/**
+ * ゲーム形式に応じたカードを複数枚生成
+ *
+ * セッション内の既存カードと同じカードは生成せず、共有ラインも MAX_SHARED_LINES 以下に抑える
+ * ワードビンゴで用語が少ない場合など条件を満たせないときは、共有ラインの上限だけを段階的に緩める
+ *
+ * @param count 生成するカードの枚数
+ * @param gameType ゲーム形式
+ * @param termCount ワードビンゴの用語数
+ * @param existingCards セッション内で既に配られているカード
+ */
+export function generateCardsForGameType(
+  count: number,
+  gameType: GameType = '75ball',
+  termCount = 0,
+  existingCards: number[][][] = []
+): number[][][] {
+  const cards: number[][][] = [];
+  const signatures = new Set(existingCards.map(getCardSignature));
+  const lineSets = existingCards.map(getLineSignatures);
+
+  while (cards.length < count) {
+    let maxSharedLines = MAX_SHARED_LINES;
+    let attempts = 0;
+
+    for (;;) {
+      const card = generateCardForGameType(gameType, termCount);
+      const signature = getCardSignature(card);
+      const lines = getLineSignatures(card);
+
+      if (
+        !signatures.has(signature) &&
+        lineSets.every(existing => countSharedLines(existing, lines) <= maxSharedLines)
+      ) {
+        cards.push(card);
+        signatures.add(signature);
+        lineSets.push(lines);
+        break;
+      }
+
+      if (++attempts % ATTEMPTS_PER_SHARED_LINE_LIMIT === 0) {
+        maxSharedLines++;
+        if (maxSharedLines > lines.size) {
+          throw new Error('Unable to generate enough unique cards');
+        }
+      }
+    }
+  }
+
+  return cards;
+}
+
+/**
+ * プレイヤーの全カードを取得
+ * 複数カード導入前のデータはboardのみを持つため、その場合は1枚として扱う
+ */
+export function getPlayerBoards(player: Pick<Player, 'board' | 'boards'>): number[][][] {
+  return player.boards && player.boards.length > 0 ? player.boards : [player.board];
+}
+
 /**
  * ビンゴカードを文字列として整形（デバッグ用）
  * 
@@ -157,35 +410,15 @@ export function formatBingoCard(card: number[][]): string {
 }
 
 /**
- * 複数のユニークなビンゴカードを生成
+ * 複数のユニークなビンゴカードを生成（75ボール）
  * 大規模なゲームで使用
  * 
  * @param count 生成するカードの枚数
+ * @param existingCards 既に配られているカード（これらとも重複しない）
  * @returns ビンゴカードの配列
  */
-export function generateMultipleBingoCards(count: number): number[][][] {
-  const cards: number[][][] = [];
-  const cardSignatures = new Set<string>();
-  
-  while (cards.length < count) {
-    const card = generateBingoCard();
-    
-    // カードの一意性を保証するためのシグネチャ生成
-    // JSON.stringifyは重い処理なので、実運用では別の方法を検討
-    const signature = JSON.stringify(card);
-    
-    if (!cardSignatures.has(signature)) {
-      cards.push(card);
-      cardSignatures.add(signature);
-    }
-    
-    // 無限ループ防止（理論上、75!/(70!×5!)^5 通りのカードが可能）
-    if (cards.length === 0 && cardSignatures.size > count * 10) {
-      throw new Error('Unable to generate enough unique cards');
-    }
-  }
-  
-  return cards;
+export function generateMultipleBingoCards(count: number, existingCards: number[][][] = []): number[][][] {
+  return generateCardsForGameType(count, '75ball', 0, existingCards);
 }
 
 /**
@@ -199,8 +432,8 @@ export function findNumberOnCard(
   card: number[][], 
   number: number
 ): { row: number; col: number } | null {
-  for (let row = 0; row < 5; row++) {
-    for (let col = 0; col < 5; col++) {
+  for (let row = 0; row < card.length; row++) {
+    for (let col = 0; col < card[row].length; col++) {
       if (card[row][col] === number) {
         return { row, col };
       }
@@ -214,17 +447,17 @@ export function findNumberOnCard(
  * 
  * @param card ビンゴカード
  * @param drawnNumbers 抽選済みの数字
+ * @param patterns 有効な当たりパターン（省略時は縦・横・斜めのライン）
  * @returns ビンゴが成立している場合true
  */
-export function checkBingo(card: number[][], drawnNumbers: number[]): boolean {
+export function checkBingo(
+  card: number[][],
+  drawnNumbers: number[],
+  patterns: BingoPattern[] = DEFAULT_PATTERNS
+): boolean {
   // マークされたセルを記録する2次元配列
-  const marked: boolean[][] = Array.from(
-    { length: 5 }, 
-    () => Array(5).fill(false)
-  );
-  
-  // FREEスペースは最初からマーク
-  marked[2][2] = true;
+  // 0（5×5の中央FREE、90ボールの空白マス）は最初からマーク
+  const marked: boolean[][] = card.map(row => row.map(num => num === 0));
   
   // 抽選された数字をマーク
   for (const num of drawnNumbers) {
@@ -234,46 +467,7 @@ export function checkBingo(card: number[][], drawnNumbers: number[]): boolean {
     }
   }
   
-  // 横のラインをチェック
-  for (let row = 0; row < 5; row++) {
-    if (marked[row].every(cell => cell)) {
-      return true;
-    }
-  }
-  
-  // 縦のラインをチェック
-  for (let col = 0; col < 5; col++) {
-    let complete = true;
-    for (let row = 0; row < 5; row++) {
-      if (!marked[row][col]) {
-        complete = false;
-        break;
-      }
-    }
-    if (complete) return true;
-  }
-  
-  // 左上から右下の対角線をチェック
-  let diagonal1 = true;
-  for (let i = 0; i < 5; i++) {
-    if (!marked[i][i]) {
-      diagonal1 = false;
-      break;
-    }
-  }
-  if (diagonal1) return true;
-  
-  // 右上から左下の対角線をチェック
-  let diagonal2 = true;
-  for (let i = 0; i < 5; i++) {
-    if (!marked[i][4 - i]) {
-      diagonal2 = false;
-      break;
-    }
-  }
-  if (diagonal2) return true;
-  
-  return false;
+  return evaluatePatterns(marked, patterns).completed.length > 0;
 }
 
 // 名前付きオブジェクトとしてデフォルトエクスポート
@@ -283,6 +477,12 @@ const bingoUtils = {
   validateBingoCard,
   formatBingoCard,
   generateMultipleBingoCards,
+  generate90BallTicket,
+  validate90BallTicket,
+  generateWordCard,
+  generateCardForGameType,
+  generateCardsForGameType,
+  getPlayerBoards,
   findNumberOnCard,
   checkBingo,
 };
@@ -0,0 +1,70 @@
+// utils/cardThemes.ts
+// ビンゴカードと抽選済み番号一覧の配色テーマ
+
+import type { CardTheme } from '@/types';
+
+export const CARD_THEMES: CardTheme[] = ['default', 'high-contrast', 'colorblind'];
+
+export const DEFAULT_CARD_THEME: CardTheme = 'default';
+
+interface CardThemeStyles {
+  header: string; // BINGOの列見出し
+  cell: string; // 未マークのマス
+  marked: string; // マーク済みのマス・FREEマス
+  blank: string; // 90ボールの空白マス
+  latest: string; // 直前に呼ばれた番号のマス
+  showMarkIcon: boolean; // 色だけに頼らず、マーク済みのマスに✓を表示する
+  callCurrent: string; // 抽選済み番号一覧: 現在の番号
+  callDrawn: string; // 抽選済み番号一覧: 抽選済み
+  callUndrawn: string; // 抽選済み番号一覧: 未抽選
+}
+
+export const CARD_THEME_STYLES: Record<CardTheme, CardThemeStyles> = {
+  default: {
+    header: 'bg-gradient-to-br from-red-600 to-red-800 text-yellow-300 border border-yellow-400/50',
+    cell: 'bg-gradient-to-br from-red-600 to-red-800 text-yellow-300 border border-yellow-400/50',
+    marked: 'bg-gradient-to-br from-yellow-300 to-yellow-500 text-red-700 border-2 border-red-600',
+    blank: 'bg-white/10 border border-white/20',
+    latest: 'ring-4 ring-yellow-400 motion-safe:animate-pulse',
+    showMarkIcon: false,
+    callCurrent: 'bg-yellow-300 text-purple-900 scale-110 shadow-lg shadow-yellow-300/50',
+    callDrawn: 'bg-white text-purple-900',
+    callUndrawn: 'bg-white/10 text-white/30'
+  },
+  'high-contrast': {
+    header: 'bg-black text-white border-2 border-white',
+    cell: 'bg-black text-white border-2 border-white',
+    marked: 'bg-yellow-300 text-black border-4 border-black',
+    blank: 'bg-gray-700 border-2 border-gray-400',
+    latest: 'ring-4 ring-cyan-300',
+    showMarkIcon: true,
+    callCurrent: 'bg-yellow-300 text-black scale-110 ring-4 ring-white',
+    callDrawn: 'bg-white text-black',
+    callUndrawn: 'bg-black text-gray-400 border border-gray-500'
+  },
+  colorblind: {
+    header: 'bg-sky-800 text-white border border-sky-300',
+    cell: 'bg-sky-800 text-white border border-sky-300',
+    marked: 'bg-orange-400 text-gray-900 border-2 border-gray-900',
+    blank: 'bg-white/10 border border-white/20',
+    latest: 'ring-4 ring-white motion-safe:animate-pulse',
+    showMarkIcon: true,
+    callCurrent: 'bg-orange-400 text-gray-900 scale-110 ring-4 ring-white',
+    callDrawn: 'bg-sky-300 text-gray-900',
+    callUndrawn: 'bg-white/10 text-white/40'
+  }
+};
+
+/**
+ * 保存された値を検証し、不正な値はデフォルトに戻す
+ */
+export function sanitizeCardTheme(input: unknown): CardTheme {
+  return CARD_THEMES.includes(input as CardTheme) ? (input as CardTheme) : DEFAULT_CARD_THEME;
+}
+
+/**
+ * 次のテーマ（大画面のキーボード操作で順に切り替える）
+ */
+export function getNextCardTheme(theme: CardTheme): CardTheme {
+  return CARD_THEMES[(CARD_THEMES.indexOf(theme) + 1) % CARD_THEMES.length];
+}
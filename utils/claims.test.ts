@@ -0,0 +1,81 @@
+// utils/claims.test.ts
+import { describe, expect, it } from 'vitest';
+import { evaluateClaim, isAlreadyAcceptedClaim, shouldQueueClaim } from '@/utils/claims';
+import type { BingoClaim } from '@/types';
+
+const CARD = [
+  [1, 16, 31, 46, 61],
+  [2, 17, 32, 47, 62],
+  [3, 18, 0, 48, 63],
+  [4, 19, 33, 49, 64],
+  [5, 20, 34, 50, 65]
+];
+
+const ROW_1 = [1, 16, 31, 46, 61];
+
+const createClaim = (overrides: Partial<BingoClaim> = {}): BingoClaim => ({
+  id: 'c1',
+  playerId: 'p1',
+  playerName: 'Alice',
+  cardIndex: 0,
+  marks: ROW_1,
+  status: 'accepted',
+  lines: ['横1列目'],
+  bingoCount: 1,
+  drawCount: 5,
+  claimedAt: '2026-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+describe('evaluateClaim', () => {
+  it('抽選済みの番号のマークで揃ったラインを返す', () => {
+    expect(evaluateClaim(CARD, ROW_1, ROW_1)).toEqual({
+      valid: true,
+      bingoLines: 1,
+      winningPatterns: ['横1列目'],
+      completedPatterns: ['line']
+    });
+  });
+
+  it('抽選されていない番号をマークしている場合は却下する', () => {
+    const result = evaluateClaim(CARD, ROW_1.slice(0, 4), ROW_1, undefined, 'en');
+    expect(result).toMatchObject({ valid: false, reason: 'Numbers that have not been drawn are marked' });
+  });
+
+  it('ラインが揃っていても、抽選されていない番号のマークがあれば却下する', () => {
+    const result = evaluateClaim(CARD, ROW_1, [...ROW_1, 2], undefined, 'en');
+    expect(result).toMatchObject({ valid: false, bingoLines: 0, reason: 'Numbers that have not been drawn are marked' });
+  });
+
+  it('揃っていない場合は却下する', () => {
+    const result = evaluateClaim(CARD, ROW_1, ROW_1.slice(0, 4), undefined, 'en');
+    expect(result).toMatchObject({ valid: false, reason: 'No line is complete' });
+  });
+});
+
+describe('isAlreadyAcceptedClaim', () => {
+  it('同じカードで認められたラインだけの申告は重複とみなす', () => {
+    const claims = [createClaim()];
+
+    expect(isAlreadyAcceptedClaim(claims, 'p1', 0, ['横1列目'])).toBe(true);
+    expect(isAlreadyAcceptedClaim(claims, 'p1', 0, ['横1列目', '横2列目'])).toBe(false);
+  });
+
+  it('別のカード・別のプレイヤー・認められていない申告のラインは数えない', () => {
+    expect(isAlreadyAcceptedClaim([createClaim()], 'p1', 1, ['横1列目'])).toBe(false);
+    expect(isAlreadyAcceptedClaim([createClaim()], 'p2', 0, ['横1列目'])).toBe(false);
+    expect(isAlreadyAcceptedClaim([createClaim({ status: 'rejected' })], 'p1', 0, ['横1列目'])).toBe(false);
+    expect(isAlreadyAcceptedClaim([createClaim({ status: 'voided' })], 'p1', 0, ['横1列目'])).toBe(false);
+  });
+});
+
+describe('shouldQueueClaim', () => {
+  it('確認待ちがある場合や、申告済みのライン数以下の場合は登録しない', () => {
+    expect(shouldQueueClaim([], 'p1', 1)).toBe(true);
+    expect(shouldQueueClaim([createClaim({ status: 'pending' })], 'p1', 2)).toBe(false);
+    expect(shouldQueueClaim([createClaim()], 'p1', 1)).toBe(false);
+    expect(shouldQueueClaim([createClaim()], 'p1', 2)).toBe(true);
+    expect(shouldQueueClaim([createClaim({ status: 'rejected' })], 'p1', 1)).toBe(true);
+    expect(shouldQueueClaim([createClaim({ status: 'voided' })], 'p1', 1)).toBe(true);
+  });
+});
@@ -0,0 +1,172 @@
+// utils/claims.ts
+// 手動マーク（セルフダブ）ルールとビンゴ申告の判定・ホスト確認
+
+import { GAME_CONSTANTS } from '@/types';
+import type { BingoClaim, BingoPattern, DaubMode, GameRules, Locale, Player } from '@/types';
+import { evaluatePatterns, getPatternShapes, DEFAULT_PATTERNS } from '@/utils/patterns';
+import { getMessages } from '@/utils/i18n';
+
+// 未設定時は従来通り自動マーク
+export const DEFAULT_DAUB_MODE: DaubMode = 'auto';
+
+// 誤申告ペナルティの初期値（抽選回数）
+export const DEFAULT_FALSE_CLAIM_PENALTY_DRAWS = 3;
+
+/**
+ * セッションのルールからマーク方式を取得
+ */
+export function resolveDaubMode(rules?: Partial<GameRules> | null): DaubMode {
+  return rules?.daubMode === 'manual' ? 'manual' : DEFAULT_DAUB_MODE;
+}
+
+/**
+ * ビンゴをホストが承認してから発表するか
+ */
+export function resolveHostAdjudication(rules?: Partial<GameRules> | null): boolean {
+  return rules?.hostAdjudication === true;
+}
+
+/**
+ * リクエストで受け取ったマーク方式・ペナルティ指定を検証・正規化
+ *
+ * @returns 正規化済みのルール、不正な場合はnull
+ */
+export function sanitizeDaubRules(
+  rules: Partial<GameRules> | undefined
+): Pick<GameRules, 'daubMode' | 'falseClaimPenaltyDraws'> | null {
+  const daubMode = rules?.daubMode ?? DEFAULT_DAUB_MODE;
+  if (daubMode !== 'auto' && daubMode !== 'manual') return null;
+
+  if (daubMode === 'auto') return { daubMode };
+
+  const penalty = rules?.falseClaimPenaltyDraws ?? DEFAULT_FALSE_CLAIM_PENALTY_DRAWS;
+  if (
+    typeof penalty !== 'number' ||
+    !Number.isInteger(penalty) ||
+    penalty < 0 ||
+    penalty > GAME_CONSTANTS.MAX_FALSE_CLAIM_PENALTY_DRAWS
+  ) {
+    return null;
+  }
+
+  return { daubMode, falseClaimPenaltyDraws: penalty };
+}
+
+/**
+ * ペナルティで申告できない残りの抽選回数（0なら申告可能）
+ */
+export function getLockoutRemaining(player: Pick<Player, 'lockedUntilDraw'>, drawCount: number): number {
+  return Math.max(0, (player.lockedUntilDraw ?? 0) - drawCount);
+}
+
+/**
+ * ビンゴ申告を判定
+ * 抽選されていない番号をマークしている申告は、ラインが揃っていても無効にする
+ *
+ * @param board プレイヤーのカード
+ * @param drawnNumbers 抽選済みの番号
+ * @param marks プレイヤーがマークした番号
+ * @param patterns 有効な当たりパターン
+ * @param locale 却下理由の言語（申告履歴に保存するためセッションの言語を指定する）
+ */
+export function evaluateClaim(
+  board: number[][],
+  drawnNumbers: number[],
+  marks: number[],
+  patterns: BingoPattern[] = DEFAULT_PATTERNS,
+  locale?: Locale
+): {
+  valid: boolean;
+  bingoLines: number;
+  winningPatterns: string[];
+  completedPatterns: BingoPattern[];
+  reason?: string;
+} {
+  const drawn = new Set(drawnNumbers);
+
+  if (marks.some(num => !drawn.has(num))) {
+    return {
+      valid: false,
+      bingoLines: 0,
+      winningPatterns: [],
+      completedPatterns: [],
+      reason: getMessages(locale).server.claimUndrawnMarks
+    };
+  }
+
+  // 0（FREE・90ボールの空白）は常にマーク済み
+  const markedNumbers = new Set(marks);
+  const marked = board.map(row => row.map(num => num === 0 || markedNumbers.has(num)));
+  const { completed, completedPatterns } = evaluatePatterns(marked, patterns);
+
+  if (completed.length > 0) {
+    return {
+      valid: true,
+      bingoLines: completed.length,
+      winningPatterns: completed.map(shape => shape.name),
+      completedPatterns
+    };
+  }
+
+  return {
+    valid: false,
+    bingoLines: 0,
+    winningPatterns: [],
+    completedPatterns: [],
+    reason: getMessages(locale).server.claimNoLine
+  };
+}
+
+/**
+ * 確認待ちとして新しく申告を登録するか
+ * 自動マークでは抽選のたびにビンゴが送られてくるため、
+ * 確認待ちが残っている間や、既に申告済みのライン数以下の場合は登録しない
+ * （却下・取り消し済みの申告は数えない。抽選の取り消し後に同じラインが揃った場合は登録し直す）
+ */
+export function shouldQueueClaim(claims: BingoClaim[] = [], playerId: string, bingoCount: number): boolean {
+  const playerClaims = claims.filter(claim =>
+    claim.playerId === playerId && (claim.status === 'pending' || claim.status === 'accepted')
+  );
+  if (playerClaims.some(claim => claim.status === 'pending')) return false;
+  return playerClaims.every(claim => (claim.bingoCount ?? 0) < bingoCount);
+}
+
+/**
+ * 申告で揃ったラインが、同じカードで既に認められたラインだけかどうか
+ * 手動マークでは同じラインを何度でも申告できてしまうため、新しいラインを含まない申告は受け付けない
+ */
+export function isAlreadyAcceptedClaim(
+  claims: BingoClaim[] = [],
+  playerId: string,
+  cardIndex: number,
+  lines: string[]
+): boolean {
+  const acceptedLines = new Set(
+    claims
+      .filter(claim =>
+        claim.playerId === playerId &&
+        (claim.cardIndex ?? 0) === cardIndex &&
+        claim.status === 'accepted'
+      )
+      .flatMap(claim => claim.lines ?? [])
+  );
+  return lines.every(line => acceptedLines.has(line));
+}
+
+/**
+ * 申告で揃ったラインを構成するマスの位置（"行-列"）を返す（ホスト確認画面のハイライト用）
+ */
+export function getClaimedCells(
+  board: number[][],
+  lines: string[] = [],
+  patterns: BingoPattern[] = DEFAULT_PATTERNS
+): Set<string> {
+  const shapes = getPatternShapes(patterns, board.length, board[0]?.length ?? board.length);
+  const cells = new Set<string>();
+
+  shapes
+    .filter(shape => lines.includes(shape.name))
+    .forEach(shape => shape.cells.forEach(([row, col]) => cells.add(`${row}-${col}`)));
+
+  return cells;
+}
@@ -0,0 +1,133 @@
+// utils/corrections.test.ts
+import { describe, expect, it } from 'vitest';
+import { voidLastDraw } from '@/utils/corrections';
+import { shouldQueueClaim } from '@/utils/claims';
+import type { BingoClaim, Player, PrizeAward } from '@/types';
+
+const CARD = [
+  [1, 16, 31, 46, 61],
+  [2, 17, 32, 47, 62],
+  [3, 18, 0, 48, 63],
+  [4, 19, 33, 49, 64],
+  [5, 20, 34, 50, 65]
+];
+
+const createPlayer = (overrides: Partial<Player> = {}): Player => ({
+  id: 'p1',
+  name: 'Alice',
+  board: CARD,
+  joinedAt: '2026-01-01T00:00:00.000Z',
+  isConnected: true,
+  bingoCount: 0,
+  ...overrides
+});
+
+const createClaim = (overrides: Partial<BingoClaim> = {}): BingoClaim => ({
+  id: 'c1',
+  playerId: 'p1',
+  playerName: 'Alice',
+  cardIndex: 0,
+  marks: [1, 16, 31, 46, 61],
+  status: 'accepted',
+  lines: ['横1列目'],
+  bingoCount: 1,
+  completedPatterns: ['line'],
+  drawCount: 5,
+  claimedAt: '2026-01-01T00:01:00.000Z',
+  ...overrides
+});
+
+const createAward = (overrides: Partial<PrizeAward> = {}): PrizeAward => ({
+  tierId: 'tier1',
+  label: '1ライン',
+  winners: [{ playerId: 'p1', playerName: 'Alice', cardIndex: 0 }],
+  drawCount: 5,
+  number: 61,
+  awardedAt: '2026-01-01T00:01:00.000Z',
+  ...overrides
+});
+
+type VoidInput = Parameters<typeof voidLastDraw>[0];
+
+const createSession = (overrides: Partial<VoidInput> = {}): VoidInput => ({
+  numbers: [1, 16, 31, 46, 61],
+  players: [createPlayer({ bingoCount: 1, bingoAchievedAt: '2026-01-01T00:01:00.000Z' })],
+  claims: [],
+  prizeAwards: [],
+  rules: { patterns: ['line'], prizeTiers: [{ id: 'tier1', label: '1ライン', lines: 1 }] },
+  locale: 'en',
+  ...overrides
+});
+
+describe('voidLastDraw', () => {
+  it('抽選済みの番号がない場合はnull', () => {
+    expect(voidLastDraw(createSession({ numbers: [] }))).toBeNull();
+  });
+
+  it('最後の番号を取り除き、直前の番号を現在の番号にする', () => {
+    const result = voidLastDraw(createSession());
+    expect(result).toMatchObject({ number: 61, numbers: [1, 16, 31, 46], currentNumber: 46 });
+  });
+
+  it('自動マークでは残りの番号で揃わないビンゴと、取り消した抽選で確定した賞を取り消す', () => {
+    const result = voidLastDraw(createSession({ prizeAwards: [createAward()] }))!;
+
+    expect(result.players[0]).toMatchObject({ bingoCount: 0, bingoAchievedAt: undefined });
+    expect(result.cancelledPlayerIds).toEqual(['p1']);
+    expect(result.prizeAwards).toEqual([]);
+  });
+
+  it('以前の抽選で確定した賞は残す', () => {
+    const earlier = createAward({ drawCount: 4, number: 46 });
+    const result = voidLastDraw(createSession({ prizeAwards: [earlier] }))!;
+    expect(result.prizeAwards).toEqual([earlier]);
+  });
+
+  describe('手動マーク', () => {
+    const rules = { patterns: ['line' as const], daubMode: 'manual' as const, prizeTiers: [{ id: 'tier1', label: '1ライン', lines: 1 }] };
+
+    it('取り消した番号がないと揃わない申告は無効にする', () => {
+      const result = voidLastDraw(createSession({ rules, claims: [createClaim()], prizeAwards: [createAward()] }))!;
+
+      expect(result.claims[0]).toMatchObject({ status: 'voided', reason: 'Voided because a draw was cancelled' });
+      expect(result.cancelledPlayerIds).toEqual(['p1']);
+      expect(result.prizeAwards).toEqual([]);
+    });
+
+    it('取り消した番号がなくても揃う申告は、1つ前の抽選の申告として残す', () => {
+      const result = voidLastDraw(createSession({
+        rules,
+        numbers: [2, 17, 32, 47, 62, 1],
+        players: [createPlayer({ bingoCount: 1 })],
+        claims: [createClaim({ marks: [1, 2, 17, 32, 47, 62], lines: ['横2列目'], drawCount: 6 })],
+        prizeAwards: [createAward({ drawCount: 6, number: 1 })]
+      }))!;
+
+      expect(result.claims[0]).toMatchObject({
+        status: 'accepted',
+        marks: [2, 17, 32, 47, 62],
+        lines: ['横2列目'],
+        drawCount: 5
+      });
+      expect(result.players[0].bingoCount).toBe(1);
+      expect(result.cancelledPlayerIds).toEqual([]);
+      expect(result.prizeAwards).toEqual([createAward({ drawCount: 5, number: 62 })]);
+    });
+
+    it('取り消した抽選より前の申告は変更しない', () => {
+      const earlier = createClaim({ marks: [2, 17, 32, 47, 62], lines: ['横2列目'], drawCount: 4 });
+      const result = voidLastDraw(createSession({ rules, claims: [earlier] }))!;
+
+      expect(result.claims[0]).toBe(earlier);
+      expect(result.players[0].bingoCount).toBe(1);
+    });
+  });
+
+  it('取り消しで無効になった申告のラインが再び揃った場合は、確認待ちとして登録し直す', () => {
+    const rules = { patterns: ['line' as const], hostAdjudication: true };
+    const result = voidLastDraw(createSession({ rules, claims: [createClaim({ status: 'pending' })] }))!;
+
+    expect(result.claims[0].status).toBe('voided');
+    expect(shouldQueueClaim(result.claims, 'p1', 1)).toBe(true);
+  });
+});
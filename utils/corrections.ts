@@ -0,0 +1,127 @@
+// utils/corrections.ts
+// ホストによる抽選の取り消しと、取り消しに伴うビンゴ・申告・賞の訂正
+
+import type { BingoClaim, GameSession, Player, PrizeAward } from '@/types';
+import { checkBingoOnCards } from '@/utils/gameUtils';
+import { evaluateClaim, resolveDaubMode } from '@/utils/claims';
+import { isPrizeTierSatisfied } from '@/utils/prizes';
+import { getPlayerBoards } from '@/utils/bingo';
+import { resolvePatterns } from '@/utils/patterns';
+import { getMessages } from '@/utils/i18n';
+
+// 取り消し後のセッションの状態
+export interface DrawVoidResult {
+  number: number;
+  numbers: number[];
+  currentNumber: number | null;
+  players: Player[];
+  claims: BingoClaim[];
+  prizeAwards: PrizeAward[];
+  cancelledPlayerIds: string[]; // ビンゴが取り消されたプレイヤー
+}
+
+/**
+ * 最後に抽選した番号を取り消した後のセッションの状態を計算
+ *
+ * - 取り消した抽選の後に行われた申告は、残りの番号で判定し直す（揃わなければ無効）
+ * - 自動マークのビンゴは残りの番号で判定し直す
+ * - 取り消した抽選で確定した賞は、判定し直した申告で条件を満たす獲得者のみ残す
+ *
+ * @returns 抽選済みの番号がない場合はnull
+ */
+export function voidLastDraw(
+  session: Pick<GameSession, 'numbers' | 'players' | 'claims' | 'prizeAwards' | 'rules' | 'locale'>
+): DrawVoidResult | null {
+  const drawCount = session.numbers.length;
+  if (drawCount === 0) return null;
+
+  const number = session.numbers[drawCount - 1];
+  const numbers = session.numbers.slice(0, -1);
+  const patterns = resolvePatterns(session.rules);
+  const voidedReason = getMessages(session.locale).server.claimVoidedByCorrection;
+  const findBoard = (playerId: string, cardIndex = 0) => {
+    const player = session.players.find(p => p.id === playerId);
+    return player ? getPlayerBoards(player)[cardIndex] : undefined;
+  };
+
+  // 取り消した抽選の後の申告（確認待ち・承認済み）を判定し直す
+  const survivingClaimIds = new Set<string>();
+  const claims = (session.claims || []).map(claim => {
+    if (claim.drawCount !== drawCount || (claim.status !== 'pending' && claim.status !== 'accepted')) {
+      return claim;
+    }
+
+    // 取り消した番号のマークは外して判定する
+    const marks = claim.marks.filter(num => num !== number);
+    const board = findBoard(claim.playerId, claim.cardIndex);
+    const evaluation = board ? evaluateClaim(board, numbers, marks, patterns, session.locale) : null;
+
+    if (!evaluation?.valid) {
+      return { ...claim, status: 'voided' as const, reason: voidedReason };
+    }
+
+    survivingClaimIds.add(claim.id);
+    return {
+      ...claim,
+      marks,
+      lines: evaluation.winningPatterns,
+      bingoCount: evaluation.bingoLines,
+      completedPatterns: evaluation.completedPatterns,
+      drawCount: drawCount - 1
+    };
+  });
+
+  // プレイヤーのビンゴ数を訂正（0になった場合はビンゴを取り消す）
+  const isManual = resolveDaubMode(session.rules) === 'manual';
+  const cancelledPlayerIds: string[] = [];
+  const players = session.players.map(player => {
+    if (player.bingoCount === 0) return player;
+
+    const bingoCount = isManual
+      ? Math.max(0, ...claims
+          .filter(claim => claim.playerId === player.id && claim.status === 'accepted')
+          .map(claim => claim.bingoCount ?? 0))
+      : Math.min(player.bingoCount, checkBingoOnCards(getPlayerBoards(player), numbers, patterns).bingoLines);
+
+    if (bingoCount === player.bingoCount) return player;
+    if (bingoCount > 0) return { ...player, bingoCount };
+
+    cancelledPlayerIds.push(player.id);
+    return { ...player, bingoCount: 0, bingoAchievedAt: undefined };
+  });
+
+  // 取り消した抽選で確定した賞は、判定し直した申告で条件を満たす獲得者のみ残す
+  // （自動マークでは1つ前の抽選で条件を満たした人はいないため、賞ごと取り消される）
+  const prizeAwards = (session.prizeAwards || []).flatMap(award => {
+    if (award.drawCount !== drawCount) return [award];
+
+    const tier = session.rules?.prizeTiers?.find(t => t.id === award.tierId);
+    const winners = award.winners.filter(winner => {
+      const claim = claims.find(c =>
+        survivingClaimIds.has(c.id) &&
+        c.status === 'accepted' &&
+        c.playerId === winner.playerId &&
+        (c.cardIndex ?? 0) === winner.cardIndex
+      );
+      const board = findBoard(winner.playerId, winner.cardIndex);
+      if (!tier || !claim || !board) return false;
+
+      const marks = new Set(claim.marks);
+      return isPrizeTierSatisfied(tier, board.map(row => row.map(num => num === 0 || marks.has(num))));
+    });
+
+    return winners.length > 0
+      ? [{ ...award, winners, drawCount: drawCount - 1, number: numbers[numbers.length - 1] ?? null }]
+      : [];
+  });
+
+  return {
+    number,
+    numbers,
+    currentNumber: numbers[numbers.length - 1] ?? null,
+    players,
+    claims,
+    prizeAwards,
+    cancelledPlayerIds
+  };
+}
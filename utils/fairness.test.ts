@@ -0,0 +1,49 @@
+// utils/fairness.test.ts
+import { describe, expect, it } from 'vitest';
+import { deriveDrawOrder, hashSeed, verifyDrawOrder } from '@/utils/fairness';
+
+const SEED = 'test-seed';
+
+describe('deriveDrawOrder', () => {
+  it('1〜maxNumberを1回ずつ含む', () => {
+    const order = deriveDrawOrder(SEED, 75);
+    expect(order).toHaveLength(75);
+    expect([...order].sort((a, b) => a - b)).toEqual(Array.from({ length: 75 }, (_, i) => i + 1));
+  });
+
+  it('同じシードからは同じ順序、異なるシードからは異なる順序になる', () => {
+    expect(deriveDrawOrder(SEED, 90)).toEqual(deriveDrawOrder(SEED, 90));
+    expect(deriveDrawOrder(SEED, 90)).not.toEqual(deriveDrawOrder(`${SEED}-2`, 90));
+  });
+
+  // 公開済みのシードで誰でも再計算できるよう、アルゴリズムの結果を固定する
+  it('sha256-fisher-yates-v1 の既知の結果と一致する', () => {
+    expect(deriveDrawOrder(SEED, 75).slice(0, 10)).toEqual([56, 34, 75, 17, 27, 50, 32, 2, 52, 14]);
+    expect(hashSeed(SEED)).toBe('d63cd08d82aa4eb48e0cc64fb466e909bfc3879664c5caa8d8cdeda73c044190');
+  });
+});
+
+describe('verifyDrawOrder', () => {
+  const commitment = hashSeed(SEED);
+  const drawn = deriveDrawOrder(SEED, 75).slice(0, 20);
+
+  it('コミットメントと抽選済み番号が一致する', () => {
+    expect(verifyDrawOrder(SEED, commitment, drawn, 75)).toEqual({
+      commitmentMatches: true,
+      orderMatches: true,
+      expectedNumbers: drawn
+    });
+  });
+
+  it('シードが異なる場合はコミットメントが一致しない', () => {
+    expect(verifyDrawOrder(`${SEED}-2`, commitment, drawn, 75).commitmentMatches).toBe(false);
+  });
+
+  it('抽選済み番号が導出した順序と異なる場合は一致しない', () => {
+    const swapped = [drawn[1], drawn[0], ...drawn.slice(2)];
+    expect(verifyDrawOrder(SEED, commitment, swapped, 75)).toMatchObject({
+      commitmentMatches: true,
+      orderMatches: false
+    });
+  });
+});
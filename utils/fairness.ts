@@ -0,0 +1,53 @@
+// utils/fairness.ts
+// 抽選順の導出と検証（シードのみから計算できる部分。シードの生成・保存は lib/fairness.ts）
+
+import { createHash } from 'crypto';
+
+export const FAIRNESS_ALGORITHM = 'sha256-fisher-yates-v1';
+
+/**
+ * シードのコミットメント（sha256の16進文字列）
+ */
+export function hashSeed(seed: string): string {
+  return createHash('sha256').update(seed).digest('hex');
+}
+
+/**
+ * シードから抽選順を導出
+ *
+ * アルゴリズム（sha256-fisher-yates-v1）:
+ * - 1〜maxNumber を昇順に並べる
+ * - i = maxNumber-1 から 1 まで、sha256(`${seed}:${i}`) の先頭48bitを整数 r とし、
+ *   j = r mod (i+1) として i と j を入れ替える
+ */
+export function deriveDrawOrder(seed: string, maxNumber: number): number[] {
+  const order = Array.from({ length: maxNumber }, (_, i) => i + 1);
+
+  for (let i = order.length - 1; i > 0; i--) {
+    const digest = createHash('sha256').update(`${seed}:${i}`).digest();
+    const j = digest.readUIntBE(0, 6) % (i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  return order;
+}
+
+/**
+ * 公開されたシードで抽選結果を検証
+ *
+ * @returns commitmentMatches: ハッシュが一致するか / orderMatches: 抽選済み番号が導出した順序の先頭と一致するか
+ */
+export function verifyDrawOrder(
+  seed: string,
+  commitment: string,
+  drawnNumbers: number[],
+  maxNumber: number
+): { commitmentMatches: boolean; orderMatches: boolean; expectedNumbers: number[] } {
+  const expectedNumbers = deriveDrawOrder(seed, maxNumber).slice(0, drawnNumbers.length);
+
+  return {
+    commitmentMatches: hashSeed(seed) === commitment,
+    orderMatches: expectedNumbers.every((num, i) => num === drawnNumbers[i]),
+    expectedNumbers
+  };
+}
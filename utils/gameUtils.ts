@@ -1,4 +1,5 @@
-import { Player } from '@/types';
+import { Player, BingoPattern, GameType, NinetyBallPrize, GAME_CONSTANTS } from '@/types';
+import { evaluatePatterns, DEFAULT_PATTERNS } from '@/utils/patterns';
 
 export function generatePlayerId(): string {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
@@ -179,94 +180,98 @@ export function validateBingoBoard(board: number[][]): boolean {
 
 /**
  * ビンゴ判定
- * 指定された数字でビンゴが成立しているかチェック
+ * 指定された数字とパターンでビンゴが成立しているかチェック
+ * パターン未指定時は縦・横・斜めのラインのみを判定
  */
-export function checkBingo(board: number[][], calledNumbers: number[]): {
+export function checkBingo(
+  board: number[][],
+  calledNumbers: number[],
+  patterns: BingoPattern[] = DEFAULT_PATTERNS
+): {
   isBingo: boolean;
   bingoLines: number;
   winningPatterns: string[];
+  completedPatterns: BingoPattern[];
 } {
-  const marked: boolean[][] = Array(5).fill(null).map(() => Array(5).fill(false));
-  const winningPatterns: string[] = [];
-  let bingoLines = 0;
-  
-  // 中央フリースペースは最初からマーク
-  marked[2][2] = true;
-  
-  // 呼ばれた数字をマーク
-  for (const num of calledNumbers) {
-    for (let row = 0; row < 5; row++) {
-      for (let col = 0; col < 5; col++) {
-        if (board[row][col] === num) {
-          marked[row][col] = true;
-        }
-      }
-    }
-  }
-  
-  // 横のラインをチェック
-  for (let row = 0; row < 5; row++) {
-    if (marked[row].every(cell => cell)) {
-      bingoLines++;
-      winningPatterns.push(`横${row + 1}列目`);
-    }
-  }
-  
-  // 縦のラインをチェック
-  for (let col = 0; col < 5; col++) {
-    let complete = true;
-    for (let row = 0; row < 5; row++) {
-      if (!marked[row][col]) {
-        complete = false;
-        break;
-      }
-    }
-    if (complete) {
-      bingoLines++;
-      const colNames = ['B', 'I', 'N', 'G', 'O'];
-      winningPatterns.push(`縦${colNames[col]}列`);
-    }
-  }
-  
-  // 左上から右下の対角線をチェック
-  let diagonal1 = true;
-  for (let i = 0; i < 5; i++) {
-    if (!marked[i][i]) {
-      diagonal1 = false;
-      break;
-    }
-  }
-  if (diagonal1) {
-    bingoLines++;
-    winningPatterns.push('斜め（左上→右下）');
-  }
-  
-  // 右上から左下の対角線をチェック
-  let diagonal2 = true;
-  for (let i = 0; i < 5; i++) {
-    if (!marked[i][4 - i]) {
-      diagonal2 = false;
-      break;
-    }
-  }
-  if (diagonal2) {
-    bingoLines++;
-    winningPatterns.push('斜め（右上→左下）');
-  }
-  
+  // 中央フリースペース（0）は最初からマーク
+  const marked: boolean[][] = board.map(row =>
+    row.map(num => num === 0 || calledNumbers.includes(num))
+  );
+
+  const { completed, completedPatterns } = evaluatePatterns(marked, patterns);
+
   return {
-    isBingo: bingoLines > 0,
-    bingoLines,
-    winningPatterns
+    isBingo: completed.length > 0,
+    bingoLines: completed.length,
+    winningPatterns: completed.map(shape => shape.name),
+    completedPatterns
   };
 }
 
+/**
+ * 複数カードのビンゴ判定
+ * カードごとに判定し、最も多く揃ったカードの結果とその番号（0始まり）を返す
+ */
+export function checkBingoOnCards(
+  boards: number[][][],
+  calledNumbers: number[],
+  patterns: BingoPattern[] = DEFAULT_PATTERNS
+): ReturnType<typeof checkBingo> & { cardIndex: number } {
+  return boards
+    .map((board, cardIndex) => ({ ...checkBingo(board, calledNumbers, patterns), cardIndex }))
+    .reduce((best, result) => (result.bingoLines > best.bingoLines ? result : best));
+}
+
+/**
+ * ゲーム形式ごとの最大番号（75ボール: 75 / 90ボール: 90 / ワード: 用語数）
+ */
+export function getMaxNumber(gameType: GameType = '75ball', termCount = 0): number {
+  switch (gameType) {
+    case '90ball':
+      return GAME_CONSTANTS.MAX_NUMBER_90;
+    case 'words':
+      return termCount;
+    default:
+      return GAME_CONSTANTS.MAX_NUMBER;
+  }
+}
+
+/**
+ * 抽選済み番号を一覧表示するためのグループ分け
+ * 75ボール: B・I・N・G・Oの列ごと / 90ボール: 1-9、10-19 … 80-90 / ワード: 10語ずつ
+ */
+export function getCallBoardGroups(
+  gameType: GameType = '75ball',
+  termCount = 0
+): { label: string; numbers: number[] }[] {
+  const range = (min: number, max: number) => Array.from({ length: max - min + 1 }, (_, i) => min + i);
+
+  switch (gameType) {
+    case '90ball':
+      return Array.from({ length: 9 }, (_, i) => {
+        const min = i === 0 ? 1 : i * 10;
+        const max = i === 8 ? GAME_CONSTANTS.MAX_NUMBER_90 : i * 10 + 9;
+        return { label: `${min}-${max}`, numbers: range(min, max) };
+      });
+    case 'words':
+      return Array.from({ length: Math.ceil(termCount / 10) }, (_, i) => ({
+        label: '',
+        numbers: range(i * 10 + 1, Math.min(termCount, i * 10 + 10))
+      }));
+    default:
+      return ['B', 'I', 'N', 'G', 'O'].map((letter, i) => ({
+        label: letter,
+        numbers: range(i * 15 + 1, i * 15 + 15)
+      }));
+  }
+}
+
 /**
  * 番号抽選
  * まだ呼ばれていない番号からランダムに選択
  */
-export function drawNumber(calledNumbers: number[]): number | null {
-  const allNumbers = Array.from({ length: 75 }, (_, i) => i + 1);
+export function drawNumber(calledNumbers: number[], gameType: GameType = '75ball', termCount = 0): number | null {
+  const allNumbers = Array.from({ length: getMaxNumber(gameType, termCount) }, (_, i) => i + 1);
   const availableNumbers = allNumbers.filter(num => !calledNumbers.includes(num));
   
   if (availableNumbers.length === 0) {
@@ -277,16 +282,38 @@ export function drawNumber(calledNumbers: number[]): number | null {
   return availableNumbers[randomIndex];
 }
 
+/**
+ * ビンゴレター取得（1-15: B, 16-30: I, 31-45: N, 46-60: G, 61-75: O）
+ * 90ボール・ワードには列の文字がないため空文字を返す
+ */
+export function getBingoLetter(number: number, gameType: GameType = '75ball'): string {
+  if (gameType !== '75ball') return '';
+  if (number <= 15) return 'B';
+  if (number <= 30) return 'I';
+  if (number <= 45) return 'N';
+  if (number <= 60) return 'G';
+  return 'O';
+}
+
 /**
  * 番号を文字付きで表示（B-15、I-20など）
+ * 90ボール・ワードは番号のみ
  */
-export function formatBingoNumber(number: number): string {
-  if (number < 1 || number > 75) {
+export function formatBingoNumber(number: number, gameType: GameType = '75ball'): string {
+  if (gameType !== '75ball' || number < 1 || number > 75) {
     return String(number);
   }
   
-  const column = Math.floor((number - 1) / 15);
-  const columns = ['B', 'I', 'N', 'G', 'O'];
-  
-  return `${columns[column]}-${number}`;
-}
\ No newline at end of file
+  return `${getBingoLetter(number)}-${number}`;
+}
+
+/**
+ * 90ボールの賞を判定
+ * 揃った行の数から 1ライン / 2ライン / フルハウス を返す
+ */
+export function getNinetyBallPrize(completedRows: number): NinetyBallPrize | null {
+  if (completedRows >= GAME_CONSTANTS.TICKET_ROWS) return 'full_house';
+  if (completedRows === 2) return 'two_lines';
+  if (completedRows === 1) return 'one_line';
+  return null;
+}
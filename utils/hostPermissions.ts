@@ -0,0 +1,62 @@
+// utils/hostPermissions.ts
+// メインのホストと共同ホストの判定・権限チェック
+
+import type { CoHost, CoHostPermission, GameSession, HostRole } from '@/types';
+
+// 権限の一覧（画面の表示順）
+export const CO_HOST_PERMISSIONS: CoHostPermission[] = ['draw', 'manage-game', 'moderate-players'];
+
+type HostSession = Pick<GameSession, 'hostId' | 'coHosts'>;
+
+// 以下の actorId は操作者の公開しているID（メインのホストはホストID、共同ホストは CoHost.id）
+// サーバーでは lib/coHosts の resolveHostActorId でトークンを検証してから渡す
+
+/**
+ * 画面で役割を判定するためのID（共同ホストのトークン "id.秘密の値" からIDを取り出す）
+ * トークンは検証しないため、サーバーの権限チェックには使わない
+ */
+export function getActorIdFromCredential(credential: string | null | undefined): string | null {
+  if (!credential) return null;
+  return credential.split('.')[0];
+}
+
+/**
+ * IDに対応する共同ホストを取得
+ */
+export function findCoHost(session: HostSession | null | undefined, actorId: string | null | undefined): CoHost | undefined {
+  if (!session || !actorId) return undefined;
+  return session.coHosts?.find(coHost => coHost.id === actorId);
+}
+
+/**
+ * 操作者の役割（メインのホスト・共同ホスト）を取得（どちらでもない場合はnull）
+ */
+export function getHostRole(session: HostSession | null | undefined, actorId: string | null | undefined): HostRole | null {
+  if (!session || !actorId) return null;
+  if (session.hostId === actorId) return 'host';
+  return findCoHost(session, actorId) ? 'co-host' : null;
+}
+
+/**
+ * 操作者がその操作を行えるか（メインのホストは常に可能）
+ */
+export function hasHostPermission(
+  session: HostSession | null | undefined,
+  actorId: string | null | undefined,
+  permission: CoHostPermission
+): boolean {
+  if (!session || !actorId) return false;
+  if (session.hostId === actorId) return true;
+  return findCoHost(session, actorId)?.permissions.includes(permission) ?? false;
+}
+
+/**
+ * リクエストで受け取った権限の一覧を検証
+ *
+ * @returns 重複を除いた権限（表示順）、空・不正な値を含む場合はnull
+ */
+export function sanitizeCoHostPermissions(input: unknown): CoHostPermission[] | null {
+  if (!Array.isArray(input) || input.length === 0) return null;
+  if (!input.every(value => CO_HOST_PERMISSIONS.includes(value))) return null;
+  return CO_HOST_PERMISSIONS.filter(permission => input.includes(permission));
+}
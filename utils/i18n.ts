@@ -0,0 +1,87 @@
+// utils/i18n.ts
+// 表示言語の解決とメッセージの取得（サーバー・クライアント共通）
+
+import { ja } from '@/locales/ja';
+import { en } from '@/locales/en';
+import type { ErrorCode, Locale, MessageParams, Messages } from '@/types';
+
+// 未設定時は日本語
+export const DEFAULT_LOCALE: Locale = 'ja';
+
+// 選択できる言語
+export const LOCALES: Locale[] = ['ja', 'en'];
+
+// 言語の表示名（切り替え時に読めるよう、それぞれの言語で表記する）
+export const LOCALE_LABELS: Record<Locale, string> = {
+  ja: '日本語',
+  en: 'English'
+};
+
+// 日時の表示に使う言語タグ
+export const LOCALE_TAGS: Record<Locale, string> = {
+  ja: 'ja-JP',
+  en: 'en-US'
+};
+
+// 選んだ言語を保存するCookie（APIのエラーメッセージもこの言語で返す）
+export const LOCALE_COOKIE = 'locale';
+
+const MESSAGES: Record<Locale, Messages> = { ja, en };
+
+/**
+ * 言語の指定を検証
+ *
+ * @returns 対応している言語、不正な場合はnull
+ */
+export function sanitizeLocale(input: unknown): Locale | null {
+  return typeof input === 'string' && (LOCALES as string[]).includes(input) ? input as Locale : null;
+}
+
+/**
+ * 言語の指定を解決（未設定・不正な場合はデフォルト）
+ */
+export function resolveLocale(input: unknown): Locale {
+  return sanitizeLocale(input) ?? DEFAULT_LOCALE;
+}
+
+/**
+ * 言語のメッセージを取得
+ */
+export function getMessages(locale: Locale = DEFAULT_LOCALE): Messages {
+  return MESSAGES[locale] ?? MESSAGES[DEFAULT_LOCALE];
+}
+
+/**
+ * メッセージの {name} を値で置き換える
+ */
+export function formatMessage(template: string, params?: MessageParams): string {
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in params ? String(params[key]) : match
+  );
+}
+
+/**
+ * エラーコードのメッセージを取得
+ */
+export function getErrorMessage(code: ErrorCode, locale: Locale = DEFAULT_LOCALE, params?: MessageParams): string {
+  return formatMessage(getMessages(locale).errors[code], params);
+}
+
+/**
+ * ブラウザに保存された言語を取得
+ *
+ * @returns 保存された言語、未選択（またはサーバー側）の場合はnull
+ */
+export function getSavedLocale(): Locale | null {
+  if (typeof document === 'undefined') return null;
+  const match = document.cookie.match(new RegExp(`(?:^|;\\s*)${LOCALE_COOKIE}=([^;]*)`));
+  return sanitizeLocale(match?.[1]);
+}
+
+/**
+ * ブラウザで選ばれている言語を取得（未選択・サーバー側ではデフォルト）
+ */
+export function getClientLocale(): Locale {
+  return getSavedLocale() ?? DEFAULT_LOCALE;
+}
@@ -0,0 +1,39 @@
+// utils/lateJoin.ts
+// ゲーム途中の参加（途中参加）の設定と入賞資格の判定
+
+import type { GameRules, LateJoinMode, Player } from '@/types';
+
+// 未設定時は途中参加不可
+export const DEFAULT_LATE_JOIN_MODE: LateJoinMode = 'off';
+
+/**
+ * セッションのルールから途中参加の設定を取得
+ */
+export function resolveLateJoinMode(rules?: Partial<GameRules> | null): LateJoinMode {
+  const mode = rules?.lateJoin;
+  return mode === 'current' || mode === 'next-round' ? mode : DEFAULT_LATE_JOIN_MODE;
+}
+
+/**
+ * リクエストで受け取った途中参加の設定を検証
+ *
+ * @returns 途中参加の設定（未指定はデフォルト）、不正な場合はnull
+ */
+export function sanitizeLateJoinMode(input: unknown): LateJoinMode | null {
+  if (input === undefined) return DEFAULT_LATE_JOIN_MODE;
+  return input === 'off' || input === 'current' || input === 'next-round' ? input : null;
+}
+
+/**
+ * ゲーム途中に参加したプレイヤーか
+ */
+export function isLateJoiner(player: Pick<Player, 'lateJoinedAtDraw'>): boolean {
+  return player.lateJoinedAtDraw !== undefined && player.lateJoinedAtDraw !== null;
+}
+
+/**
+ * 進行中のラウンドで入賞できるか（途中参加で次のラウンドからの場合は対象外）
+ */
+export function canPlayerWin(player: Pick<Player, 'waitingForNextRound'>): boolean {
+  return player.waitingForNextRound !== true;
+}
@@ -0,0 +1,56 @@
+// utils/paperCards.ts
+// 印刷用の紙のカード（シリアル番号の発行・照合）
+
+import { customAlphabet } from 'nanoid';
+import { GAME_CONSTANTS } from '@/types';
+import type { GameSession, PaperCard } from '@/types';
+import { getPlayerBoards } from '@/utils/bingo';
+
+const generateSerial = customAlphabet(
+  GAME_CONSTANTS.PAPER_CARD_SERIAL_CHARSET,
+  GAME_CONSTANTS.PAPER_CARD_SERIAL_LENGTH
+);
+
+/**
+ * セッション内で重複しないシリアル番号を生成
+ */
+export function generatePaperCardSerial(existingSerials: Set<string>): string {
+  for (;;) {
+    const serial = generateSerial();
+    if (!existingSerials.has(serial)) return serial;
+  }
+}
+
+/**
+ * 入力されたシリアル番号を照合用に正規化（大文字に揃え、空白とハイフンを除く）
+ */
+export function normalizePaperCardSerial(input: string): string {
+  return input.toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * 印刷用にシリアル番号を区切って表示（「ABC-DEF」）
+ */
+export function formatPaperCardSerial(serial: string): string {
+  const half = Math.ceil(serial.length / 2);
+  return `${serial.slice(0, half)}-${serial.slice(half)}`;
+}
+
+/**
+ * シリアル番号から紙のカードを探す
+ */
+export function findPaperCard(paperCards: PaperCard[] = [], input: string): PaperCard | undefined {
+  const serial = normalizePaperCardSerial(input);
+  return paperCards.find(paperCard => paperCard.serial === serial);
+}
+
+/**
+ * セッション内の全カード（参加者のカードと紙のカード）
+ * 新しいカードを配るときに、同じカード・似すぎたカードにならないよう比較する
+ */
+export function getAllSessionCards(session: Pick<GameSession, 'players' | 'paperCards'>): number[][][] {
+  return [
+    ...session.players.flatMap(player => getPlayerBoards(player)),
+    ...(session.paperCards || []).map(paperCard => paperCard.card)
+  ];
+}
@@ -0,0 +1,104 @@
+// utils/patterns.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_PATTERNS,
+  evaluatePatterns,
+  getPatternShapes,
+  getShapeLabel,
+  resolvePatterns,
+  sanitizePatterns
+} from '@/utils/patterns';
+
+// 指定したマスだけマーク済みの5×5（中央FREEはマーク済み）
+const markCells = (cells: [number, number][], size = 5): boolean[][] => {
+  const marked = Array.from({ length: size }, () => Array(size).fill(false));
+  if (size === 5) marked[2][2] = true;
+  cells.forEach(([row, col]) => { marked[row][col] = true; });
+  return marked;
+};
+
+describe('getPatternShapes', () => {
+  it('5×5のラインは横5・縦5・斜め2の12本', () => {
+    const shapes = getPatternShapes(['line']);
+    expect(shapes).toHaveLength(12);
+    expect(shapes.map(shape => shape.name)).toEqual(expect.arrayContaining([
+      '横1列目', '横5列目', '縦B列', '縦O列', '斜め（左上→右下）', '斜め（右上→左下）'
+    ]));
+  });
+
+  it('各パターンのマス数', () => {
+    const cellCount = (pattern: Parameters<typeof getPatternShapes>[0]) =>
+      getPatternShapes(pattern)[0].cells.length;
+
+    expect(cellCount(['four_corners'])).toBe(4);
+    expect(cellCount(['x'])).toBe(9);
+    expect(cellCount(['t'])).toBe(9);
+    expect(cellCount(['frame'])).toBe(16);
+    expect(cellCount(['blackout'])).toBe(25);
+  });
+
+  it('90ボールのチケットは各行とフルハウスのみ判定する', () => {
+    const shapes = getPatternShapes(['line', 'x', 'blackout'], 3, 9);
+    expect(shapes.map(shape => shape.name)).toEqual(['1行目', '2行目', '3行目', 'フルハウス']);
+    expect(shapes[3].cells).toHaveLength(27);
+  });
+});
+
+describe('evaluatePatterns', () => {
+  it('揃った形とあと1マスの形を返す', () => {
+    const marked = markCells([[0, 0], [0, 1], [0, 2], [0, 3], [0, 4], [1, 1], [3, 3]]);
+    const result = evaluatePatterns(marked, ['line']);
+
+    expect(result.completed.map(shape => shape.name)).toEqual(['横1列目']);
+    expect(result.reach.map(shape => shape.name)).toContain('斜め（左上→右下）');
+    expect(result.completedPatterns).toEqual(['line']);
+  });
+
+  it('中央FREEは斜めの一部として数える', () => {
+    const marked = markCells([[0, 0], [1, 1], [3, 3], [4, 4]]);
+    expect(evaluatePatterns(marked).completed.map(shape => shape.name)).toEqual(['斜め（左上→右下）']);
+  });
+
+  it('有効でないパターンは判定しない', () => {
+    const marked = markCells([[0, 0], [0, 4], [4, 0], [4, 4]]);
+    expect(evaluatePatterns(marked, ['line']).completed).toHaveLength(0);
+    expect(evaluatePatterns(marked, ['four_corners']).completedPatterns).toEqual(['four_corners']);
+  });
+});
+
+describe('resolvePatterns', () => {
+  it('未設定・空の場合はラインのみ', () => {
+    expect(resolvePatterns()).toEqual(DEFAULT_PATTERNS);
+    expect(resolvePatterns({ patterns: [] })).toEqual(DEFAULT_PATTERNS);
+    expect(resolvePatterns({ patterns: ['x'] })).toEqual(['x']);
+  });
+});
+
+describe('sanitizePatterns', () => {
+  it('未指定はラインのみ', () => {
+    expect(sanitizePatterns(undefined)).toEqual(DEFAULT_PATTERNS);
+  });
+
+  it('空・配列以外・不明なパターンはnull', () => {
+    expect(sanitizePatterns([])).toBeNull();
+    expect(sanitizePatterns('line')).toBeNull();
+    expect(sanitizePatterns(['line', 'diamond'])).toBeNull();
+  });
+
+  it('表示順に揃えて重複を除く', () => {
+    expect(sanitizePatterns(['blackout', 'line', 'blackout'])).toEqual(['line', 'blackout']);
+  });
+});
+
+describe('getShapeLabel', () => {
+  it('保存済みの形の名前を表示言語に変換する', () => {
+    expect(getShapeLabel('横2列目', 'en')).toBe('Row 2');
+    expect(getShapeLabel('縦G列', 'en')).toBe('Column G');
+    expect(getShapeLabel('フルハウス', 'en')).toBe('Full house');
+    expect(getShapeLabel('横2列目', 'ja')).toBe('横2列目');
+  });
+
+  it('不明な名前はそのまま返す', () => {
+    expect(getShapeLabel('unknown', 'en')).toBe('unknown');
+  });
+});
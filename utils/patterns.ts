@@ -0,0 +1,230 @@
+// utils/patterns.ts
+// 当たりパターン（ライン・四隅・X・T字・額縁・ブラックアウト）の定義と判定
+
+import type { BingoPattern, GameRules, Locale } from '@/types';
+import { formatMessage, getMessages } from '@/utils/i18n';
+
+/**
+ * 判定対象となる1つの形
+ * 例: 「横1列目」「四隅」など、揃えば1ビンゴとして数える
+ */
+export interface PatternShape {
+  pattern: BingoPattern;
+  name: string;
+  cells: [number, number][];
+}
+
+/**
+ * パターン判定の結果
+ */
+export interface PatternEvaluation {
+  completed: PatternShape[];
+  reach: PatternShape[];
+  completedPatterns: BingoPattern[];
+}
+
+// 全パターン（表示順）
+export const ALL_BINGO_PATTERNS: BingoPattern[] = ['line', 'four_corners', 'x', 't', 'frame', 'blackout'];
+
+// 未設定時は従来通りライン（縦・横・斜め）のみ
+export const DEFAULT_PATTERNS: BingoPattern[] = ['line'];
+
+// パターンの名前（形の名前として申告履歴に保存するため日本語で固定。画面の表示は getShapeLabel で変換する）
+export const BINGO_PATTERN_LABELS: Record<BingoPattern, string> = {
+  line: 'ライン（縦・横・斜め）',
+  four_corners: '四隅',
+  x: 'X（バツ）',
+  t: 'T字',
+  frame: '額縁',
+  blackout: 'ブラックアウト（全マス）'
+};
+
+const COLUMN_NAMES = ['B', 'I', 'N', 'G', 'O'];
+
+/**
+ * 形の名前を表示言語に変換
+ *
+ * 形の名前は申告の照合に使う識別子なので、保存済みの名前を表示するときにこの関数を通す
+ */
+export function getShapeLabel(name: string, locale?: Locale): string {
+  const messages = getMessages(locale);
+
+  const pattern = (Object.keys(BINGO_PATTERN_LABELS) as BingoPattern[])
+    .find(key => BINGO_PATTERN_LABELS[key] === name);
+  if (pattern) return messages.labels.patterns[pattern];
+  if (name === 'フルハウス') return messages.shapes.fullHouse;
+  if (name === '斜め（左上→右下）') return messages.shapes.diagonalDown;
+  if (name === '斜め（右上→左下）') return messages.shapes.diagonalUp;
+
+  const row = name.match(/^(\d+)行目$/);
+  if (row) return formatMessage(messages.shapes.row, { row: row[1] });
+  const horizontal = name.match(/^横(\d+)列目$/);
+  if (horizontal) return formatMessage(messages.shapes.horizontal, { row: horizontal[1] });
+  const vertical = name.match(/^縦(.+)列$/);
+  if (vertical) return formatMessage(messages.shapes.vertical, { column: vertical[1] });
+
+  return name;
+}
+
+
+/**
+ * 指定パターンを構成する形の一覧を返す
+ *
+ * 90ボールのチケット（3×9）のように正方形でないカードでは、
+ * ライン（横の行のみ）とブラックアウト（フルハウス）だけを判定する
+ *
+ * @param patterns 有効なパターン
+ * @param rows カードの行数
+ * @param columns カードの列数
+ */
+export function getPatternShapes(
+  patterns: BingoPattern[] = DEFAULT_PATTERNS,
+  rows = 5,
+  columns = rows
+): PatternShape[] {
+  const shapes: PatternShape[] = [];
+
+  if (rows !== columns) {
+    for (const pattern of patterns) {
+      if (pattern === 'line') {
+        for (let row = 0; row < rows; row++) {
+          shapes.push({
+            pattern,
+            name: `${row + 1}行目`,
+            cells: Array.from({ length: columns }, (_, col) => [row, col] as [number, number])
+          });
+        }
+      } else if (pattern === 'blackout') {
+        shapes.push({
+          pattern,
+          name: 'フルハウス',
+          cells: Array.from({ length: rows * columns }, (_, i) => [Math.floor(i / columns), i % columns] as [number, number])
+        });
+      }
+    }
+    return shapes;
+  }
+
+  const size = rows;
+  const last = size - 1;
+  const range = Array.from({ length: size }, (_, i) => i);
+
+  const diagonal1 = range.map(i => [i, i] as [number, number]);
+  const diagonal2 = range.map(i => [i, last - i] as [number, number]);
+
+  for (const pattern of patterns) {
+    switch (pattern) {
+      case 'line':
+        range.forEach(row => {
+          shapes.push({ pattern, name: `横${row + 1}列目`, cells: range.map(col => [row, col]) });
+        });
+        range.forEach(col => {
+          shapes.push({ pattern, name: `縦${COLUMN_NAMES[col] ?? col + 1}列`, cells: range.map(row => [row, col]) });
+        });
+        shapes.push({ pattern, name: '斜め（左上→右下）', cells: diagonal1 });
+        shapes.push({ pattern, name: '斜め（右上→左下）', cells: diagonal2 });
+        break;
+
+      case 'four_corners':
+        shapes.push({ pattern, name: BINGO_PATTERN_LABELS[pattern], cells: [[0, 0], [0, last], [last, 0], [last, last]] });
+        break;
+
+      case 'x':
+        // 中央マスは両対角線で共有されるため重複を除く
+        shapes.push({
+          pattern,
+          name: BINGO_PATTERN_LABELS[pattern],
+          cells: [...diagonal1, ...diagonal2.filter(([row, col]) => row !== col)]
+        });
+        break;
+
+      case 't':
+        // 最上段 + 中央の縦列
+        shapes.push({
+          pattern,
+          name: BINGO_PATTERN_LABELS[pattern],
+          cells: [
+            ...range.map(col => [0, col] as [number, number]),
+            ...range.slice(1).map(row => [row, Math.floor(size / 2)] as [number, number])
+          ]
+        });
+        break;
+
+      case 'frame':
+        shapes.push({
+          pattern,
+          name: BINGO_PATTERN_LABELS[pattern],
+          cells: range.flatMap(row =>
+            range
+              .filter(col => row === 0 || row === last || col === 0 || col === last)
+              .map(col => [row, col] as [number, number])
+          )
+        });
+        break;
+
+      case 'blackout':
+        shapes.push({
+          pattern,
+          name: BINGO_PATTERN_LABELS[pattern],
+          cells: range.flatMap(row => range.map(col => [row, col] as [number, number]))
+        });
+        break;
+    }
+  }
+
+  return shapes;
+}
+
+/**
+ * マーク状態から完成・リーチの形を判定
+ * リーチは「あと1マスで完成」の形
+ *
+ * @param marked マーク済みかどうかの2次元配列（FREEはtrue）
+ * @param patterns 有効なパターン
+ */
+export function evaluatePatterns(marked: boolean[][], patterns: BingoPattern[] = DEFAULT_PATTERNS): PatternEvaluation {
+  const completed: PatternShape[] = [];
+  const reach: PatternShape[] = [];
+
+  for (const shape of getPatternShapes(patterns, marked.length, marked[0]?.length ?? marked.length)) {
+    const missing = shape.cells.filter(([row, col]) => !marked[row]?.[col]).length;
+
+    if (missing === 0) {
+      completed.push(shape);
+    } else if (missing === 1) {
+      reach.push(shape);
+    }
+  }
+
+  return {
+    completed,
+    reach,
+    completedPatterns: [...new Set(completed.map(shape => shape.pattern))]
+  };
+}
+
+/**
+ * セッションのルールから有効なパターンを取得
+ */
+export function resolvePatterns(rules?: Partial<GameRules> | null): BingoPattern[] {
+  return rules?.patterns && rules.patterns.length > 0 ? rules.patterns : DEFAULT_PATTERNS;
+}
+
+/**
+ * リクエストで受け取ったパターン指定を検証・正規化
+ *
+ * @returns 正規化済みのパターン、不正な場合はnull
+ */
+export function sanitizePatterns(input: unknown): BingoPattern[] | null {
+  if (input === undefined) return DEFAULT_PATTERNS;
+  if (!Array.isArray(input) || input.length === 0) return null;
+
+  const patterns = input.filter((p): p is BingoPattern =>
+    typeof p === 'string' && (ALL_BINGO_PATTERNS as string[]).includes(p)
+  );
+
+  if (patterns.length !== input.length) return null;
+
+  // 表示順に揃えて重複を除く
+  return ALL_BINGO_PATTERNS.filter(p => patterns.includes(p));
+}
@@ -0,0 +1,197 @@
+// utils/prizes.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  findPrizeAwards,
+  findPrizeAwardsForClaim,
+  getMaxPrizeLines,
+  isPrizeTierSatisfied,
+  sanitizePrizeTiers
+} from '@/utils/prizes';
+import type { BingoClaim, Player, PrizeTier } from '@/types';
+
+const CARD = [
+  [1, 16, 31, 46, 61],
+  [2, 17, 32, 47, 62],
+  [3, 18, 0, 48, 63],
+  [4, 19, 33, 49, 64],
+  [5, 20, 34, 50, 65]
+];
+
+const ROW_1 = [1, 16, 31, 46, 61];
+const ROW_2 = [2, 17, 32, 47, 62];
+
+const TIERS: PrizeTier[] = [
+  { id: 'tier1', label: '1ライン', lines: 1 },
+  { id: 'tier2', label: '2ライン', lines: 2 },
+  { id: 'tier3', label: '四隅', pattern: 'four_corners' }
+];
+
+const AWARDED_AT = '2026-01-01T00:00:00.000Z';
+
+const createPlayer = (id: string, overrides: Partial<Player> = {}): Player => ({
+  id,
+  name: id,
+  board: CARD,
+  joinedAt: AWARDED_AT,
+  isConnected: true,
+  bingoCount: 0,
+  ...overrides
+});
+
+// 抽選番号と重ならないカード
+const OTHER_CARD = CARD.map(row => row.map(num => (num === 0 ? 0 : num + 100)));
+
+const markNumbers = (numbers: number[]): boolean[][] =>
+  CARD.map(row => row.map(num => num === 0 || numbers.includes(num)));
+
+describe('sanitizePrizeTiers', () => {
+  it('未指定は空配列', () => {
+    expect(sanitizePrizeTiers(undefined)).toEqual([]);
+  });
+
+  it('IDを振り、名前の前後の空白を除く', () => {
+    expect(sanitizePrizeTiers([
+      { label: ' 1ライン ', lines: 1 },
+      { label: 'ブラックアウト', pattern: 'blackout' }
+    ])).toEqual([
+      { id: 'tier1', label: '1ライン', lines: 1 },
+      { id: 'tier2', label: 'ブラックアウト', pattern: 'blackout' }
+    ]);
+  });
+
+  it('ライン数とパターンの両方・どちらもない指定はnull', () => {
+    expect(sanitizePrizeTiers([{ label: 'a', lines: 1, pattern: 'x' }])).toBeNull();
+    expect(sanitizePrizeTiers([{ label: 'a' }])).toBeNull();
+  });
+
+  it('名前が空・長すぎる指定はnull', () => {
+    expect(sanitizePrizeTiers([{ label: '  ', lines: 1 }])).toBeNull();
+    expect(sanitizePrizeTiers([{ label: 'a'.repeat(21), lines: 1 }])).toBeNull();
+  });
+
+  it('ライン数の上限・ゲーム形式で使えないパターンはnull', () => {
+    expect(sanitizePrizeTiers([{ label: 'a', lines: 12 }])).not.toBeNull();
+    expect(sanitizePrizeTiers([{ label: 'a', lines: 13 }])).toBeNull();
+    expect(sanitizePrizeTiers([{ label: 'a', lines: 4 }], '90ball')).toBeNull();
+    expect(sanitizePrizeTiers([{ label: 'a', pattern: 'x' }], '90ball')).toBeNull();
+    expect(sanitizePrizeTiers([{ label: 'a', pattern: 'line' }])).toBeNull();
+  });
+
+  it('賞の数の上限を超える指定はnull', () => {
+    expect(sanitizePrizeTiers(Array.from({ length: 6 }, () => ({ label: 'a', lines: 1 })))).toBeNull();
+  });
+});
+
+describe('getMaxPrizeLines', () => {
+  it('75ボールは12本、90ボールは3行', () => {
+    expect(getMaxPrizeLines('75ball')).toBe(12);
+    expect(getMaxPrizeLines('90ball')).toBe(3);
+  });
+});
+
+describe('isPrizeTierSatisfied', () => {
+  it('揃ったライン数・パターンで判定する', () => {
+    const oneLine = markNumbers(ROW_1);
+    const twoLines = markNumbers([...ROW_1, ...ROW_2]);
+
+    expect(isPrizeTierSatisfied(TIERS[0], oneLine)).toBe(true);
+    expect(isPrizeTierSatisfied(TIERS[1], oneLine)).toBe(false);
+    expect(isPrizeTierSatisfied(TIERS[1], twoLines)).toBe(true);
+    expect(isPrizeTierSatisfied(TIERS[2], twoLines)).toBe(false);
+    expect(isPrizeTierSatisfied(TIERS[2], markNumbers([1, 5, 61, 65]))).toBe(true);
+  });
+});
+
+describe('findPrizeAwards', () => {
+  it('未確定の賞ごとに、条件を満たした全員を同着の獲得者にする', () => {
+    const awards = findPrizeAwards({
+      players: [createPlayer('a'), createPlayer('b'), createPlayer('c', { board: OTHER_CARD })],
+      numbers: ROW_1,
+      rules: { patterns: ['line'], prizeTiers: TIERS },
+      prizeAwards: []
+    }, AWARDED_AT);
+
+    expect(awards).toEqual([{
+      tierId: 'tier1',
+      label: '1ライン',
+      winners: [
+        { playerId: 'a', playerName: 'a', cardIndex: 0 },
+        { playerId: 'b', playerName: 'b', cardIndex: 0 }
+      ],
+      drawCount: 5,
+      number: 61,
+      awardedAt: AWARDED_AT
+    }]);
+  });
+
+  it('確定済みの賞と、次のラウンドまで入賞の対象外のプレイヤーは除く', () => {
+    const awards = findPrizeAwards({
+      players: [createPlayer('a', { waitingForNextRound: true })],
+      numbers: [...ROW_1, ...ROW_2],
+      rules: { patterns: ['line'], prizeTiers: TIERS },
+      prizeAwards: []
+    }, AWARDED_AT);
+    expect(awards).toEqual([]);
+
+    const awarded = findPrizeAwards({
+      players: [createPlayer('b')],
+      numbers: [...ROW_1, ...ROW_2],
+      rules: { patterns: ['line'], prizeTiers: TIERS },
+      prizeAwards: [{ tierId: 'tier1', label: '1ライン', winners: [], drawCount: 5, number: 61, awardedAt: AWARDED_AT }]
+    }, AWARDED_AT);
+    expect(awarded.map(award => award.tierId)).toEqual(['tier2']);
+  });
+
+  it('複数カードでは条件を満たした最初のカードを記録する', () => {
+    const awards = findPrizeAwards({
+      players: [createPlayer('a', { board: OTHER_CARD, boards: [OTHER_CARD, CARD] })],
+      numbers: ROW_1,
+      rules: { patterns: ['line'], prizeTiers: [TIERS[0]] },
+      prizeAwards: []
+    }, AWARDED_AT);
+
+    expect(awards[0].winners).toEqual([{ playerId: 'a', playerName: 'a', cardIndex: 1 }]);
+  });
+});
+
+describe('findPrizeAwardsForClaim', () => {
+  const createClaim = (overrides: Partial<BingoClaim> = {}): BingoClaim => ({
+    id: 'c1',
+    playerId: 'a',
+    playerName: 'a',
+    cardIndex: 0,
+    marks: ROW_1,
+    status: 'accepted',
+    drawCount: 5,
+    claimedAt: AWARDED_AT,
+    ...overrides
+  });
+
+  it('申告時点の抽選済み番号とマークで判定する', () => {
+    const session = { numbers: [...ROW_1, 99], rules: { patterns: ['line' as const], prizeTiers: TIERS }, prizeAwards: [] };
+
+    expect(findPrizeAwardsForClaim(session, createClaim(), CARD, AWARDED_AT).map(award => award.tierId))
+      .toEqual(['tier1']);
+    // 申告時点でまだ抽選されていない番号のマークは数えない
+    expect(findPrizeAwardsForClaim(session, createClaim({ drawCount: 4 }), CARD, AWARDED_AT)).toEqual([]);
+  });
+
+  it('同じ抽選数で確定済みの賞には同着として加え、別の抽選数や獲得済みの場合は加えない', () => {
+    const existing = {
+      tierId: 'tier1',
+      label: '1ライン',
+      winners: [{ playerId: 'b', playerName: 'b', cardIndex: 0 }],
+      drawCount: 5,
+      number: 61,
+      awardedAt: AWARDED_AT
+    };
+    const rules = { patterns: ['line' as const], prizeTiers: [TIERS[0]] };
+
+    expect(findPrizeAwardsForClaim({ numbers: ROW_1, rules, prizeAwards: [existing] }, createClaim(), CARD, AWARDED_AT))
+      .toHaveLength(1);
+    expect(findPrizeAwardsForClaim({ numbers: ROW_1, rules, prizeAwards: [{ ...existing, drawCount: 4 }] }, createClaim(), CARD, AWARDED_AT))
+      .toEqual([]);
+    expect(findPrizeAwardsForClaim({ numbers: ROW_1, rules, prizeAwards: [existing] }, createClaim({ playerId: 'b' }), CARD, AWARDED_AT))
+      .toEqual([]);
+  });
+});
@@ -0,0 +1,186 @@
+// utils/prizes.ts
+// 段階ごとの賞（1ライン・2ライン・ブラックアウトなど）の設定と判定
+
+import { GAME_CONSTANTS } from '@/types';
+import type {
+  BingoClaim,
+  BingoPattern,
+  GameSession,
+  GameType,
+  Locale,
+  Player,
+  PrizeAward,
+  PrizeTier,
+  PrizeWinner
+} from '@/types';
+import { ALL_BINGO_PATTERNS, evaluatePatterns, getPatternShapes } from '@/utils/patterns';
+import { formatMessage, getMessages } from '@/utils/i18n';
+import { getPlayerBoards } from '@/utils/bingo';
+import { canPlayerWin } from '@/utils/lateJoin';
+
+// 作成画面で入力する賞（IDはサーバーで振る）
+export type PrizeTierInput = Omit<PrizeTier, 'id'>;
+
+/**
+ * 定番の賞（作成画面のプリセット。賞の名前は作成時の言語で入れる）
+ */
+export function getPrizeTierPresets(gameType: GameType = '75ball', locale?: Locale): PrizeTierInput[] {
+  const messages = getMessages(locale);
+  return [
+    { label: messages.prizes.oneLine, lines: 1 },
+    { label: messages.prizes.twoLines, lines: 2 },
+    { label: gameType === '90ball' ? messages.prizes.fullHouse : messages.prizes.blackout, pattern: 'blackout' }
+  ];
+}
+
+/**
+ * 賞に指定できるライン数の上限（75ボール・ワード: 縦横斜めの12本 / 90ボール: 3行）
+ */
+export function getMaxPrizeLines(gameType: GameType = '75ball'): number {
+  return gameType === '90ball'
+    ? getPatternShapes(['line'], GAME_CONSTANTS.TICKET_ROWS, GAME_CONSTANTS.TICKET_COLUMNS).length
+    : getPatternShapes(['line'], GAME_CONSTANTS.BINGO_SIZE).length;
+}
+
+/**
+ * 賞に指定できるパターン（90ボールのチケットはフルハウスのみ）
+ */
+export function getPrizeTierPatterns(gameType: GameType = '75ball'): BingoPattern[] {
+  return gameType === '90ball'
+    ? ['blackout']
+    : ALL_BINGO_PATTERNS.filter(pattern => pattern !== 'line');
+}
+
+/**
+ * 賞の達成条件の表示名
+ */
+export function describePrizeTier(tier: PrizeTierInput, gameType: GameType = '75ball', locale?: Locale): string {
+  const messages = getMessages(locale);
+  if (tier.pattern) {
+    return gameType === '90ball' && tier.pattern === 'blackout'
+      ? messages.prizes.fullHouse
+      : messages.labels.patterns[tier.pattern];
+  }
+  return formatMessage(messages.prizes.linesOrMore, { lines: tier.lines ?? 1 });
+}
+
+/**
+ * リクエストで受け取った賞の指定を検証・正規化
+ *
+ * @returns 正規化済みの賞（未指定は空配列）、不正な場合はnull
+ */
+export function sanitizePrizeTiers(input: unknown, gameType: GameType = '75ball'): PrizeTier[] | null {
+  if (input === undefined) return [];
+  if (!Array.isArray(input) || input.length > GAME_CONSTANTS.MAX_PRIZE_TIERS) return null;
+
+  const maxLines = getMaxPrizeLines(gameType);
+  const patterns = getPrizeTierPatterns(gameType);
+  const tiers: PrizeTier[] = [];
+
+  for (const [index, item] of input.entries()) {
+    if (typeof item !== 'object' || item === null) return null;
+
+    const { label, lines, pattern } = item as Partial<PrizeTier>;
+    const trimmedLabel = typeof label === 'string' ? label.trim() : '';
+    if (!trimmedLabel || trimmedLabel.length > GAME_CONSTANTS.PRIZE_LABEL_MAX_LENGTH) return null;
+
+    // ライン数とパターンはどちらか一方のみ
+    if ((lines === undefined) === (pattern === undefined)) return null;
+
+    if (lines !== undefined) {
+      if (typeof lines !== 'number' || !Number.isInteger(lines) || lines < 1 || lines > maxLines) return null;
+      tiers.push({ id: `tier${index + 1}`, label: trimmedLabel, lines });
+    } else {
+      if (!patterns.includes(pattern as BingoPattern)) return null;
+      tiers.push({ id: `tier${index + 1}`, label: trimmedLabel, pattern });
+    }
+  }
+
+  return tiers;
+}
+
+/**
+ * 1枚のカードのマーク状態が賞の条件を満たすか
+ */
+export function isPrizeTierSatisfied(tier: PrizeTier, marked: boolean[][]): boolean {
+  if (tier.pattern) {
+    return evaluatePatterns(marked, [tier.pattern]).completed.length > 0;
+  }
+  return evaluatePatterns(marked, ['line']).completed.length >= (tier.lines ?? 1);
+}
+
+// 0（FREE・90ボールの空白）は常にマーク済み
+const getMarkedCells = (board: number[][], marks: Set<number>): boolean[][] =>
+  board.map(row => row.map(num => num === 0 || marks.has(num)));
+
+const createWinner = (player: Pick<Player, 'id' | 'name'>, cardIndex: number): PrizeWinner => ({
+  playerId: player.id,
+  playerName: player.name,
+  cardIndex
+});
+
+const createAward = (tier: PrizeTier, winners: PrizeWinner[], drawnNumbers: number[], awardedAt: string): PrizeAward => ({
+  tierId: tier.id,
+  label: tier.label,
+  winners,
+  drawCount: drawnNumbers.length,
+  number: drawnNumbers[drawnNumbers.length - 1] ?? null,
+  awardedAt
+});
+
+/**
+ * 抽選済み番号で新たに達成された賞（自動マーク用）
+ * まだ確定していない賞ごとに、この抽選で条件を満たした全員を同着の獲得者とする
+ * （途中参加で入賞が次のラウンドからのプレイヤーは除く）
+ */
+export function findPrizeAwards(
+  session: Pick<GameSession, 'players' | 'numbers' | 'rules' | 'prizeAwards'>,
+  awardedAt: string
+): PrizeAward[] {
+  const awardedTierIds = new Set((session.prizeAwards || []).map(award => award.tierId));
+  const tiers = (session.rules?.prizeTiers || []).filter(tier => !awardedTierIds.has(tier.id));
+  if (tiers.length === 0) return [];
+
+  const drawn = new Set(session.numbers);
+  const playerCards = session.players.filter(canPlayerWin).map(player => ({
+    player,
+    cards: getPlayerBoards(player).map(board => getMarkedCells(board, drawn))
+  }));
+
+  return tiers.flatMap(tier => {
+    const winners = playerCards.flatMap(({ player, cards }) => {
+      const cardIndex = cards.findIndex(marked => isPrizeTierSatisfied(tier, marked));
+      return cardIndex >= 0 ? [createWinner(player, cardIndex)] : [];
+    });
+
+    return winners.length > 0 ? [createAward(tier, winners, session.numbers, awardedAt)] : [];
+  });
+}
+
+/**
+ * 承認された申告で達成した賞（手動マーク・ホスト確認用）
+ * 申告時点のマークで判定し、未確定の賞は新しく確定、
+ * 同じ抽選数で確定済みの賞には同着の獲得者として加える
+ */
+export function findPrizeAwardsForClaim(
+  session: Pick<GameSession, 'numbers' | 'rules' | 'prizeAwards'>,
+  claim: BingoClaim,
+  board: number[][],
+  awardedAt: string
+): PrizeAward[] {
+  const awards = session.prizeAwards || [];
+  const drawnAtClaim = session.numbers.slice(0, claim.drawCount);
+  const drawn = new Set(drawnAtClaim);
+  const marked = getMarkedCells(board, new Set(claim.marks.filter(num => drawn.has(num))));
+  const winner = createWinner({ id: claim.playerId, name: claim.playerName }, claim.cardIndex ?? 0);
+
+  return (session.rules?.prizeTiers || [])
+    .filter(tier => {
+      const existing = awards.find(award => award.tierId === tier.id);
+      if (existing && (existing.drawCount !== claim.drawCount || existing.winners.some(w => w.playerId === claim.playerId))) {
+        return false;
+      }
+      return isPrizeTierSatisfied(tier, marked);
+    })
+    .map(tier => createAward(tier, [winner], drawnAtClaim, awardedAt));
+}
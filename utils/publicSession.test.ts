@@ -0,0 +1,33 @@
+// utils/publicSession.test.ts
+import { describe, expect, it } from 'vitest';
+import { toPublicSession } from '@/utils/publicSession';
+import type { GameSession } from '@/types';
+
+const SESSION = {
+  _id: 'mongo-id',
+  sessionId: 'ABC123',
+  gameName: 'テスト',
+  hostId: 'host-secret',
+  accessToken: 'token-secret',
+  status: 'playing',
+  players: [],
+  numbers: [1, 2],
+  currentNumber: 2,
+  claims: [],
+  auditLog: [],
+  paperCards: [{ serial: 'ABCD2345', card: [[1]], createdAt: '2026-01-01T00:00:00.000Z' }]
+} as unknown as GameSession;
+
+describe('toPublicSession', () => {
+  it('ホストの認証情報と申告・操作履歴、紙のカードを除く', () => {
+    const session = toPublicSession(SESSION);
+
+    expect(session).not.toHaveProperty('_id');
+    expect(session).not.toHaveProperty('hostId');
+    expect(session).not.toHaveProperty('accessToken');
+    expect(session).not.toHaveProperty('claims');
+    expect(session).not.toHaveProperty('auditLog');
+    expect(session).not.toHaveProperty('paperCards');
+    expect(session).toMatchObject({ sessionId: 'ABC123', numbers: [1, 2], currentNumber: 2 });
+  });
+});
@@ -0,0 +1,16 @@
+// utils/publicSession.ts
+// 参加者・観戦者に渡すセッション（公開のセッション取得APIと、session-updated などの配信用）
+//
+// セッションドキュメントは誰でも取得・受信できるため、ホスト操作の認証に使う hostId・accessToken と、
+// ホストが確認する申告・操作履歴、会場で配る紙のカード（番号とシリアル）は含めない
+
+import type { GameSession, PublicGameSession } from '@/types';
+
+/**
+ * セッションドキュメントから公開してよい項目だけを取り出す
+ */
+export function toPublicSession(session: GameSession): PublicGameSession {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { _id, hostId, accessToken, claims, auditLog, paperCards, ...publicSession } = session;
+  return publicSession;
+}
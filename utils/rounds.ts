@@ -0,0 +1,164 @@
+// utils/rounds.ts
+// 複数ラウンドの記録と通算順位の集計
+
+import { GAME_CONSTANTS } from '@/types';
+import type { GameRules, GameSession, Player, PublicGameSession, RoundResult, RoundWinner, StandingEntry } from '@/types';
+import { resolvePatterns } from '@/utils/patterns';
+
+// 未設定時の順位ポイント（1位・2位・3位）
+export const DEFAULT_PLACEMENT_POINTS = [10, 5, 3];
+
+/**
+ * セッションのルールから順位ポイントを取得
+ */
+export function resolvePlacementPoints(rules?: Partial<GameRules> | null): number[] {
+  return rules?.placementPoints && rules.placementPoints.length > 0
+    ? rules.placementPoints
+    : DEFAULT_PLACEMENT_POINTS;
+}
+
+/**
+ * リクエストで受け取った順位ポイント指定を検証・正規化
+ *
+ * @returns 正規化済みのポイント、不正な場合はnull
+ */
+export function sanitizePlacementPoints(input: unknown): number[] | null {
+  if (input === undefined) return DEFAULT_PLACEMENT_POINTS;
+  if (!Array.isArray(input) || input.length === 0 || input.length > GAME_CONSTANTS.MAX_PLACEMENT_RANKS) {
+    return null;
+  }
+
+  const valid = input.every(points =>
+    typeof points === 'number' &&
+    Number.isInteger(points) &&
+    points >= 0 &&
+    points <= GAME_CONSTANTS.MAX_PLACEMENT_POINTS
+  );
+
+  return valid ? input : null;
+}
+
+/**
+ * 日時をISO文字列に変換（DBのDateとAPI経由の文字列の両方を受け付ける）
+ */
+function toISOString(value?: Date | string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
+/**
+ * 進行中のラウンド番号（1始まり）
+ */
+export function getCurrentRoundNumber(session: Pick<GameSession, 'rounds'>): number {
+  return (session.rounds?.length ?? 0) + 1;
+}
+
+/**
+ * 進行中のラウンドの入賞者（ビンゴした順）
+ */
+export function getRoundWinners(players: Player[], placementPoints: number[]): RoundWinner[] {
+  return players
+    .filter(p => p.bingoCount > 0 && p.bingoAchievedAt)
+    .sort((a, b) => new Date(a.bingoAchievedAt!).getTime() - new Date(b.bingoAchievedAt!).getTime())
+    .map((player, index) => ({
+      playerId: player.id,
+      playerName: player.name,
+      placement: index + 1,
+      bingoCount: player.bingoCount,
+      achievedAt: player.bingoAchievedAt!,
+      points: placementPoints[index] ?? 0
+    }));
+}
+
+/**
+ * 進行中のラウンドの記録を作成
+ *
+ * @param finishedAt ラウンドを終了する時刻（進行中として扱う場合は省略）
+ */
+export function buildRoundResult(session: PublicGameSession, finishedAt?: Date | string): RoundResult {
+  return {
+    roundNumber: getCurrentRoundNumber(session),
+    patterns: resolvePatterns(session.rules),
+    numbers: [...session.numbers],
+    winners: getRoundWinners(session.players, resolvePlacementPoints(session.rules)),
+    startedAt: toISOString(session.roundStartedAt ?? session.startedAt),
+    finishedAt: toISOString(finishedAt),
+    fairness: session.fairness,
+    prizeAwards: session.prizeAwards || []
+  };
+}
+
+/**
+ * 終了済みのラウンドと進行中（最終）のラウンドをまとめて取得
+ * 最終ラウンドはゲーム終了後もセッション本体に残るため、ここで記録に変換する
+ */
+export function getAllRounds(session: PublicGameSession): RoundResult[] {
+  const rounds = [...(session.rounds || [])];
+
+  if (session.numbers.length > 0) {
+    rounds.push(buildRoundResult(session, session.status === 'finished' ? session.finishedAt : undefined));
+  }
+
+  return rounds;
+}
+
+/**
+ * 全ラウンドの獲得ポイントを集計して通算順位を作成
+ * 途中で退出したプレイヤーも、入賞していればラウンドの記録から表示する
+ */
+export function calculateStandings(rounds: RoundResult[], players: Player[]): StandingEntry[] {
+  const entries = new Map<string, StandingEntry>();
+
+  const getEntry = (playerId: string, playerName: string) => {
+    let entry = entries.get(playerId);
+    if (!entry) {
+      entry = {
+        playerId,
+        playerName,
+        rank: 0,
+        totalPoints: 0,
+        wins: 0,
+        roundPoints: rounds.map(() => 0)
+      };
+      entries.set(playerId, entry);
+    }
+    return entry;
+  };
+
+  players.forEach(player => getEntry(player.id, player.name));
+
+  rounds.forEach((round, roundIndex) => {
+    round.winners.forEach(winner => {
+      const entry = getEntry(winner.playerId, winner.playerName);
+      entry.roundPoints[roundIndex] += winner.points;
+      entry.totalPoints += winner.points;
+      if (winner.placement === 1) entry.wins++;
+    });
+  });
+
+  const standings = [...entries.values()].sort((a, b) =>
+    b.totalPoints - a.totalPoints ||
+    b.wins - a.wins ||
+    a.playerName.localeCompare(b.playerName, 'ja')
+  );
+
+  // 同点（ポイントと1位回数が同じ）は同順位
+  standings.forEach((entry, index) => {
+    const prev = standings[index - 1];
+    entry.rank = prev && prev.totalPoints === entry.totalPoints && prev.wins === entry.wins
+      ? prev.rank
+      : index + 1;
+  });
+
+  return standings;
+}
+
+/**
+ * 入力テキストを順位ポイントの配列に変換（カンマ・読点・空白区切り）
+ * 数値でない項目はNaNのまま残し、検証で弾けるようにする
+ */
+export function parsePlacementPointsText(text: string): number[] {
+  return text
+    .split(/[,、\s]+/)
+    .filter(item => item !== '')
+    .map(item => Number(item));
+}
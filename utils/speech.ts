@@ -0,0 +1,105 @@
+// utils/speech.ts
+// 番号読み上げ（Web Speech API）の設定と読み上げる文の作成
+
+import { GAME_CONSTANTS } from '@/types';
+import type { GameType, SpeechLanguage, SpeechSettings } from '@/types';
+import { getBingoLetter } from '@/utils/gameUtils';
+import { getTermLabel } from '@/utils/terms';
+
+// 読み上げは端末ごとに明示的にオンにする
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  enabled: false,
+  language: 'ja',
+  rate: 1,
+  callStyle: 'repeat',
+  useNicknames: false
+};
+
+// 音声合成に指定する言語コード（英語の呼び名はイギリス英語が由来）
+export const SPEECH_LANG_CODES: Record<SpeechLanguage, string> = {
+  ja: 'ja-JP',
+  en: 'en-GB'
+};
+
+// 英語の伝統的な呼び名（1〜90）
+const TRADITIONAL_CALLS: Record<number, string> = {
+  1: "Kelly's eye", 2: 'One little duck', 3: 'Cup of tea', 4: 'Knock at the door', 5: 'Man alive',
+  6: 'Half a dozen', 7: 'Lucky seven', 8: 'Garden gate', 9: "Doctor's orders", 10: 'Cock and hen',
+  11: 'Legs eleven', 12: 'One dozen', 13: 'Unlucky for some', 14: "Valentine's Day", 15: 'Young and keen',
+  16: 'Sweet sixteen', 17: 'Dancing queen', 18: 'Coming of age', 19: 'Goodbye teens', 20: 'One score',
+  21: 'Key of the door', 22: 'Two little ducks', 23: 'Thee and me', 24: 'Two dozen', 25: 'Duck and dive',
+  26: 'Pick and mix', 27: 'Gateway to heaven', 28: 'Overweight', 29: 'Rise and shine', 30: 'Dirty Gertie',
+  31: 'Get up and run', 32: 'Buckle my shoe', 33: 'Dirty knee', 34: 'Ask for more', 35: 'Jump and jive',
+  36: 'Three dozen', 37: 'More than eleven', 38: 'Christmas cake', 39: 'Steps', 40: 'Naughty forty',
+  41: 'Time for fun', 42: 'Winnie the Pooh', 43: 'Down on your knees', 44: 'Droopy drawers', 45: 'Halfway there',
+  46: 'Up to tricks', 47: 'Four and seven', 48: 'Four dozen', 49: 'PC', 50: 'Half a century',
+  51: 'Tweak of the thumb', 52: 'Danny La Rue', 53: 'Stuck in the tree', 54: 'Clean the floor', 55: 'Snakes alive',
+  56: 'Was she worth it', 57: 'Heinz varieties', 58: 'Make them wait', 59: 'Brighton line', 60: 'Five dozen',
+  61: "Baker's bun", 62: 'Turn the screw', 63: 'Tickle me', 64: 'Red raw', 65: 'Old age pension',
+  66: 'Clickety click', 67: 'Stairway to heaven', 68: 'Saving grace', 69: 'Either way up', 70: 'Three score and ten',
+  71: 'Bang on the drum', 72: 'Six dozen', 73: 'Queen bee', 74: 'Candy store', 75: 'Strive and strive',
+  76: 'Trombones', 77: 'Sunset strip', 78: "Heaven's gate", 79: 'One more time', 80: 'Eight and blank',
+  81: 'Stop and run', 82: 'Straight on through', 83: 'Time for tea', 84: 'Seven dozen', 85: 'Staying alive',
+  86: 'Between the sticks', 87: 'Torquay in Devon', 88: 'Two fat ladies', 89: 'Nearly there', 90: 'Top of the shop'
+};
+
+/**
+ * 番号の伝統的な呼び名を取得（該当なしはnull）
+ */
+export function getTraditionalCall(number: number): string | null {
+  return TRADITIONAL_CALLS[number] ?? null;
+}
+
+/**
+ * 保存された設定を検証し、不正な項目はデフォルトに戻す
+ */
+export function sanitizeSpeechSettings(input: unknown): SpeechSettings {
+  const value = (input && typeof input === 'object' ? input : {}) as Partial<Record<keyof SpeechSettings, unknown>>;
+  const rate = typeof value.rate === 'number' && Number.isFinite(value.rate)
+    ? Math.min(GAME_CONSTANTS.SPEECH_MAX_RATE, Math.max(GAME_CONSTANTS.SPEECH_MIN_RATE, value.rate))
+    : DEFAULT_SPEECH_SETTINGS.rate;
+
+  return {
+    enabled: typeof value.enabled === 'boolean' ? value.enabled : DEFAULT_SPEECH_SETTINGS.enabled,
+    language: value.language === 'ja' || value.language === 'en' ? value.language : DEFAULT_SPEECH_SETTINGS.language,
+    rate,
+    callStyle: value.callStyle === 'simple' || value.callStyle === 'repeat' ? value.callStyle : DEFAULT_SPEECH_SETTINGS.callStyle,
+    useNicknames: typeof value.useNicknames === 'boolean' ? value.useNicknames : DEFAULT_SPEECH_SETTINGS.useNicknames
+  };
+}
+
+/**
+ * 抽選された番号の読み上げ文を作成
+ *
+ * 75ボールは「B… 12… B-12」のように文字と番号を読み、90ボールは番号のみ読む。
+ * 伝統的な呼び名は英語で読み上げる場合のみ添える（「two little ducks, 22」）。
+ * ワードビンゴは用語をそのまま読む
+ */
+export function buildCallText(
+  number: number,
+  settings: Pick<SpeechSettings, 'language' | 'callStyle' | 'useNicknames'>,
+  gameType: GameType = '75ball',
+  terms?: string[]
+): string {
+  if (gameType === 'words') {
+    return getTermLabel(terms, number);
+  }
+
+  const { language, callStyle, useNicknames } = settings;
+  const letter = getBingoLetter(number, gameType);
+  const separator = language === 'ja' ? '、' : '... ';
+
+  // 文字と番号をまとめて読む部分（日本語は「ビーの12」と読ませる）
+  const combined = letter
+    ? (language === 'ja' ? `${letter}の${number}` : `${letter} ${number}`)
+    : `${number}`;
+  const nickname = language === 'en' && useNicknames ? getTraditionalCall(number) : null;
+  const finalCall = nickname ? `${nickname}, ${combined}` : combined;
+
+  if (callStyle === 'simple') {
+    return finalCall;
+  }
+
+  const parts = letter ? [letter, `${number}`, finalCall] : [`${number}`, finalCall];
+  return parts.join(separator);
+}
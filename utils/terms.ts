@@ -0,0 +1,51 @@
+// utils/terms.ts
+// ワードビンゴ（バズワードビンゴ）の用語リストの整形と表示
+
+import { ErrorCode, GAME_CONSTANTS } from '@/types';
+import type { MessageParams } from '@/types';
+
+/**
+ * テキスト（入力欄やアップロードしたファイル）から用語の配列を取り出す
+ * 改行区切りを基本とし、1行にカンマ区切りで複数書いてもよい
+ */
+export function parseTermsText(text: string): string[] {
+  return text
+    .split(/\r?\n|,|、/)
+    .map(term => term.trim())
+    .filter(term => term.length > 0);
+}
+
+/**
+ * リクエストで受け取った用語リストを検証・正規化
+ * 前後の空白を除き、重複を取り除く
+ *
+ * @returns 正規化済みの用語、不正な場合はエラーコード
+ */
+export function sanitizeTerms(input: unknown): { terms: string[] } | { code: ErrorCode; params?: MessageParams } {
+  if (!Array.isArray(input) || input.some(term => typeof term !== 'string')) {
+    return { code: ErrorCode.INVALID_TERMS };
+  }
+
+  const terms = [...new Set((input as string[]).map(term => term.trim()).filter(Boolean))];
+
+  if (terms.length < GAME_CONSTANTS.MIN_TERMS) {
+    return { code: ErrorCode.TERMS_TOO_FEW, params: { min: GAME_CONSTANTS.MIN_TERMS, count: terms.length } };
+  }
+
+  if (terms.length > GAME_CONSTANTS.MAX_TERMS) {
+    return { code: ErrorCode.TERMS_TOO_MANY, params: { max: GAME_CONSTANTS.MAX_TERMS } };
+  }
+
+  if (terms.some(term => term.length > GAME_CONSTANTS.MAX_TERM_LENGTH)) {
+    return { code: ErrorCode.TERM_TOO_LONG, params: { max: GAME_CONSTANTS.MAX_TERM_LENGTH } };
+  }
+
+  return { terms };
+}
+
+/**
+ * カード・抽選で使うインデックス（1始まり）から用語を取得
+ */
+export function getTermLabel(terms: string[] | undefined, index: number): string {
+  return terms?.[index - 1] ?? String(index);
+}
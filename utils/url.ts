@@ -40,6 +40,17 @@ export function getBaseUrl(request?: Request | NextRequest): string {
   return 'http://localhost:3000';
 }
 
+/**
+ * 環境変数で設定したベースURLを取得（設定がなければnull）
+ * メールで送るログイン用リンクなど、リクエストのhostヘッダーを信用できないURLに使う
+ */
+export function getConfiguredBaseUrl(): string | null {
+  if (process.env.VERCEL_URL) {
+    return `https://${process.env.VERCEL_URL}`;
+  }
+  return process.env.NEXT_PUBLIC_BASE_URL || process.env.BASE_URL || null;
+}
+
 /**
  * クライアントサイドで使用可能なベースURLを取得
  * ※ サーバー専用の環境変数にはアクセスできないため、
@@ -84,6 +95,27 @@ export function createParticipationUrl(
   return url.toString();
 }
 
+/**
+ * 共同ホストの招待URLを生成
+ * @param baseUrl ベースURL
+ * @param sessionId セッションID
+ * @param accessToken アクセストークン
+ * @param inviteToken 招待のトークン（1回だけ使える）
+ * @returns 完全な招待URL
+ */
+export function createCoHostInviteUrl(
+  baseUrl: string,
+  sessionId: string,
+  accessToken: string,
+  inviteToken: string
+): string {
+  const url = new URL('/host/co-host', baseUrl);
+  url.searchParams.set('session', sessionId);
+  url.searchParams.set('token', accessToken);
+  url.searchParams.set('invite', inviteToken);
+  return url.toString();
+}
+
 /**
  * QRコード表示用のURLを生成
  * @param sessionId セッションID
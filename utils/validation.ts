@@ -7,17 +7,20 @@ import {
   AuthenticationData,
   GAME_CONSTANTS
 } from '@/types';
+import type { Locale } from '@/types';
+import { formatMessage, getMessages } from '@/utils/i18n';
 
 /**
  * セッション参加リクエストのバリデーション
  */
-export const validateJoinSessionRequest = (data: unknown): ValidationResult => {
+export const validateJoinSessionRequest = (data: unknown, locale?: Locale): ValidationResult => {
+  const messages = getMessages(locale).validation;
   const errors: string[] = [];
   
   if (!data || typeof data !== 'object') {
     return {
       isValid: false,
-      errors: ['無効なリクエストデータです'],
+      errors: [messages.invalidRequest],
       sanitized: null
     };
   }
@@ -26,20 +29,20 @@ export const validateJoinSessionRequest = (data: unknown): ValidationResult => {
   
   // アクセストークンの検証
   if (!request.accessToken || typeof request.accessToken !== 'string') {
-    errors.push('アクセストークンが必要です');
+    errors.push(messages.accessTokenRequired);
   } else if (request.accessToken.length !== GAME_CONSTANTS.ACCESS_TOKEN_LENGTH) {
-    errors.push('アクセストークンの形式が正しくありません');
+    errors.push(messages.accessTokenInvalid);
   }
 
   // プレイヤー名の検証
   if (!request.playerName || typeof request.playerName !== 'string') {
-    errors.push('プレイヤー名が必要です');
+    errors.push(messages.playerNameRequired);
   } else {
     const trimmedName = request.playerName.trim();
     if (trimmedName.length === 0) {
-      errors.push('プレイヤー名を入力してください');
+      errors.push(messages.playerNameEmpty);
     } else if (trimmedName.length > GAME_CONSTANTS.PLAYER_NAME_MAX_LENGTH) {
-      errors.push(`プレイヤー名は${GAME_CONSTANTS.PLAYER_NAME_MAX_LENGTH}文字以内で入力してください`);
+      errors.push(formatMessage(messages.playerNameTooLong, { max: GAME_CONSTANTS.PLAYER_NAME_MAX_LENGTH }));
     }
   }
 
@@ -58,13 +61,14 @@ export const validateJoinSessionRequest = (data: unknown): ValidationResult => {
 /**
  * 認証データのバリデーション
  */
-export const validateAuthenticationData = (data: unknown): ValidationResult => {
+export const validateAuthenticationData = (data: unknown, locale?: Locale): ValidationResult => {
+  const messages = getMessages(locale).validation;
   const errors: string[] = [];
   
   if (!data || typeof data !== 'object') {
     return {
       isValid: false,
-      errors: ['無効な認証データです'],
+      errors: [messages.invalidAuthData],
       sanitized: null
     };
   }
@@ -73,16 +77,16 @@ export const validateAuthenticationData = (data: unknown): ValidationResult => {
   
   // セッションIDの検証
   if (!authData.sessionId || typeof authData.sessionId !== 'string') {
-    errors.push('セッションIDが必要です');
+    errors.push(messages.sessionIdRequired);
   } else if (authData.sessionId.length !== GAME_CONSTANTS.SESSION_ID_LENGTH) {
-    errors.push('セッションIDの形式が正しくありません');
+    errors.push(messages.sessionIdInvalid);
   }
 
   // アクセストークンの検証
   if (!authData.accessToken || typeof authData.accessToken !== 'string') {
-    errors.push('アクセストークンが必要です');
+    errors.push(messages.accessTokenRequired);
   } else if (authData.accessToken.length !== GAME_CONSTANTS.ACCESS_TOKEN_LENGTH) {
-    errors.push('アクセストークンの形式が正しくありません');
+    errors.push(messages.accessTokenInvalid);
   }
 
   const sanitized: AuthenticationData = {